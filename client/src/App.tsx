@@ -5,7 +5,13 @@ import { Toaster } from "@/components/ui/toaster";
 import { TooltipProvider } from "@/components/ui/tooltip";
 import { ThemeProvider } from "@/components/ui/theme-provider";
 import { AuthProvider } from "@/hooks/use-auth";
+import { RealtimeProvider } from "@/hooks/use-realtime";
+import { CallProvider } from "@/hooks/use-calls";
+import { GroupCallProvider } from "@/hooks/use-group-call";
+import { CallWindow } from "@/components/chat/call-window";
+import { GroupCallWindow } from "@/components/chat/group-call-window";
 import AuthPage from "@/pages/auth-page";
+import JoinPage from "@/pages/join-page";
 import Dashboard from "@/pages/dashboard";
 import NotFound from "@/pages/not-found";
 import AdminDashboard from "@/pages/AdminDashboard";
@@ -17,6 +23,7 @@ function Router() {
       <Route path="/demo" component={ChatInterfacesDemo} />
       <Route path="/auth" component={AuthPage} />
       <Route path="/admin" component={AdminDashboard} />
+      <Route path="/join/:code" component={JoinPage} />
       <Route path="/" component={Dashboard} />
       <Route component={NotFound} />
     </Switch>
@@ -27,12 +34,20 @@ function App() {
   return (
     <QueryClientProvider client={queryClient}>
       <AuthProvider>
-        <ThemeProvider defaultTheme="light" storageKey="teleclone-theme">
-          <TooltipProvider>
-            <Toaster />
-            <Router />
-          </TooltipProvider>
-        </ThemeProvider>
+        <RealtimeProvider>
+          <CallProvider>
+            <GroupCallProvider>
+              <ThemeProvider defaultTheme="light" storageKey="teleclone-theme">
+                <TooltipProvider>
+                  <Toaster />
+                  <CallWindow />
+                  <GroupCallWindow />
+                  <Router />
+                </TooltipProvider>
+              </ThemeProvider>
+            </GroupCallProvider>
+          </CallProvider>
+        </RealtimeProvider>
       </AuthProvider>
     </QueryClientProvider>
   );
@@ -0,0 +1,195 @@
+import { useState } from 'react';
+import { useQuery } from '@tanstack/react-query';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Badge } from '@/components/ui/badge';
+import { Input } from '@/components/ui/input';
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { Download } from 'lucide-react';
+import { apiRequest } from '@/lib/queryClient';
+import { useToast } from '@/hooks/use-toast';
+import { format } from 'date-fns';
+import { moderationActionTypes, type ModerationActionType, type ModerationActionWithActor } from '@shared/schema';
+
+interface AuditLogTabProps {
+  // Admins and moderators to filter by
+  actors: { id: string; username: string }[];
+}
+
+const ANY = 'any';
+
+const ACTION_LABELS: Record<ModerationActionType, string> = {
+  'user.role_changed': 'Role changed',
+  'user.deleted': 'User deleted',
+  'user.banned': 'User banned',
+  'user.unbanned': 'User unbanned',
+  'user.restricted': 'User restricted',
+  'user.unrestricted': 'User unrestricted',
+  'chat.deleted': 'Chat deleted',
+  'chat.capacity_changed': 'Capacity changed',
+  'chat.moderator_assigned': 'Room moderator added',
+  'chat.moderator_removed': 'Room moderator removed',
+  'message.deleted': 'Message deleted',
+  'report.resolved': 'Report resolved',
+  'report.dismissed': 'Report dismissed',
+  'report.escalated': 'Report escalated',
+};
+
+// Lists the fields an action changed as "field: before → after"
+function describeChanges(entry: ModerationActionWithActor) {
+  const before = entry.before || {};
+  const after = entry.after || {};
+  if (!entry.after) return null;
+
+  return Object.keys(after)
+    .filter(key => JSON.stringify(before[key]) !== JSON.stringify(after[key]))
+    .map(key => `${key}: ${String(before[key] ?? '-')} → ${String(after[key] ?? '-')}`)
+    .join(', ');
+}
+
+// Every admin action, newest first, filterable and exportable as CSV
+export function AuditLogTab({ actors }: AuditLogTabProps) {
+  const [action, setAction] = useState<string>(ANY);
+  const [actorId, setActorId] = useState<string>(ANY);
+  const [targetId, setTargetId] = useState('');
+  const [from, setFrom] = useState('');
+  const [to, setTo] = useState('');
+  const [isExporting, setIsExporting] = useState(false);
+  const { toast } = useToast();
+
+  const params = new URLSearchParams();
+  if (action !== ANY) params.set('action', action);
+  if (actorId !== ANY) params.set('actorId', actorId);
+  // Ids are only sent once complete, so typing one doesn't fail validation
+  if (/^[0-9a-f-]{36}$/i.test(targetId.trim())) params.set('targetId', targetId.trim());
+  // Date inputs are calendar days in local time; `to` includes the whole day
+  if (from) params.set('from', new Date(`${from}T00:00:00`).toISOString());
+  if (to) params.set('to', new Date(`${to}T23:59:59.999`).toISOString());
+
+  const { data: entries, isLoading } = useQuery<ModerationActionWithActor[]>({
+    queryKey: ['/api/admin/audit-log', params.toString()],
+    queryFn: async () => {
+      const res = await apiRequest('GET', `/api/admin/audit-log?${params}`);
+      return res.json();
+    },
+    refetchInterval: 60000,
+  });
+
+  // The export needs the auth header, so it is fetched and saved rather than linked to
+  const handleExport = async () => {
+    setIsExporting(true);
+    try {
+      const res = await apiRequest('GET', `/api/admin/audit-log/export?${params}&limit=1000`);
+      const url = URL.createObjectURL(await res.blob());
+      const link = document.createElement('a');
+      link.href = url;
+      link.download = `audit-log-${format(new Date(), 'yyyy-MM-dd')}.csv`;
+      link.click();
+      URL.revokeObjectURL(url);
+    } catch (error) {
+      toast({ title: 'Error', description: 'Failed to export audit log', variant: 'destructive' });
+    } finally {
+      setIsExporting(false);
+    }
+  };
+
+  return (
+    <Card>
+      <CardHeader className="flex flex-row items-start justify-between space-y-0">
+        <div className="space-y-1.5">
+          <CardTitle>Audit Log</CardTitle>
+          <CardDescription>Who changed what, and why</CardDescription>
+        </div>
+        <Button variant="outline" size="sm" onClick={handleExport} disabled={isExporting} data-testid="button-export-audit-log">
+          <Download className="h-4 w-4 mr-2" />
+          Export CSV
+        </Button>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        <div className="grid grid-cols-1 md:grid-cols-5 gap-2">
+          <Select value={action} onValueChange={setAction}>
+            <SelectTrigger aria-label="Action" data-testid="select-audit-action">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              <SelectItem value={ANY}>All actions</SelectItem>
+              {moderationActionTypes.map(type => (
+                <SelectItem key={type} value={type}>{ACTION_LABELS[type]}</SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+          <Select value={actorId} onValueChange={setActorId}>
+            <SelectTrigger aria-label="Admin" data-testid="select-audit-actor">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              <SelectItem value={ANY}>All admins</SelectItem>
+              {actors.map(actor => (
+                <SelectItem key={actor.id} value={actor.id}>{actor.username}</SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+          <Input
+            placeholder="Target id"
+            value={targetId}
+            onChange={(e) => setTargetId(e.target.value)}
+            data-testid="input-audit-target"
+          />
+          <Input type="date" aria-label="From" value={from} onChange={(e) => setFrom(e.target.value)} />
+          <Input type="date" aria-label="To" value={to} onChange={(e) => setTo(e.target.value)} />
+        </div>
+
+        <div className="rounded-md border">
+          <Table>
+            <TableHeader>
+              <TableRow>
+                <TableHead>When</TableHead>
+                <TableHead>Admin</TableHead>
+                <TableHead>Action</TableHead>
+                <TableHead>Target</TableHead>
+                <TableHead>Reason</TableHead>
+                <TableHead>Changes</TableHead>
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {isLoading ? (
+                <TableRow>
+                  <TableCell colSpan={6} className="text-center text-sm text-gray-500">Loading audit log...</TableCell>
+                </TableRow>
+              ) : entries?.length === 0 ? (
+                <TableRow>
+                  <TableCell colSpan={6} className="text-center text-sm text-gray-500">No matching actions</TableCell>
+                </TableRow>
+              ) : entries?.map(entry => (
+                <TableRow key={entry.id} data-testid={`audit-entry-${entry.id}`}>
+                  <TableCell className="whitespace-nowrap">{format(new Date(entry.createdAt), 'MMM d, yyyy HH:mm')}</TableCell>
+                  <TableCell>{entry.actor?.username ?? (entry.actorId ? 'Deleted user' : 'System')}</TableCell>
+                  <TableCell>
+                    <Badge variant={entry.action.endsWith('deleted') || entry.action === 'user.banned' ? 'destructive' : 'secondary'}>
+                      {ACTION_LABELS[entry.action]}
+                    </Badge>
+                  </TableCell>
+                  <TableCell>
+                    <button
+                      type="button"
+                      className="font-mono text-xs text-blue-600 hover:underline"
+                      onClick={() => setTargetId(entry.targetId)}
+                      title="Show actions on this target"
+                    >
+                      {entry.targetType} {entry.targetId.slice(0, 8)}
+                    </button>
+                  </TableCell>
+                  <TableCell className="max-w-xs whitespace-pre-wrap break-words">{entry.reason || '-'}</TableCell>
+                  <TableCell className="max-w-xs text-xs text-gray-600 dark:text-gray-400 break-words">
+                    {describeChanges(entry) || '-'}
+                  </TableCell>
+                </TableRow>
+              ))}
+            </TableBody>
+          </Table>
+        </div>
+      </CardContent>
+    </Card>
+  );
+}
@@ -0,0 +1,306 @@
+import { useState } from 'react';
+import { useMutation, useQuery, useQueryClient } from '@tanstack/react-query';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Badge } from '@/components/ui/badge';
+import { Textarea } from '@/components/ui/textarea';
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { Dialog, DialogContent, DialogDescription, DialogFooter, DialogHeader, DialogTitle } from '@/components/ui/dialog';
+import { ArrowUpCircle, Check, Hand, Trash2, UserX, X } from 'lucide-react';
+import { apiRequest } from '@/lib/queryClient';
+import { useAuth } from '@/hooks/use-auth';
+import { useToast } from '@/hooks/use-toast';
+import { REPORT_CATEGORY_LABELS } from '@/components/chat/report-dialog';
+import { SanctionDurationSelect, toSanctionDuration } from './sanction-duration-select';
+import { formatDistanceToNow } from 'date-fns';
+import type { Capability, ReportQueueView, ReportWithDetails } from '@shared/schema';
+
+interface ReportQueueTabProps {
+  // What the viewer may do from the queue
+  capabilities: Capability[];
+}
+
+type ReviewAction = 'resolve' | 'dismiss' | 'escalate' | 'delete-message' | 'restrict-user';
+
+const REVIEW_ACTIONS: Record<ReviewAction, { title: string; description: string; confirm: string }> = {
+  'resolve': { title: 'Resolve report', description: 'Close the report as handled.', confirm: 'Resolve' },
+  'dismiss': { title: 'Dismiss report', description: 'Close the report without taking action.', confirm: 'Dismiss' },
+  'escalate': { title: 'Escalate report', description: 'Hand the report to an admin. Your claim on it is released.', confirm: 'Escalate' },
+  'delete-message': { title: 'Delete message', description: 'Delete the reported message for everyone and resolve the report.', confirm: 'Delete and resolve' },
+  'restrict-user': { title: 'Restrict user', description: 'Stop the reported user from posting and resolve the report.', confirm: 'Restrict and resolve' },
+};
+
+// The user a report is about: the reported user, or whoever sent the reported message
+function getReportedUser(report: ReportWithDetails) {
+  if (report.target?.type === 'message') return { id: report.target.sender.id, username: report.target.sender.username };
+  if (report.target?.type === 'user') return { id: report.targetId, username: report.target.username };
+  return undefined;
+}
+
+function describeTarget(report: ReportWithDetails) {
+  const target = report.target;
+  if (!target) return <span className="italic text-gray-500">No longer exists</span>;
+
+  if (target.type === 'message') {
+    return (
+      <div className="space-y-1">
+        <p className="text-xs text-gray-500">Message from @{target.sender.username}</p>
+        <p className="whitespace-pre-wrap break-words">
+          {target.deletedAt ? <span className="italic text-gray-500">Deleted</span> : target.content || `[${target.messageType}]`}
+        </p>
+      </div>
+    );
+  }
+  if (target.type === 'user') {
+    return (
+      <div className="flex items-center gap-2">
+        <span>@{target.username}</span>
+        {target.isBanned && <Badge variant="destructive">Banned</Badge>}
+        {target.isRestricted && <Badge variant="secondary">Restricted</Badge>}
+      </div>
+    );
+  }
+  return (
+    <span>
+      {target.name || 'Unnamed chat'}
+      <span className="ml-2 text-xs text-gray-500">{target.isGlobalRoom ? 'Room' : target.isGroup ? 'Group' : 'Direct chat'}</span>
+    </span>
+  );
+}
+
+// Reports from users, worked oldest first by moderators
+export function ReportQueueTab({ capabilities }: ReportQueueTabProps) {
+  const [view, setView] = useState<ReportQueueView>('active');
+  const [pending, setPending] = useState<{ report: ReportWithDetails; action: ReviewAction } | null>(null);
+  const [note, setNote] = useState('');
+  const [duration, setDuration] = useState('86400');
+  const { user } = useAuth();
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+
+  const { data: reports, isLoading } = useQuery<ReportWithDetails[]>({
+    queryKey: ['/api/admin/reports', view],
+    queryFn: async () => {
+      const res = await apiRequest('GET', `/api/admin/reports?view=${view}`);
+      return res.json();
+    },
+    refetchInterval: 30000,
+  });
+
+  const invalidateQueue = () => {
+    queryClient.invalidateQueries({ queryKey: ['/api/admin/reports'] });
+    queryClient.invalidateQueries({ queryKey: ['/api/admin/audit-log'] });
+  };
+
+  // Claims fail when another moderator got there first
+  const claimMutation = useMutation({
+    mutationFn: async (reportId: string) => {
+      return await apiRequest('POST', `/api/admin/reports/${reportId}/claim`);
+    },
+    onSettled: invalidateQueue,
+    onError: (error) => {
+      toast({
+        title: 'Error',
+        description: error.message.startsWith('409:') ? 'Someone else has already claimed this report' : 'Failed to claim report',
+        variant: 'destructive',
+      });
+    },
+  });
+
+  // Acting on the target first, so the report is only resolved once the action went through
+  const reviewMutation = useMutation({
+    mutationFn: async ({ report, action }: { report: ReportWithDetails; action: ReviewAction }) => {
+      const reason = note.trim() || undefined;
+      if (action === 'delete-message') {
+        await apiRequest('DELETE', `/api/admin/messages/${report.targetId}`, { reason });
+      } else if (action === 'restrict-user') {
+        await apiRequest('PATCH', `/api/admin/users/${getReportedUser(report)!.id}/restrict`, { reason, duration: toSanctionDuration(duration) });
+      }
+
+      const status = action === 'dismiss' || action === 'escalate' ? action : 'resolve';
+      return await apiRequest('POST', `/api/admin/reports/${report.id}/${status}`, { note: reason });
+    },
+    onSuccess: () => {
+      setPending(null);
+      toast({ title: 'Success', description: 'Report updated' });
+      queryClient.invalidateQueries({ queryKey: ['/api/admin/users'] });
+      queryClient.invalidateQueries({ queryKey: ['/api/admin/messages'] });
+    },
+    onSettled: invalidateQueue,
+    onError: () => {
+      toast({ title: 'Error', description: 'Failed to update report', variant: 'destructive' });
+    },
+  });
+
+  const openReview = (report: ReportWithDetails, action: ReviewAction) => {
+    setNote('');
+    setDuration('86400');
+    setPending({ report, action });
+  };
+
+  const renderActions = (report: ReportWithDetails) => {
+    if (report.status !== 'open' && report.status !== 'escalated') return null;
+    // Escalated reports wait for an admin
+    if (report.status === 'escalated' && !capabilities.includes('reports.handle_escalated')) return null;
+
+    const claimedByMe = report.claimedBy === user?.id;
+    if (report.claimedBy && !claimedByMe) return null;
+    if (!claimedByMe) {
+      return (
+        <Button
+          size="sm"
+          variant="outline"
+          className="h-8"
+          onClick={() => claimMutation.mutate(report.id)}
+          disabled={claimMutation.isPending}
+          data-testid={`button-claim-report-${report.id}`}
+        >
+          <Hand className="h-3 w-3 mr-1" />
+          Claim
+        </Button>
+      );
+    }
+
+    const reportedUser = getReportedUser(report);
+    return (
+      <div className="flex flex-wrap gap-1">
+        {report.target?.type === 'message' && !report.target.deletedAt && capabilities.includes('messages.delete') && (
+          <Button size="sm" variant="destructive" className="h-8" title="Delete message" onClick={() => openReview(report, 'delete-message')}>
+            <Trash2 className="h-3 w-3" />
+          </Button>
+        )}
+        {reportedUser && !(report.target?.type === 'user' && report.target.isRestricted) && capabilities.includes('users.restrict') && (
+          <Button size="sm" variant="outline" className="h-8" title={`Restrict @${reportedUser.username}`} onClick={() => openReview(report, 'restrict-user')}>
+            <UserX className="h-3 w-3" />
+          </Button>
+        )}
+        <Button size="sm" variant="outline" className="h-8" title="Resolve" onClick={() => openReview(report, 'resolve')} data-testid={`button-resolve-report-${report.id}`}>
+          <Check className="h-3 w-3" />
+        </Button>
+        <Button size="sm" variant="outline" className="h-8" title="Dismiss" onClick={() => openReview(report, 'dismiss')} data-testid={`button-dismiss-report-${report.id}`}>
+          <X className="h-3 w-3" />
+        </Button>
+        {report.status !== 'escalated' && (
+          <Button size="sm" variant="outline" className="h-8" title="Escalate to an admin" onClick={() => openReview(report, 'escalate')} data-testid={`button-escalate-report-${report.id}`}>
+            <ArrowUpCircle className="h-3 w-3" />
+          </Button>
+        )}
+      </div>
+    );
+  };
+
+  const renderStatus = (report: ReportWithDetails) => {
+    if (report.status === 'resolved' || report.status === 'dismissed') {
+      return (
+        <div className="space-y-1">
+          <Badge variant={report.status === 'resolved' ? 'default' : 'outline'}>{report.status}</Badge>
+          {report.resolutionNote && <p className="text-xs text-gray-500 break-words">{report.resolutionNote}</p>}
+        </div>
+      );
+    }
+    return (
+      <div className="space-y-1">
+        <Badge variant={report.status === 'escalated' ? 'destructive' : 'secondary'}>{report.status}</Badge>
+        {report.claimer && (
+          <p className="text-xs text-gray-500">
+            {report.claimer.id === user?.id ? 'Claimed by you' : `Claimed by ${report.claimer.username}`}
+          </p>
+        )}
+      </div>
+    );
+  };
+
+  const pendingAction = pending && REVIEW_ACTIONS[pending.action];
+
+  return (
+    <Card>
+      <CardHeader className="flex flex-row items-start justify-between space-y-0">
+        <div className="space-y-1.5">
+          <CardTitle>Reports</CardTitle>
+          <CardDescription>Claim a report to work on it, then resolve, dismiss or escalate it</CardDescription>
+        </div>
+        <Select value={view} onValueChange={(value) => setView(value as ReportQueueView)}>
+          <SelectTrigger className="w-40" aria-label="Reports to show" data-testid="select-report-view">
+            <SelectValue />
+          </SelectTrigger>
+          <SelectContent>
+            <SelectItem value="active">Open</SelectItem>
+            <SelectItem value="escalated">Escalated</SelectItem>
+            <SelectItem value="closed">Closed</SelectItem>
+          </SelectContent>
+        </Select>
+      </CardHeader>
+      <CardContent>
+        <div className="rounded-md border">
+          <Table>
+            <TableHeader>
+              <TableRow>
+                <TableHead>Reported</TableHead>
+                <TableHead>Reason</TableHead>
+                <TableHead>Target</TableHead>
+                <TableHead>Status</TableHead>
+                <TableHead>Actions</TableHead>
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {isLoading ? (
+                <TableRow>
+                  <TableCell colSpan={5} className="text-center text-sm text-gray-500">Loading reports...</TableCell>
+                </TableRow>
+              ) : reports?.length === 0 ? (
+                <TableRow>
+                  <TableCell colSpan={5} className="text-center text-sm text-gray-500">No reports here</TableCell>
+                </TableRow>
+              ) : reports?.map(report => (
+                <TableRow key={report.id} data-testid={`report-${report.id}`}>
+                  <TableCell className="whitespace-nowrap">
+                    <p>{formatDistanceToNow(new Date(report.createdAt), { addSuffix: true })}</p>
+                    <p className="text-xs text-gray-500">by {report.reporter ? `@${report.reporter.username}` : 'a deleted user'}</p>
+                  </TableCell>
+                  <TableCell className="max-w-xs">
+                    <Badge variant="outline">{REPORT_CATEGORY_LABELS[report.category]}</Badge>
+                    {report.details && <p className="mt-1 text-xs text-gray-600 dark:text-gray-400 whitespace-pre-wrap break-words">{report.details}</p>}
+                  </TableCell>
+                  <TableCell className="max-w-sm">{describeTarget(report)}</TableCell>
+                  <TableCell>{renderStatus(report)}</TableCell>
+                  <TableCell>{renderActions(report)}</TableCell>
+                </TableRow>
+              ))}
+            </TableBody>
+          </Table>
+        </div>
+      </CardContent>
+
+      <Dialog open={!!pending} onOpenChange={(open) => !open && setPending(null)}>
+        <DialogContent>
+          <DialogHeader>
+            <DialogTitle>{pendingAction?.title}</DialogTitle>
+            <DialogDescription>{pendingAction?.description}</DialogDescription>
+          </DialogHeader>
+          <div className="space-y-3">
+            <Textarea
+              placeholder="Note for the audit log (optional)"
+              value={note}
+              onChange={(e) => setNote(e.target.value)}
+              maxLength={500}
+              data-testid="input-report-note"
+            />
+            {pending?.action === 'restrict-user' && <SanctionDurationSelect value={duration} onChange={setDuration} />}
+          </div>
+          <DialogFooter>
+            <Button variant="outline" onClick={() => setPending(null)}>Cancel</Button>
+            <Button
+              variant={pending?.action === 'delete-message' || pending?.action === 'restrict-user' ? 'destructive' : 'default'}
+              onClick={() => pending && reviewMutation.mutate(pending)}
+              disabled={reviewMutation.isPending}
+              data-testid="button-confirm-report-review"
+            >
+              {pendingAction?.confirm}
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+    </Card>
+  );
+}
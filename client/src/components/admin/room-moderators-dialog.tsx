@@ -0,0 +1,103 @@
+import { useState } from 'react';
+import { useMutation, useQuery, useQueryClient } from '@tanstack/react-query';
+import { Button } from '@/components/ui/button';
+import { Avatar, AvatarFallback, AvatarImage } from '@/components/ui/avatar';
+import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle } from '@/components/ui/dialog';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { UserPlus, X } from 'lucide-react';
+import { apiRequest } from '@/lib/queryClient';
+import { useToast } from '@/hooks/use-toast';
+import type { RoomModerator } from '@shared/schema';
+
+interface RoomModeratorsDialogProps {
+  // The dialog is closed without one
+  room: { id: string; name?: string } | null;
+  onClose: () => void;
+  // Users who can be made moderators
+  candidates: { id: string; username: string }[];
+}
+
+// Who moderates a global room, with controls to add and remove them
+export function RoomModeratorsDialog({ room, onClose, candidates }: RoomModeratorsDialogProps) {
+  const [selectedUserId, setSelectedUserId] = useState('');
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+
+  const { data: moderators = [] } = useQuery<RoomModerator[]>({
+    queryKey: ['/api/admin/chats', room?.id, 'moderators'],
+    enabled: !!room,
+  });
+
+  const updateModeratorMutation = useMutation({
+    mutationFn: async ({ userId, assign }: { userId: string; assign: boolean }) => {
+      return await apiRequest(assign ? 'PUT' : 'DELETE', `/api/admin/chats/${room!.id}/moderators/${userId}`);
+    },
+    onSuccess: () => {
+      setSelectedUserId('');
+      queryClient.invalidateQueries({ queryKey: ['/api/admin/chats', room?.id, 'moderators'] });
+      queryClient.invalidateQueries({ queryKey: ['/api/admin/audit-log'] });
+    },
+    onError: () => {
+      toast({ title: 'Error', description: 'Failed to update room moderators', variant: 'destructive' });
+    },
+  });
+
+  const available = candidates.filter(candidate => !moderators.some(moderator => moderator.id === candidate.id));
+
+  return (
+    <Dialog open={!!room} onOpenChange={(open) => !open && onClose()}>
+      <DialogContent>
+        <DialogHeader>
+          <DialogTitle>Room Moderators</DialogTitle>
+          <DialogDescription>
+            Moderators of {room?.name || 'this room'} can work its reports and delete its messages from the admin dashboard.
+          </DialogDescription>
+        </DialogHeader>
+        <div className="space-y-4">
+          <div className="flex items-center space-x-2">
+            <Select value={selectedUserId} onValueChange={setSelectedUserId}>
+              <SelectTrigger aria-label="User" data-testid="select-room-moderator">
+                <SelectValue placeholder="Choose a user" />
+              </SelectTrigger>
+              <SelectContent>
+                {available.map(candidate => (
+                  <SelectItem key={candidate.id} value={candidate.id}>{candidate.username}</SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+            <Button
+              onClick={() => updateModeratorMutation.mutate({ userId: selectedUserId, assign: true })}
+              disabled={!selectedUserId || updateModeratorMutation.isPending}
+              data-testid="button-add-room-moderator"
+            >
+              <UserPlus className="h-4 w-4 mr-2" />
+              Add
+            </Button>
+          </div>
+
+          {moderators.length === 0 ? (
+            <p className="text-sm text-muted-foreground">This room has no moderators yet.</p>
+          ) : moderators.map(moderator => (
+            <div key={moderator.id} className="flex items-center space-x-3" data-testid={`room-moderator-${moderator.id}`}>
+              <Avatar className="w-8 h-8">
+                <AvatarImage src={moderator.profileImageUrl || undefined} />
+                <AvatarFallback className="text-xs">{moderator.username.slice(0, 2).toUpperCase()}</AvatarFallback>
+              </Avatar>
+              <span className="flex-1 text-sm font-medium truncate">{moderator.username}</span>
+              <Button
+                size="icon"
+                variant="ghost"
+                className="w-8 h-8 text-red-600"
+                title="Remove moderator"
+                onClick={() => updateModeratorMutation.mutate({ userId: moderator.id, assign: false })}
+                disabled={updateModeratorMutation.isPending}
+              >
+                <X className="w-4 h-4" />
+              </Button>
+            </div>
+          ))}
+        </div>
+      </DialogContent>
+    </Dialog>
+  );
+}
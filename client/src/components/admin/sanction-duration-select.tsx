@@ -0,0 +1,36 @@
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+
+// How long a ban or restriction lasts, in seconds; "permanent" lasts until it's lifted by hand
+const SANCTION_DURATIONS = [
+  { value: "3600", label: "For 1 hour" },
+  { value: "86400", label: "For 1 day" },
+  { value: "604800", label: "For 7 days" },
+  { value: "2592000", label: "For 30 days" },
+  { value: "permanent", label: "Until lifted" },
+];
+
+export function toSanctionDuration(value: string) {
+  return value === "permanent" ? undefined : Number(value);
+}
+
+interface SanctionDurationSelectProps {
+  value: string;
+  onChange: (value: string) => void;
+}
+
+export function SanctionDurationSelect({ value, onChange }: SanctionDurationSelectProps) {
+  return (
+    <Select value={value} onValueChange={onChange}>
+      <SelectTrigger aria-label="Duration" data-testid="select-sanction-duration">
+        <SelectValue />
+      </SelectTrigger>
+      <SelectContent>
+        {SANCTION_DURATIONS.map(option => (
+          <SelectItem key={option.value} value={option.value}>
+            {option.label}
+          </SelectItem>
+        ))}
+      </SelectContent>
+    </Select>
+  );
+}
@@ -0,0 +1,32 @@
+import { useEffect, useRef } from "react";
+import { decode } from "blurhash";
+
+// Decoding at a tiny size and letting CSS scale it up keeps this cheap
+const DECODE_SIZE = 32;
+
+interface BlurhashPlaceholderProps {
+  hash: string;
+  className?: string;
+}
+
+// Blurry preview of an image, shown while the real thing loads
+export function BlurhashPlaceholder({ hash, className }: BlurhashPlaceholderProps) {
+  const canvasRef = useRef<HTMLCanvasElement>(null);
+
+  useEffect(() => {
+    const context = canvasRef.current?.getContext("2d");
+    if (!context) return;
+
+    try {
+      const pixels = decode(hash, DECODE_SIZE, DECODE_SIZE);
+      const imageData = context.createImageData(DECODE_SIZE, DECODE_SIZE);
+      imageData.data.set(pixels);
+      context.putImageData(imageData, 0, 0);
+    } catch (error) {
+      // A malformed hash just leaves the placeholder blank
+      console.error("Invalid blurhash:", error);
+    }
+  }, [hash]);
+
+  return <canvas ref={canvasRef} width={DECODE_SIZE} height={DECODE_SIZE} className={className} aria-hidden="true" />;
+}
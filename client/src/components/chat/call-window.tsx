@@ -0,0 +1,179 @@
+import { useEffect, useRef, useState } from "react";
+import { Button } from "@/components/ui/button";
+import { Avatar, AvatarFallback, AvatarImage } from "@/components/ui/avatar";
+import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import { Phone, Video, PhoneOff, VideoOff, Mic, MicOff } from "lucide-react";
+import { useCalls, type CallSession } from "@/hooks/use-calls";
+import { formatDuration } from "@/lib/audio";
+
+export function StreamVideo({ stream, muted, className }: { stream: MediaStream | null; muted?: boolean; className?: string }) {
+  const videoRef = useRef<HTMLVideoElement>(null);
+
+  useEffect(() => {
+    if (videoRef.current) videoRef.current.srcObject = stream;
+  }, [stream]);
+
+  return <video ref={videoRef} autoPlay playsInline muted={muted} className={className} />;
+}
+
+export function StreamAudio({ stream }: { stream: MediaStream | null }) {
+  const audioRef = useRef<HTMLAudioElement>(null);
+
+  useEffect(() => {
+    if (audioRef.current) audioRef.current.srcObject = stream;
+  }, [stream]);
+
+  return <audio ref={audioRef} autoPlay />;
+}
+
+function useCallTimer(connectedAt?: number) {
+  const [now, setNow] = useState(Date.now());
+
+  useEffect(() => {
+    if (!connectedAt) return;
+    const interval = setInterval(() => setNow(Date.now()), 1000);
+    return () => clearInterval(interval);
+  }, [connectedAt]);
+
+  return connectedAt ? Math.max(0, Math.floor((now - connectedAt) / 1000)) : 0;
+}
+
+function getStatusText(call: CallSession, elapsed: number) {
+  switch (call.status) {
+    case "outgoing":
+      return "Calling...";
+    case "ringing":
+      return "Ringing...";
+    case "incoming":
+      return `Incoming ${call.media} call`;
+    case "connecting":
+      return "Connecting...";
+    case "connected":
+      return formatDuration(elapsed);
+  }
+}
+
+// The active or incoming call, shown over whatever screen the user is on
+export function CallWindow() {
+  const {
+    call,
+    localStream,
+    remoteStream,
+    isMuted,
+    isCameraOff,
+    acceptCall,
+    declineCall,
+    endCall,
+    toggleMute,
+    toggleCamera,
+  } = useCalls();
+  const elapsed = useCallTimer(call?.connectedAt);
+
+  if (!call) return null;
+
+  const isVideoCall = call.media === "video";
+  const isIncoming = call.status === "incoming";
+  const initials = call.peer.displayName.slice(0, 2).toUpperCase();
+
+  return (
+    <Dialog open onOpenChange={(open) => !open && (isIncoming ? declineCall() : endCall())}>
+      <DialogContent className="sm:max-w-md" onPointerDownOutside={(e) => e.preventDefault()}>
+        <DialogHeader>
+          <DialogTitle className="text-center">
+            {isVideoCall ? 'Video Call' : 'Audio Call'} with {call.peer.displayName}
+          </DialogTitle>
+          <DialogDescription className="text-center" data-testid="text-call-status">
+            {getStatusText(call, elapsed)}
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="flex flex-col items-center space-y-4 p-2">
+          {isVideoCall && !isIncoming ? (
+            <div className="relative w-full aspect-video bg-gray-900 rounded-lg overflow-hidden">
+              {remoteStream ? (
+                <StreamVideo stream={remoteStream} className="w-full h-full object-cover" />
+              ) : (
+                <div className="w-full h-full flex items-center justify-center">
+                  <Video className="w-16 h-16 text-gray-500" />
+                </div>
+              )}
+              <StreamVideo
+                stream={localStream}
+                muted
+                className={`absolute bottom-2 right-2 w-1/4 aspect-video object-cover rounded-md border border-white/30 bg-gray-800 ${
+                  isCameraOff ? 'invisible' : ''
+                }`}
+              />
+            </div>
+          ) : (
+            <Avatar className={`w-24 h-24 ${call.status === 'connected' ? '' : 'animate-pulse'}`}>
+              <AvatarImage src={call.peer.profileImageUrl || undefined} />
+              <AvatarFallback className="text-2xl bg-gradient-to-r from-green-400 to-blue-500 text-white">
+                {initials}
+              </AvatarFallback>
+            </Avatar>
+          )}
+
+          {/* Video calls play remote audio through the video element */}
+          {!isVideoCall && <StreamAudio stream={remoteStream} />}
+
+          {isIncoming ? (
+            <div className="flex items-center space-x-8">
+              <Button
+                size="lg"
+                variant="destructive"
+                className="rounded-full p-4 bg-red-500 hover:bg-red-600"
+                onClick={declineCall}
+                data-testid="button-decline-call"
+              >
+                <PhoneOff className="w-6 h-6" />
+              </Button>
+              <Button
+                size="lg"
+                className="rounded-full p-4 bg-green-500 hover:bg-green-600 text-white"
+                onClick={acceptCall}
+                data-testid="button-accept-call"
+              >
+                {isVideoCall ? <Video className="w-6 h-6" /> : <Phone className="w-6 h-6" />}
+              </Button>
+            </div>
+          ) : (
+            <div className="flex items-center space-x-4">
+              <Button
+                size="lg"
+                variant={isMuted ? "destructive" : "secondary"}
+                className="rounded-full p-4"
+                onClick={toggleMute}
+                data-testid="button-toggle-mute"
+              >
+                {isMuted ? <MicOff className="w-6 h-6" /> : <Mic className="w-6 h-6" />}
+              </Button>
+
+              {isVideoCall && (
+                <Button
+                  size="lg"
+                  variant={isCameraOff ? "destructive" : "secondary"}
+                  className="rounded-full p-4"
+                  onClick={toggleCamera}
+                  data-testid="button-toggle-video"
+                >
+                  {isCameraOff ? <VideoOff className="w-6 h-6" /> : <Video className="w-6 h-6" />}
+                </Button>
+              )}
+
+              <Button
+                size="lg"
+                variant="destructive"
+                className="rounded-full p-4 bg-red-500 hover:bg-red-600"
+                onClick={endCall}
+                data-testid="button-end-call"
+              >
+                <PhoneOff className="w-6 h-6" />
+              </Button>
+            </div>
+          )}
+        </div>
+      </DialogContent>
+    </Dialog>
+  );
+}
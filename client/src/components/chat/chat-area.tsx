@@ -8,6 +8,7 @@ import { MessageBubble } from "./message-bubble";
 import { Phone, Video, MoreVertical, Paperclip, Smile, Send } from "lucide-react";
 import { apiRequest } from "@/lib/queryClient";
 import { useToast } from "@/hooks/use-toast";
+import { useReactions } from "@/hooks/use-reactions";
 import { isUnauthorizedError } from "@/lib/authUtils";
 import type { ChatWithParticipants, MessageWithSender, User } from "@shared/schema";
 
@@ -23,6 +24,7 @@ export function ChatArea({ selectedChatId, currentUser }: ChatAreaProps) {
   const scrollAreaRef = useRef<HTMLDivElement>(null);
   const { toast } = useToast();
   const queryClient = useQueryClient();
+  const { toggleReaction } = useReactions(selectedChatId);
 
   const { data: chat, isLoading: chatLoading } = useQuery<ChatWithParticipants>({
     queryKey: ["/api/chats", selectedChatId],
@@ -32,7 +34,6 @@ export function ChatArea({ selectedChatId, currentUser }: ChatAreaProps) {
   const { data: messages = [], isLoading: messagesLoading } = useQuery<MessageWithSender[]>({
     queryKey: ["/api/chats", selectedChatId, "messages"],
     enabled: !!selectedChatId,
-    refetchInterval: 2000, // Poll for new messages every 2 seconds
   });
 
   const sendMessageMutation = useMutation({
@@ -244,6 +245,8 @@ export function ChatArea({ selectedChatId, currentUser }: ChatAreaProps) {
                   message={message}
                   currentUser={currentUser}
                   showAvatar={showAvatar}
+                  participants={chat?.participantDetails}
+                  onToggleReaction={(emoji, reacted) => toggleReaction(message.id, emoji, reacted)}
                 />
               );
             })
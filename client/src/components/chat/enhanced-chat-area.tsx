@@ -1,10 +1,25 @@
-import { useState, useRef, useEffect } from "react";
+import { useState, useRef, useEffect, useLayoutEffect } from "react";
 import { Button } from "@/components/ui/button";
 import { Input } from "@/components/ui/input";
 import { ScrollArea } from "@/components/ui/scroll-area";
 import { Avatar, AvatarFallback, AvatarImage } from "@/components/ui/avatar";
 import { Badge } from "@/components/ui/badge";
 import { Separator } from "@/components/ui/separator";
+import {
+  AlertDialog,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+} from "@/components/ui/alert-dialog";
+import {
+  DropdownMenu,
+  DropdownMenuContent,
+  DropdownMenuItem,
+  DropdownMenuTrigger,
+} from "@/components/ui/dropdown-menu";
 import { 
   Send, 
   Paperclip, 
@@ -23,32 +38,122 @@ import {
   Settings,
   MessageSquarePlus,
   Search,
-  Globe
+  Globe,
+  Reply,
+  MessageSquareText,
+  X,
+  Trash2,
+  Flag
 } from "lucide-react";
 import { useQuery, useMutation, useQueryClient } from "@tanstack/react-query";
 import { useToast } from "@/hooks/use-toast";
 import { apiRequest } from "@/lib/queryClient";
+import { uploadFile } from "@/lib/uploads";
+import { formatDuration, getAudioFileExtension } from "@/lib/audio";
+import { useVoiceRecorder } from "@/hooks/use-voice-recorder";
+import { useCalls } from "@/hooks/use-calls";
+import { useReactions } from "@/hooks/use-reactions";
+import { useLongPress } from "@/hooks/use-long-press";
+import { useGroupCall } from "@/hooks/use-group-call";
 import { isUnauthorizedError } from "@/lib/authUtils";
+import { useRealtime, formatTypingUsers, TYPING_TIMEOUT } from "@/hooks/use-realtime";
 import { MultimediaMessage } from "./multimedia-message";
+import { MessageStatus, MessageReactions, ReplyQuote, EditedLabel, MessageTombstone } from "./message-bubble";
 import { CallControls } from "./call-controls";
-import type { MessageWithSender, ChatWithParticipants, User } from "@shared/schema";
+import { MessageSearchDialog } from "./message-search-dialog";
+import { ThreadPanel } from "./thread-panel";
+import { GroupSettingsPanel } from "./group-settings-panel";
+import { ReportDialog, type ReportTarget } from "./report-dialog";
+import type {
+  MessageWithSender,
+  ChatWithParticipants,
+  UserProfile,
+  AttachmentKind,
+  GroupCallSummary,
+  MessageSearchResult,
+  DeleteMessageScope,
+} from "@shared/schema";
 import { formatDistanceToNow } from "date-fns";
 
 interface EnhancedChatAreaProps {
   chatId: string;
-  currentUser: User | null;
+  currentUser: UserProfile | null;
   onOpenMobileMenu?: () => void;
   isMobileSidebarOpen?: boolean;
+  // A message to scroll to once the chat has loaded, e.g. a search result
+  focusMessageId?: string;
+  onMessageFocused?: () => void;
+  // Opens a message in another chat
+  onOpenMessage?: (chatId: string, messageId: string) => void;
+  // Called after the current user leaves the open group
+  onLeaveChat?: () => void;
 }
 
-export function EnhancedChatArea({ chatId, currentUser, onOpenMobileMenu, isMobileSidebarOpen }: EnhancedChatAreaProps) {
+// Messages fetched per history page, matching the server default
+const MESSAGE_PAGE_SIZE = 50;
+
+// Start loading older messages when scrolled this close to the top
+const LOAD_HISTORY_THRESHOLD = 120;
+
+// How many history pages to load looking for a message to jump to
+const MAX_JUMP_PAGES = 20;
+// How long a message that was jumped to stays highlighted, in milliseconds
+const JUMP_HIGHLIGHT_DURATION = 2000;
+
+// Shorter recordings are almost always accidental taps
+const MIN_VOICE_NOTE_DURATION = 1;
+
+async function fetchMessagePage(chatId: string, before?: string): Promise<MessageWithSender[]> {
+  const params = new URLSearchParams({ limit: String(MESSAGE_PAGE_SIZE) });
+  if (before) params.set('before', before);
+
+  const res = await apiRequest('GET', `/api/chats/${chatId}/messages?${params}`);
+  return res.json();
+}
+
+export function EnhancedChatArea({
+  chatId,
+  currentUser,
+  onOpenMobileMenu,
+  isMobileSidebarOpen,
+  focusMessageId,
+  onMessageFocused,
+  onOpenMessage,
+  onLeaveChat,
+}: EnhancedChatAreaProps) {
   const [message, setMessage] = useState("");
   const [isTyping, setIsTyping] = useState(false);
   const [editingMessageId, setEditingMessageId] = useState<string | null>(null);
   const [editingContent, setEditingContent] = useState("");
   const messagesEndRef = useRef<HTMLDivElement>(null);
+  const scrollAreaRef = useRef<HTMLDivElement>(null);
+  const lastMessageIdRef = useRef<string>();
+  // Distance from the bottom of the scroll content, saved before older messages are prepended
+  const restoreScrollRef = useRef<number | null>(null);
+  const [isLoadingHistory, setIsLoadingHistory] = useState(false);
+  const [historyExhausted, setHistoryExhausted] = useState<Record<string, boolean>>({});
+  const [isSearchOpen, setIsSearchOpen] = useState(false);
+  const [highlightedMessageId, setHighlightedMessageId] = useState<string | null>(null);
+  // Set when a jumped-to message still has to be scrolled into view
+  const scrollToMessageRef = useRef<string | null>(null);
+  const [reactionPickerFor, setReactionPickerFor] = useState<string | null>(null);
+  const { toggleReaction } = useReactions(chatId);
+  const reactionLongPress = useLongPress((messageId: string) => setReactionPickerFor(messageId));
+  const [replyingTo, setReplyingTo] = useState<MessageWithSender | null>(null);
+  const [openThreadId, setOpenThreadId] = useState<string | null>(null);
+  // A thread reply to bring into view once its thread is open
+  const [threadFocusId, setThreadFocusId] = useState<string | null>(null);
+  const [deletingMessage, setDeletingMessage] = useState<MessageWithSender | null>(null);
+  const [isGroupSettingsOpen, setIsGroupSettingsOpen] = useState(false);
+  const [reportTarget, setReportTarget] = useState<ReportTarget | null>(null);
   const queryClient = useQueryClient();
   const { toast } = useToast();
+  const { typingUsers, sendTyping } = useRealtime();
+  const lastTypingSentRef = useRef(0);
+  const fileInputRef = useRef<HTMLInputElement>(null);
+  const voiceRecorder = useVoiceRecorder();
+  const imageInputRef = useRef<HTMLInputElement>(null);
+  const chatTypingUsers = typingUsers[chatId] || [];
 
   // If no user, don't render the component
   if (!currentUser) {
@@ -67,19 +172,108 @@ export function EnhancedChatArea({ chatId, currentUser, onOpenMobileMenu, isMobi
     enabled: !!chatId,
   });
 
-  // Fetch messages
-  const { data: messages = [], isLoading: messagesLoading, refetch } = useQuery<MessageWithSender[]>({
+  // Fetch messages. Refetches only reload the latest page, so history that was
+  // already scrolled back to is kept in front of it.
+  const { data: messages = [], isLoading: messagesLoading } = useQuery<MessageWithSender[]>({
     queryKey: ['/api/chats', chatId, 'messages'],
+    queryFn: async () => {
+      const latest = await fetchMessagePage(chatId);
+      const cached = queryClient.getQueryData<MessageWithSender[]>(['/api/chats', chatId, 'messages']) || [];
+      const oldestLatest = latest[0];
+      const history = oldestLatest
+        ? cached.filter(m => new Date(m.createdAt!) < new Date(oldestLatest.createdAt!))
+        : [];
+      return [...history, ...latest];
+    },
     enabled: !!chatId,
   });
 
+  // Group chats and global rooms have group calls; the server pushes changes to this
+  const hasGroupCalls = !!(chat?.isGroup || chat?.isGlobalRoom);
+  const { data: ongoingCall } = useQuery<GroupCallSummary | null>({
+    queryKey: ['/api/chats', chatId, 'call'],
+    enabled: !!chatId && hasGroupCalls,
+  });
+  // How long we can delete our own messages for everyone, in seconds
+  const { data: deletionSettings } = useQuery<{ deleteForEveryoneWindow: number }>({
+    queryKey: ['/api/messages/deletion-settings'],
+    staleTime: Infinity,
+  });
+
+  const { call: directCall } = useCalls();
+  const { groupCall, joinGroupCall } = useGroupCall();
+
+  const hasMoreHistory = !historyExhausted[chatId] && messages.length >= MESSAGE_PAGE_SIZE;
+
+  const getScrollViewport = () =>
+    scrollAreaRef.current?.querySelector<HTMLDivElement>('[data-radix-scroll-area-viewport]') ?? null;
+
+  const loadOlderMessages = async () => {
+    const viewport = getScrollViewport();
+    const oldest = messages[0];
+    if (!viewport || !oldest || isLoadingHistory || !hasMoreHistory) return;
+
+    setIsLoadingHistory(true);
+    try {
+      const older = await fetchMessagePage(chatId, oldest.id);
+      if (older.length < MESSAGE_PAGE_SIZE) {
+        setHistoryExhausted(current => ({ ...current, [chatId]: true }));
+      }
+      if (older.length > 0) {
+        restoreScrollRef.current = viewport.scrollHeight - viewport.scrollTop;
+        queryClient.setQueryData<MessageWithSender[]>(['/api/chats', chatId, 'messages'], (current = []) => {
+          const known = new Set(current.map(m => m.id));
+          return [...older.filter(m => !known.has(m.id)), ...current];
+        });
+      }
+    } catch (error) {
+      toast({
+        title: "Error",
+        description: "Failed to load older messages",
+        variant: "destructive",
+      });
+    } finally {
+      setIsLoadingHistory(false);
+    }
+  };
+
+  useEffect(() => {
+    const viewport = getScrollViewport();
+    if (!viewport) return;
+
+    const handleScroll = () => {
+      if (viewport.scrollTop < LOAD_HISTORY_THRESHOLD) {
+        loadOlderMessages();
+      }
+    };
+
+    viewport.addEventListener('scroll', handleScroll);
+    return () => viewport.removeEventListener('scroll', handleScroll);
+  });
+
+  // Keep the messages that were on screen in place after older ones are prepended
+  useLayoutEffect(() => {
+    const viewport = getScrollViewport();
+    if (restoreScrollRef.current === null || !viewport) return;
+
+    viewport.scrollTop = viewport.scrollHeight - restoreScrollRef.current;
+    restoreScrollRef.current = null;
+  }, [messages]);
+
   // Send message mutation
   const sendMessageMutation = useMutation({
-    mutationFn: async ({ content, messageType = 'text' }: { content: string; messageType?: string }) => {
-      return await apiRequest(`/api/chats/${chatId}/messages`, 'POST', { content, messageType });
+    mutationFn: async ({ content, messageType = 'text', attachmentId, replyToId }: {
+      content?: string;
+      messageType?: string;
+      attachmentId?: string;
+      replyToId?: string;
+    }) => {
+      return await apiRequest('POST', `/api/chats/${chatId}/messages`, { content, messageType, attachmentId, replyToId });
     },
-    onSuccess: () => {
-      setMessage("");
+    onSuccess: (_data, variables) => {
+      // Attachments are sent on their own, so keep whatever is being typed
+      if (!variables.attachmentId) setMessage("");
+      if (variables.replyToId) setReplyingTo(null);
       queryClient.invalidateQueries({ queryKey: ['/api/chats', chatId, 'messages'] });
       queryClient.invalidateQueries({ queryKey: ['/api/chats'] });
     },
@@ -103,18 +297,116 @@ export function EnhancedChatArea({ chatId, currentUser, onOpenMobileMenu, isMobi
     },
   });
 
+  const uploadMutation = useMutation({
+    mutationFn: async ({ file, fileName, kind, fields }: {
+      file: Blob;
+      fileName: string;
+      kind?: AttachmentKind;
+      fields?: Record<string, string>;
+    }) => {
+      const attachment = await uploadFile(file, fileName, kind, fields);
+      await sendMessageMutation.mutateAsync({ messageType: attachment.kind, attachmentId: attachment.id });
+    },
+    onError: (error) => {
+      toast({
+        title: "Upload failed",
+        description: error instanceof Error ? error.message.replace(/^\d+: /, "") : "Failed to upload file",
+        variant: "destructive",
+      });
+    },
+  });
+
+  const handleFileSelected = (e: React.ChangeEvent<HTMLInputElement>, kind?: AttachmentKind) => {
+    const file = e.target.files?.[0];
+    // Reset so picking the same file again still fires a change
+    e.target.value = "";
+    if (file) uploadMutation.mutate({ file, fileName: file.name, kind });
+  };
+
+  // Hold-to-record voice notes: press to start, release to send, slide off the button to cancel
+  const startRecording = async (e: React.PointerEvent) => {
+    if (e.button !== 0 || uploadMutation.isPending) return;
+    try {
+      await voiceRecorder.start();
+    } catch (error) {
+      toast({
+        title: "Can't record",
+        description: error instanceof Error && error.name !== "NotAllowedError"
+          ? error.message
+          : "Allow microphone access to record voice notes",
+        variant: "destructive",
+      });
+    }
+  };
+
+  const finishRecording = async () => {
+    const recording = await voiceRecorder.stop();
+    if (!recording) return;
+
+    if (recording.duration < MIN_VOICE_NOTE_DURATION) {
+      toast({ description: "Hold the microphone button to record a voice note" });
+      return;
+    }
+
+    uploadMutation.mutate({
+      file: recording.blob,
+      fileName: `voice-note-${Date.now()}.${getAudioFileExtension(recording.mimeType)}`,
+      kind: 'voice_note',
+      fields: {
+        duration: String(recording.duration),
+        ...(recording.waveform ? { waveform: JSON.stringify(recording.waveform) } : {}),
+      },
+    });
+  };
+
+  const voiceNoteButtonProps = {
+    onPointerDown: startRecording,
+    onPointerUp: finishRecording,
+    onPointerLeave: () => voiceRecorder.cancel(),
+    onContextMenu: (e: React.MouseEvent) => e.preventDefault(),
+    disabled: uploadMutation.isPending,
+    title: "Hold to record a voice note",
+  };
+
+  // Let other participants know we're composing, refreshing before their indicator expires
+  const handleMessageChange = (value: string) => {
+    setMessage(value);
+    if (!chatId || editingMessageId) return;
+
+    const now = Date.now();
+    if (value.trim() && now - lastTypingSentRef.current > TYPING_TIMEOUT / 2) {
+      sendTyping(chatId, true);
+      lastTypingSentRef.current = now;
+    } else if (!value.trim()) {
+      stopTyping();
+    }
+  };
+
+  const stopTyping = () => {
+    if (!lastTypingSentRef.current) return;
+    sendTyping(chatId, false);
+    lastTypingSentRef.current = 0;
+  };
+
   const handleSendMessage = (e: React.FormEvent) => {
     e.preventDefault();
     if (!message.trim()) return;
+    stopTyping();
     
     if (editingMessageId) {
       handleUpdateMessage(editingMessageId, message.trim());
     } else {
-      sendMessageMutation.mutate({ content: message.trim() });
+      sendMessageMutation.mutate({ content: message.trim(), replyToId: replyingTo?.id });
     }
   };
 
+  const handleReplyToMessage = (msg: MessageWithSender) => {
+    if (editingMessageId) handleCancelEdit();
+    setReplyingTo(msg);
+  };
+
   const handleEditMessage = (messageId: string, content: string) => {
+    setReplyingTo(null);
     setEditingMessageId(messageId);
     setEditingContent(content);
     setMessage(content);
@@ -122,7 +414,7 @@ export function EnhancedChatArea({ chatId, currentUser, onOpenMobileMenu, isMobi
 
   const handleUpdateMessage = async (messageId: string, content: string) => {
     try {
-      await apiRequest(`/api/messages/${messageId}`, 'PUT', { content });
+      await apiRequest('PUT', `/api/messages/${messageId}`, { content });
       setEditingMessageId(null);
       setEditingContent("");
       setMessage("");
@@ -140,15 +432,20 @@ export function EnhancedChatArea({ chatId, currentUser, onOpenMobileMenu, isMobi
     }
   };
 
-  const handleDeleteMessage = async (messageId: string) => {
-    if (!confirm("Are you sure you want to delete this message?")) return;
-    
+  const canDeleteForEveryone = (msg: MessageWithSender) =>
+    msg.senderId === currentUser.id && !msg.deletedAt && !!deletionSettings &&
+    Date.now() - new Date(msg.createdAt!).getTime() <= deletionSettings.deleteForEveryoneWindow * 1000;
+
+  const handleDeleteMessage = async (messageId: string, scope: DeleteMessageScope) => {
+    setDeletingMessage(null);
     try {
-      await apiRequest(`/api/messages/${messageId}`, 'DELETE');
+      await apiRequest('DELETE', `/api/messages/${messageId}?scope=${scope}`);
+      if (replyingTo?.id === messageId) setReplyingTo(null);
       queryClient.invalidateQueries({ queryKey: ['/api/chats', chatId, 'messages'] });
+      queryClient.invalidateQueries({ queryKey: ['/api/chats'], exact: true });
       toast({
         title: "Message deleted",
-        description: "Your message has been deleted successfully.",
+        description: scope === 'me' ? "The message was removed from your view." : "The message was deleted for everyone.",
       });
     } catch (error) {
       toast({
@@ -173,32 +470,115 @@ export function EnhancedChatArea({ chatId, currentUser, onOpenMobileMenu, isMobi
     setMessage("");
   };
 
-  const scrollToBottom = () => {
-    messagesEndRef.current?.scrollIntoView({ behavior: "smooth" });
+  const scrollToBottom = (behavior: ScrollBehavior = "smooth") => {
+    messagesEndRef.current?.scrollIntoView({ behavior });
   };
 
   useEffect(() => {
-    scrollToBottom();
+    lastMessageIdRef.current = undefined;
+    setReplyingTo(null);
+    setOpenThreadId(null);
+  }, [chatId]);
+
+  // Only follow new messages at the bottom, not history loaded at the top
+  useEffect(() => {
+    const lastMessageId = messages[messages.length - 1]?.id;
+    if (lastMessageId === lastMessageIdRef.current) return;
+
+    // Jump straight to the bottom on first load so we don't scroll past the history trigger
+    scrollToBottom(lastMessageIdRef.current ? "smooth" : "auto");
+    lastMessageIdRef.current = lastMessageId;
   }, [messages]);
 
-  // Auto-refresh messages every 3 seconds
+  // Bring a message into view, loading older history until it is in the list
+  const jumpToMessage = async (messageId: string) => {
+    const queryKey = ['/api/chats', chatId, 'messages'];
+    let loaded = queryClient.getQueryData<MessageWithSender[]>(queryKey) || [];
+
+    try {
+      for (let page = 0; page < MAX_JUMP_PAGES && !loaded.some(m => m.id === messageId); page++) {
+        const oldest = loaded[0];
+        if (!oldest) break;
+
+        const older = await fetchMessagePage(chatId, oldest.id);
+        if (older.length < MESSAGE_PAGE_SIZE) {
+          setHistoryExhausted(current => ({ ...current, [chatId]: true }));
+        }
+        if (older.length === 0) break;
+
+        const known = new Set(loaded.map(m => m.id));
+        loaded = [...older.filter(m => !known.has(m.id)), ...loaded];
+        queryClient.setQueryData<MessageWithSender[]>(queryKey, loaded);
+      }
+    } catch (error) {
+      console.error('Failed to load history for message:', error);
+    }
+
+    if (!loaded.some(m => m.id === messageId)) {
+      toast({
+        title: "Message not found",
+        description: "It may be too far back in the chat history.",
+        variant: "destructive",
+      });
+      return;
+    }
+
+    scrollToMessageRef.current = messageId;
+    setHighlightedMessageId(messageId);
+  };
+
   useEffect(() => {
-    if (!chatId) return;
-    
-    const interval = setInterval(() => {
-      refetch();
-    }, 3000);
-    
-    return () => clearInterval(interval);
-  }, [chatId, refetch]);
+    if (!focusMessageId || !chatId || messagesLoading) return;
+    onMessageFocused?.();
+    jumpToMessage(focusMessageId);
+  }, [focusMessageId, chatId, messagesLoading]);
+
+  useEffect(() => {
+    const messageId = scrollToMessageRef.current;
+    if (!messageId) return;
+
+    const element = scrollAreaRef.current?.querySelector(`[data-message-id="${messageId}"]`);
+    if (!element) return;
+    scrollToMessageRef.current = null;
+    element.scrollIntoView({ block: 'center' });
+  }, [messages, highlightedMessageId]);
+
+  useEffect(() => {
+    if (!highlightedMessageId) return;
+    const timeout = setTimeout(() => setHighlightedMessageId(null), JUMP_HIGHLIGHT_DURATION);
+    return () => clearTimeout(timeout);
+  }, [highlightedMessageId]);
+
+  const handleSelectSearchResult = (result: MessageSearchResult) => {
+    setIsSearchOpen(false);
+    if (result.chatId !== chatId) {
+      // Thread replies aren't in the main timeline, so land on the message they hang off
+      onOpenMessage?.(result.chatId, result.threadRootId || result.id);
+    } else if (result.threadRootId) {
+      setOpenThreadId(result.threadRootId);
+      setThreadFocusId(result.id);
+    } else {
+      jumpToMessage(result.id);
+    }
+  };
+
+  // Move our read cursor up to the newest message while the chat is open
+  const latestMessageId = messages[messages.length - 1]?.id;
+  useEffect(() => {
+    if (!chatId || !latestMessageId || !chat || chat.isGlobalRoom) return;
+
+    apiRequest('POST', `/api/chats/${chatId}/read`)
+      .then(() => queryClient.invalidateQueries({ queryKey: ['/api/chats'], exact: true }))
+      .catch((error) => console.error('Failed to mark chat as read:', error));
+  }, [chatId, latestMessageId, chat?.isGlobalRoom]);
 
   const getChatName = (chat: ChatWithParticipants | undefined) => {
     if (!chat) return 'Unknown Chat';
     if (chat?.name) return chat.name;
     
-    const otherParticipants = chat?.participants?.filter(p => p.userId !== currentUser._id) || [];
+    const otherParticipants = chat?.participantDetails?.filter(p => p.id !== currentUser.id) || [];
     if (otherParticipants.length === 1) {
-      const user = otherParticipants[0].user;
+      const user = otherParticipants[0];
       return user.firstName && user.lastName
         ? `${user.firstName} ${user.lastName}`
         : user.firstName || user.email || 'Unknown User';
@@ -211,14 +591,24 @@ export function EnhancedChatArea({ chatId, currentUser, onOpenMobileMenu, isMobi
     if (!chat) return undefined;
     if (chat?.imageUrl) return chat.imageUrl;
     
-    const otherParticipants = chat?.participants?.filter(p => p.userId !== currentUser._id) || [];
+    const otherParticipants = chat?.participantDetails?.filter(p => p.id !== currentUser.id) || [];
     if (otherParticipants.length === 1) {
-      return otherParticipants[0].user.profileImageUrl;
+      return otherParticipants[0].profileImageUrl;
     }
     
     return undefined;
   };
 
+  const formatLastSeen = (lastSeen: Date | string | null | undefined) => {
+    if (!lastSeen) return "Offline";
+
+    const diffMinutes = Math.floor((Date.now() - new Date(lastSeen).getTime()) / (1000 * 60));
+    if (diffMinutes < 1) return "Last seen just now";
+    if (diffMinutes < 60) return `Last seen ${diffMinutes}m ago`;
+    if (diffMinutes < 1440) return `Last seen ${Math.floor(diffMinutes / 60)}h ago`;
+    return `Last seen ${new Date(lastSeen).toLocaleDateString()}`;
+  };
+
   const getChatInitials = (chat: ChatWithParticipants | undefined) => {
     const name = getChatName(chat);
     return name.split(" ").map(n => n[0]).join("").toUpperCase().slice(0, 2);
@@ -268,8 +658,11 @@ export function EnhancedChatArea({ chatId, currentUser, onOpenMobileMenu, isMobi
   }
 
   const isGroup = (chat?.participants?.length || 0) > 2;
-  const otherParticipants = chat?.participants?.filter(p => p.userId !== currentUser._id) || [];
+  const otherParticipants = chat?.participantDetails?.filter(p => p.id !== currentUser.id) || [];
   const isGlobalRoom = chat?.isGlobalRoom;
+  const directContact = chat?.participantDetails?.find(p => p.id !== currentUser.id);
+  // Group chats have members and roles to manage; global rooms are open to everyone
+  const hasGroupSettings = !!chat?.isGroup && !isGlobalRoom;
 
   return (
     <div className="flex-1 flex flex-col bg-gradient-to-br from-white via-purple-50 to-pink-50 dark:from-gray-900 dark:via-gray-800 dark:to-black">
@@ -307,7 +700,11 @@ export function EnhancedChatArea({ chatId, currentUser, onOpenMobileMenu, isMobi
                 {getChatName(chat)}
               </h2>
               <div className="flex items-center space-x-2">
-                {isGlobalRoom ? (
+                {chatTypingUsers.length > 0 ? (
+                  <span className="text-sm text-purple-600 dark:text-purple-400 italic animate-pulse" data-testid="text-typing-indicator">
+                    {formatTypingUsers(chatTypingUsers)}
+                  </span>
+                ) : isGlobalRoom ? (
                   <div className="flex items-center space-x-2">
                     <Badge variant="outline" className="bg-green-50 dark:bg-green-900 text-green-700 dark:text-green-300 border-green-200 dark:border-green-700">
                       Global Room
@@ -320,10 +717,14 @@ export function EnhancedChatArea({ chatId, currentUser, onOpenMobileMenu, isMobi
                   <span className="text-sm text-gray-500">
                     {otherParticipants.length + 1} members
                   </span>
-                ) : (
+                ) : directContact?.isOnline ? (
                   <span className="text-sm text-green-600 dark:text-green-400 font-medium">
                     🟢 Online
                   </span>
+                ) : (
+                  <span className="text-sm text-gray-500">
+                    {formatLastSeen(directContact?.lastSeen)}
+                  </span>
                 )}
               </div>
             </div>
@@ -336,6 +737,7 @@ export function EnhancedChatArea({ chatId, currentUser, onOpenMobileMenu, isMobi
               size="icon" 
               className="text-purple-600 dark:text-purple-400 hover:bg-purple-100 dark:hover:bg-purple-900"
               title="Search messages"
+              onClick={() => setIsSearchOpen(true)}
               data-testid="button-search"
             >
               <Search className="w-4 h-4 lg:w-5 lg:h-5" />
@@ -359,32 +761,95 @@ export function EnhancedChatArea({ chatId, currentUser, onOpenMobileMenu, isMobi
               <Globe className="w-4 h-4 lg:w-5 lg:h-5" />
             </Button>
             <Separator orientation="vertical" className="h-6 mx-1" />
-            {!isGroup && !isGlobalRoom && <CallControls chatId={chatId} recipientName={getChatName(chat)} />}
+            <CallControls
+              chatId={chatId}
+              isGroup={hasGroupCalls}
+              recipient={directContact && {
+                id: directContact.id,
+                displayName: [directContact.firstName, directContact.lastName].filter(Boolean).join(' ') || directContact.username,
+                profileImageUrl: directContact.profileImageUrl,
+              }}
+            />
             <Button 
               variant="ghost" 
               size="icon" 
               className="text-purple-600 dark:text-purple-400"
-              title="Chat info"
+              title={hasGroupSettings ? "Group settings" : "Chat info"}
+              onClick={() => hasGroupSettings && setIsGroupSettingsOpen(true)}
               data-testid="button-chat-info"
             >
               <Info className="w-4 h-4 lg:w-5 lg:h-5" />
             </Button>
-            <Button 
-              variant="ghost" 
-              size="icon" 
-              className="text-gray-600 dark:text-gray-400"
-              title="More options"
-              data-testid="button-more-options"
-            >
-              <MoreVertical className="w-4 h-4 lg:w-5 lg:h-5" />
-            </Button>
+            <DropdownMenu>
+              <DropdownMenuTrigger asChild>
+                <Button 
+                  variant="ghost" 
+                  size="icon" 
+                  className="text-gray-600 dark:text-gray-400"
+                  title="More options"
+                  data-testid="button-more-options"
+                >
+                  <MoreVertical className="w-4 h-4 lg:w-5 lg:h-5" />
+                </Button>
+              </DropdownMenuTrigger>
+              <DropdownMenuContent align="end">
+                {directContact && !chat.isGroup && !chat.isGlobalRoom ? (
+                  <DropdownMenuItem
+                    className="text-red-600 focus:text-red-600"
+                    onClick={() => setReportTarget({ type: 'user', id: directContact.id, label: `@${directContact.username}` })}
+                    data-testid="button-report-user"
+                  >
+                    <Flag className="w-4 h-4 mr-2" />
+                    Report @{directContact.username}
+                  </DropdownMenuItem>
+                ) : (
+                  <DropdownMenuItem
+                    className="text-red-600 focus:text-red-600"
+                    onClick={() => setReportTarget({ type: 'chat', id: chatId, label: chat.isGlobalRoom ? 'this room' : 'this group' })}
+                    data-testid="button-report-chat"
+                  >
+                    <Flag className="w-4 h-4 mr-2" />
+                    {chat.isGlobalRoom ? 'Report room' : 'Report group'}
+                  </DropdownMenuItem>
+                )}
+              </DropdownMenuContent>
+            </DropdownMenu>
           </div>
         </div>
       </div>
 
+      {/* Ongoing group call */}
+      {hasGroupCalls && ongoingCall && groupCall?.chatId !== chatId && (
+        <div
+          className="px-4 py-2 flex items-center justify-between bg-green-50 dark:bg-green-950 border-b border-green-200 dark:border-green-800"
+          data-testid="banner-group-call"
+        >
+          <span className="flex items-center space-x-2 text-sm text-green-700 dark:text-green-300">
+            {ongoingCall.media === 'video' ? <Video className="w-4 h-4" /> : <Phone className="w-4 h-4" />}
+            <span>
+              Group call in progress · {ongoingCall.participants.length} participant{ongoingCall.participants.length === 1 ? '' : 's'}
+            </span>
+          </span>
+          <Button
+            size="sm"
+            className="bg-green-500 hover:bg-green-600 text-white"
+            onClick={() => joinGroupCall(chatId, ongoingCall.media)}
+            disabled={!!directCall || ongoingCall.participants.length >= ongoingCall.maxParticipants}
+            data-testid="button-join-group-call"
+          >
+            Join
+          </Button>
+        </div>
+      )}
+
       {/* Messages Area */}
-      <ScrollArea className="flex-1 p-4 chatgroove-scrollbar">
+      <ScrollArea ref={scrollAreaRef} className="flex-1 p-4 chatgroove-scrollbar">
         <div className="space-y-4 max-w-4xl mx-auto">
+          {isLoadingHistory && (
+            <div className="flex justify-center py-2" data-testid="loader-message-history">
+              <div className="w-5 h-5 border-2 border-purple-500 border-t-transparent rounded-full animate-spin"></div>
+            </div>
+          )}
           {messagesLoading ? (
             <div className="flex justify-center py-8">
               <div className="w-8 h-8 border-2 border-purple-500 border-t-transparent rounded-full animate-spin"></div>
@@ -399,11 +864,17 @@ export function EnhancedChatArea({ chatId, currentUser, onOpenMobileMenu, isMobi
             </div>
           ) : (
             messages.map((msg: MessageWithSender, index: number) => {
-              const isOwn = msg.senderId === currentUser._id;
+              const isOwn = msg.senderId === currentUser.id;
               const showAvatar = index === 0 || messages[index - 1]?.senderId !== msg.senderId;
               
               return (
-                <div key={msg._id} className={`flex items-end space-x-2 ${isOwn ? 'justify-end' : 'justify-start'}`}>
+                <div
+                  key={msg.id}
+                  data-message-id={msg.id}
+                  className={`group/message flex items-end space-x-2 rounded-lg transition-colors duration-500 ${isOwn ? 'justify-end' : 'justify-start'} ${
+                    highlightedMessageId === msg.id ? 'bg-yellow-100/70 dark:bg-yellow-900/40' : ''
+                  }`}
+                >
                   {!isOwn && showAvatar && (
                     <Avatar className="h-8 w-8 mb-1 border border-white dark:border-gray-700">
                       <AvatarImage src={msg.sender.profileImageUrl || undefined} />
@@ -413,7 +884,10 @@ export function EnhancedChatArea({ chatId, currentUser, onOpenMobileMenu, isMobi
                     </Avatar>
                   )}
                   
-                  <div className={`flex flex-col ${isOwn ? 'items-end' : 'items-start'} max-w-[280px] sm:max-w-xs lg:max-w-md`}>
+                  <div
+                    className={`flex flex-col ${isOwn ? 'items-end' : 'items-start'} max-w-[280px] sm:max-w-xs lg:max-w-md`}
+                    {...reactionLongPress(msg.id)}
+                  >
                     {!isOwn && showAvatar && (
                       <span className="text-xs text-gray-500 dark:text-gray-400 mb-1 px-2">
                         {msg.sender.firstName && msg.sender.lastName
@@ -421,8 +895,20 @@ export function EnhancedChatArea({ chatId, currentUser, onOpenMobileMenu, isMobi
                           : msg.sender.firstName || msg.sender.email}
                       </span>
                     )}
+
+                    {msg.replyTo && (
+                      <ReplyQuote
+                        message={msg.replyTo}
+                        onClick={() => jumpToMessage(msg.replyTo!.id)}
+                        className="mb-1 max-w-full"
+                      />
+                    )}
                     
-                    {msg.messageType !== 'text' ? (
+                    {msg.deletedAt ? (
+                      <div className="message-bubble p-3 bg-gray-100 dark:bg-gray-800 text-gray-600 dark:text-gray-400 border border-gray-200 dark:border-gray-700">
+                        <MessageTombstone message={msg} />
+                      </div>
+                    ) : msg.messageType !== 'text' ? (
                       <MultimediaMessage message={msg} isOwn={isOwn} />
                     ) : (
                       <div 
@@ -431,40 +917,111 @@ export function EnhancedChatArea({ chatId, currentUser, onOpenMobileMenu, isMobi
                             ? 'bg-gradient-to-r from-purple-500 to-pink-500 text-white shadow-lg' 
                             : 'bg-white dark:bg-gray-800 text-gray-900 dark:text-white border border-gray-200 dark:border-gray-700 shadow-sm'
                         } group relative hover:shadow-md transition-shadow cursor-pointer`}
-                        onDoubleClick={() => isOwn && handleEditMessage(msg._id!, msg.content || '')}
+                        onDoubleClick={() => isOwn && handleEditMessage(msg.id, msg.content || '')}
                         onContextMenu={(e) => {
                           e.preventDefault();
-                          handleMessageContextMenu(e, msg._id!, isOwn);
+                          handleMessageContextMenu(e, msg.id, isOwn);
                         }}
                       >
                         <p className="text-sm leading-relaxed">{msg.content}</p>
-                        {msg.editedAt && (
-                          <span className="text-xs opacity-70 italic ml-2">(edited)</span>
-                        )}
+                        {msg.editedAt && <EditedLabel message={msg} className="ml-2" />}
                         
                         {/* Telegram-like message options */}
                         {isOwn && (
                           <div className="absolute -top-8 right-0 hidden group-hover:flex bg-black/80 rounded-lg px-2 py-1 space-x-1">
                             <button 
-                              onClick={(e) => { e.stopPropagation(); handleEditMessage(msg._id!, msg.content || ''); }}
+                              onClick={(e) => { e.stopPropagation(); handleEditMessage(msg.id, msg.content || ''); }}
                               className="text-white hover:text-blue-300 text-xs px-1"
                             >
                               Edit
                             </button>
-                            <button 
-                              onClick={(e) => { e.stopPropagation(); handleDeleteMessage(msg._id!); }}
-                              className="text-white hover:text-red-300 text-xs px-1"
-                            >
-                              Delete
-                            </button>
                           </div>
                         )}
                       </div>
                     )}
                     
-                    <span className="text-xs text-gray-400 dark:text-gray-500 mt-1 px-2">
-                      {formatDistanceToNow(new Date(msg.createdAt), { addSuffix: true })}
-                    </span>
+                    <div className="flex items-center space-x-1 mt-1 px-2">
+                      <span className="text-xs text-gray-400 dark:text-gray-500">
+                        {formatDistanceToNow(new Date(msg.createdAt!), { addSuffix: true })}
+                      </span>
+                      {isOwn && <MessageStatus message={msg} participants={chat?.participantDetails} />}
+                      <div className="invisible group-hover/message:visible flex items-center space-x-1 pl-1">
+                        {!msg.deletedAt && (
+                          <>
+                            <button
+                              type="button"
+                              onClick={() => handleReplyToMessage(msg)}
+                              className="text-gray-400 hover:text-purple-600 dark:hover:text-purple-400"
+                              title="Reply"
+                              data-testid={`button-reply-${msg.id}`}
+                            >
+                              <Reply className="w-3.5 h-3.5" />
+                            </button>
+                            <button
+                              type="button"
+                              onClick={() => setOpenThreadId(msg.id)}
+                              className="text-gray-400 hover:text-purple-600 dark:hover:text-purple-400"
+                              title="Reply in thread"
+                              data-testid={`button-reply-in-thread-${msg.id}`}
+                            >
+                              <MessageSquareText className="w-3.5 h-3.5" />
+                            </button>
+                            {!isOwn && (
+                              <button
+                                type="button"
+                                onClick={() => setReportTarget({ type: 'message', id: msg.id, label: 'this message' })}
+                                className="text-gray-400 hover:text-red-600 dark:hover:text-red-400"
+                                title="Report"
+                                data-testid={`button-report-${msg.id}`}
+                              >
+                                <Flag className="w-3.5 h-3.5" />
+                              </button>
+                            )}
+                          </>
+                        )}
+                        <button
+                          type="button"
+                          onClick={() => setDeletingMessage(msg)}
+                          className="text-gray-400 hover:text-red-600 dark:hover:text-red-400"
+                          title="Delete"
+                          data-testid={`button-delete-${msg.id}`}
+                        >
+                          <Trash2 className="w-3.5 h-3.5" />
+                        </button>
+                      </div>
+                    </div>
+
+                    {!msg.deletedAt && (
+                      <MessageReactions
+                        message={msg}
+                        isOwn={isOwn}
+                        onToggleReaction={(emoji, reacted) => toggleReaction(msg.id, emoji, reacted)}
+                        pickerOpen={reactionPickerFor === msg.id}
+                        onPickerOpenChange={(open) => setReactionPickerFor(open ? msg.id : null)}
+                      />
+                    )}
+
+                    {msg.thread && msg.thread.replyCount > 0 && (
+                      <button
+                        type="button"
+                        onClick={() => setOpenThreadId(msg.id)}
+                        className="flex items-center space-x-1 mt-1 px-2 text-xs font-medium text-purple-600 dark:text-purple-400 hover:underline"
+                        data-testid={`button-open-thread-${msg.id}`}
+                      >
+                        <MessageSquareText className="w-3.5 h-3.5" />
+                        <span>{msg.thread.replyCount} {msg.thread.replyCount === 1 ? 'reply' : 'replies'}</span>
+                        {msg.thread.lastReplyAt && (
+                          <span className="font-normal text-gray-400 dark:text-gray-500">
+                            · last reply {formatDistanceToNow(new Date(msg.thread.lastReplyAt), { addSuffix: true })}
+                          </span>
+                        )}
+                        {msg.thread.unreadCount > 0 && (
+                          <Badge className="h-4 px-1.5 text-[10px] bg-pink-500 hover:bg-pink-500 text-white" data-testid={`badge-thread-unread-${msg.id}`}>
+                            {msg.thread.unreadCount}
+                          </Badge>
+                        )}
+                      </button>
+                    )}
                   </div>
                   
                   {!isOwn && !showAvatar && <div className="w-8" />}
@@ -478,65 +1035,222 @@ export function EnhancedChatArea({ chatId, currentUser, onOpenMobileMenu, isMobi
 
       {/* Message Input */}
       <div className="p-3 lg:p-4 border-t border-purple-200 dark:border-purple-800 bg-white/90 dark:bg-gray-900/90 backdrop-blur-sm">
-        <form onSubmit={handleSendMessage} className="flex items-center space-x-2 lg:space-x-3">
-          {/* Attachment buttons - hidden on mobile by default, shown on larger screens */}
-          <div className="hidden sm:flex items-center space-x-1 lg:space-x-2">
-            <Button type="button" variant="ghost" size="icon" className="text-purple-600 dark:text-purple-400 hover:bg-purple-100 dark:hover:bg-purple-900 w-8 h-8 lg:w-10 lg:h-10">
-              <Paperclip className="w-4 h-4 lg:w-5 lg:h-5" />
-            </Button>
-            <Button type="button" variant="ghost" size="icon" className="text-green-600 dark:text-green-400 hover:bg-green-100 dark:hover:bg-green-900 w-8 h-8 lg:w-10 lg:h-10">
-              <ImageIcon className="w-4 h-4 lg:w-5 lg:h-5" />
-            </Button>
-            <Button type="button" variant="ghost" size="icon" className="text-blue-600 dark:text-blue-400 hover:bg-blue-100 dark:hover:bg-blue-900 w-8 h-8 lg:w-10 lg:h-10">
-              <Mic className="w-4 h-4 lg:w-5 lg:h-5" />
-            </Button>
-          </div>
-          
-          {/* Mobile attachment button */}
-          <Button type="button" variant="ghost" size="icon" className="sm:hidden text-purple-600 dark:text-purple-400 hover:bg-purple-100 dark:hover:bg-purple-900 w-8 h-8">
-            <Paperclip className="w-4 h-4" />
-          </Button>
-          
-          <div className="flex-1 relative">
-            <Input
-              value={message}
-              onChange={(e) => setMessage(e.target.value)}
-              placeholder={editingMessageId ? "Edit message..." : "Type a message..."}
-              className="pl-3 pr-10 py-2 lg:pl-4 lg:pr-12 lg:py-3 rounded-2xl bg-purple-50 dark:bg-gray-800 border-purple-200 dark:border-purple-700 focus:ring-2 focus:ring-purple-500 focus:border-purple-500 text-sm lg:text-base"
-              disabled={sendMessageMutation.isPending}
-              data-testid="input-message"
+        {currentUser.isRestricted ? (
+          <p className="text-sm text-center text-gray-500 dark:text-gray-400 py-2" data-testid="text-restricted-notice">
+            Your account is restricted{currentUser.restrictionReason ? `: ${currentUser.restrictionReason}` : ''}. You can read chats but not post in them.
+          </p>
+        ) : (
+          <>
+          {replyingTo && (
+            <div className="flex items-center space-x-2 mb-2" data-testid="composer-replying-to">
+              <Reply className="w-4 h-4 text-purple-500 shrink-0" />
+              <ReplyQuote message={replyingTo} onClick={() => jumpToMessage(replyingTo.id)} className="flex-1" />
+              <Button
+                type="button"
+                variant="ghost"
+                size="icon"
+                className="w-7 h-7 shrink-0"
+                onClick={() => setReplyingTo(null)}
+                title="Cancel reply"
+                data-testid="button-cancel-reply"
+              >
+                <X className="w-4 h-4" />
+              </Button>
+            </div>
+          )}
+          <form onSubmit={handleSendMessage} className="flex items-center space-x-2 lg:space-x-3">
+            <input
+              ref={fileInputRef}
+              type="file"
+              className="hidden"
+              onChange={(e) => handleFileSelected(e)}
+              data-testid="input-file"
             />
+            <input
+              ref={imageInputRef}
+              type="file"
+              accept="image/jpeg,image/png,image/gif,image/webp"
+              className="hidden"
+              onChange={(e) => handleFileSelected(e, 'image')}
+              data-testid="input-image"
+            />
+
+            {/* Attachment buttons - hidden on mobile by default, shown on larger screens */}
+            <div className="hidden sm:flex items-center space-x-1 lg:space-x-2">
+              <Button
+                type="button"
+                variant="ghost"
+                size="icon"
+                onClick={() => fileInputRef.current?.click()}
+                disabled={uploadMutation.isPending}
+                className="text-purple-600 dark:text-purple-400 hover:bg-purple-100 dark:hover:bg-purple-900 w-8 h-8 lg:w-10 lg:h-10"
+                data-testid="button-attach-file"
+              >
+                {uploadMutation.isPending ? (
+                  <div className="w-4 h-4 lg:w-5 lg:h-5 border-2 border-purple-500 border-t-transparent rounded-full animate-spin" />
+                ) : (
+                  <Paperclip className="w-4 h-4 lg:w-5 lg:h-5" />
+                )}
+              </Button>
+              <Button
+                type="button"
+                variant="ghost"
+                size="icon"
+                onClick={() => imageInputRef.current?.click()}
+                disabled={uploadMutation.isPending}
+                className="text-green-600 dark:text-green-400 hover:bg-green-100 dark:hover:bg-green-900 w-8 h-8 lg:w-10 lg:h-10"
+                data-testid="button-attach-image"
+              >
+                <ImageIcon className="w-4 h-4 lg:w-5 lg:h-5" />
+              </Button>
+              <Button
+                type="button"
+                variant="ghost"
+                size="icon"
+                {...voiceNoteButtonProps}
+                className={`text-blue-600 dark:text-blue-400 hover:bg-blue-100 dark:hover:bg-blue-900 w-8 h-8 lg:w-10 lg:h-10 touch-none ${
+                  voiceRecorder.isRecording ? 'bg-red-100 dark:bg-red-900 text-red-600 dark:text-red-400' : ''
+                }`}
+                data-testid="button-record-voice"
+              >
+                <Mic className="w-4 h-4 lg:w-5 lg:h-5" />
+              </Button>
+            </div>
+          
+            {/* Mobile attachment button */}
             <Button
               type="button"
               variant="ghost"
               size="icon"
-              className="absolute right-1 lg:right-2 top-1/2 transform -translate-y-1/2 text-yellow-500 hover:bg-yellow-100 dark:hover:bg-yellow-900 w-7 h-7 lg:w-8 lg:h-8"
+              onClick={() => fileInputRef.current?.click()}
+              disabled={uploadMutation.isPending}
+              className="sm:hidden text-purple-600 dark:text-purple-400 hover:bg-purple-100 dark:hover:bg-purple-900 w-8 h-8"
             >
-              <Smile className="w-4 h-4 lg:w-5 lg:h-5" />
+              <Paperclip className="w-4 h-4" />
+            </Button>
+            <Button
+              type="button"
+              variant="ghost"
+              size="icon"
+              {...voiceNoteButtonProps}
+              className={`sm:hidden text-blue-600 dark:text-blue-400 hover:bg-blue-100 dark:hover:bg-blue-900 w-8 h-8 touch-none ${
+                voiceRecorder.isRecording ? 'bg-red-100 dark:bg-red-900 text-red-600 dark:text-red-400' : ''
+              }`}
+            >
+              <Mic className="w-4 h-4" />
             </Button>
-          </div>
           
-          <Button
-            type="submit"
-            disabled={!message.trim() || sendMessageMutation.isPending}
-            className="rounded-full bg-gradient-to-r from-purple-500 to-pink-500 hover:from-purple-600 hover:to-pink-600 text-white shadow-lg hover:shadow-xl transition-all duration-200 w-10 h-10 lg:w-12 lg:h-12 p-0 flex items-center justify-center"
-            data-testid="button-send-message"
-          >
-            {sendMessageMutation.isPending ? (
-              <div className="w-4 h-4 lg:w-5 lg:h-5 border-2 border-white border-t-transparent rounded-full animate-spin" />
-            ) : (
-              <Send className="w-4 h-4 lg:w-5 lg:h-5" />
-            )}
-          </Button>
+            <div className="flex-1 relative">
+              {voiceRecorder.isRecording && (
+                <div className="absolute inset-0 z-10 flex items-center space-x-2 px-3 lg:px-4 rounded-2xl bg-red-50 dark:bg-gray-800 border border-red-200 dark:border-red-800 text-sm" data-testid="voice-recording-indicator">
+                  <span className="w-2.5 h-2.5 rounded-full bg-red-500 animate-pulse" />
+                  <span className="font-medium text-red-600 dark:text-red-400">{formatDuration(voiceRecorder.elapsed)}</span>
+                  <span className="text-gray-500 dark:text-gray-400 truncate">Release to send, slide away to cancel</span>
+                </div>
+              )}
+              <Input
+                value={message}
+                onChange={(e) => handleMessageChange(e.target.value)}
+                placeholder={editingMessageId ? "Edit message..." : "Type a message..."}
+                className="pl-3 pr-10 py-2 lg:pl-4 lg:pr-12 lg:py-3 rounded-2xl bg-purple-50 dark:bg-gray-800 border-purple-200 dark:border-purple-700 focus:ring-2 focus:ring-purple-500 focus:border-purple-500 text-sm lg:text-base"
+                disabled={sendMessageMutation.isPending}
+                data-testid="input-message"
+              />
+              <Button
+                type="button"
+                variant="ghost"
+                size="icon"
+                className="absolute right-1 lg:right-2 top-1/2 transform -translate-y-1/2 text-yellow-500 hover:bg-yellow-100 dark:hover:bg-yellow-900 w-7 h-7 lg:w-8 lg:h-8"
+              >
+                <Smile className="w-4 h-4 lg:w-5 lg:h-5" />
+              </Button>
+            </div>
           
-          {editingMessageId && (
-            <Button type="button" onClick={handleCancelEdit} variant="ghost" className="text-gray-500 hover:text-gray-700 dark:text-gray-400 dark:hover:text-gray-200 text-sm">
-              Cancel
+            <Button
+              type="submit"
+              disabled={!message.trim() || sendMessageMutation.isPending}
+              className="rounded-full bg-gradient-to-r from-purple-500 to-pink-500 hover:from-purple-600 hover:to-pink-600 text-white shadow-lg hover:shadow-xl transition-all duration-200 w-10 h-10 lg:w-12 lg:h-12 p-0 flex items-center justify-center"
+              data-testid="button-send-message"
+            >
+              {sendMessageMutation.isPending ? (
+                <div className="w-4 h-4 lg:w-5 lg:h-5 border-2 border-white border-t-transparent rounded-full animate-spin" />
+              ) : (
+                <Send className="w-4 h-4 lg:w-5 lg:h-5" />
+              )}
             </Button>
-          )}
-        </form>
+          
+            {editingMessageId && (
+              <Button type="button" onClick={handleCancelEdit} variant="ghost" className="text-gray-500 hover:text-gray-700 dark:text-gray-400 dark:hover:text-gray-200 text-sm">
+                Cancel
+              </Button>
+            )}
+          </form>
+          </>
+        )}
       </div>
       
+      <MessageSearchDialog
+        open={isSearchOpen}
+        onOpenChange={setIsSearchOpen}
+        chat={chat}
+        currentUserId={currentUser.id}
+        onSelectResult={handleSelectSearchResult}
+      />
+
+      <AlertDialog open={!!deletingMessage} onOpenChange={(open) => !open && setDeletingMessage(null)}>
+        <AlertDialogContent>
+          <AlertDialogHeader>
+            <AlertDialogTitle>Delete message?</AlertDialogTitle>
+            <AlertDialogDescription>
+              {deletingMessage && canDeleteForEveryone(deletingMessage)
+                ? "Delete it for everyone to leave a note that it was deleted, or just remove it from your view."
+                : "This removes the message from your view. Others in the chat will still see it."}
+            </AlertDialogDescription>
+          </AlertDialogHeader>
+          <AlertDialogFooter>
+            <AlertDialogCancel>Cancel</AlertDialogCancel>
+            <Button
+              variant="outline"
+              onClick={() => deletingMessage && handleDeleteMessage(deletingMessage.id, 'me')}
+              data-testid="button-delete-for-me"
+            >
+              Delete for me
+            </Button>
+            {deletingMessage && canDeleteForEveryone(deletingMessage) && (
+              <Button
+                variant="destructive"
+                onClick={() => handleDeleteMessage(deletingMessage.id, 'everyone')}
+                data-testid="button-delete-for-everyone"
+              >
+                Delete for everyone
+              </Button>
+            )}
+          </AlertDialogFooter>
+        </AlertDialogContent>
+      </AlertDialog>
+
+      <ReportDialog target={reportTarget} onClose={() => setReportTarget(null)} />
+
+      <ThreadPanel
+        chatId={chatId}
+        rootId={openThreadId}
+        onClose={() => setOpenThreadId(null)}
+        currentUser={currentUser}
+        participants={chat?.participantDetails}
+        focusMessageId={threadFocusId}
+        onMessageFocused={() => setThreadFocusId(null)}
+      />
+
+      {hasGroupSettings && (
+        <GroupSettingsPanel
+          chat={chat}
+          open={isGroupSettingsOpen}
+          onOpenChange={setIsGroupSettingsOpen}
+          currentUserId={currentUser.id}
+          onLeft={onLeaveChat}
+        />
+      )}
+
       {/* Floating Action Button for Quick Navigation */}
       <div className="fixed bottom-6 right-6 z-50 lg:hidden">
         <Button
@@ -0,0 +1,153 @@
+import { useQuery } from "@tanstack/react-query";
+import { Button } from "@/components/ui/button";
+import { Avatar, AvatarFallback, AvatarImage } from "@/components/ui/avatar";
+import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import { Video, PhoneOff, VideoOff, Mic, MicOff } from "lucide-react";
+import { useAuth } from "@/hooks/use-auth";
+import { useGroupCall } from "@/hooks/use-group-call";
+import { useActiveSpeaker } from "@/hooks/use-active-speaker";
+import { StreamAudio, StreamVideo } from "./call-window";
+import type { GroupCallParticipant, GroupCallSummary } from "@shared/schema";
+
+interface ParticipantTileProps {
+  participant: GroupCallParticipant;
+  stream: MediaStream | null;
+  isVideoCall: boolean;
+  isSelf: boolean;
+  isSpeaking: boolean;
+}
+
+function ParticipantTile({ participant, stream, isVideoCall, isSelf, isSpeaking }: ParticipantTileProps) {
+  const showVideo = isVideoCall && !!stream && !participant.isCameraOff;
+
+  return (
+    <div
+      className={`relative aspect-video bg-gray-900 rounded-lg overflow-hidden flex items-center justify-center ring-2 transition-shadow ${
+        isSpeaking ? 'ring-green-400' : 'ring-transparent'
+      }`}
+      data-testid={`tile-participant-${participant.id}`}
+    >
+      {showVideo ? (
+        // Audio plays through a separate element, so every video is muted
+        <StreamVideo stream={stream} muted className="w-full h-full object-cover" />
+      ) : (
+        <Avatar className="w-16 h-16">
+          <AvatarImage src={participant.profileImageUrl || undefined} />
+          <AvatarFallback className="text-lg bg-gradient-to-r from-green-400 to-blue-500 text-white">
+            {participant.displayName.slice(0, 2).toUpperCase()}
+          </AvatarFallback>
+        </Avatar>
+      )}
+      <div className="absolute bottom-1 left-1 flex items-center space-x-1 rounded bg-black/50 px-2 py-0.5 text-xs text-white">
+        {participant.isMuted && <MicOff className="w-3 h-3 text-red-400" />}
+        <span>{isSelf ? 'You' : participant.displayName}</span>
+      </div>
+    </div>
+  );
+}
+
+// The group call the user is in, shown over whatever screen they are on
+export function GroupCallWindow() {
+  const { user } = useAuth();
+  const {
+    groupCall,
+    localStream,
+    remoteStreams,
+    isMuted,
+    isCameraOff,
+    leaveGroupCall,
+    toggleMute,
+    toggleCamera,
+  } = useGroupCall();
+  const { data: summary } = useQuery<GroupCallSummary | null>({
+    queryKey: ['/api/chats', groupCall?.chatId, 'call'],
+    enabled: !!groupCall,
+  });
+  const selfId = user?.id ?? "";
+  const activeSpeaker = useActiveSpeaker({ [selfId]: isMuted ? null : localStream, ...remoteStreams });
+
+  if (!groupCall) return null;
+
+  const isVideoCall = groupCall.media === "video";
+  const participants = summary && summary.callId === groupCall.callId ? summary.participants : [];
+  // Our own tile follows local state, which is ahead of what the server last published
+  const self = participants.find((p) => p.id === selfId);
+  const others = participants.filter((p) => p.id !== selfId);
+
+  return (
+    <Dialog open onOpenChange={(open) => !open && leaveGroupCall()}>
+      <DialogContent className="sm:max-w-3xl" onPointerDownOutside={(e) => e.preventDefault()}>
+        <DialogHeader>
+          <DialogTitle className="text-center">
+            {isVideoCall ? 'Group Video Call' : 'Group Audio Call'}
+          </DialogTitle>
+          <DialogDescription className="text-center" data-testid="text-group-call-status">
+            {groupCall.callId
+              ? `${participants.length} of ${summary?.maxParticipants ?? participants.length} participants`
+              : 'Joining...'}
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="grid grid-cols-2 md:grid-cols-3 gap-2 p-2">
+          {self && (
+            <ParticipantTile
+              participant={{ ...self, isMuted, isCameraOff }}
+              stream={localStream}
+              isVideoCall={isVideoCall}
+              isSelf
+              isSpeaking={activeSpeaker === selfId}
+            />
+          )}
+          {others.map((participant) => (
+            <ParticipantTile
+              key={participant.id}
+              participant={participant}
+              stream={remoteStreams[participant.id] ?? null}
+              isVideoCall={isVideoCall}
+              isSelf={false}
+              isSpeaking={activeSpeaker === participant.id}
+            />
+          ))}
+        </div>
+
+        {Object.entries(remoteStreams).map(([peerId, stream]) => (
+          <StreamAudio key={peerId} stream={stream} />
+        ))}
+
+        <div className="flex items-center justify-center space-x-4">
+          <Button
+            size="lg"
+            variant={isMuted ? "destructive" : "secondary"}
+            className="rounded-full p-4"
+            onClick={toggleMute}
+            data-testid="button-group-call-mute"
+          >
+            {isMuted ? <MicOff className="w-6 h-6" /> : <Mic className="w-6 h-6" />}
+          </Button>
+
+          {isVideoCall && (
+            <Button
+              size="lg"
+              variant={isCameraOff ? "destructive" : "secondary"}
+              className="rounded-full p-4"
+              onClick={toggleCamera}
+              data-testid="button-group-call-video"
+            >
+              {isCameraOff ? <VideoOff className="w-6 h-6" /> : <Video className="w-6 h-6" />}
+            </Button>
+          )}
+
+          <Button
+            size="lg"
+            variant="destructive"
+            className="rounded-full p-4 bg-red-500 hover:bg-red-600"
+            onClick={leaveGroupCall}
+            data-testid="button-leave-group-call"
+          >
+            <PhoneOff className="w-6 h-6" />
+          </Button>
+        </div>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -0,0 +1,240 @@
+import { useState } from "react";
+import { useMutation, useQuery, useQueryClient } from "@tanstack/react-query";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { Label } from "@/components/ui/label";
+import { Switch } from "@/components/ui/switch";
+import { Avatar, AvatarFallback, AvatarImage } from "@/components/ui/avatar";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Check, Copy, Link2, X } from "lucide-react";
+import { apiRequest } from "@/lib/queryClient";
+import { useToast } from "@/hooks/use-toast";
+import type { ChatInvite, ChatJoinRequest } from "@shared/schema";
+import { formatDistanceToNow } from "date-fns";
+
+interface GroupInviteLinksProps {
+  chatId: string;
+}
+
+// Invite lifetimes to pick from, in seconds; "never" keeps the link until it is revoked
+const EXPIRY_OPTIONS = [
+  { value: "3600", label: "1 hour" },
+  { value: "86400", label: "1 day" },
+  { value: "604800", label: "7 days" },
+  { value: "2592000", label: "30 days" },
+  { value: "never", label: "Never" },
+];
+
+const MAX_USES_OPTIONS = ["unlimited", "1", "5", "10", "25", "100"];
+
+function getInviteUrl(invite: ChatInvite) {
+  return `${window.location.origin}/join/${invite.code}`;
+}
+
+function getDisplayName(user: ChatJoinRequest["user"]) {
+  return [user.firstName, user.lastName].filter(Boolean).join(" ") || user.username;
+}
+
+// An admin's view of a group's active invite links and the people waiting to be let in
+export function GroupInviteLinks({ chatId }: GroupInviteLinksProps) {
+  const [expiresIn, setExpiresIn] = useState("604800");
+  const [maxUses, setMaxUses] = useState("unlimited");
+  const [requiresApproval, setRequiresApproval] = useState(false);
+  const [copiedInviteId, setCopiedInviteId] = useState<string | null>(null);
+  const queryClient = useQueryClient();
+  const { toast } = useToast();
+
+  const { data: invites = [] } = useQuery<ChatInvite[]>({
+    queryKey: ['/api/chats', chatId, 'invites'],
+  });
+  const { data: joinRequests = [] } = useQuery<ChatJoinRequest[]>({
+    queryKey: ['/api/chats', chatId, 'join-requests'],
+  });
+
+  const showError = (description: string) => {
+    toast({ title: "Error", description, variant: "destructive" });
+  };
+
+  const createInviteMutation = useMutation({
+    mutationFn: async () => {
+      const res = await apiRequest('POST', `/api/chats/${chatId}/invites`, {
+        expiresIn: expiresIn === "never" ? undefined : Number(expiresIn),
+        maxUses: maxUses === "unlimited" ? undefined : Number(maxUses),
+        requiresApproval,
+      });
+      return res.json() as Promise<ChatInvite>;
+    },
+    onSuccess: (invite) => {
+      queryClient.invalidateQueries({ queryKey: ['/api/chats', chatId, 'invites'] });
+      copyInvite(invite);
+    },
+    onError: () => showError("Failed to create invite link"),
+  });
+
+  const revokeInviteMutation = useMutation({
+    mutationFn: async (inviteId: string) => {
+      return await apiRequest('DELETE', `/api/chats/${chatId}/invites/${inviteId}`);
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['/api/chats', chatId, 'invites'] });
+    },
+    onError: () => showError("Failed to revoke invite link"),
+  });
+
+  const reviewRequestMutation = useMutation({
+    mutationFn: async ({ userId, approve }: { userId: string; approve: boolean }) => {
+      return approve
+        ? await apiRequest('POST', `/api/chats/${chatId}/join-requests/${userId}/approve`)
+        : await apiRequest('DELETE', `/api/chats/${chatId}/join-requests/${userId}`);
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['/api/chats', chatId, 'join-requests'] });
+      queryClient.invalidateQueries({ queryKey: ['/api/chats', chatId], exact: true });
+    },
+    onError: (error) => showError(error.message.startsWith("409:") ? "This group is full" : "Failed to review join request"),
+  });
+
+  const copyInvite = async (invite: ChatInvite) => {
+    try {
+      await navigator.clipboard.writeText(getInviteUrl(invite));
+      setCopiedInviteId(invite.id);
+      toast({ title: "Invite link copied" });
+    } catch (error) {
+      // Clipboard access can be blocked; the link is still shown in the list
+      console.error('Failed to copy invite link:', error);
+    }
+  };
+
+  const describeInvite = (invite: ChatInvite) => {
+    const uses = invite.maxUses ? `${invite.useCount} of ${invite.maxUses} uses` : `${invite.useCount} ${invite.useCount === 1 ? 'use' : 'uses'}`;
+    const expiry = invite.expiresAt
+      ? `expires ${formatDistanceToNow(new Date(invite.expiresAt), { addSuffix: true })}`
+      : 'never expires';
+    return `${uses} · ${expiry}`;
+  };
+
+  return (
+    <div className="space-y-4" data-testid="section-invite-links">
+      {joinRequests.length > 0 && (
+        <div className="space-y-2">
+          <h3 className="text-xs font-semibold uppercase tracking-wide text-gray-500">
+            Join requests ({joinRequests.length})
+          </h3>
+          {joinRequests.map(request => (
+            <div key={request.user.id} className="flex items-center space-x-3" data-testid={`join-request-${request.user.id}`}>
+              <Avatar className="w-8 h-8">
+                <AvatarImage src={request.user.profileImageUrl || undefined} />
+                <AvatarFallback className="text-xs">{getDisplayName(request.user).slice(0, 2).toUpperCase()}</AvatarFallback>
+              </Avatar>
+              <div className="flex-1 min-w-0">
+                <p className="text-sm font-medium truncate">{getDisplayName(request.user)}</p>
+                <p className="text-xs text-gray-500">
+                  {formatDistanceToNow(new Date(request.requestedAt), { addSuffix: true })}
+                </p>
+              </div>
+              <Button
+                size="icon"
+                variant="ghost"
+                className="w-8 h-8 text-green-600"
+                title="Approve"
+                onClick={() => reviewRequestMutation.mutate({ userId: request.user.id, approve: true })}
+                disabled={reviewRequestMutation.isPending}
+              >
+                <Check className="w-4 h-4" />
+              </Button>
+              <Button
+                size="icon"
+                variant="ghost"
+                className="w-8 h-8 text-red-600"
+                title="Decline"
+                onClick={() => reviewRequestMutation.mutate({ userId: request.user.id, approve: false })}
+                disabled={reviewRequestMutation.isPending}
+              >
+                <X className="w-4 h-4" />
+              </Button>
+            </div>
+          ))}
+        </div>
+      )}
+
+      <div className="space-y-2">
+        <h3 className="text-xs font-semibold uppercase tracking-wide text-gray-500">Invite links</h3>
+        <div className="grid grid-cols-2 gap-2">
+          <Select value={expiresIn} onValueChange={setExpiresIn}>
+            <SelectTrigger aria-label="Expires after" data-testid="select-invite-expiry">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              {EXPIRY_OPTIONS.map(option => (
+                <SelectItem key={option.value} value={option.value}>
+                  {option.value === "never" ? 'Never expires' : `Expires in ${option.label}`}
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+          <Select value={maxUses} onValueChange={setMaxUses}>
+            <SelectTrigger aria-label="Maximum uses" data-testid="select-invite-max-uses">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              {MAX_USES_OPTIONS.map(option => (
+                <SelectItem key={option} value={option}>
+                  {option === "unlimited" ? 'No use limit' : `${option} ${option === "1" ? 'use' : 'uses'}`}
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        </div>
+        <div className="flex items-center justify-between">
+          <Label htmlFor="invite-requires-approval" className="text-sm font-normal">Approve new members</Label>
+          <Switch
+            id="invite-requires-approval"
+            checked={requiresApproval}
+            onCheckedChange={setRequiresApproval}
+            data-testid="switch-invite-approval"
+          />
+        </div>
+        <Button
+          variant="outline"
+          className="w-full"
+          onClick={() => createInviteMutation.mutate()}
+          disabled={createInviteMutation.isPending}
+          data-testid="button-create-invite"
+        >
+          <Link2 className="w-4 h-4 mr-2" />
+          Create invite link
+        </Button>
+
+        {invites.map(invite => (
+          <div
+            key={invite.id}
+            className="flex items-center space-x-2 rounded-lg border border-gray-200 dark:border-gray-700 p-2"
+            data-testid={`invite-${invite.id}`}
+          >
+            <div className="flex-1 min-w-0">
+              <p className="text-sm font-mono truncate">{getInviteUrl(invite)}</p>
+              <p className="text-xs text-gray-500 truncate">
+                {describeInvite(invite)}
+                {invite.requiresApproval && <Badge variant="secondary" className="ml-2 text-[10px] px-1 py-0">Approval</Badge>}
+              </p>
+            </div>
+            <Button size="icon" variant="ghost" className="w-8 h-8" title="Copy link" onClick={() => copyInvite(invite)}>
+              {copiedInviteId === invite.id ? <Check className="w-4 h-4 text-green-600" /> : <Copy className="w-4 h-4" />}
+            </Button>
+            <Button
+              size="icon"
+              variant="ghost"
+              className="w-8 h-8 text-red-600"
+              title="Revoke link"
+              onClick={() => revokeInviteMutation.mutate(invite.id)}
+              disabled={revokeInviteMutation.isPending}
+              data-testid={`button-revoke-invite-${invite.id}`}
+            >
+              <X className="w-4 h-4" />
+            </Button>
+          </div>
+        ))}
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,357 @@
+import { useEffect, useState } from "react";
+import { useMutation, useQuery, useQueryClient } from "@tanstack/react-query";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Badge } from "@/components/ui/badge";
+import { ScrollArea } from "@/components/ui/scroll-area";
+import { Avatar, AvatarFallback, AvatarImage } from "@/components/ui/avatar";
+import { Sheet, SheetContent, SheetDescription, SheetHeader, SheetTitle } from "@/components/ui/sheet";
+import {
+  DropdownMenu,
+  DropdownMenuContent,
+  DropdownMenuItem,
+  DropdownMenuSeparator,
+  DropdownMenuTrigger,
+} from "@/components/ui/dropdown-menu";
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+} from "@/components/ui/alert-dialog";
+import { Crown, LogOut, MoreVertical, Search, ShieldCheck, UserPlus } from "lucide-react";
+import { apiRequest } from "@/lib/queryClient";
+import { useToast } from "@/hooks/use-toast";
+import { GroupInviteLinks } from "./group-invite-links";
+import type { ChatRole, ChatWithParticipants, UserProfile } from "@shared/schema";
+
+interface GroupSettingsPanelProps {
+  chat: ChatWithParticipants;
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  currentUserId: string;
+  // Called once the current user has left the group
+  onLeft?: () => void;
+}
+
+// Wait for typing to settle before searching
+const SEARCH_DEBOUNCE = 300;
+
+const ROLE_ORDER: Record<ChatRole, number> = { owner: 0, admin: 1, member: 2 };
+
+// Changes that need confirming before they are sent
+type PendingAction =
+  | { type: "remove"; member: UserProfile }
+  | { type: "transfer"; member: UserProfile }
+  | { type: "leave" };
+
+function getDisplayName(user: Pick<UserProfile, "username" | "firstName" | "lastName">) {
+  return [user.firstName, user.lastName].filter(Boolean).join(" ") || user.username;
+}
+
+// Who can do what mirrors the server: owners manage everyone, admins manage plain members
+function canManage(role: ChatRole, targetRole: ChatRole) {
+  return role === "owner" || (role === "admin" && targetRole === "member");
+}
+
+function RoleBadge({ role }: { role: ChatRole }) {
+  if (role === "member") return null;
+
+  return (
+    <Badge
+      variant="outline"
+      className={role === "owner"
+        ? "border-amber-300 text-amber-700 dark:border-amber-700 dark:text-amber-300"
+        : "border-purple-300 text-purple-700 dark:border-purple-700 dark:text-purple-300"}
+    >
+      {role === "owner" ? <Crown className="w-3 h-3 mr-1" /> : <ShieldCheck className="w-3 h-3 mr-1" />}
+      {role === "owner" ? "Owner" : "Admin"}
+    </Badge>
+  );
+}
+
+export function GroupSettingsPanel({ chat, open, onOpenChange, currentUserId, onLeft }: GroupSettingsPanelProps) {
+  const [query, setQuery] = useState("");
+  const [debouncedQuery, setDebouncedQuery] = useState("");
+  const [pendingAction, setPendingAction] = useState<PendingAction | null>(null);
+  const queryClient = useQueryClient();
+  const { toast } = useToast();
+
+  const roles = chat.roles || {};
+  const getRole = (userId: string): ChatRole => roles[userId] || "member";
+  const myRole = getRole(currentUserId);
+  const canAddMembers = myRole !== "member";
+  const members = [...(chat.participantDetails || [])].sort((a, b) =>
+    ROLE_ORDER[getRole(a.id)] - ROLE_ORDER[getRole(b.id)] || getDisplayName(a).localeCompare(getDisplayName(b)),
+  );
+  // An owner has to hand the group over before they can leave anyone behind
+  const mustTransferToLeave = myRole === "owner" && members.length > 1;
+
+  useEffect(() => {
+    const timeout = setTimeout(() => setDebouncedQuery(query.trim()), SEARCH_DEBOUNCE);
+    return () => clearTimeout(timeout);
+  }, [query]);
+
+  useEffect(() => {
+    if (!open) setQuery("");
+  }, [open]);
+
+  const { data: searchResults = [] } = useQuery<UserProfile[]>({
+    queryKey: ['/api/users/search', debouncedQuery],
+    queryFn: async () => {
+      const res = await apiRequest('GET', `/api/users/search?${new URLSearchParams({ q: debouncedQuery })}`);
+      return res.json();
+    },
+    enabled: open && canAddMembers && debouncedQuery.length >= 2,
+  });
+  const candidates = searchResults.filter(user => !chat.participants.includes(user.id));
+
+  const refreshChat = () => {
+    queryClient.invalidateQueries({ queryKey: ['/api/chats', chat.id], exact: true });
+    queryClient.invalidateQueries({ queryKey: ['/api/chats'], exact: true });
+  };
+
+  const showError = (description: string) => {
+    toast({ title: "Error", description, variant: "destructive" });
+  };
+
+  const addMemberMutation = useMutation({
+    mutationFn: async (userId: string) => {
+      return await apiRequest('POST', `/api/chats/${chat.id}/members`, { userIds: [userId] });
+    },
+    onSuccess: () => {
+      setQuery("");
+      refreshChat();
+    },
+    onError: (error) => showError(error.message.startsWith("409:") ? "This group is full" : "Failed to add member"),
+  });
+
+  const updateRoleMutation = useMutation({
+    mutationFn: async ({ userId, role }: { userId: string; role: Exclude<ChatRole, "owner"> }) => {
+      return await apiRequest('PATCH', `/api/chats/${chat.id}/members/${userId}/role`, { role });
+    },
+    onSuccess: refreshChat,
+    onError: () => showError("Failed to change role"),
+  });
+
+  const confirmMutation = useMutation({
+    mutationFn: async (action: PendingAction) => {
+      switch (action.type) {
+        case "remove":
+          return await apiRequest('DELETE', `/api/chats/${chat.id}/members/${action.member.id}`);
+        case "transfer":
+          return await apiRequest('POST', `/api/chats/${chat.id}/transfer-ownership`, { userId: action.member.id });
+        case "leave":
+          return await apiRequest('POST', `/api/chats/${chat.id}/leave`);
+      }
+    },
+    onSuccess: (_response, action) => {
+      setPendingAction(null);
+      refreshChat();
+      if (action.type === "leave") {
+        onOpenChange(false);
+        onLeft?.();
+      }
+    },
+    onError: (_error, action) => {
+      setPendingAction(null);
+      showError(
+        action.type === "remove" ? "Failed to remove member"
+          : action.type === "transfer" ? "Failed to transfer ownership"
+          : "Failed to leave group",
+      );
+    },
+  });
+
+  const getConfirmText = (action: PendingAction) => {
+    switch (action.type) {
+      case "remove":
+        return {
+          title: `Remove ${getDisplayName(action.member)}?`,
+          description: "They will no longer see new messages in this group.",
+          confirm: "Remove",
+        };
+      case "transfer":
+        return {
+          title: `Make ${getDisplayName(action.member)} the owner?`,
+          description: "You will stay in the group as an admin.",
+          confirm: "Transfer ownership",
+        };
+      case "leave":
+        return {
+          title: "Leave this group?",
+          description: "You will need to be added again or use an invite link to rejoin.",
+          confirm: "Leave",
+        };
+    }
+  };
+  const confirmText = pendingAction && getConfirmText(pendingAction);
+
+  const renderMember = (member: UserProfile) => {
+    const role = getRole(member.id);
+    const isSelf = member.id === currentUserId;
+    const canChangeRole = myRole === "owner" && !isSelf;
+    const canRemove = !isSelf && canManage(myRole, role);
+
+    return (
+      <div key={member.id} className="flex items-center space-x-3 py-2" data-testid={`group-member-${member.id}`}>
+        <Avatar className="w-9 h-9">
+          <AvatarImage src={member.profileImageUrl || undefined} />
+          <AvatarFallback className="text-xs bg-gradient-to-br from-purple-500 to-pink-500 text-white">
+            {getDisplayName(member).slice(0, 2).toUpperCase()}
+          </AvatarFallback>
+        </Avatar>
+        <div className="flex-1 min-w-0">
+          <p className="text-sm font-medium text-gray-900 dark:text-white truncate">
+            {isSelf ? 'You' : getDisplayName(member)}
+          </p>
+          <p className="text-xs text-gray-500 truncate">@{member.username}</p>
+        </div>
+        <RoleBadge role={role} />
+        {(canChangeRole || canRemove) && (
+          <DropdownMenu>
+            <DropdownMenuTrigger asChild>
+              <Button variant="ghost" size="icon" className="w-8 h-8" data-testid={`button-member-actions-${member.id}`}>
+                <MoreVertical className="w-4 h-4" />
+              </Button>
+            </DropdownMenuTrigger>
+            <DropdownMenuContent align="end">
+              {canChangeRole && (
+                <>
+                  <DropdownMenuItem
+                    onClick={() => updateRoleMutation.mutate({ userId: member.id, role: role === "admin" ? "member" : "admin" })}
+                  >
+                    {role === "admin" ? 'Remove admin' : 'Make admin'}
+                  </DropdownMenuItem>
+                  <DropdownMenuItem onClick={() => setPendingAction({ type: "transfer", member })}>
+                    Transfer ownership
+                  </DropdownMenuItem>
+                </>
+              )}
+              {canChangeRole && canRemove && <DropdownMenuSeparator />}
+              {canRemove && (
+                <DropdownMenuItem
+                  className="text-red-600 focus:text-red-600"
+                  onClick={() => setPendingAction({ type: "remove", member })}
+                >
+                  Remove from group
+                </DropdownMenuItem>
+              )}
+            </DropdownMenuContent>
+          </DropdownMenu>
+        )}
+      </div>
+    );
+  };
+
+  return (
+    <>
+      <Sheet open={open} onOpenChange={onOpenChange}>
+        <SheetContent side="right" className="w-full sm:max-w-md p-0 flex flex-col" data-testid="panel-group-settings">
+          <SheetHeader className="p-4 border-b border-purple-200 dark:border-purple-800 text-left">
+            <SheetTitle>{chat.name || 'Group settings'}</SheetTitle>
+            <SheetDescription>
+              {chat.description || `${members.length} ${members.length === 1 ? 'member' : 'members'}`}
+            </SheetDescription>
+          </SheetHeader>
+
+          {canAddMembers && (
+            <div className="p-4 border-b border-purple-200 dark:border-purple-800 space-y-2">
+              <div className="relative">
+                <Search className="absolute left-3 top-1/2 -translate-y-1/2 w-4 h-4 text-gray-400" />
+                <Input
+                  value={query}
+                  onChange={(e) => setQuery(e.target.value)}
+                  placeholder="Add people..."
+                  className="pl-9"
+                  data-testid="input-add-members"
+                />
+              </div>
+              {debouncedQuery.length >= 2 && (
+                candidates.length === 0 ? (
+                  <p className="text-xs text-gray-500 px-1">No one to add</p>
+                ) : (
+                  <div className="max-h-40 overflow-y-auto space-y-1">
+                    {candidates.map(user => (
+                      <div key={user.id} className="flex items-center space-x-3 px-1 py-1">
+                        <Avatar className="w-7 h-7">
+                          <AvatarImage src={user.profileImageUrl || undefined} />
+                          <AvatarFallback className="text-xs">{getDisplayName(user).slice(0, 2).toUpperCase()}</AvatarFallback>
+                        </Avatar>
+                        <span className="flex-1 text-sm truncate">{getDisplayName(user)}</span>
+                        <Button
+                          size="sm"
+                          variant="ghost"
+                          className="text-purple-600 dark:text-purple-400"
+                          onClick={() => addMemberMutation.mutate(user.id)}
+                          disabled={addMemberMutation.isPending}
+                          data-testid={`button-add-member-${user.id}`}
+                        >
+                          <UserPlus className="w-4 h-4 mr-1" />
+                          Add
+                        </Button>
+                      </div>
+                    ))}
+                  </div>
+                )
+              )}
+            </div>
+          )}
+
+          <ScrollArea className="flex-1 px-4 chatgroove-scrollbar">
+            {canAddMembers && (
+              <div className="py-4 border-b border-purple-200 dark:border-purple-800">
+                <GroupInviteLinks chatId={chat.id} />
+              </div>
+            )}
+            <div className="py-2 divide-y divide-gray-100 dark:divide-gray-800">
+              {members.map(renderMember)}
+            </div>
+          </ScrollArea>
+
+          <div className="p-4 border-t border-purple-200 dark:border-purple-800 space-y-2">
+            {mustTransferToLeave && (
+              <p className="text-xs text-gray-500">Transfer ownership to another member before leaving.</p>
+            )}
+            <Button
+              variant="outline"
+              className="w-full text-red-600 hover:text-red-700 border-red-200 dark:border-red-800"
+              onClick={() => setPendingAction({ type: "leave" })}
+              disabled={mustTransferToLeave}
+              data-testid="button-leave-group"
+            >
+              <LogOut className="w-4 h-4 mr-2" />
+              Leave group
+            </Button>
+          </div>
+        </SheetContent>
+      </Sheet>
+
+      <AlertDialog open={!!pendingAction} onOpenChange={(open) => !open && setPendingAction(null)}>
+        <AlertDialogContent>
+          <AlertDialogHeader>
+            <AlertDialogTitle>{confirmText?.title}</AlertDialogTitle>
+            <AlertDialogDescription>{confirmText?.description}</AlertDialogDescription>
+          </AlertDialogHeader>
+          <AlertDialogFooter>
+            <AlertDialogCancel>Cancel</AlertDialogCancel>
+            <AlertDialogAction
+              onClick={(e) => {
+                e.preventDefault();
+                if (pendingAction) confirmMutation.mutate(pendingAction);
+              }}
+              disabled={confirmMutation.isPending}
+              data-testid="button-confirm-group-action"
+            >
+              {confirmText?.confirm}
+            </AlertDialogAction>
+          </AlertDialogFooter>
+        </AlertDialogContent>
+      </AlertDialog>
+    </>
+  );
+}
@@ -1,22 +1,309 @@
+import { useState } from "react";
+import { useQuery } from "@tanstack/react-query";
 import { Avatar, AvatarFallback, AvatarImage } from "@/components/ui/avatar";
-import { Check, CheckCheck } from "lucide-react";
-import type { MessageWithSender, User } from "@shared/schema";
+import { Popover, PopoverContent, PopoverTrigger } from "@/components/ui/popover";
+import { Ban, Check, CheckCheck, SmilePlus } from "lucide-react";
+import {
+  REACTION_EMOJIS,
+  type MessageReaction,
+  type MessageReceipt,
+  type MessageRevision,
+  type MessageWithSender,
+  type UserProfile,
+} from "@shared/schema";
 
 interface MessageBubbleProps {
   message: MessageWithSender;
-  currentUser: User;
+  currentUser: UserProfile;
   showAvatar?: boolean;
+  participants?: UserProfile[];
+  onToggleReaction?: (emoji: string, reacted: boolean) => void;
 }
 
-export function MessageBubble({ message, currentUser, showAvatar = true }: MessageBubbleProps) {
+interface MessageReactionsProps {
+  message: MessageWithSender;
+  isOwn: boolean;
+  onToggleReaction: (emoji: string, reacted: boolean) => void;
+  // Controlled so a long press on the message can open the picker too
+  pickerOpen?: boolean;
+  onPickerOpenChange?: (open: boolean) => void;
+}
+
+interface ReplyQuoteProps {
+  // The message being replied to
+  message: MessageWithSender;
+  isOwn?: boolean;
+  onClick?: () => void;
+  className?: string;
+}
+
+interface EditedLabelProps {
+  message: MessageWithSender;
+  className?: string;
+}
+
+interface MessageStatusProps {
+  message: MessageWithSender;
+  participants?: UserProfile[];
+  className?: string;
+}
+
+// Sent / delivered / read ticks for our own messages. In group chats the ticks
+// open a "Seen by" breakdown for each recipient.
+export function MessageStatus({ message, participants = [], className = "" }: MessageStatusProps) {
+  const status = message.deliveryStatus || (message.isRead ? "read" : "sent");
+
+  const ticks = status === "sent" ? (
+    <Check className={`w-3 h-3 text-gray-400 ${className}`} data-testid={`message-sent-${message.id}`} />
+  ) : (
+    <CheckCheck
+      className={`w-3 h-3 ${status === "read" ? "text-telegram-blue" : "text-gray-400"} ${className}`}
+      data-testid={`message-${status}-${message.id}`}
+    />
+  );
+
+  const receipts: MessageReceipt[] = message.receipts || [];
+  if (receipts.length < 2) return ticks;
+
+  const getName = (userId: string) => {
+    const user = participants.find(p => p.id === userId);
+    if (!user) return "Unknown user";
+    return user.firstName && user.lastName ? `${user.firstName} ${user.lastName}` : user.firstName || user.username;
+  };
+
+  const formatReceiptTime = (date: Date | string) =>
+    new Date(date).toLocaleString([], { month: "short", day: "numeric", hour: "2-digit", minute: "2-digit" });
+
+  const byTime = (key: "readAt" | "deliveredAt") => (a: MessageReceipt, b: MessageReceipt) =>
+    new Date(a[key]!).getTime() - new Date(b[key]!).getTime();
+
+  const seen = receipts.filter(r => r.readAt).sort(byTime("readAt"));
+  const delivered = receipts.filter(r => !r.readAt && r.deliveredAt).sort(byTime("deliveredAt"));
+  const pending = receipts.filter(r => !r.deliveredAt);
+
+  const sections = [
+    { title: "Seen by", receipts: seen, time: (r: MessageReceipt) => formatReceiptTime(r.readAt!) },
+    { title: "Delivered to", receipts: delivered, time: (r: MessageReceipt) => formatReceiptTime(r.deliveredAt!) },
+    { title: "Not delivered yet", receipts: pending, time: () => "" },
+  ].filter(section => section.receipts.length > 0);
+
+  return (
+    <Popover>
+      <PopoverTrigger asChild>
+        <button type="button" className="inline-flex items-center" data-testid={`button-seen-by-${message.id}`}>
+          {ticks}
+        </button>
+      </PopoverTrigger>
+      <PopoverContent className="w-64 p-3" align="end">
+        <div className="space-y-3">
+          {sections.map(section => (
+            <div key={section.title}>
+              <p className="text-xs font-semibold text-gray-500 dark:text-gray-400 mb-1">
+                {section.title} ({section.receipts.length})
+              </p>
+              <ul className="space-y-1">
+                {section.receipts.map(receipt => (
+                  <li key={receipt.userId} className="flex items-center justify-between text-sm">
+                    <span className="truncate">{getName(receipt.userId)}</span>
+                    <span className="text-xs text-gray-500 dark:text-gray-400 ml-2 shrink-0">{section.time(receipt)}</span>
+                  </li>
+                ))}
+              </ul>
+            </div>
+          ))}
+        </div>
+      </PopoverContent>
+    </Popover>
+  );
+}
+
+const formatRevisionTime = (date: Date | string) =>
+  new Date(date).toLocaleString([], { month: "short", day: "numeric", hour: "2-digit", minute: "2-digit" });
+
+// The "edited" marker on a message. It opens the message's earlier versions, newest first.
+export function EditedLabel({ message, className = "" }: EditedLabelProps) {
+  const [open, setOpen] = useState(false);
+  const { data: revisions = [], isLoading, isError } = useQuery<MessageRevision[]>({
+    queryKey: ['/api/messages', message.id, 'revisions'],
+    enabled: open,
+  });
+
+  const versions = [
+    { key: "current", label: "Current", content: message.content, at: message.editedAt },
+    ...revisions.slice().reverse().map((revision, index) => ({
+      key: revision.id,
+      label: index === revisions.length - 1 ? "Original" : "Earlier",
+      content: revision.content,
+      at: revision.postedAt,
+    })),
+  ];
+
+  return (
+    <Popover open={open} onOpenChange={setOpen}>
+      <PopoverTrigger asChild>
+        <button
+          type="button"
+          onClick={(e) => e.stopPropagation()}
+          className={`text-xs opacity-70 italic hover:underline ${className}`}
+          title="See edit history"
+          data-testid={`button-edit-history-${message.id}`}
+        >
+          (edited)
+        </button>
+      </PopoverTrigger>
+      <PopoverContent className="w-72 p-3" align="end">
+        <p className="text-xs font-semibold text-gray-500 dark:text-gray-400 mb-2">Edit history</p>
+        {isLoading ? (
+          <p className="text-sm text-gray-500">Loading...</p>
+        ) : isError ? (
+          <p className="text-sm text-red-500">Failed to load edit history</p>
+        ) : (
+          <ul className="space-y-2 max-h-64 overflow-y-auto">
+            {versions.map(version => (
+              <li key={version.key} className="text-sm">
+                <div className="flex items-center justify-between text-xs text-gray-500 dark:text-gray-400">
+                  <span className="font-medium">{version.label}</span>
+                  {version.at && <span>{formatRevisionTime(version.at)}</span>}
+                </div>
+                <p className="whitespace-pre-wrap break-words">{version.content}</p>
+              </li>
+            ))}
+          </ul>
+        )}
+      </PopoverContent>
+    </Popover>
+  );
+}
+
+export const DELETED_MESSAGE_TEXT = "This message was deleted";
+
+// Stands in for a message's content once it has been deleted for everyone
+export function MessageTombstone({ message, className = "" }: { message: MessageWithSender; className?: string }) {
+  return (
+    <p className={`flex items-center space-x-1 text-sm italic opacity-70 ${className}`} data-testid={`message-deleted-${message.id}`}>
+      <Ban className="w-3.5 h-3.5 shrink-0" />
+      <span>{DELETED_MESSAGE_TEXT}</span>
+    </p>
+  );
+}
+
+// What a quoted message says, with a label standing in for media
+function getQuoteText(message: MessageWithSender): string {
+  if (message.deletedAt) return DELETED_MESSAGE_TEXT;
+  switch (message.messageType) {
+    case "image":
+      return message.content || "Photo";
+    case "file":
+      return message.fileName || "File";
+    case "voice_note":
+      return "Voice message";
+    case "video_note":
+      return "Video message";
+    case "audio_call":
+    case "video_call":
+      return message.content || "Call";
+    default:
+      return message.content || "";
+  }
+}
+
+// The message a reply quotes, shown above the reply. Clicking it jumps to the original.
+export function ReplyQuote({ message, isOwn = false, onClick, className = "" }: ReplyQuoteProps) {
+  const sender = message.sender;
+  const senderName = sender.firstName && sender.lastName
+    ? `${sender.firstName} ${sender.lastName}`
+    : sender.firstName || sender.username;
+
+  return (
+    <button
+      type="button"
+      onClick={onClick}
+      disabled={!onClick}
+      className={`block max-w-full text-left rounded-md border-l-4 px-2 py-1 text-xs ${
+        isOwn
+          ? 'border-white/70 bg-white/20 text-white'
+          : 'border-purple-400 bg-purple-50 text-gray-700 dark:bg-gray-700 dark:text-gray-200'
+      } ${onClick ? 'cursor-pointer hover:opacity-80' : 'cursor-default'} ${className}`}
+      data-testid={`reply-quote-${message.id}`}
+    >
+      <span className="block font-semibold truncate">{senderName}</span>
+      <span className="block truncate opacity-90">{getQuoteText(message)}</span>
+    </button>
+  );
+}
+
+// Reaction counts under a message, plus a picker that shows on hover. Tapping a
+// count adds or takes back our own reaction.
+export function MessageReactions({ message, isOwn, onToggleReaction, pickerOpen, onPickerOpenChange }: MessageReactionsProps) {
+  const reactions: MessageReaction[] = message.reactions || [];
+
+  return (
+    <div className={`flex flex-wrap items-center gap-1 mt-1 ${isOwn ? 'justify-end' : 'justify-start'}`}>
+      {reactions.map(reaction => (
+        <button
+          key={reaction.emoji}
+          type="button"
+          onClick={() => onToggleReaction(reaction.emoji, !reaction.reacted)}
+          className={`flex items-center space-x-1 rounded-full border px-2 py-0.5 text-xs transition-colors ${
+            reaction.reacted
+              ? 'border-purple-400 bg-purple-100 text-purple-700 dark:border-purple-500 dark:bg-purple-900 dark:text-purple-200'
+              : 'border-gray-200 bg-white text-gray-700 hover:bg-gray-100 dark:border-gray-700 dark:bg-gray-800 dark:text-gray-300 dark:hover:bg-gray-700'
+          }`}
+          data-testid={`reaction-${message.id}-${reaction.emoji}`}
+        >
+          <span>{reaction.emoji}</span>
+          <span>{reaction.count}</span>
+        </button>
+      ))}
+
+      <Popover open={pickerOpen} onOpenChange={onPickerOpenChange}>
+        <PopoverTrigger asChild>
+          <button
+            type="button"
+            className={`rounded-full p-1 text-gray-400 hover:bg-gray-100 hover:text-gray-600 dark:hover:bg-gray-800 dark:hover:text-gray-300 ${
+              pickerOpen ? 'visible' : 'invisible group-hover/message:visible'
+            }`}
+            title="Add reaction"
+            data-testid={`button-add-reaction-${message.id}`}
+          >
+            <SmilePlus className="w-4 h-4" />
+          </button>
+        </PopoverTrigger>
+        <PopoverContent className="w-auto p-1" side="top" align={isOwn ? 'end' : 'start'}>
+          <div className="grid grid-cols-6 gap-1">
+            {REACTION_EMOJIS.map(emoji => {
+              const reacted = !!reactions.find(reaction => reaction.emoji === emoji)?.reacted;
+              return (
+                <button
+                  key={emoji}
+                  type="button"
+                  onClick={() => {
+                    onToggleReaction(emoji, !reacted);
+                    onPickerOpenChange?.(false);
+                  }}
+                  className={`rounded-md p-1 text-xl hover:bg-gray-100 dark:hover:bg-gray-800 ${reacted ? 'bg-purple-100 dark:bg-purple-900' : ''}`}
+                  data-testid={`button-react-${emoji}`}
+                >
+                  {emoji}
+                </button>
+              );
+            })}
+          </div>
+        </PopoverContent>
+      </Popover>
+    </div>
+  );
+}
+
+export function MessageBubble({ message, currentUser, showAvatar = true, participants, onToggleReaction }: MessageBubbleProps) {
   const isOwn = message.senderId === currentUser.id;
   
-  const formatTime = (dateString: string) => {
+  const formatTime = (dateString: Date | string) => {
     const date = new Date(dateString);
     return date.toLocaleTimeString([], { hour: '2-digit', minute: '2-digit' });
   };
 
-  const getSenderInitials = (sender: User) => {
+  const getSenderInitials = (sender: UserProfile) => {
     return `${sender.firstName || ""} ${sender.lastName || ""}`.trim().split(" ").map(n => n[0]).join("").toUpperCase() || 
            sender.username?.[0]?.toUpperCase() || 
            "U";
@@ -24,17 +311,19 @@ export function MessageBubble({ message, currentUser, showAvatar = true }: Messa
 
   if (isOwn) {
     return (
-      <div className="flex items-end justify-end space-x-2 animate-fade-in">
+      <div className="group/message flex items-end justify-end space-x-2 animate-fade-in">
         <div className="max-w-xs lg:max-w-md">
           <div className="bg-telegram-blue rounded-2xl rounded-tr-md p-3 shadow-sm">
+            {message.replyTo && <ReplyQuote message={message.replyTo} isOwn className="w-full mb-2" />}
             {message.messageType === "image" && message.fileUrl && (
               <img
-                src={message.fileUrl}
+                src={message.thumbnailUrl || message.fileUrl}
                 alt="Shared image"
                 className="w-full h-48 object-cover rounded-lg mb-2"
                 data-testid={`message-image-${message.id}`}
               />
             )}
+            {message.deletedAt && <MessageTombstone message={message} className="text-white" />}
             {message.content && (
               <p className="text-white" data-testid={`message-content-${message.id}`}>
                 {message.content}
@@ -42,22 +331,20 @@ export function MessageBubble({ message, currentUser, showAvatar = true }: Messa
             )}
           </div>
           <div className="flex items-center justify-end mt-1 px-1 space-x-1">
+            {message.editedAt && !message.deletedAt && <EditedLabel message={message} className="text-gray-500 dark:text-gray-400" />}
             <span className="text-xs text-gray-500 dark:text-gray-400" data-testid={`message-time-${message.id}`}>
               {formatTime(message.createdAt!)}
             </span>
-            {message.isRead ? (
-              <CheckCheck className="w-3 h-3 text-telegram-blue" data-testid={`message-read-${message.id}`} />
-            ) : (
-              <Check className="w-3 h-3 text-gray-400" data-testid={`message-sent-${message.id}`} />
-            )}
+            <MessageStatus message={message} participants={participants} />
           </div>
+          {onToggleReaction && !message.deletedAt && <MessageReactions message={message} isOwn onToggleReaction={onToggleReaction} />}
         </div>
       </div>
     );
   }
 
   return (
-    <div className="flex items-start space-x-2 animate-fade-in">
+    <div className="group/message flex items-start space-x-2 animate-fade-in">
       {showAvatar && (
         <Avatar className="w-8 h-8">
           <AvatarImage src={message.sender.profileImageUrl || undefined} />
@@ -66,14 +353,16 @@ export function MessageBubble({ message, currentUser, showAvatar = true }: Messa
       )}
       <div className="max-w-xs lg:max-w-md">
         <div className="bg-white dark:bg-telegram-dark-secondary rounded-2xl rounded-tl-md shadow-sm overflow-hidden">
+          {message.replyTo && <ReplyQuote message={message.replyTo} className="m-2 mb-0" />}
           {message.messageType === "image" && message.fileUrl && (
             <img
-              src={message.fileUrl}
+              src={message.thumbnailUrl || message.fileUrl}
               alt="Shared image"
               className="w-full h-48 object-cover"
               data-testid={`message-image-${message.id}`}
             />
           )}
+          {message.deletedAt && <MessageTombstone message={message} className="p-3 text-gray-900 dark:text-white" />}
           {message.content && (
             <div className="p-3">
               <p className="text-gray-900 dark:text-white" data-testid={`message-content-${message.id}`}>
@@ -86,7 +375,9 @@ export function MessageBubble({ message, currentUser, showAvatar = true }: Messa
           <span className="text-xs text-gray-500 dark:text-gray-400" data-testid={`message-time-${message.id}`}>
             {formatTime(message.createdAt!)}
           </span>
+          {message.editedAt && !message.deletedAt && <EditedLabel message={message} className="text-gray-500 dark:text-gray-400" />}
         </div>
+        {onToggleReaction && !message.deletedAt && <MessageReactions message={message} isOwn={false} onToggleReaction={onToggleReaction} />}
       </div>
     </div>
   );
@@ -0,0 +1,229 @@
+import { useEffect, useState } from "react";
+import { useQuery } from "@tanstack/react-query";
+import { Input } from "@/components/ui/input";
+import { Avatar, AvatarFallback, AvatarImage } from "@/components/ui/avatar";
+import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Search } from "lucide-react";
+import { apiRequest } from "@/lib/queryClient";
+import {
+  SEARCH_HIGHLIGHT_START,
+  SEARCH_HIGHLIGHT_END,
+  type ChatWithParticipants,
+  type MessageSearchResult,
+  type UserProfile,
+} from "@shared/schema";
+import { format } from "date-fns";
+
+interface MessageSearchDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  // The open chat, searched by default
+  chat?: ChatWithParticipants;
+  currentUserId: string;
+  onSelectResult: (result: MessageSearchResult) => void;
+}
+
+// Wait for typing to settle before searching
+const SEARCH_DEBOUNCE = 300;
+const SEARCH_LIMIT = 50;
+
+const ANY = "any";
+
+function getDisplayName(user: Pick<UserProfile, "username" | "firstName" | "lastName">) {
+  return [user.firstName, user.lastName].filter(Boolean).join(" ") || user.username;
+}
+
+function HighlightedSnippet({ snippet }: { snippet: string }) {
+  // Every part after the first starts with a match
+  const [lead, ...parts] = snippet.split(SEARCH_HIGHLIGHT_START);
+
+  return (
+    <p className="text-sm text-gray-700 dark:text-gray-300 line-clamp-2">
+      {lead}
+      {parts.map((part, index) => {
+        const [match, rest = ""] = part.split(SEARCH_HIGHLIGHT_END);
+        return (
+          <span key={index}>
+            <mark className="bg-yellow-200 dark:bg-yellow-700 dark:text-white rounded px-0.5">{match}</mark>
+            {rest}
+          </span>
+        );
+      })}
+    </p>
+  );
+}
+
+export function MessageSearchDialog({ open, onOpenChange, chat, currentUserId, onSelectResult }: MessageSearchDialogProps) {
+  const [query, setQuery] = useState("");
+  const [debouncedQuery, setDebouncedQuery] = useState("");
+  const [scope, setScope] = useState<"chat" | "all">(chat ? "chat" : "all");
+  const [senderId, setSenderId] = useState(ANY);
+  const [from, setFrom] = useState("");
+  const [to, setTo] = useState("");
+
+  // Chats the user is in, to name direct chats in results from other chats
+  const { data: chats = [] } = useQuery<ChatWithParticipants[]>({
+    queryKey: ['/api/chats'],
+    enabled: open,
+  });
+
+  useEffect(() => {
+    const timeout = setTimeout(() => setDebouncedQuery(query.trim()), SEARCH_DEBOUNCE);
+    return () => clearTimeout(timeout);
+  }, [query]);
+
+  // Searches start from the open chat each time
+  useEffect(() => {
+    if (open) {
+      setScope(chat ? "chat" : "all");
+      setSenderId(ANY);
+    }
+  }, [open, chat?.id]);
+
+  const searchChatId = scope === "chat" ? chat?.id : undefined;
+  const params = new URLSearchParams({ q: debouncedQuery, limit: String(SEARCH_LIMIT) });
+  if (searchChatId) params.set('chatId', searchChatId);
+  if (senderId !== ANY) params.set('senderId', senderId);
+  // Date inputs are calendar days in local time; `to` includes the whole day
+  if (from) params.set('from', new Date(`${from}T00:00:00`).toISOString());
+  if (to) params.set('to', new Date(`${to}T23:59:59.999`).toISOString());
+
+  const { data: results = [], isFetching, isError } = useQuery<MessageSearchResult[]>({
+    queryKey: ['/api/search/messages', params.toString()],
+    queryFn: async () => {
+      const res = await apiRequest('GET', `/api/search/messages?${params}`);
+      return res.json();
+    },
+    enabled: open && debouncedQuery.length > 0,
+  });
+
+  // Senders can only be picked from the chat being searched
+  const senders = scope === "chat" ? chat?.participantDetails || [] : [];
+
+  const getChatName = (result: MessageSearchResult) => {
+    if (result.chatName) return result.chatName;
+    const resultChat = result.chatId === chat?.id ? chat : chats.find(c => c.id === result.chatId);
+    const other = resultChat?.participantDetails?.find(p => p.id !== currentUserId);
+    return other ? getDisplayName(other) : 'Direct message';
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="sm:max-w-xl">
+        <DialogHeader>
+          <DialogTitle>Search messages</DialogTitle>
+          <DialogDescription>
+            Find words or "exact phrases"; put a minus before a word to leave it out.
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="space-y-3">
+          <div className="relative">
+            <Search className="absolute left-3 top-1/2 -translate-y-1/2 w-4 h-4 text-gray-400" />
+            <Input
+              value={query}
+              onChange={(e) => setQuery(e.target.value)}
+              placeholder="Search messages..."
+              className="pl-9"
+              autoFocus
+              data-testid="input-search-messages"
+            />
+          </div>
+
+          <div className="grid grid-cols-2 gap-2">
+            <Select
+              value={scope}
+              onValueChange={(value) => {
+                setScope(value as "chat" | "all");
+                setSenderId(ANY);
+              }}
+            >
+              <SelectTrigger data-testid="select-search-scope">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                {chat && <SelectItem value="chat">This chat</SelectItem>}
+                <SelectItem value="all">All chats</SelectItem>
+              </SelectContent>
+            </Select>
+
+            <Select value={senderId} onValueChange={setSenderId} disabled={senders.length === 0}>
+              <SelectTrigger data-testid="select-search-sender">
+                <SelectValue placeholder="From anyone" />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value={ANY}>From anyone</SelectItem>
+                {senders.map((sender) => (
+                  <SelectItem key={sender.id} value={sender.id}>
+                    {sender.id === currentUserId ? 'You' : getDisplayName(sender)}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+
+            <Input
+              type="date"
+              value={from}
+              max={to || undefined}
+              onChange={(e) => setFrom(e.target.value)}
+              aria-label="From date"
+              data-testid="input-search-from"
+            />
+            <Input
+              type="date"
+              value={to}
+              min={from || undefined}
+              onChange={(e) => setTo(e.target.value)}
+              aria-label="To date"
+              data-testid="input-search-to"
+            />
+          </div>
+        </div>
+
+        <div className="max-h-96 overflow-y-auto">
+          {!debouncedQuery ? null : isError ? (
+            <p className="text-sm text-center text-red-500 py-6">Search failed. Try again.</p>
+          ) : results.length === 0 ? (
+            <p className="text-sm text-center text-gray-500 py-6">
+              {isFetching ? 'Searching...' : 'No messages found'}
+            </p>
+          ) : (
+            <div className="space-y-1" data-testid="list-search-results">
+              {results.map((result) => (
+                <button
+                  key={result.id}
+                  type="button"
+                  className="w-full flex items-start space-x-3 p-2 rounded-lg text-left hover:bg-purple-50 dark:hover:bg-purple-950"
+                  onClick={() => onSelectResult(result)}
+                  data-testid={`search-result-${result.id}`}
+                >
+                  <Avatar className="w-8 h-8">
+                    <AvatarImage src={result.sender.profileImageUrl || undefined} />
+                    <AvatarFallback className="text-xs bg-gradient-to-br from-purple-500 to-pink-500 text-white">
+                      {getDisplayName(result.sender).slice(0, 2).toUpperCase()}
+                    </AvatarFallback>
+                  </Avatar>
+                  <div className="flex-1 min-w-0">
+                    <div className="flex items-center justify-between text-xs text-gray-500">
+                      <span className="truncate">
+                        <span className="font-medium text-gray-900 dark:text-white">
+                          {result.sender.id === currentUserId ? 'You' : getDisplayName(result.sender)}
+                        </span>
+                        {!searchChatId && <> in {getChatName(result)}</>}
+                      </span>
+                      {result.createdAt && (
+                        <span className="shrink-0 ml-2">{format(new Date(result.createdAt), 'MMM d, yyyy')}</span>
+                      )}
+                    </div>
+                    <HighlightedSnippet snippet={result.snippet} />
+                  </div>
+                </button>
+              ))}
+            </div>
+          )}
+        </div>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -2,7 +2,10 @@ import { useState } from "react";
 import { Button } from "@/components/ui/button";
 import { Avatar, AvatarFallback, AvatarImage } from "@/components/ui/avatar";
 import { Badge } from "@/components/ui/badge";
-import { Play, Pause, Phone, Video, Mic, Download, Volume2 } from "lucide-react";
+import { Play, Phone, Video, Mic, Download, FileText } from "lucide-react";
+import { BlurhashPlaceholder } from "./blurhash-placeholder";
+import { VoiceNotePlayer } from "./voice-note-player";
+import { formatDuration } from "@/lib/audio";
 import type { MessageWithSender } from "@shared/schema";
 
 interface MultimediaMessageProps {
@@ -12,12 +15,10 @@ interface MultimediaMessageProps {
 
 export function MultimediaMessage({ message, isOwn }: MultimediaMessageProps) {
   const [isPlaying, setIsPlaying] = useState(false);
+  const [isMediaLoaded, setIsMediaLoaded] = useState(false);
 
-  const formatDuration = (seconds: number) => {
-    const mins = Math.floor(seconds / 60);
-    const secs = seconds % 60;
-    return `${mins}:${secs.toString().padStart(2, '0')}`;
-  };
+  // Reserve the media's real shape up front so the chat doesn't jump when it loads
+  const aspectRatio = message.width && message.height ? `${message.width} / ${message.height}` : undefined;
 
   const getMessageIcon = () => {
     switch (message.messageType) {
@@ -29,6 +30,8 @@ export function MultimediaMessage({ message, isOwn }: MultimediaMessageProps) {
         return <Phone className="w-4 h-4" />;
       case 'video_call':
         return <Video className="w-4 h-4" />;
+      case 'file':
+        return <FileText className="w-4 h-4" />;
       default:
         return null;
     }
@@ -44,51 +47,58 @@ export function MultimediaMessage({ message, isOwn }: MultimediaMessageProps) {
         return 'Audio Call';
       case 'video_call':
         return 'Video Call';
+      case 'image':
+        return 'Image';
+      case 'file':
+        return 'File';
       default:
         return 'Media';
     }
   };
 
-  if (message.messageType === 'voice_note') {
+  if (message.messageType === 'image' && message.fileUrl) {
     return (
-      <div className={`flex items-center space-x-3 p-3 rounded-2xl max-w-xs ${
-        isOwn ? 'bg-telegram-blue text-white ml-auto' : 'bg-gray-100 dark:bg-gray-800 text-gray-900 dark:text-white'
-      }`}>
-        <Button
-          size="sm"
-          variant={isOwn ? "secondary" : "ghost"}
-          className="rounded-full p-2 h-8 w-8"
-          onClick={() => setIsPlaying(!isPlaying)}
-          data-testid={`button-play-voice-${message.id}`}
-        >
-          {isPlaying ? <Pause className="w-4 h-4" /> : <Play className="w-4 h-4" />}
-        </Button>
-        <div className="flex-1">
-          <div className="flex items-center space-x-2">
-            <Volume2 className="w-3 h-3 opacity-70" />
-            <div className="h-1 bg-current opacity-30 rounded-full flex-1">
-              <div className="h-full bg-current rounded-full w-1/3" />
-            </div>
-          </div>
-          {message.duration && (
-            <span className="text-xs opacity-70 mt-1 block">
-              {formatDuration(message.duration)}
-            </span>
-          )}
-        </div>
-      </div>
+      <a
+        href={message.fileUrl}
+        target="_blank"
+        rel="noopener noreferrer"
+        className={`relative block rounded-2xl overflow-hidden max-w-xs bg-gray-200 dark:bg-gray-800 ${isOwn ? 'ml-auto' : ''}`}
+        style={{ aspectRatio, width: message.width ? Math.min(message.width, 320) : undefined }}
+        data-testid={`link-image-${message.id}`}
+      >
+        {message.blurhash && !isMediaLoaded && (
+          <BlurhashPlaceholder hash={message.blurhash} className="absolute inset-0 w-full h-full" />
+        )}
+        <img
+          src={message.thumbnailUrl || message.fileUrl}
+          alt={message.fileName || 'Image'}
+          className={`relative w-full ${aspectRatio ? 'h-full object-cover' : 'h-auto max-h-80 object-cover'} transition-opacity ${
+            isMediaLoaded ? 'opacity-100' : 'opacity-0'
+          }`}
+          loading="lazy"
+          onLoad={() => setIsMediaLoaded(true)}
+        />
+      </a>
     );
   }
 
+  if (message.messageType === 'voice_note') {
+    return <VoiceNotePlayer message={message} isOwn={isOwn} />;
+  }
+
   if (message.messageType === 'video_note') {
     return (
       <div className={`relative rounded-2xl overflow-hidden max-w-xs ${isOwn ? 'ml-auto' : ''}`}>
-        <div className="aspect-square bg-gray-200 dark:bg-gray-800 flex items-center justify-center">
+        <div className="relative aspect-square bg-gray-200 dark:bg-gray-800 flex items-center justify-center">
+          {message.blurhash && !isMediaLoaded && (
+            <BlurhashPlaceholder hash={message.blurhash} className="absolute inset-0 w-full h-full" />
+          )}
           {message.thumbnailUrl ? (
             <img 
               src={message.thumbnailUrl} 
               alt="Video thumbnail" 
-              className="w-full h-full object-cover"
+              className="relative w-full h-full object-cover"
+              onLoad={() => setIsMediaLoaded(true)}
             />
           ) : (
             <Video className="w-16 h-16 text-gray-400" />
@@ -131,7 +141,7 @@ export function MultimediaMessage({ message, isOwn }: MultimediaMessageProps) {
           {message.duration ? (
             <p className="text-xs text-gray-500">Duration: {formatDuration(message.duration)}</p>
           ) : (
-            <p className="text-xs text-gray-500">Call ended</p>
+            <p className="text-xs text-gray-500">{message.content || 'Call ended'}</p>
           )}
         </div>
         <Button size="sm" variant="ghost" data-testid={`button-call-back-${message.id}`}>
@@ -148,10 +158,20 @@ export function MultimediaMessage({ message, isOwn }: MultimediaMessageProps) {
     }`}>
       <div className="flex items-center space-x-2">
         {getMessageIcon()}
-        <span className="text-sm">{message.fileName || getMessageTitle()}</span>
-        <Button size="sm" variant="ghost">
-          <Download className="w-4 h-4" />
-        </Button>
+        <span className="text-sm truncate">{message.fileName || getMessageTitle()}</span>
+        {message.fileUrl && (
+          <Button size="sm" variant="ghost" asChild>
+            <a
+              href={message.fileUrl}
+              download={message.fileName || true}
+              target="_blank"
+              rel="noopener noreferrer"
+              data-testid={`link-download-${message.id}`}
+            >
+              <Download className="w-4 h-4" />
+            </a>
+          </Button>
+        )}
       </div>
     </div>
   );
@@ -0,0 +1,120 @@
+import { useEffect, useState } from "react";
+import { useMutation } from "@tanstack/react-query";
+import { Button } from "@/components/ui/button";
+import { Label } from "@/components/ui/label";
+import { Textarea } from "@/components/ui/textarea";
+import { Dialog, DialogContent, DialogDescription, DialogFooter, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { apiRequest } from "@/lib/queryClient";
+import { useToast } from "@/hooks/use-toast";
+import type { ReportCategory, ReportTargetType } from "@shared/schema";
+
+export interface ReportTarget {
+  type: ReportTargetType;
+  id: string;
+  // What is being reported, e.g. "this message" or "@alex"
+  label: string;
+}
+
+interface ReportDialogProps {
+  // The dialog is closed without one
+  target: ReportTarget | null;
+  onClose: () => void;
+}
+
+export const REPORT_CATEGORY_LABELS: Record<ReportCategory, string> = {
+  spam: "Spam",
+  harassment: "Harassment or bullying",
+  hate_speech: "Hate speech",
+  violence: "Violence or threats",
+  sexual_content: "Sexual content",
+  impersonation: "Impersonation",
+  other: "Something else",
+};
+
+// Lets a user flag a message, person or chat for the moderators
+export function ReportDialog({ target, onClose }: ReportDialogProps) {
+  const [category, setCategory] = useState<ReportCategory | "">("");
+  const [details, setDetails] = useState("");
+  const { toast } = useToast();
+
+  useEffect(() => {
+    setCategory("");
+    setDetails("");
+  }, [target?.id]);
+
+  const reportMutation = useMutation({
+    mutationFn: async () => {
+      return await apiRequest('POST', '/api/reports', {
+        targetType: target!.type,
+        targetId: target!.id,
+        category,
+        details: details.trim() || undefined,
+      });
+    },
+    onSuccess: () => {
+      onClose();
+      toast({
+        title: "Report sent",
+        description: "Thanks for letting us know. A moderator will take a look.",
+      });
+    },
+    onError: (error) => {
+      toast({
+        title: "Error",
+        description: error.message.startsWith("409:") ? "You've already reported this" : "Failed to send report",
+        variant: "destructive",
+      });
+    },
+  });
+
+  return (
+    <Dialog open={!!target} onOpenChange={(open) => !open && onClose()}>
+      <DialogContent data-testid="dialog-report">
+        <DialogHeader>
+          <DialogTitle>Report {target?.label}</DialogTitle>
+          <DialogDescription>
+            Reports are only seen by moderators. The person you report won't know who sent it.
+          </DialogDescription>
+        </DialogHeader>
+        <div className="space-y-4">
+          <div className="space-y-2">
+            <Label>Reason</Label>
+            <Select value={category} onValueChange={(value) => setCategory(value as ReportCategory)}>
+              <SelectTrigger aria-label="Reason" data-testid="select-report-category">
+                <SelectValue placeholder="Choose a reason" />
+              </SelectTrigger>
+              <SelectContent>
+                {Object.entries(REPORT_CATEGORY_LABELS).map(([value, label]) => (
+                  <SelectItem key={value} value={value}>{label}</SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+          <div className="space-y-2">
+            <Label htmlFor="report-details">Details (optional)</Label>
+            <Textarea
+              id="report-details"
+              value={details}
+              onChange={(e) => setDetails(e.target.value)}
+              placeholder="Anything that helps a moderator understand what happened"
+              maxLength={2000}
+              data-testid="input-report-details"
+            />
+          </div>
+        </div>
+        <DialogFooter>
+          <Button variant="outline" onClick={onClose}>Cancel</Button>
+          <Button
+            variant="destructive"
+            onClick={() => reportMutation.mutate()}
+            disabled={!category || reportMutation.isPending}
+            data-testid="button-submit-report"
+          >
+            Send report
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -16,9 +16,11 @@ import { Search, Moon, Sun, Settings, LogOut, Users, Plus, Globe, Hash, Video, P
 import { apiRequest } from "@/lib/queryClient";
 import { useToast } from "@/hooks/use-toast";
 import { isUnauthorizedError } from "@/lib/authUtils";
+import { useRealtime, formatTypingUsers } from "@/hooks/use-realtime";
 import { ChatGrooveLogo } from "@/components/ui/chatgroove-logo";
+import { DELETED_MESSAGE_TEXT } from "./message-bubble";
 import { z } from "zod";
-import type { ChatWithParticipants, User } from "@shared/schema";
+import type { ChatWithParticipants, User, UserProfile } from "@shared/schema";
 
 const createGroupSchema = z.object({
   name: z.string().min(1, "Group name is required").max(50, "Group name must be less than 50 characters"),
@@ -29,7 +31,7 @@ interface SidebarProps {
   selectedChatId?: string;
   onSelectChat: (chatId: string) => void;
   onShowProfile: () => void;
-  currentUser: User;
+  currentUser: UserProfile;
   onCloseMobile?: () => void;
 }
 
@@ -39,6 +41,7 @@ export function Sidebar({ selectedChatId, onSelectChat, onShowProfile, currentUs
   const [showCreateGroupDialog, setShowCreateGroupDialog] = useState(false);
   const { theme, setTheme } = useTheme();
   const { toast } = useToast();
+  const { typingUsers } = useRealtime();
   const queryClient = useQueryClient();
 
   const createGroupForm = useForm<z.infer<typeof createGroupSchema>>({
@@ -51,7 +54,6 @@ export function Sidebar({ selectedChatId, onSelectChat, onShowProfile, currentUs
 
   const { data: chats = [], isLoading: chatsLoading } = useQuery<ChatWithParticipants[]>({
     queryKey: ["/api/chats"],
-    refetchInterval: 5000, // Poll for new messages
   });
 
   const { data: globalRooms = [], isLoading: globalRoomsLoading } = useQuery<ChatWithParticipants[]>({
@@ -443,10 +445,16 @@ export function Sidebar({ selectedChatId, onSelectChat, onShowProfile, currentUs
                         )}
                       </div>
                       
-                      {chat.lastMessage && (
+                      {typingUsers[chat.id]?.length ? (
+                        <p className="text-sm text-purple-600 dark:text-purple-400 italic truncate">
+                          {formatTypingUsers(typingUsers[chat.id])}
+                        </p>
+                      ) : chat.lastMessage && (
                         <p className="text-sm text-gray-600 dark:text-gray-400 truncate">
                           {chat.lastMessage.senderId === currentUser._id ? "You: " : ""}
-                          {chat.lastMessage.content || (chat.lastMessage.messageType === "image" ? "📷 Image" : "📎 File")}
+                          {chat.lastMessage.deletedAt
+                            ? DELETED_MESSAGE_TEXT
+                            : chat.lastMessage.content || (chat.lastMessage.messageType === "image" ? "📷 Image" : "📎 File")}
                         </p>
                       )}
                       
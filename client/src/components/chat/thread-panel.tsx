@@ -0,0 +1,249 @@
+import { useEffect, useRef, useState } from "react";
+import { useMutation, useQuery, useQueryClient } from "@tanstack/react-query";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { ScrollArea } from "@/components/ui/scroll-area";
+import { Avatar, AvatarFallback, AvatarImage } from "@/components/ui/avatar";
+import { Sheet, SheetContent, SheetDescription, SheetHeader, SheetTitle } from "@/components/ui/sheet";
+import { Reply, Send, X } from "lucide-react";
+import { apiRequest } from "@/lib/queryClient";
+import { useToast } from "@/hooks/use-toast";
+import { useReactions } from "@/hooks/use-reactions";
+import { updateChatMessages } from "@/hooks/use-realtime";
+import { MultimediaMessage } from "./multimedia-message";
+import { EditedLabel, MessageReactions, MessageStatus, MessageTombstone, ReplyQuote } from "./message-bubble";
+import type { MessageThread, MessageWithSender, UserProfile } from "@shared/schema";
+import { formatDistanceToNow } from "date-fns";
+
+interface ThreadPanelProps {
+  chatId: string;
+  // The thread's root message; the panel is closed without one
+  rootId: string | null;
+  onClose: () => void;
+  currentUser: UserProfile;
+  participants?: UserProfile[];
+  // A reply to scroll to and highlight, e.g. a search result
+  focusMessageId?: string | null;
+  onMessageFocused?: () => void;
+}
+
+// How long a focused reply stays highlighted, in milliseconds
+const FOCUS_HIGHLIGHT_DURATION = 2000;
+
+function getSenderName(sender: UserProfile) {
+  return sender.firstName && sender.lastName
+    ? `${sender.firstName} ${sender.lastName}`
+    : sender.firstName || sender.username;
+}
+
+// Replies to one message, alongside the chat they came from
+export function ThreadPanel({ chatId, rootId, onClose, currentUser, participants, focusMessageId, onMessageFocused }: ThreadPanelProps) {
+  const [message, setMessage] = useState("");
+  const [replyingTo, setReplyingTo] = useState<MessageWithSender | null>(null);
+  const [highlightedMessageId, setHighlightedMessageId] = useState<string | null>(null);
+  const messagesEndRef = useRef<HTMLDivElement>(null);
+  const scrollAreaRef = useRef<HTMLDivElement>(null);
+  const queryClient = useQueryClient();
+  const { toast } = useToast();
+  const { toggleReaction } = useReactions(chatId);
+
+  const { data: thread, isLoading, isError } = useQuery<MessageThread>({
+    queryKey: ['/api/chats', chatId, 'threads', rootId],
+    enabled: !!rootId,
+  });
+  const replies = thread?.replies || [];
+
+  useEffect(() => {
+    setMessage("");
+    setReplyingTo(null);
+  }, [rootId]);
+
+  // Having the thread open counts as reading every reply in it
+  useEffect(() => {
+    if (!rootId || !thread) return;
+
+    apiRequest('POST', `/api/chats/${chatId}/threads/${rootId}/read`)
+      .then(() => updateChatMessages(chatId, (m) =>
+        m.id === rootId && m.thread ? { ...m, thread: { ...m.thread, unreadCount: 0 } } : m,
+      ))
+      .catch((error) => console.error('Failed to mark thread as read:', error));
+  }, [chatId, rootId, !!thread, replies.length]);
+
+  useEffect(() => {
+    if (focusMessageId && replies.some(m => m.id === focusMessageId)) {
+      scrollAreaRef.current?.querySelector(`[data-message-id="${focusMessageId}"]`)?.scrollIntoView({ block: 'center' });
+      setHighlightedMessageId(focusMessageId);
+      onMessageFocused?.();
+      return;
+    }
+    messagesEndRef.current?.scrollIntoView({ behavior: "smooth" });
+  }, [replies.length, focusMessageId]);
+
+  useEffect(() => {
+    if (!highlightedMessageId) return;
+    const timeout = setTimeout(() => setHighlightedMessageId(null), FOCUS_HIGHLIGHT_DURATION);
+    return () => clearTimeout(timeout);
+  }, [highlightedMessageId]);
+
+  const sendReplyMutation = useMutation({
+    mutationFn: async ({ content, replyToId }: { content: string; replyToId?: string }) => {
+      return await apiRequest('POST', `/api/chats/${chatId}/messages`, { content, threadRootId: rootId, replyToId });
+    },
+    onSuccess: () => {
+      setMessage("");
+      setReplyingTo(null);
+      queryClient.invalidateQueries({ queryKey: ['/api/chats', chatId, 'threads', rootId] });
+    },
+    onError: () => {
+      toast({
+        title: "Error",
+        description: "Failed to send reply",
+        variant: "destructive",
+      });
+    },
+  });
+
+  const handleSendReply = (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!message.trim() || !rootId) return;
+    sendReplyMutation.mutate({ content: message.trim(), replyToId: replyingTo?.id });
+  };
+
+  const jumpToReply = (messageId: string) => {
+    scrollAreaRef.current?.querySelector(`[data-message-id="${messageId}"]`)?.scrollIntoView({ block: 'center', behavior: 'smooth' });
+    setHighlightedMessageId(messageId);
+  };
+
+  const renderMessage = (msg: MessageWithSender, isRoot = false) => {
+    const isOwn = msg.senderId === currentUser.id;
+
+    return (
+      <div
+        key={msg.id}
+        data-message-id={msg.id}
+        className={`group/message flex items-start space-x-2 rounded-lg p-1 transition-colors duration-500 ${
+          highlightedMessageId === msg.id ? 'bg-yellow-100/70 dark:bg-yellow-900/40' : ''
+        }`}
+      >
+        <Avatar className="h-8 w-8 border border-white dark:border-gray-700">
+          <AvatarImage src={msg.sender.profileImageUrl || undefined} />
+          <AvatarFallback className="bg-gradient-to-br from-gray-500 to-gray-600 text-white text-sm">
+            {msg.sender.firstName?.[0] || msg.sender.username?.[0] || '?'}
+          </AvatarFallback>
+        </Avatar>
+
+        <div className="flex-1 min-w-0">
+          <div className="flex items-baseline space-x-2">
+            <span className="text-sm font-semibold text-gray-900 dark:text-white truncate">
+              {isOwn ? 'You' : getSenderName(msg.sender)}
+            </span>
+            <span className="text-xs text-gray-400 dark:text-gray-500 shrink-0">
+              {formatDistanceToNow(new Date(msg.createdAt!), { addSuffix: true })}
+            </span>
+            {isOwn && <MessageStatus message={msg} participants={participants} />}
+            {!isRoot && !msg.deletedAt && (
+              <button
+                type="button"
+                onClick={() => setReplyingTo(msg)}
+                className="invisible group-hover/message:visible text-gray-400 hover:text-purple-600 dark:hover:text-purple-400"
+                title="Reply"
+                data-testid={`button-thread-reply-${msg.id}`}
+              >
+                <Reply className="w-3.5 h-3.5" />
+              </button>
+            )}
+          </div>
+
+          {msg.replyTo && msg.replyTo.id !== rootId && (
+            <ReplyQuote message={msg.replyTo} onClick={() => jumpToReply(msg.replyTo!.id)} className="mt-1" />
+          )}
+
+          {msg.deletedAt ? (
+            <MessageTombstone message={msg} className="text-gray-600 dark:text-gray-400" />
+          ) : msg.messageType !== 'text' ? (
+            <div className="mt-1">
+              <MultimediaMessage message={msg} isOwn={false} />
+            </div>
+          ) : (
+            <p className="text-sm leading-relaxed text-gray-800 dark:text-gray-200 whitespace-pre-wrap break-words">
+              {msg.content}
+              {msg.editedAt && <EditedLabel message={msg} className="ml-2" />}
+            </p>
+          )}
+
+          {!msg.deletedAt && (
+            <MessageReactions
+              message={msg}
+              isOwn={false}
+              onToggleReaction={(emoji, reacted) => toggleReaction(msg.id, emoji, reacted)}
+            />
+          )}
+        </div>
+      </div>
+    );
+  };
+
+  return (
+    <Sheet open={!!rootId} onOpenChange={(open) => !open && onClose()}>
+      <SheetContent side="right" className="w-full sm:max-w-md p-0 flex flex-col" data-testid="panel-thread">
+        <SheetHeader className="p-4 border-b border-purple-200 dark:border-purple-800 text-left">
+          <SheetTitle>Thread</SheetTitle>
+          <SheetDescription>
+            {replies.length} {replies.length === 1 ? 'reply' : 'replies'}
+          </SheetDescription>
+        </SheetHeader>
+
+        <ScrollArea ref={scrollAreaRef} className="flex-1 p-4 chatgroove-scrollbar">
+          {isLoading ? (
+            <div className="flex justify-center py-8">
+              <div className="w-8 h-8 border-2 border-purple-500 border-t-transparent rounded-full animate-spin"></div>
+            </div>
+          ) : isError || !thread ? (
+            <p className="text-sm text-center text-gray-500 py-8">This thread is no longer available.</p>
+          ) : (
+            <div className="space-y-3">
+              {renderMessage(thread.root, true)}
+              <div className="flex items-center space-x-2 text-xs text-gray-400">
+                <span>{replies.length} {replies.length === 1 ? 'reply' : 'replies'}</span>
+                <div className="flex-1 border-t border-gray-200 dark:border-gray-700" />
+              </div>
+              {replies.map(reply => renderMessage(reply))}
+              <div ref={messagesEndRef} />
+            </div>
+          )}
+        </ScrollArea>
+
+        {thread && (
+          <div className="p-3 border-t border-purple-200 dark:border-purple-800 space-y-2">
+            {replyingTo && (
+              <div className="flex items-center space-x-2" data-testid="thread-replying-to">
+                <ReplyQuote message={replyingTo} className="flex-1" />
+                <Button type="button" variant="ghost" size="icon" className="w-7 h-7" onClick={() => setReplyingTo(null)} title="Cancel reply">
+                  <X className="w-4 h-4" />
+                </Button>
+              </div>
+            )}
+            <form onSubmit={handleSendReply} className="flex items-center space-x-2">
+              <Input
+                value={message}
+                onChange={(e) => setMessage(e.target.value)}
+                placeholder="Reply in thread..."
+                className="rounded-2xl bg-purple-50 dark:bg-gray-800 border-purple-200 dark:border-purple-700"
+                disabled={sendReplyMutation.isPending}
+                data-testid="input-thread-reply"
+              />
+              <Button
+                type="submit"
+                disabled={!message.trim() || sendReplyMutation.isPending}
+                className="rounded-full bg-gradient-to-r from-purple-500 to-pink-500 hover:from-purple-600 hover:to-pink-600 text-white w-10 h-10 p-0 shrink-0"
+                data-testid="button-send-thread-reply"
+              >
+                <Send className="w-4 h-4" />
+              </Button>
+            </form>
+          </div>
+        )}
+      </SheetContent>
+    </Sheet>
+  );
+}
@@ -0,0 +1,136 @@
+import { useEffect, useRef, useState } from "react";
+import { Button } from "@/components/ui/button";
+import { Play, Pause } from "lucide-react";
+import { WAVEFORM_BARS, formatDuration } from "@/lib/audio";
+import type { MessageWithSender } from "@shared/schema";
+
+const PLAYBACK_RATES = [1, 1.5, 2];
+
+// Flat bars for voice notes recorded without a waveform
+const FALLBACK_WAVEFORM: number[] = Array(WAVEFORM_BARS).fill(30);
+
+interface VoiceNotePlayerProps {
+  message: MessageWithSender;
+  isOwn: boolean;
+}
+
+export function VoiceNotePlayer({ message, isOwn }: VoiceNotePlayerProps) {
+  const audioRef = useRef<HTMLAudioElement>(null);
+  const [isPlaying, setIsPlaying] = useState(false);
+  const [currentTime, setCurrentTime] = useState(0);
+  const [mediaDuration, setMediaDuration] = useState<number>();
+  const [rateIndex, setRateIndex] = useState(0);
+  const [isScrubbing, setIsScrubbing] = useState(false);
+
+  // Recordings from some browsers report an infinite duration, so prefer the one we stored
+  const duration = message.duration || mediaDuration || 0;
+  const waveform: number[] = message.waveform?.length ? message.waveform : FALLBACK_WAVEFORM;
+  const progress = duration ? Math.min(currentTime / duration, 1) : 0;
+
+  useEffect(() => {
+    if (audioRef.current) {
+      audioRef.current.playbackRate = PLAYBACK_RATES[rateIndex];
+    }
+  }, [rateIndex]);
+
+  const togglePlayback = () => {
+    const audio = audioRef.current;
+    if (!audio) return;
+
+    if (audio.paused) {
+      audio.play().catch((error) => console.error("Failed to play voice note:", error));
+    } else {
+      audio.pause();
+    }
+  };
+
+  const seekTo = (e: React.PointerEvent<HTMLDivElement>) => {
+    const audio = audioRef.current;
+    if (!audio || !duration) return;
+
+    const bounds = e.currentTarget.getBoundingClientRect();
+    const fraction = Math.min(Math.max((e.clientX - bounds.left) / bounds.width, 0), 1);
+    audio.currentTime = fraction * duration;
+    setCurrentTime(audio.currentTime);
+  };
+
+  return (
+    <div className={`flex items-center space-x-3 p-3 rounded-2xl w-72 max-w-full ${
+      isOwn ? 'bg-telegram-blue text-white ml-auto' : 'bg-gray-100 dark:bg-gray-800 text-gray-900 dark:text-white'
+    }`}>
+      <audio
+        ref={audioRef}
+        src={message.fileUrl || undefined}
+        preload="metadata"
+        onPlay={() => setIsPlaying(true)}
+        onPause={() => setIsPlaying(false)}
+        onEnded={() => {
+          setIsPlaying(false);
+          setCurrentTime(0);
+        }}
+        onTimeUpdate={(e) => {
+          if (!isScrubbing) setCurrentTime(e.currentTarget.currentTime);
+        }}
+        onLoadedMetadata={(e) => {
+          const { duration: loadedDuration } = e.currentTarget;
+          if (Number.isFinite(loadedDuration)) setMediaDuration(loadedDuration);
+          e.currentTarget.playbackRate = PLAYBACK_RATES[rateIndex];
+        }}
+      />
+      <Button
+        size="sm"
+        variant={isOwn ? "secondary" : "ghost"}
+        className="rounded-full p-2 h-8 w-8 shrink-0"
+        onClick={togglePlayback}
+        disabled={!message.fileUrl}
+        data-testid={`button-play-voice-${message.id}`}
+      >
+        {isPlaying ? <Pause className="w-4 h-4" /> : <Play className="w-4 h-4" />}
+      </Button>
+      <div className="flex-1 min-w-0">
+        <div
+          className="flex items-center h-8 gap-px cursor-pointer touch-none"
+          onPointerDown={(e) => {
+            e.currentTarget.setPointerCapture(e.pointerId);
+            setIsScrubbing(true);
+            seekTo(e);
+          }}
+          onPointerMove={(e) => {
+            if (isScrubbing) seekTo(e);
+          }}
+          onPointerUp={() => setIsScrubbing(false)}
+          onPointerCancel={() => setIsScrubbing(false)}
+          role="slider"
+          aria-label="Voice note position"
+          aria-valuemin={0}
+          aria-valuemax={Math.round(duration)}
+          aria-valuenow={Math.round(currentTime)}
+          data-testid={`waveform-voice-${message.id}`}
+        >
+          {waveform.map((level, index) => (
+            <div
+              key={index}
+              className={`flex-1 rounded-full bg-current transition-opacity ${
+                (index + 0.5) / waveform.length <= progress ? 'opacity-100' : 'opacity-40'
+              }`}
+              style={{ height: `${Math.max(level, 8)}%` }}
+            />
+          ))}
+        </div>
+        <div className="flex items-center justify-between mt-1">
+          <span className="text-xs opacity-70">
+            {formatDuration(isPlaying || currentTime > 0 ? currentTime : duration)}
+          </span>
+          <button
+            type="button"
+            className="text-xs font-semibold opacity-80 hover:opacity-100 px-1.5 rounded-full border border-current"
+            onClick={() => setRateIndex((rateIndex + 1) % PLAYBACK_RATES.length)}
+            data-testid={`button-voice-speed-${message.id}`}
+          >
+            {PLAYBACK_RATES[rateIndex]}x
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+}
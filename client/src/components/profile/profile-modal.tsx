@@ -9,12 +9,12 @@ import { X, Camera } from "lucide-react";
 import { apiRequest } from "@/lib/queryClient";
 import { useToast } from "@/hooks/use-toast";
 import { isUnauthorizedError } from "@/lib/authUtils";
-import type { User } from "@shared/schema";
+import type { UserProfile } from "@shared/schema";
 
 interface ProfileModalProps {
   isOpen: boolean;
   onClose: () => void;
-  currentUser: User;
+  currentUser: UserProfile;
 }
 
 export function ProfileModal({ isOpen, onClose, currentUser }: ProfileModalProps) {
@@ -55,7 +55,7 @@ export function ProfileModal({ isOpen, onClose, currentUser }: ProfileModalProps
       }
       toast({
         title: "Error",
-        description: "Failed to update profile",
+        description: error.message.startsWith("409:") ? "That username is already taken" : "Failed to update profile",
         variant: "destructive",
       });
     },
@@ -0,0 +1,58 @@
+import { useEffect, useState } from "react";
+
+// How often audio levels are sampled, in milliseconds
+const SAMPLE_INTERVAL = 250;
+// RMS level below which someone counts as silent
+const SPEAKING_THRESHOLD = 0.02;
+
+// The id of whoever is loudest right now, or null when everyone is quiet
+export function useActiveSpeaker(streams: Record<string, MediaStream | null>): string | null {
+  const [activeSpeaker, setActiveSpeaker] = useState<string | null>(null);
+  // Re-wire the analysers only when the set of audio tracks changes
+  const trackKey = Object.entries(streams)
+    .map(([id, stream]) => `${id}:${stream?.getAudioTracks().map((track) => track.id).join(",") ?? ""}`)
+    .sort()
+    .join("|");
+
+  useEffect(() => {
+    const entries = Object.entries(streams).filter(
+      (entry): entry is [string, MediaStream] => !!entry[1] && entry[1].getAudioTracks().length > 0,
+    );
+    if (entries.length === 0) {
+      setActiveSpeaker(null);
+      return;
+    }
+
+    const context = new AudioContext();
+    const analysers = entries.map(([id, stream]) => {
+      const analyser = context.createAnalyser();
+      analyser.fftSize = 512;
+      context.createMediaStreamSource(stream).connect(analyser);
+      return { id, analyser, samples: new Uint8Array(analyser.fftSize) };
+    });
+
+    const interval = setInterval(() => {
+      let loudest: { id: string; level: number } | null = null;
+      for (const { id, analyser, samples } of analysers) {
+        analyser.getByteTimeDomainData(samples);
+        let sum = 0;
+        for (let i = 0; i < samples.length; i++) {
+          const value = (samples[i] - 128) / 128;
+          sum += value * value;
+        }
+        const level = Math.sqrt(sum / samples.length);
+        if (level > SPEAKING_THRESHOLD && (!loudest || level > loudest.level)) {
+          loudest = { id, level };
+        }
+      }
+      setActiveSpeaker(loudest ? loudest.id : null);
+    }, SAMPLE_INTERVAL);
+
+    return () => {
+      clearInterval(interval);
+      context.close();
+    };
+  }, [trackKey]);
+
+  return activeSpeaker;
+}
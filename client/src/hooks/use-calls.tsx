@@ -0,0 +1,319 @@
+import { createContext, ReactNode, useCallback, useContext, useEffect, useRef, useState } from "react";
+import { getIceServers } from "@/lib/webrtc";
+import { useRealtime } from "@/hooks/use-realtime";
+import { useToast } from "@/hooks/use-toast";
+import type { CallEndReason, CallMedia, CallParticipant, CallSignal, ServerEvent } from "@shared/schema";
+
+export type CallStatus = "outgoing" | "ringing" | "incoming" | "connecting" | "connected";
+
+export type CallSession = {
+  callId: string;
+  chatId: string;
+  media: CallMedia;
+  direction: "outgoing" | "incoming";
+  peer: CallParticipant;
+  status: CallStatus;
+  connectedAt?: number;
+};
+
+type CallContextType = {
+  call: CallSession | null;
+  localStream: MediaStream | null;
+  remoteStream: MediaStream | null;
+  isMuted: boolean;
+  isCameraOff: boolean;
+  startCall: (chatId: string, media: CallMedia, peer: CallParticipant) => Promise<void>;
+  acceptCall: () => Promise<void>;
+  declineCall: () => void;
+  endCall: () => void;
+  toggleMute: () => void;
+  toggleCamera: () => void;
+};
+
+// Explains why a call ended, for the reasons the user didn't cause themselves
+const END_REASON_MESSAGES: Partial<Record<CallEndReason, string>> = {
+  hangup: "The call has ended.",
+  declined: "The call was declined.",
+  cancelled: "The caller hung up.",
+  busy: "They're on another call.",
+  unavailable: "They're not available right now.",
+  no_answer: "No answer.",
+  disconnected: "The call was disconnected.",
+};
+
+export const CallContext = createContext<CallContextType | null>(null);
+
+export function CallProvider({ children }: { children: ReactNode }) {
+  const { isConnected, send, subscribe } = useRealtime();
+  const { toast } = useToast();
+  const [call, setCall] = useState<CallSession | null>(null);
+  const [localStream, setLocalStream] = useState<MediaStream | null>(null);
+  const [remoteStream, setRemoteStream] = useState<MediaStream | null>(null);
+  const [isMuted, setIsMuted] = useState(false);
+  const [isCameraOff, setIsCameraOff] = useState(false);
+
+  // Event handlers run outside React's render cycle, so they read live values from refs
+  const callRef = useRef<CallSession | null>(null);
+  const localStreamRef = useRef<MediaStream | null>(null);
+  const peerConnectionRef = useRef<RTCPeerConnection | null>(null);
+  // ICE candidates that arrive before the remote description is set
+  const pendingCandidatesRef = useRef<RTCIceCandidateInit[]>([]);
+
+  const updateCall = useCallback((next: CallSession | null) => {
+    callRef.current = next;
+    setCall(next);
+  }, []);
+
+  const cleanup = useCallback(() => {
+    peerConnectionRef.current?.close();
+    peerConnectionRef.current = null;
+    localStreamRef.current?.getTracks().forEach((track) => track.stop());
+    localStreamRef.current = null;
+    pendingCandidatesRef.current = [];
+    setLocalStream(null);
+    setRemoteStream(null);
+    setIsMuted(false);
+    setIsCameraOff(false);
+    updateCall(null);
+  }, [updateCall]);
+
+  const sendSignal = useCallback((signal: CallSignal) => {
+    const current = callRef.current;
+    if (current) send({ type: "call.signal", callId: current.callId, signal });
+  }, [send]);
+
+  const openMedia = async (media: CallMedia) => {
+    const stream = await navigator.mediaDevices.getUserMedia({ audio: true, video: media === "video" });
+    localStreamRef.current = stream;
+    setLocalStream(stream);
+    return stream;
+  };
+
+  const createPeerConnection = useCallback(async () => {
+    const peerConnection = new RTCPeerConnection({ iceServers: await getIceServers() });
+    peerConnectionRef.current = peerConnection;
+
+    localStreamRef.current?.getTracks().forEach((track) => {
+      peerConnection.addTrack(track, localStreamRef.current!);
+    });
+
+    peerConnection.onicecandidate = (e) => {
+      if (!e.candidate) return;
+      const { candidate, sdpMid, sdpMLineIndex } = e.candidate;
+      sendSignal({ type: "candidate", candidate: { candidate, sdpMid, sdpMLineIndex } });
+    };
+    peerConnection.ontrack = (e) => {
+      setRemoteStream(e.streams[0] ?? new MediaStream([e.track]));
+    };
+    peerConnection.onconnectionstatechange = () => {
+      const current = callRef.current;
+      if (!current || peerConnectionRef.current !== peerConnection) return;
+
+      if (peerConnection.connectionState === "connected" && current.status !== "connected") {
+        updateCall({ ...current, status: "connected", connectedAt: Date.now() });
+      } else if (peerConnection.connectionState === "failed") {
+        send({ type: "call.end", callId: current.callId });
+        cleanup();
+        toast({ title: "Call failed", description: "The connection could not be established.", variant: "destructive" });
+      }
+    };
+
+    return peerConnection;
+  }, [send, sendSignal, updateCall, cleanup, toast]);
+
+  const flushPendingCandidates = async (peerConnection: RTCPeerConnection) => {
+    const candidates = pendingCandidatesRef.current;
+    pendingCandidatesRef.current = [];
+    for (const candidate of candidates) {
+      await peerConnection.addIceCandidate(candidate);
+    }
+  };
+
+  const handleSignal = async (signal: CallSignal) => {
+    const peerConnection = peerConnectionRef.current;
+    if (!peerConnection) return;
+
+    if (signal.type === "candidate") {
+      if (peerConnection.remoteDescription) {
+        await peerConnection.addIceCandidate(signal.candidate);
+      } else {
+        pendingCandidatesRef.current.push(signal.candidate);
+      }
+    } else if (signal.type === "offer") {
+      await peerConnection.setRemoteDescription({ type: "offer", sdp: signal.sdp });
+      await flushPendingCandidates(peerConnection);
+      const answer = await peerConnection.createAnswer();
+      await peerConnection.setLocalDescription(answer);
+      sendSignal({ type: "answer", sdp: answer.sdp || "" });
+    } else {
+      await peerConnection.setRemoteDescription({ type: "answer", sdp: signal.sdp });
+      await flushPendingCandidates(peerConnection);
+    }
+  };
+
+  const handleEvent = async (event: ServerEvent) => {
+    const current = callRef.current;
+
+    switch (event.type) {
+      case "call.incoming":
+        // The server answers busy for users already in a call; never replace one regardless
+        if (current) return;
+        updateCall({
+          callId: event.callId,
+          chatId: event.chatId,
+          media: event.media,
+          direction: "incoming",
+          peer: event.caller,
+          status: "incoming",
+        });
+        break;
+      case "call.ringing":
+        if (current?.callId === event.callId && current.status === "outgoing") {
+          updateCall({ ...current, status: "ringing" });
+        }
+        break;
+      case "call.accepted": {
+        if (current?.callId !== event.callId) return;
+        updateCall({ ...current, status: "connecting" });
+        // The caller makes the offer once the other side has its media ready
+        const peerConnection = await createPeerConnection();
+        const offer = await peerConnection.createOffer();
+        await peerConnection.setLocalDescription(offer);
+        sendSignal({ type: "offer", sdp: offer.sdp || "" });
+        break;
+      }
+      case "call.signal":
+        if (current?.callId === event.callId) {
+          await handleSignal(event.signal);
+        }
+        break;
+      case "call.ended": {
+        if (current?.callId !== event.callId) return;
+        cleanup();
+        const description = END_REASON_MESSAGES[event.reason];
+        if (description) {
+          toast({ title: "Call ended", description });
+        }
+        break;
+      }
+    }
+  };
+
+  const handleEventRef = useRef(handleEvent);
+  handleEventRef.current = handleEvent;
+
+  useEffect(() => subscribe((event) => {
+    if (!event.type.startsWith("call.")) return;
+    handleEventRef.current(event).catch((error) => {
+      console.error("Failed to handle call event:", error);
+    });
+  }), [subscribe]);
+
+  // Without the realtime connection the server has already ended the call
+  useEffect(() => {
+    if (!isConnected && callRef.current) {
+      cleanup();
+      toast({ title: "Call ended", description: "You lost your connection.", variant: "destructive" });
+    }
+  }, [isConnected, cleanup, toast]);
+
+  // Don't leave the camera and microphone on if the app unmounts mid-call
+  useEffect(() => () => {
+    peerConnectionRef.current?.close();
+    localStreamRef.current?.getTracks().forEach((track) => track.stop());
+  }, []);
+
+  const startCall = useCallback(async (chatId: string, media: CallMedia, peer: CallParticipant) => {
+    if (callRef.current) return;
+
+    try {
+      await openMedia(media);
+    } catch (error) {
+      toast({
+        title: "Can't start call",
+        description: `Allow access to your ${media === "video" ? "camera and microphone" : "microphone"} to call.`,
+        variant: "destructive",
+      });
+      return;
+    }
+
+    const callId = crypto.randomUUID();
+    updateCall({ callId, chatId, media, direction: "outgoing", peer, status: "outgoing" });
+    send({ type: "call.start", callId, chatId, media });
+  }, [send, updateCall, toast]);
+
+  const acceptCall = useCallback(async () => {
+    const current = callRef.current;
+    if (!current || current.status !== "incoming") return;
+
+    try {
+      await openMedia(current.media);
+      // Ready to take the caller's offer before telling them we picked up
+      await createPeerConnection();
+    } catch (error) {
+      send({ type: "call.decline", callId: current.callId });
+      cleanup();
+      toast({ title: "Can't answer call", description: "Your camera or microphone isn't available.", variant: "destructive" });
+      return;
+    }
+
+    // The caller may have hung up while we were asking for permissions
+    if (callRef.current?.callId !== current.callId) return;
+    updateCall({ ...current, status: "connecting" });
+    send({ type: "call.accept", callId: current.callId });
+  }, [send, createPeerConnection, updateCall, cleanup, toast]);
+
+  const declineCall = useCallback(() => {
+    const current = callRef.current;
+    if (!current) return;
+    send({ type: "call.decline", callId: current.callId });
+    cleanup();
+  }, [send, cleanup]);
+
+  const endCall = useCallback(() => {
+    const current = callRef.current;
+    if (!current) return;
+    send({ type: "call.end", callId: current.callId });
+    cleanup();
+  }, [send, cleanup]);
+
+  const toggleMute = useCallback(() => {
+    const muted = !isMuted;
+    localStreamRef.current?.getAudioTracks().forEach((track) => (track.enabled = !muted));
+    setIsMuted(muted);
+  }, [isMuted]);
+
+  const toggleCamera = useCallback(() => {
+    const cameraOff = !isCameraOff;
+    localStreamRef.current?.getVideoTracks().forEach((track) => (track.enabled = !cameraOff));
+    setIsCameraOff(cameraOff);
+  }, [isCameraOff]);
+
+  return (
+    <CallContext.Provider
+      value={{
+        call,
+        localStream,
+        remoteStream,
+        isMuted,
+        isCameraOff,
+        startCall,
+        acceptCall,
+        declineCall,
+        endCall,
+        toggleMute,
+        toggleCamera,
+      }}
+    >
+      {children}
+    </CallContext.Provider>
+  );
+}
+
+export function useCalls() {
+  const context = useContext(CallContext);
+  if (!context) {
+    throw new Error("useCalls must be used within a CallProvider");
+  }
+  return context;
+}
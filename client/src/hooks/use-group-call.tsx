@@ -0,0 +1,283 @@
+import { createContext, ReactNode, useCallback, useContext, useEffect, useRef, useState } from "react";
+import { useRealtime } from "@/hooks/use-realtime";
+import { useToast } from "@/hooks/use-toast";
+import { getIceServers } from "@/lib/webrtc";
+import type { CallMedia, CallSignal, ServerEvent } from "@shared/schema";
+
+export type GroupCallSession = {
+  chatId: string;
+  media: CallMedia;
+  // Set once the server confirms we joined
+  callId?: string;
+};
+
+type Peer = {
+  connection: RTCPeerConnection;
+  // ICE candidates that arrive before the remote description is set
+  pendingCandidates: RTCIceCandidateInit[];
+};
+
+type GroupCallContextType = {
+  groupCall: GroupCallSession | null;
+  localStream: MediaStream | null;
+  // Media from each peer, keyed by peer id (a participant's user id with mesh forwarding)
+  remoteStreams: Record<string, MediaStream>;
+  isMuted: boolean;
+  isCameraOff: boolean;
+  joinGroupCall: (chatId: string, media: CallMedia) => Promise<void>;
+  leaveGroupCall: () => void;
+  toggleMute: () => void;
+  toggleCamera: () => void;
+};
+
+const LEAVE_REASON_MESSAGES = {
+  joined_elsewhere: "You joined the call from another device.",
+  full: "This call is full.",
+  unavailable: "You can't join this call right now.",
+};
+
+export const GroupCallContext = createContext<GroupCallContextType | null>(null);
+
+export function GroupCallProvider({ children }: { children: ReactNode }) {
+  const { isConnected, send, subscribe } = useRealtime();
+  const { toast } = useToast();
+  const [groupCall, setGroupCall] = useState<GroupCallSession | null>(null);
+  const [localStream, setLocalStream] = useState<MediaStream | null>(null);
+  const [remoteStreams, setRemoteStreams] = useState<Record<string, MediaStream>>({});
+  const [isMuted, setIsMuted] = useState(false);
+  const [isCameraOff, setIsCameraOff] = useState(false);
+
+  // Event handlers run outside React's render cycle, so they read live values from refs
+  const groupCallRef = useRef<GroupCallSession | null>(null);
+  const localStreamRef = useRef<MediaStream | null>(null);
+  const peersRef = useRef(new Map<string, Peer>());
+
+  const updateGroupCall = useCallback((next: GroupCallSession | null) => {
+    groupCallRef.current = next;
+    setGroupCall(next);
+  }, []);
+
+  const removePeer = useCallback((peerId: string) => {
+    peersRef.current.get(peerId)?.connection.close();
+    peersRef.current.delete(peerId);
+    setRemoteStreams(({ [peerId]: _removed, ...rest }) => rest);
+  }, []);
+
+  const cleanup = useCallback(() => {
+    peersRef.current.forEach((peer) => peer.connection.close());
+    peersRef.current.clear();
+    localStreamRef.current?.getTracks().forEach((track) => track.stop());
+    localStreamRef.current = null;
+    setLocalStream(null);
+    setRemoteStreams({});
+    setIsMuted(false);
+    setIsCameraOff(false);
+    updateGroupCall(null);
+  }, [updateGroupCall]);
+
+  const sendSignal = useCallback((peerId: string, signal: CallSignal) => {
+    const callId = groupCallRef.current?.callId;
+    if (callId) send({ type: "groupCall.signal", callId, peerId, signal });
+  }, [send]);
+
+  const createPeer = useCallback(async (peerId: string) => {
+    const connection = new RTCPeerConnection({ iceServers: await getIceServers() });
+    const peer: Peer = { connection, pendingCandidates: [] };
+    peersRef.current.set(peerId, peer);
+
+    const stream = localStreamRef.current;
+    stream?.getTracks().forEach((track) => connection.addTrack(track, stream));
+
+    connection.onicecandidate = (e) => {
+      if (!e.candidate) return;
+      const { candidate, sdpMid, sdpMLineIndex } = e.candidate;
+      sendSignal(peerId, { type: "candidate", candidate: { candidate, sdpMid, sdpMLineIndex } });
+    };
+    connection.ontrack = (e) => {
+      const remoteStream = e.streams[0] ?? new MediaStream([e.track]);
+      setRemoteStreams((current) => ({ ...current, [peerId]: remoteStream }));
+    };
+    connection.onconnectionstatechange = () => {
+      // A peer we can't reach is dropped rather than ending the whole call
+      if (connection.connectionState === "failed" && peersRef.current.get(peerId) === peer) {
+        removePeer(peerId);
+      }
+    };
+
+    return peer;
+  }, [sendSignal, removePeer]);
+
+  const flushPendingCandidates = async (peer: Peer) => {
+    const candidates = peer.pendingCandidates;
+    peer.pendingCandidates = [];
+    for (const candidate of candidates) {
+      await peer.connection.addIceCandidate(candidate);
+    }
+  };
+
+  const handleSignal = async (peerId: string, signal: CallSignal) => {
+    // Offers come from participants who joined after us, for a peer we haven't seen yet
+    const peer = peersRef.current.get(peerId) ?? (signal.type === "offer" ? await createPeer(peerId) : undefined);
+    if (!peer) return;
+    const { connection } = peer;
+
+    if (signal.type === "candidate") {
+      if (connection.remoteDescription) {
+        await connection.addIceCandidate(signal.candidate);
+      } else {
+        peer.pendingCandidates.push(signal.candidate);
+      }
+    } else if (signal.type === "offer") {
+      await connection.setRemoteDescription({ type: "offer", sdp: signal.sdp });
+      await flushPendingCandidates(peer);
+      const answer = await connection.createAnswer();
+      await connection.setLocalDescription(answer);
+      sendSignal(peerId, { type: "answer", sdp: answer.sdp || "" });
+    } else {
+      await connection.setRemoteDescription({ type: "answer", sdp: signal.sdp });
+      await flushPendingCandidates(peer);
+    }
+  };
+
+  const handleEvent = async (event: ServerEvent) => {
+    const current = groupCallRef.current;
+
+    switch (event.type) {
+      case "groupCall.joined":
+        if (current?.chatId !== event.chatId) {
+          // We hung up before the server let us in
+          send({ type: "groupCall.leave", callId: event.callId });
+          return;
+        }
+        updateGroupCall({ ...current, callId: event.callId });
+        // As the newcomer we make the offers
+        for (const peerId of event.peers) {
+          const { connection } = await createPeer(peerId);
+          const offer = await connection.createOffer();
+          await connection.setLocalDescription(offer);
+          sendSignal(peerId, { type: "offer", sdp: offer.sdp || "" });
+        }
+        break;
+      case "groupCall.signal":
+        if (current?.callId === event.callId) {
+          await handleSignal(event.peerId, event.signal);
+        }
+        break;
+      case "groupCall.peerLeft":
+        if (current?.callId === event.callId) {
+          removePeer(event.peerId);
+        }
+        break;
+      case "groupCall.left":
+        // A failed join has no call id yet
+        if (!current || (event.callId && current.callId !== event.callId)) return;
+        cleanup();
+        if (event.reason !== "left") {
+          toast({ title: "Left group call", description: LEAVE_REASON_MESSAGES[event.reason], variant: "destructive" });
+        }
+        break;
+    }
+  };
+
+  const handleEventRef = useRef(handleEvent);
+  handleEventRef.current = handleEvent;
+  // Events are handled one at a time, so a peer's candidates can't overtake the offer that creates it
+  const eventQueueRef = useRef<Promise<void>>(Promise.resolve());
+
+  useEffect(() => subscribe((event) => {
+    if (!event.type.startsWith("groupCall.")) return;
+    eventQueueRef.current = eventQueueRef.current
+      .then(() => handleEventRef.current(event))
+      .catch((error) => {
+        console.error("Failed to handle group call event:", error);
+      });
+  }), [subscribe]);
+
+  // Without the realtime connection the server has already taken us out of the call
+  useEffect(() => {
+    if (!isConnected && groupCallRef.current) {
+      cleanup();
+      toast({ title: "Left group call", description: "You lost your connection.", variant: "destructive" });
+    }
+  }, [isConnected, cleanup, toast]);
+
+  useEffect(() => () => {
+    peersRef.current.forEach((peer) => peer.connection.close());
+    localStreamRef.current?.getTracks().forEach((track) => track.stop());
+  }, []);
+
+  const leaveGroupCall = useCallback(() => {
+    const current = groupCallRef.current;
+    if (!current) return;
+    if (current.callId) send({ type: "groupCall.leave", callId: current.callId });
+    cleanup();
+  }, [send, cleanup]);
+
+  const joinGroupCall = useCallback(async (chatId: string, media: CallMedia) => {
+    if (groupCallRef.current?.chatId === chatId) return;
+    leaveGroupCall();
+
+    try {
+      const stream = await navigator.mediaDevices.getUserMedia({ audio: true, video: media === "video" });
+      localStreamRef.current = stream;
+      setLocalStream(stream);
+    } catch (error) {
+      toast({
+        title: "Can't join call",
+        description: `Allow access to your ${media === "video" ? "camera and microphone" : "microphone"} to join.`,
+        variant: "destructive",
+      });
+      return;
+    }
+
+    setIsCameraOff(media === "audio");
+    updateGroupCall({ chatId, media });
+    send({ type: "groupCall.join", chatId, media });
+  }, [send, leaveGroupCall, updateGroupCall, toast]);
+
+  const sendState = useCallback((muted: boolean, cameraOff: boolean) => {
+    const callId = groupCallRef.current?.callId;
+    if (callId) send({ type: "groupCall.state", callId, isMuted: muted, isCameraOff: cameraOff });
+  }, [send]);
+
+  const toggleMute = useCallback(() => {
+    const muted = !isMuted;
+    localStreamRef.current?.getAudioTracks().forEach((track) => (track.enabled = !muted));
+    setIsMuted(muted);
+    sendState(muted, isCameraOff);
+  }, [isMuted, isCameraOff, sendState]);
+
+  const toggleCamera = useCallback(() => {
+    if (groupCallRef.current?.media !== "video") return;
+    const cameraOff = !isCameraOff;
+    localStreamRef.current?.getVideoTracks().forEach((track) => (track.enabled = !cameraOff));
+    setIsCameraOff(cameraOff);
+    sendState(isMuted, cameraOff);
+  }, [isMuted, isCameraOff, sendState]);
+
+  return (
+    <GroupCallContext.Provider
+      value={{
+        groupCall,
+        localStream,
+        remoteStreams,
+        isMuted,
+        isCameraOff,
+        joinGroupCall,
+        leaveGroupCall,
+        toggleMute,
+        toggleCamera,
+      }}
+    >
+      {children}
+    </GroupCallContext.Provider>
+  );
+}
+
+export function useGroupCall() {
+  const context = useContext(GroupCallContext);
+  if (!context) {
+    throw new Error("useGroupCall must be used within a GroupCallProvider");
+  }
+  return context;
+}
@@ -0,0 +1,33 @@
+import { useEffect, useRef } from "react";
+
+// How long a finger has to stay down to count as a long press, in milliseconds
+const LONG_PRESS_DELAY = 500;
+// Moving further than this, in pixels, is a scroll rather than a press
+const MOVE_TOLERANCE = 10;
+
+// Long presses on touch screens, where there is no hover. Returns the pointer
+// handlers to spread on each element, called with what was pressed.
+export function useLongPress<T>(onLongPress: (target: T) => void, delay = LONG_PRESS_DELAY) {
+  const timerRef = useRef<ReturnType<typeof setTimeout>>();
+  const startRef = useRef({ x: 0, y: 0 });
+
+  const cancel = () => clearTimeout(timerRef.current);
+
+  useEffect(() => cancel, []);
+
+  return (target: T) => ({
+    onPointerDown: (e: React.PointerEvent) => {
+      if (e.pointerType === "mouse") return;
+      cancel();
+      startRef.current = { x: e.clientX, y: e.clientY };
+      timerRef.current = setTimeout(() => onLongPress(target), delay);
+    },
+    onPointerMove: (e: React.PointerEvent) => {
+      const { x, y } = startRef.current;
+      if (Math.abs(e.clientX - x) > MOVE_TOLERANCE || Math.abs(e.clientY - y) > MOVE_TOLERANCE) cancel();
+    },
+    onPointerUp: cancel,
+    onPointerLeave: cancel,
+    onPointerCancel: cancel,
+  });
+}
@@ -0,0 +1,62 @@
+import { useMutation } from "@tanstack/react-query";
+import { apiRequest } from "@/lib/queryClient";
+import { useToast } from "@/hooks/use-toast";
+import { updateChatMessages } from "@/hooks/use-realtime";
+import type { MessageReaction } from "@shared/schema";
+
+type ReactionChange = {
+  messageId: string;
+  emoji: string;
+  reacted: boolean;
+};
+
+// A message's reactions with ours added or taken back
+export function withReaction(reactions: MessageReaction[], emoji: string, reacted: boolean): MessageReaction[] {
+  const existing = reactions.find((reaction) => reaction.emoji === emoji);
+  if (!!existing?.reacted === reacted) return reactions;
+  if (!existing) return [...reactions, { emoji, count: 1, reacted: true }];
+
+  const count = existing.count + (reacted ? 1 : -1);
+  return count > 0
+    ? reactions.map((reaction) => (reaction.emoji === emoji ? { ...reaction, count, reacted } : reaction))
+    : reactions.filter((reaction) => reaction.emoji !== emoji);
+}
+
+// Adds and removes the current user's reactions in a chat, updating its
+// messages straight away and rolling back if the server refuses
+export function useReactions(chatId: string) {
+  const { toast } = useToast();
+
+  const updateReactions = (messageId: string, update: (reactions: MessageReaction[]) => MessageReaction[]) => {
+    updateChatMessages(chatId, (message) =>
+      message.id === messageId ? { ...message, reactions: update(message.reactions || []) } : message,
+    );
+  };
+
+  const mutation = useMutation({
+    mutationFn: async ({ messageId, emoji, reacted }: ReactionChange): Promise<MessageReaction[]> => {
+      const res = reacted
+        ? await apiRequest('POST', `/api/messages/${messageId}/reactions`, { emoji })
+        : await apiRequest('DELETE', `/api/messages/${messageId}/reactions/${encodeURIComponent(emoji)}`);
+      return res.json();
+    },
+    onMutate: ({ messageId, emoji, reacted }) => {
+      updateReactions(messageId, (reactions) => withReaction(reactions, emoji, reacted));
+    },
+    onSuccess: (reactions, { messageId }) => {
+      updateReactions(messageId, () => reactions);
+    },
+    onError: (_error, { messageId, emoji, reacted }) => {
+      updateReactions(messageId, (reactions) => withReaction(reactions, emoji, !reacted));
+      toast({
+        title: "Error",
+        description: "Failed to update reaction",
+        variant: "destructive",
+      });
+    },
+  });
+
+  return {
+    toggleReaction: (messageId: string, emoji: string, reacted: boolean) => mutation.mutate({ messageId, emoji, reacted }),
+  };
+}
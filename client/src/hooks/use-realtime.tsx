@@ -0,0 +1,415 @@
+import { createContext, ReactNode, useCallback, useContext, useEffect, useRef, useState } from "react";
+import { queryClient } from "../lib/queryClient";
+import { useAuth } from "@/hooks/use-auth";
+import { toast } from "@/hooks/use-toast";
+import {
+  REALTIME_PATH,
+  SESSION_REVOKED_CLOSE_CODE,
+  type ChatWithParticipants,
+  type ClientEvent,
+  type MessageReceipt,
+  type MessageReaction,
+  type MessageThread,
+  type MessageWithSender,
+  type ServerEvent,
+  getDeliveryStatus,
+} from "@shared/schema";
+
+// Reconnect backoff bounds in milliseconds
+const MIN_RECONNECT_DELAY = 1000;
+const MAX_RECONNECT_DELAY = 30000;
+
+// A typing indicator disappears if it isn't refreshed within this window
+export const TYPING_TIMEOUT = 6000;
+
+export type TypingUser = {
+  userId: string;
+  displayName: string;
+  expiresAt: number;
+};
+
+type ServerEventListener = (event: ServerEvent) => void;
+
+type RealtimeContextType = {
+  isConnected: boolean;
+  typingUsers: Record<string, TypingUser[]>;
+  sendTyping: (chatId: string, isTyping: boolean) => void;
+  send: (event: ClientEvent) => void;
+  // Listen for server events beyond the cache updates handled here; returns an unsubscribe function
+  subscribe: (listener: ServerEventListener) => () => void;
+};
+
+export const RealtimeContext = createContext<RealtimeContextType | null>(null);
+
+const isThreadQuery = (chatId: string) => (query: { queryKey: readonly unknown[] }) =>
+  query.queryKey[0] === "/api/chats" && query.queryKey[1] === chatId && query.queryKey[2] === "threads";
+
+// Update a chat's messages wherever they are cached: its main timeline and any threads loaded from it
+export function updateChatMessages(chatId: string, update: (message: MessageWithSender) => MessageWithSender) {
+  queryClient.setQueryData<MessageWithSender[]>(["/api/chats", chatId, "messages"], (messages) => messages?.map(update));
+  queryClient.setQueriesData<MessageThread>(
+    { predicate: isThreadQuery(chatId) },
+    (thread) => thread && { root: update(thread.root), replies: thread.replies.map(update) },
+  );
+}
+
+// Add a reply to its thread and count it on the thread's root
+function applyThreadReply(event: Extract<ServerEvent, { type: "message.created" }>, currentUserId: string) {
+  const { message } = event;
+  let isNew = true;
+
+  queryClient.setQueryData<MessageThread>(
+    ["/api/chats", event.chatId, "threads", message.threadRootId],
+    (thread) => {
+      if (!thread) return thread;
+      if (thread.replies.some((reply) => reply.id === message.id)) {
+        isNew = false;
+        return thread;
+      }
+      return { ...thread, replies: [...thread.replies, message] };
+    },
+  );
+  if (!isNew) return;
+
+  const isOurs = message.senderId === currentUserId;
+  updateChatMessages(event.chatId, (root) => {
+    if (root.id !== message.threadRootId) return root;
+    const thread = root.thread || { replyCount: 0, lastReplyAt: null, unreadCount: 0 };
+    return {
+      ...root,
+      thread: {
+        replyCount: thread.replyCount + 1,
+        lastReplyAt: message.createdAt,
+        unreadCount: isOurs ? thread.unreadCount : thread.unreadCount + 1,
+      },
+    };
+  });
+}
+
+// Update a contact's online status wherever they appear as a chat participant
+function applyPresence(event: Extract<ServerEvent, { type: "presence" }>) {
+  const withPresence = (chat: ChatWithParticipants): ChatWithParticipants => ({
+    ...chat,
+    participantDetails: chat.participantDetails?.map((user) =>
+      user.id === event.userId ? { ...user, isOnline: event.isOnline, lastSeen: event.lastSeen } : user,
+    ),
+  });
+
+  queryClient.setQueryData<ChatWithParticipants[]>(["/api/chats"], (chats) => chats?.map(withPresence));
+  queryClient.setQueriesData<ChatWithParticipants>(
+    { predicate: (query) => query.queryKey[0] === "/api/chats" && query.queryKey.length === 2 },
+    (chat) => (chat?.participantDetails ? withPresence(chat) : chat),
+  );
+}
+
+// Advance one recipient's receipts on our own messages up to the receipt's message
+function applyReceipt(event: Extract<ServerEvent, { type: "receipt" }>) {
+  const queryKey = ["/api/chats", event.chatId, "messages"];
+  const messages = queryClient.getQueryData<MessageWithSender[]>(queryKey);
+  if (!messages) return;
+
+  const cursorIndex = messages.findIndex((m) => m.id === event.messageId);
+  if (cursorIndex === -1) {
+    // The cursor is outside what we have loaded, so let the server work it out
+    queryClient.invalidateQueries({ queryKey });
+    return;
+  }
+
+  queryClient.setQueryData<MessageWithSender[]>(queryKey, messages.map((message, index) => {
+    if (index > cursorIndex || !message.receipts) return message;
+
+    const receipts: MessageReceipt[] = message.receipts.map((receipt: MessageReceipt) => {
+      if (receipt.userId !== event.userId) return receipt;
+      const readAt = event.status === "read" ? receipt.readAt || event.at : receipt.readAt;
+      return { ...receipt, readAt, deliveredAt: receipt.deliveredAt || event.at };
+    });
+
+    return {
+      ...message,
+      receipts,
+      deliveryStatus: getDeliveryStatus(receipts),
+      isRead: receipts.some((receipt) => receipt.readAt),
+    };
+  }));
+}
+
+// Take the server's reaction counts. Whether we reacted only changes when the
+// reaction was ours, since the counts don't say who reacted.
+function applyReactions(event: Extract<ServerEvent, { type: "message.reactions" }>, currentUserId: string) {
+  updateChatMessages(event.chatId, (message) => {
+    if (message.id !== event.messageId) return message;
+
+    const isOurs = event.userId === currentUserId;
+    const reactions = event.reactions.map(({ emoji, count }) => ({
+      emoji,
+      count,
+      reacted: isOurs && emoji === event.emoji
+        ? event.reacted
+        : !!message.reactions?.find((reaction: MessageReaction) => reaction.emoji === emoji)?.reacted,
+    }));
+    return { ...message, reactions };
+  });
+}
+
+// Drop a message, and with it its thread or its place in one
+function applyDeletion(event: Extract<ServerEvent, { type: "message.deleted" }>) {
+  queryClient.removeQueries({ queryKey: ["/api/chats", event.chatId, "threads", event.messageId], exact: true });
+
+  const threads = queryClient.getQueriesData<MessageThread>({ predicate: isThreadQuery(event.chatId) });
+  const rootId = threads
+    .map(([, thread]) => thread)
+    .find((thread) => thread?.replies.some((reply) => reply.id === event.messageId))?.root.id;
+
+  queryClient.setQueryData<MessageWithSender[]>(
+    ["/api/chats", event.chatId, "messages"],
+    (messages) => messages?.filter((m) => m.id !== event.messageId),
+  );
+  queryClient.setQueriesData<MessageThread>(
+    { predicate: isThreadQuery(event.chatId) },
+    (thread) => thread && { ...thread, replies: thread.replies.filter((reply) => reply.id !== event.messageId) },
+  );
+
+  if (rootId) {
+    updateChatMessages(event.chatId, (root) => (root.id === rootId && root.thread
+      ? { ...root, thread: { ...root.thread, replyCount: Math.max(root.thread.replyCount - 1, 0) } }
+      : root));
+  }
+}
+
+// Apply a server event to the React Query cache so screens update without polling
+function applyServerEvent(event: ServerEvent, currentUserId: string) {
+  switch (event.type) {
+    case "message.created":
+      // Thread replies stay out of the main timeline
+      if (event.message.threadRootId) {
+        applyThreadReply(event, currentUserId);
+        break;
+      }
+      queryClient.setQueryData<MessageWithSender[]>(
+        ["/api/chats", event.chatId, "messages"],
+        (messages) => {
+          if (!messages || messages.some((m) => m.id === event.message.id)) return messages;
+          return [...messages, event.message];
+        },
+      );
+      break;
+    case "message.updated":
+      // Deleted messages lose their reactions along with their content
+      updateChatMessages(event.chatId, (m) => (m.id === event.message.id
+        ? { ...m, ...event.message, ...(event.message.deletedAt ? { reactions: [] } : {}) }
+        : m));
+      queryClient.invalidateQueries({ queryKey: ["/api/messages", event.message.id, "revisions"] });
+      break;
+    case "message.deleted":
+      applyDeletion(event);
+      break;
+    case "message.reactions":
+      applyReactions(event, currentUserId);
+      break;
+    case "chat.updated":
+      queryClient.invalidateQueries({ queryKey: ["/api/chats"], exact: true });
+      queryClient.invalidateQueries({ queryKey: ["/api/chats", event.chatId], exact: true });
+      queryClient.invalidateQueries({ queryKey: ["/api/chats", event.chatId, "invites"] });
+      queryClient.invalidateQueries({ queryKey: ["/api/chats", event.chatId, "join-requests"] });
+      queryClient.invalidateQueries({ queryKey: ["/api/chats/global"] });
+      break;
+    case "chat.joined":
+      queryClient.invalidateQueries({ queryKey: ["/api/chats"], exact: true });
+      queryClient.invalidateQueries({ queryKey: ["/api/chats/global"] });
+      toast({
+        title: "You're in",
+        description: `A spot opened up in ${event.chatName || "the chat"} you were waiting for.`,
+      });
+      break;
+    case "sanction.lifted":
+      queryClient.invalidateQueries({ queryKey: ["/api/user"] });
+      toast({
+        title: event.sanction === "ban" ? "Your ban has ended" : "Your restriction has ended",
+        description: "You can post and join chats again.",
+      });
+      break;
+    case "presence":
+      applyPresence(event);
+      break;
+    case "receipt":
+      applyReceipt(event);
+      break;
+    case "groupCall.updated":
+      queryClient.setQueryData(["/api/chats", event.chatId, "call"], event.call);
+      break;
+  }
+}
+
+export function formatTypingUsers(users: TypingUser[]): string {
+  if (users.length === 0) return "";
+  if (users.length === 1) return `${users[0].displayName} is typing...`;
+  if (users.length === 2) return `${users[0].displayName} and ${users[1].displayName} are typing...`;
+  return `${users.length} people are typing...`;
+}
+
+export function RealtimeProvider({ children }: { children: ReactNode }) {
+  const { user } = useAuth();
+  const [isConnected, setIsConnected] = useState(false);
+  const [typingUsers, setTypingUsers] = useState<Record<string, TypingUser[]>>({});
+  const socketRef = useRef<WebSocket | null>(null);
+  const listenersRef = useRef(new Set<ServerEventListener>());
+
+  const handleTyping = (event: Extract<ServerEvent, { type: "typing" }>) => {
+    setTypingUsers((current) => {
+      const others = (current[event.chatId] || []).filter((u) => u.userId !== event.userId);
+      const next = event.isTyping
+        ? [...others, { userId: event.userId, displayName: event.displayName, expiresAt: Date.now() + TYPING_TIMEOUT }]
+        : others;
+      return { ...current, [event.chatId]: next };
+    });
+  };
+
+  // Drop typing indicators that were not refreshed in time
+  const hasTypingUsers = Object.values(typingUsers).some((users) => users.length > 0);
+  useEffect(() => {
+    if (!hasTypingUsers) return;
+
+    const interval = setInterval(() => {
+      const now = Date.now();
+      setTypingUsers((current) => {
+        const next: Record<string, TypingUser[]> = {};
+        for (const chatId of Object.keys(current)) {
+          const active = current[chatId].filter((u) => u.expiresAt > now);
+          if (active.length > 0) next[chatId] = active;
+        }
+        return next;
+      });
+    }, 1000);
+
+    return () => clearInterval(interval);
+  }, [hasTypingUsers]);
+
+  useEffect(() => {
+    const token = localStorage.getItem("auth_token");
+    if (!user || !token) return;
+
+    let socket: WebSocket | null = null;
+    let reconnectTimer: ReturnType<typeof setTimeout> | undefined;
+    let attempts = 0;
+    let closedByUs = false;
+
+    // Banned or signed out everywhere: drop the token rather than retry with it
+    const signOut = () => {
+      localStorage.removeItem("auth_token");
+      queryClient.setQueryData(["/api/user"], null);
+    };
+
+    // Browsers hide why an upgrade failed, so ask the API whether the token still works
+    const isSessionRejected = async () => {
+      try {
+        const res = await fetch("/api/user", { headers: { Authorization: `Bearer ${token}` } });
+        return res.status === 401 || res.status === 403;
+      } catch {
+        return false;
+      }
+    };
+
+    const connect = () => {
+      const protocol = window.location.protocol === "https:" ? "wss:" : "ws:";
+      socket = new WebSocket(`${protocol}//${window.location.host}${REALTIME_PATH}?token=${encodeURIComponent(token)}`);
+      socketRef.current = socket;
+      let opened = false;
+
+      socket.onopen = () => {
+        opened = true;
+        setIsConnected(true);
+        // We may have missed events while disconnected, so resync everything
+        if (attempts > 0) {
+          queryClient.invalidateQueries({ queryKey: ["/api/chats"] });
+        }
+        attempts = 0;
+      };
+
+      socket.onmessage = (e) => {
+        try {
+          const event = JSON.parse(e.data) as ServerEvent;
+          if (event.type === "typing") {
+            handleTyping(event);
+            return;
+          }
+
+          applyServerEvent(event, user.id);
+          listenersRef.current.forEach((listener) => listener(event));
+
+          // A new message means its sender has stopped typing
+          if (event.type === "message.created") {
+            handleTyping({
+              type: "typing",
+              chatId: event.chatId,
+              userId: event.message.senderId,
+              displayName: "",
+              isTyping: false,
+            });
+          }
+        } catch (error) {
+          console.error("Failed to handle realtime event:", error);
+        }
+      };
+
+      socket.onclose = async (e) => {
+        setIsConnected(false);
+        setTypingUsers({});
+        if (closedByUs) return;
+        if (e.code === SESSION_REVOKED_CLOSE_CODE) {
+          signOut();
+          return;
+        }
+        // A connection refused outright may mean the token was revoked while we were away
+        if (!opened && await isSessionRejected()) {
+          if (!closedByUs) signOut();
+          return;
+        }
+        if (closedByUs) return;
+        const delay = Math.min(MIN_RECONNECT_DELAY * 2 ** attempts, MAX_RECONNECT_DELAY);
+        attempts++;
+        reconnectTimer = setTimeout(connect, delay);
+      };
+    };
+
+    connect();
+
+    return () => {
+      closedByUs = true;
+      clearTimeout(reconnectTimer);
+      socket?.close();
+      socketRef.current = null;
+    };
+  }, [user?.id]);
+
+  const send = useCallback((event: ClientEvent) => {
+    const socket = socketRef.current;
+    if (socket && socket.readyState === WebSocket.OPEN) {
+      socket.send(JSON.stringify(event));
+    }
+  }, []);
+
+  const sendTyping = useCallback((chatId: string, isTyping: boolean) => {
+    send({ type: "typing", chatId, isTyping });
+  }, [send]);
+
+  const subscribe = useCallback((listener: ServerEventListener) => {
+    listenersRef.current.add(listener);
+    return () => {
+      listenersRef.current.delete(listener);
+    };
+  }, []);
+
+  return (
+    <RealtimeContext.Provider value={{ isConnected, typingUsers, sendTyping, send, subscribe }}>
+      {children}
+    </RealtimeContext.Provider>
+  );
+}
+
+export function useRealtime() {
+  const context = useContext(RealtimeContext);
+  if (!context) {
+    throw new Error("useRealtime must be used within a RealtimeProvider");
+  }
+  return context;
+}
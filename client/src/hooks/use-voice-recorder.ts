@@ -0,0 +1,97 @@
+import { useCallback, useEffect, useRef, useState } from "react";
+import { computeWaveform, getRecordingMimeType } from "@/lib/audio";
+
+export type VoiceRecording = {
+  blob: Blob;
+  mimeType: string;
+  // Whole seconds, as stored on the message
+  duration: number;
+  waveform?: number[];
+};
+
+// Records voice notes from the microphone. `stop` resolves with the recording;
+// `cancel` throws it away. Either can be called while the microphone is still
+// being opened, which is what happens on a quick tap of a hold-to-record button.
+export function useVoiceRecorder() {
+  const [isRecording, setIsRecording] = useState(false);
+  const [elapsed, setElapsed] = useState(0);
+  const recorderRef = useRef<MediaRecorder | null>(null);
+  const startingRef = useRef<Promise<void> | null>(null);
+  const startedAtRef = useRef(0);
+
+  // Take the active recorder so a second stop or cancel becomes a no-op
+  const takeRecorder = useCallback(() => {
+    const recorder = recorderRef.current;
+    recorderRef.current = null;
+    setIsRecording(false);
+    setElapsed(0);
+    return recorder;
+  }, []);
+
+  const start = useCallback(async () => {
+    if (recorderRef.current || startingRef.current) return;
+
+    const mimeType = getRecordingMimeType();
+    if (!mimeType || !navigator.mediaDevices?.getUserMedia) {
+      throw new Error("Voice recording isn't supported in this browser");
+    }
+
+    startingRef.current = (async () => {
+      const stream = await navigator.mediaDevices.getUserMedia({ audio: true });
+      const recorder = new MediaRecorder(stream, { mimeType });
+      recorder.start();
+      recorderRef.current = recorder;
+      startedAtRef.current = Date.now();
+      setIsRecording(true);
+    })();
+
+    try {
+      await startingRef.current;
+    } finally {
+      startingRef.current = null;
+    }
+  }, []);
+
+  const stop = useCallback(async (): Promise<VoiceRecording | null> => {
+    await startingRef.current?.catch(() => undefined);
+    const recorder = takeRecorder();
+    if (!recorder) return null;
+
+    const duration = Math.round((Date.now() - startedAtRef.current) / 1000);
+    const chunks: Blob[] = [];
+    recorder.ondataavailable = (e) => chunks.push(e.data);
+    const stopped = new Promise((resolve) => (recorder.onstop = resolve));
+    recorder.stop();
+    await stopped;
+    recorder.stream.getTracks().forEach((track) => track.stop());
+
+    const blob = new Blob(chunks, { type: recorder.mimeType });
+    // The waveform is only decoration, so a recording the browser can't decode is still sent
+    const waveform = await computeWaveform(blob).catch(() => undefined);
+    return { blob, mimeType: recorder.mimeType, duration, waveform };
+  }, [takeRecorder]);
+
+  const cancel = useCallback(async () => {
+    await startingRef.current?.catch(() => undefined);
+    const recorder = takeRecorder();
+    if (!recorder) return;
+    recorder.stop();
+    recorder.stream.getTracks().forEach((track) => track.stop());
+  }, [takeRecorder]);
+
+  // Tick the on-screen timer while recording
+  useEffect(() => {
+    if (!isRecording) return;
+    const interval = setInterval(() => {
+      setElapsed(Math.floor((Date.now() - startedAtRef.current) / 1000));
+    }, 250);
+    return () => clearInterval(interval);
+  }, [isRecording]);
+
+  // Never leave the microphone on after the composer goes away
+  useEffect(() => () => {
+    recorderRef.current?.stream.getTracks().forEach((track) => track.stop());
+  }, []);
+
+  return { isRecording, elapsed, start, stop, cancel };
+}
@@ -0,0 +1,47 @@
+// Number of bars drawn for a voice note's waveform
+export const WAVEFORM_BARS = 48;
+
+// Recording formats in order of preference; browsers support different subsets
+const RECORDING_MIME_TYPES = ["audio/webm;codecs=opus", "audio/ogg;codecs=opus", "audio/webm", "audio/mp4"];
+
+export function getRecordingMimeType(): string | undefined {
+  if (typeof MediaRecorder === "undefined") return undefined;
+  return RECORDING_MIME_TYPES.find((type) => MediaRecorder.isTypeSupported(type));
+}
+
+export function getAudioFileExtension(mimeType: string): string {
+  if (mimeType.startsWith("audio/ogg")) return "ogg";
+  if (mimeType.startsWith("audio/mp4")) return "m4a";
+  return "webm";
+}
+
+// Peak loudness of each slice of a recording, scaled so the loudest bar is 100
+export async function computeWaveform(blob: Blob, bars = WAVEFORM_BARS): Promise<number[]> {
+  const context = new AudioContext();
+  try {
+    const buffer = await context.decodeAudioData(await blob.arrayBuffer());
+    const samples = buffer.getChannelData(0);
+    const samplesPerBar = Math.max(1, Math.floor(samples.length / bars));
+
+    const peaks: number[] = [];
+    for (let bar = 0; bar < bars; bar++) {
+      let peak = 0;
+      const end = Math.min(samples.length, (bar + 1) * samplesPerBar);
+      for (let i = bar * samplesPerBar; i < end; i++) {
+        peak = Math.max(peak, Math.abs(samples[i]));
+      }
+      peaks.push(peak);
+    }
+
+    const loudest = Math.max(...peaks) || 1;
+    return peaks.map((peak) => Math.round((peak / loudest) * 100));
+  } finally {
+    context.close();
+  }
+}
+
+export function formatDuration(seconds: number): string {
+  const mins = Math.floor(seconds / 60);
+  const secs = Math.floor(seconds % 60);
+  return `${mins}:${secs.toString().padStart(2, '0')}`;
+}
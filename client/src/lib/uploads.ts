@@ -0,0 +1,29 @@
+import type { Attachment, AttachmentKind } from "@shared/schema";
+
+// Upload a file so it can be sent as a message. Sent with fetch rather than
+// apiRequest because the body is multipart form data, not JSON.
+export async function uploadFile(
+  file: Blob,
+  fileName: string,
+  kind?: AttachmentKind,
+  fields: Record<string, string> = {},
+): Promise<Attachment> {
+  const formData = new FormData();
+  if (kind) formData.append("kind", kind);
+  Object.entries(fields).forEach(([name, value]) => formData.append(name, value));
+  formData.append("file", file, fileName);
+
+  const token = localStorage.getItem('auth_token');
+  const res = await fetch("/api/uploads", {
+    method: "POST",
+    headers: token ? { Authorization: `Bearer ${token}` } : {},
+    body: formData,
+    credentials: "include",
+  });
+
+  if (!res.ok) {
+    const text = (await res.text()) || res.statusText;
+    throw new Error(`${res.status}: ${text}`);
+  }
+  return await res.json();
+}
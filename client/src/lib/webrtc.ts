@@ -0,0 +1,15 @@
+import { apiRequest } from "./queryClient";
+
+let iceServersPromise: Promise<RTCIceServer[]> | undefined;
+
+// STUN/TURN servers for calls, fetched once and shared by every peer connection
+export function getIceServers(): Promise<RTCIceServer[]> {
+  iceServersPromise ??= apiRequest("GET", "/api/calls/ice-servers")
+    .then((res) => res.json())
+    .then((data: { iceServers: RTCIceServer[] }) => data.iceServers)
+    .catch((error) => {
+      iceServersPromise = undefined;
+      throw error;
+    });
+  return iceServersPromise;
+}
@@ -8,11 +8,17 @@ import { Label } from '@/components/ui/label';
 import { Tabs, TabsContent, TabsList, TabsTrigger } from '@/components/ui/tabs';
 import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table';
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { Dialog, DialogContent, DialogDescription, DialogFooter, DialogHeader, DialogTitle } from '@/components/ui/dialog';
 import { AlertDialog, AlertDialogAction, AlertDialogCancel, AlertDialogContent, AlertDialogDescription, AlertDialogFooter, AlertDialogHeader, AlertDialogTitle, AlertDialogTrigger } from '@/components/ui/alert-dialog';
-import { Users, MessageSquare, Globe, BarChart3, Trash2, Shield, UserCog, LogIn, UserX, Ban, Unlock, AlertTriangle } from 'lucide-react';
+import { Users, MessageSquare, Globe, BarChart3, Trash2, Shield, UserCog, LogIn, UserX, Ban, Unlock, AlertTriangle, History, Pencil, ScrollText, Flag } from 'lucide-react';
 import { apiRequest } from '@/lib/queryClient';
 import { useToast } from '@/hooks/use-toast';
-import { formatDistanceToNow } from 'date-fns';
+import { format, formatDistanceToNow } from 'date-fns';
+import { AuditLogTab } from '@/components/admin/audit-log-tab';
+import { ReportQueueTab } from '@/components/admin/report-queue-tab';
+import { RoomModeratorsDialog } from '@/components/admin/room-moderators-dialog';
+import { SanctionDurationSelect, toSanctionDuration } from '@/components/admin/sanction-duration-select';
+import type { Capability, MessageRevision, UserPermissions, UserRole } from '@shared/schema';
 
 interface AdminStats {
   totalUsers: number;
@@ -22,12 +28,12 @@ interface AdminStats {
 }
 
 interface AdminUser {
-  _id: string;
+  id: string;
   username: string;
   email: string;
   firstName?: string;
   lastName?: string;
-  role: 'user' | 'admin' | 'moderator';
+  role: UserRole;
   isOnline: boolean;
   createdAt: string;
   lastSeen: string;
@@ -37,26 +43,34 @@ interface AdminUser {
   banReason?: string;
   restrictedAt?: string;
   bannedAt?: string;
+  // Set for timed sanctions
+  restrictedUntil?: string;
+  bannedUntil?: string;
 }
 
 interface AdminChat {
-  _id: string;
+  id: string;
   name?: string;
   isGroup: boolean;
   isGlobalRoom: boolean;
   participants: string[];
+  // No limit when null
+  maxMembers: number | null;
   createdAt: string;
   updatedAt: string;
 }
 
 interface AdminMessage {
-  _id: string;
+  id: string;
   content?: string;
   messageType: string;
   sender: {
     username: string;
     email: string;
   };
+  editedAt?: string;
+  // Deleted messages keep their content here for review
+  deletedAt?: string;
   createdAt: string;
 }
 
@@ -64,13 +78,19 @@ export default function AdminDashboard() {
   const { toast } = useToast();
   const queryClient = useQueryClient();
   const [selectedUser, setSelectedUser] = useState<string>('');
-  const [newRole, setNewRole] = useState<'user' | 'admin' | 'moderator'>('user');
+  const [newRole, setNewRole] = useState<UserRole>('user');
   const [isAuthenticated, setIsAuthenticated] = useState<boolean>(false);
   const [email, setEmail] = useState('');
   const [password, setPassword] = useState('');
   const [isLoggingIn, setIsLoggingIn] = useState(false);
   const [restrictionReason, setRestrictionReason] = useState('');
   const [banReason, setBanReason] = useState('');
+  const [restrictionDuration, setRestrictionDuration] = useState('permanent');
+  const [banDuration, setBanDuration] = useState('permanent');
+  const [historyMessage, setHistoryMessage] = useState<AdminMessage | null>(null);
+  const [capacityChat, setCapacityChat] = useState<AdminChat | null>(null);
+  const [capacityValue, setCapacityValue] = useState('');
+  const [moderatorsRoom, setModeratorsRoom] = useState<AdminChat | null>(null);
 
   // Check for existing token on component mount
   React.useEffect(() => {
@@ -113,32 +133,39 @@ export default function AdminDashboard() {
     toast({ title: 'Success', description: 'Logged out successfully' });
   };
 
+  // What this user may see and do here
+  const { data: permissions, isLoading: permissionsLoading } = useQuery<UserPermissions>({
+    queryKey: ['/api/user/permissions'],
+    enabled: isAuthenticated,
+  });
+  const can = (capability: Capability) => !!permissions?.capabilities.includes(capability);
+
   // Fetch admin stats
   const { data: stats, isLoading: statsLoading } = useQuery<AdminStats>({
     queryKey: ['/api/admin/stats'],
     refetchInterval: 30000, // Refresh every 30 seconds
-    enabled: isAuthenticated,
+    enabled: isAuthenticated && can('dashboard.view'),
   });
 
   // Fetch users
   const { data: users, isLoading: usersLoading } = useQuery<AdminUser[]>({
     queryKey: ['/api/admin/users'],
     refetchInterval: 60000, // Refresh every minute
-    enabled: isAuthenticated,
+    enabled: isAuthenticated && can('dashboard.view'),
   });
 
   // Fetch chats
   const { data: chats, isLoading: chatsLoading } = useQuery<AdminChat[]>({
     queryKey: ['/api/admin/chats'],
     refetchInterval: 60000,
-    enabled: isAuthenticated,
+    enabled: isAuthenticated && can('dashboard.view'),
   });
 
   // Fetch messages
   const { data: messages, isLoading: messagesLoading } = useQuery<AdminMessage[]>({
     queryKey: ['/api/admin/messages'],
     refetchInterval: 60000,
-    enabled: isAuthenticated,
+    enabled: isAuthenticated && can('dashboard.view'),
   });
 
   // Mutations for admin actions
@@ -186,6 +213,41 @@ export default function AdminDashboard() {
     },
   });
 
+  const updateCapacityMutation = useMutation({
+    mutationFn: async ({ chatId, maxMembers }: { chatId: string; maxMembers: number }) => {
+      const response = await apiRequest('PATCH', `/api/admin/chats/${chatId}/capacity`, { maxMembers });
+      return response.json();
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['/api/admin/chats'] });
+      setCapacityChat(null);
+      toast({ title: 'Success', description: 'Capacity updated successfully' });
+    },
+    onError: () => {
+      toast({ title: 'Error', description: 'Failed to update capacity', variant: 'destructive' });
+    },
+  });
+
+  const openCapacityDialog = (chat: AdminChat) => {
+    setCapacityChat(chat);
+    setCapacityValue(chat.maxMembers?.toString() ?? '');
+  };
+
+  const handleUpdateCapacity = () => {
+    const maxMembers = Number(capacityValue);
+    if (!capacityChat || !Number.isInteger(maxMembers) || maxMembers < 2) {
+      toast({ title: 'Error', description: 'Capacity must be a whole number of at least 2', variant: 'destructive' });
+      return;
+    }
+    updateCapacityMutation.mutate({ chatId: capacityChat.id, maxMembers });
+  };
+
+  // Every earlier version of the message whose history is open
+  const { data: revisions, isLoading: revisionsLoading } = useQuery<MessageRevision[]>({
+    queryKey: ['/api/admin/messages', historyMessage?.id, 'revisions'],
+    enabled: isAuthenticated && !!historyMessage,
+  });
+
   const deleteMessageMutation = useMutation({
     mutationFn: async (messageId: string) => {
       const response = await apiRequest('DELETE', `/api/admin/messages/${messageId}`);
@@ -203,13 +265,14 @@ export default function AdminDashboard() {
 
   // Restrict user mutation
   const restrictUserMutation = useMutation({
-    mutationFn: async ({ userId, reason }: { userId: string; reason: string }) => {
-      const response = await apiRequest('PATCH', `/api/admin/users/${userId}/restrict`, { reason });
+    mutationFn: async ({ userId, reason, duration }: { userId: string; reason: string; duration?: number }) => {
+      const response = await apiRequest('PATCH', `/api/admin/users/${userId}/restrict`, { reason, duration });
       return response.json();
     },
     onSuccess: () => {
       queryClient.invalidateQueries({ queryKey: ['/api/admin/users'] });
       setRestrictionReason('');
+      setRestrictionDuration('permanent');
       toast({ title: 'Success', description: 'User restricted successfully' });
     },
     onError: () => {
@@ -234,13 +297,14 @@ export default function AdminDashboard() {
 
   // Ban user mutation
   const banUserMutation = useMutation({
-    mutationFn: async ({ userId, reason }: { userId: string; reason: string }) => {
-      const response = await apiRequest('PATCH', `/api/admin/users/${userId}/ban`, { reason });
+    mutationFn: async ({ userId, reason, duration }: { userId: string; reason: string; duration?: number }) => {
+      const response = await apiRequest('PATCH', `/api/admin/users/${userId}/ban`, { reason, duration });
       return response.json();
     },
     onSuccess: () => {
       queryClient.invalidateQueries({ queryKey: ['/api/admin/users'] });
       setBanReason('');
+      setBanDuration('permanent');
       toast({ title: 'Success', description: 'User banned successfully' });
     },
     onError: () => {
@@ -263,6 +327,12 @@ export default function AdminDashboard() {
     },
   });
 
+  const describeRemaining = (until?: string) => {
+    if (!until) return 'Until lifted';
+    const end = new Date(until);
+    return end > new Date() ? `${formatDistanceToNow(end)} left` : 'Ending now';
+  };
+
   const handleUpdateRole = () => {
     if (selectedUser && newRole) {
       updateUserRoleMutation.mutate({ userId: selectedUser, role: newRole });
@@ -354,6 +424,31 @@ export default function AdminDashboard() {
     );
   }
 
+  if (permissionsLoading) {
+    return (
+      <div className="min-h-screen flex items-center justify-center bg-background">
+        <div className="w-12 h-12 border-4 border-blue-500 border-t-transparent rounded-full animate-spin"></div>
+      </div>
+    );
+  }
+
+  // Signed in, but not as staff
+  if (!permissions || permissions.capabilities.length === 0) {
+    return (
+      <div className="min-h-screen flex items-center justify-center bg-background p-4">
+        <Card className="w-full max-w-md">
+          <CardHeader>
+            <CardTitle>No access</CardTitle>
+            <CardDescription>Your account can't use the admin dashboard.</CardDescription>
+          </CardHeader>
+          <CardContent>
+            <Button variant="outline" onClick={handleLogout} className="w-full">Logout</Button>
+          </CardContent>
+        </Card>
+      </div>
+    );
+  }
+
   return (
     <div className="min-h-screen bg-gradient-to-br from-slate-50 to-slate-100 dark:from-slate-900 dark:to-slate-800">
       <div className="p-6 space-y-6">
@@ -374,7 +469,7 @@ export default function AdminDashboard() {
           <div className="flex items-center space-x-3">
             <Badge variant="secondary" className="text-sm px-3 py-1 bg-blue-100 text-blue-700 dark:bg-blue-900 dark:text-blue-300">
               <Shield className="h-4 w-4 mr-1" />
-              Admin Access
+              {can('dashboard.view') ? 'Admin Access' : 'Moderator Access'}
             </Badge>
             <Button variant="outline" onClick={handleLogout} className="hover:bg-red-50 hover:border-red-200 hover:text-red-600" data-testid="button-admin-logout">
               Logout
@@ -383,70 +478,88 @@ export default function AdminDashboard() {
         </div>
 
         {/* Stats Grid */}
-        <div className="grid gap-6 md:grid-cols-2 lg:grid-cols-4">
-          <Card className="bg-gradient-to-br from-blue-50 to-blue-100 dark:from-blue-900/20 dark:to-blue-800/20 border-blue-200 dark:border-blue-700">
-            <CardHeader className="flex flex-row items-center justify-between space-y-0 pb-2">
-              <CardTitle className="text-sm font-medium text-blue-700 dark:text-blue-300">Total Users</CardTitle>
-              <Users className="h-4 w-4 text-blue-600 dark:text-blue-400" />
-            </CardHeader>
-            <CardContent>
-              <div className="text-2xl font-bold text-blue-900 dark:text-blue-100">{stats?.totalUsers?.toLocaleString() || 0}</div>
-              <p className="text-xs text-blue-600 dark:text-blue-400">Registered community members</p>
-            </CardContent>
-          </Card>
-          
-          <Card className="bg-gradient-to-br from-green-50 to-green-100 dark:from-green-900/20 dark:to-green-800/20 border-green-200 dark:border-green-700">
-            <CardHeader className="flex flex-row items-center justify-between space-y-0 pb-2">
-              <CardTitle className="text-sm font-medium text-green-700 dark:text-green-300">Online Users</CardTitle>
-              <div className="relative">
-                <Users className="h-4 w-4 text-green-600 dark:text-green-400" />
-                <div className="absolute -top-1 -right-1 w-2 h-2 bg-green-500 rounded-full animate-pulse"></div>
-              </div>
-            </CardHeader>
-            <CardContent>
-              <div className="text-2xl font-bold text-green-900 dark:text-green-100">{stats?.onlineUsers?.toLocaleString() || 0}</div>
-              <p className="text-xs text-green-600 dark:text-green-400">Currently active</p>
-            </CardContent>
-          </Card>
-          
-          <Card className="bg-gradient-to-br from-purple-50 to-purple-100 dark:from-purple-900/20 dark:to-purple-800/20 border-purple-200 dark:border-purple-700">
-            <CardHeader className="flex flex-row items-center justify-between space-y-0 pb-2">
-              <CardTitle className="text-sm font-medium text-purple-700 dark:text-purple-300">Total Chats</CardTitle>
-              <MessageSquare className="h-4 w-4 text-purple-600 dark:text-purple-400" />
-            </CardHeader>
-            <CardContent>
-              <div className="text-2xl font-bold text-purple-900 dark:text-purple-100">{stats?.totalChats?.toLocaleString() || 0}</div>
-              <p className="text-xs text-purple-600 dark:text-purple-400">Active chat rooms</p>
-            </CardContent>
-          </Card>
-          
-          <Card className="bg-gradient-to-br from-orange-50 to-orange-100 dark:from-orange-900/20 dark:to-orange-800/20 border-orange-200 dark:border-orange-700">
-            <CardHeader className="flex flex-row items-center justify-between space-y-0 pb-2">
-              <CardTitle className="text-sm font-medium text-orange-700 dark:text-orange-300">Total Messages</CardTitle>
-              <Globe className="h-4 w-4 text-orange-600 dark:text-orange-400" />
-            </CardHeader>
-            <CardContent>
-              <div className="text-2xl font-bold text-orange-900 dark:text-orange-100">{stats?.totalMessages?.toLocaleString() || 0}</div>
-              <p className="text-xs text-orange-600 dark:text-orange-400">Messages exchanged</p>
-            </CardContent>
-          </Card>
-        </div>
+        {can('dashboard.view') && (
+          <div className="grid gap-6 md:grid-cols-2 lg:grid-cols-4">
+            <Card className="bg-gradient-to-br from-blue-50 to-blue-100 dark:from-blue-900/20 dark:to-blue-800/20 border-blue-200 dark:border-blue-700">
+              <CardHeader className="flex flex-row items-center justify-between space-y-0 pb-2">
+                <CardTitle className="text-sm font-medium text-blue-700 dark:text-blue-300">Total Users</CardTitle>
+                <Users className="h-4 w-4 text-blue-600 dark:text-blue-400" />
+              </CardHeader>
+              <CardContent>
+                <div className="text-2xl font-bold text-blue-900 dark:text-blue-100">{stats?.totalUsers?.toLocaleString() || 0}</div>
+                <p className="text-xs text-blue-600 dark:text-blue-400">Registered community members</p>
+              </CardContent>
+            </Card>
+            
+            <Card className="bg-gradient-to-br from-green-50 to-green-100 dark:from-green-900/20 dark:to-green-800/20 border-green-200 dark:border-green-700">
+              <CardHeader className="flex flex-row items-center justify-between space-y-0 pb-2">
+                <CardTitle className="text-sm font-medium text-green-700 dark:text-green-300">Online Users</CardTitle>
+                <div className="relative">
+                  <Users className="h-4 w-4 text-green-600 dark:text-green-400" />
+                  <div className="absolute -top-1 -right-1 w-2 h-2 bg-green-500 rounded-full animate-pulse"></div>
+                </div>
+              </CardHeader>
+              <CardContent>
+                <div className="text-2xl font-bold text-green-900 dark:text-green-100">{stats?.onlineUsers?.toLocaleString() || 0}</div>
+                <p className="text-xs text-green-600 dark:text-green-400">Currently active</p>
+              </CardContent>
+            </Card>
+            
+            <Card className="bg-gradient-to-br from-purple-50 to-purple-100 dark:from-purple-900/20 dark:to-purple-800/20 border-purple-200 dark:border-purple-700">
+              <CardHeader className="flex flex-row items-center justify-between space-y-0 pb-2">
+                <CardTitle className="text-sm font-medium text-purple-700 dark:text-purple-300">Total Chats</CardTitle>
+                <MessageSquare className="h-4 w-4 text-purple-600 dark:text-purple-400" />
+              </CardHeader>
+              <CardContent>
+                <div className="text-2xl font-bold text-purple-900 dark:text-purple-100">{stats?.totalChats?.toLocaleString() || 0}</div>
+                <p className="text-xs text-purple-600 dark:text-purple-400">Active chat rooms</p>
+              </CardContent>
+            </Card>
+            
+            <Card className="bg-gradient-to-br from-orange-50 to-orange-100 dark:from-orange-900/20 dark:to-orange-800/20 border-orange-200 dark:border-orange-700">
+              <CardHeader className="flex flex-row items-center justify-between space-y-0 pb-2">
+                <CardTitle className="text-sm font-medium text-orange-700 dark:text-orange-300">Total Messages</CardTitle>
+                <Globe className="h-4 w-4 text-orange-600 dark:text-orange-400" />
+              </CardHeader>
+              <CardContent>
+                <div className="text-2xl font-bold text-orange-900 dark:text-orange-100">{stats?.totalMessages?.toLocaleString() || 0}</div>
+                <p className="text-xs text-orange-600 dark:text-orange-400">Messages exchanged</p>
+              </CardContent>
+            </Card>
+          </div>
+        )}
 
         {/* Admin Tabs */}
-        <Tabs defaultValue="users" className="space-y-6">
-          <TabsList className="grid w-full grid-cols-3 bg-white dark:bg-slate-800 shadow-sm">
-            <TabsTrigger value="users" className="data-[state=active]:bg-blue-600 data-[state=active]:text-white">
-              <Users className="h-4 w-4 mr-2" />
-              Users
-            </TabsTrigger>
-            <TabsTrigger value="chats" className="data-[state=active]:bg-purple-600 data-[state=active]:text-white">
-              <MessageSquare className="h-4 w-4 mr-2" />
-              Chats
-            </TabsTrigger>
-            <TabsTrigger value="messages" className="data-[state=active]:bg-orange-600 data-[state=active]:text-white">
-              <Globe className="h-4 w-4 mr-2" />
-              Messages
-            </TabsTrigger>
+        <Tabs defaultValue={can('dashboard.view') ? 'users' : 'reports'} className="space-y-6">
+          <TabsList className="flex w-full bg-white dark:bg-slate-800 shadow-sm">
+            {can('dashboard.view') && (
+              <>
+                <TabsTrigger value="users" className="flex-1 data-[state=active]:bg-blue-600 data-[state=active]:text-white">
+                  <Users className="h-4 w-4 mr-2" />
+                  Users
+                </TabsTrigger>
+                <TabsTrigger value="chats" className="flex-1 data-[state=active]:bg-purple-600 data-[state=active]:text-white">
+                  <MessageSquare className="h-4 w-4 mr-2" />
+                  Chats
+                </TabsTrigger>
+                <TabsTrigger value="messages" className="flex-1 data-[state=active]:bg-orange-600 data-[state=active]:text-white">
+                  <Globe className="h-4 w-4 mr-2" />
+                  Messages
+                </TabsTrigger>
+              </>
+            )}
+            {can('reports.view') && (
+              <TabsTrigger value="reports" className="flex-1 data-[state=active]:bg-red-600 data-[state=active]:text-white">
+                <Flag className="h-4 w-4 mr-2" />
+                Reports
+              </TabsTrigger>
+            )}
+            {can('audit_log.view') && (
+              <TabsTrigger value="audit-log" className="flex-1 data-[state=active]:bg-slate-700 data-[state=active]:text-white">
+                <ScrollText className="h-4 w-4 mr-2" />
+                Audit log
+              </TabsTrigger>
+            )}
           </TabsList>
 
           <TabsContent value="users" className="space-y-6">
@@ -475,7 +588,7 @@ export default function AdminDashboard() {
                     </TableHeader>
                     <TableBody>
                       {users?.map((user) => (
-                        <TableRow key={user._id} className="hover:bg-slate-50 dark:hover:bg-slate-800/50">
+                        <TableRow key={user.id} className="hover:bg-slate-50 dark:hover:bg-slate-800/50">
                           <TableCell className="font-medium text-slate-900 dark:text-slate-100">{user.username}</TableCell>
                           <TableCell className="text-slate-600 dark:text-slate-400">{user.email}</TableCell>
                           <TableCell>
@@ -503,21 +616,31 @@ export default function AdminDashboard() {
                                 Banned
                               </Badge>
                             )}
+                            {user.isBanned && (
+                              <span className="text-xs text-slate-500" data-testid={`text-ban-remaining-${user.id}`}>
+                                {describeRemaining(user.bannedUntil)}
+                              </span>
+                            )}
                             {user.isRestricted && !user.isBanned && (
                               <Badge variant="outline" className="text-xs border-orange-500 text-orange-600">
                                 <UserX className="h-3 w-3 mr-1" />
                                 Restricted
                               </Badge>
                             )}
+                            {user.isRestricted && !user.isBanned && (
+                              <span className="text-xs text-slate-500" data-testid={`text-restriction-remaining-${user.id}`}>
+                                {describeRemaining(user.restrictedUntil)}
+                              </span>
+                            )}
                           </div>
                         </TableCell>
                         <TableCell>{formatDistanceToNow(new Date(user.createdAt), { addSuffix: true })}</TableCell>
                         <TableCell>
                           <div className="flex flex-wrap gap-1">
                             {/* Role Management */}
-                            <Select value={selectedUser === user._id ? newRole : user.role} onValueChange={(value) => {
-                              setSelectedUser(user._id);
-                              setNewRole(value as 'user' | 'admin' | 'moderator');
+                            <Select value={selectedUser === user.id ? newRole : user.role} onValueChange={(value) => {
+                              setSelectedUser(user.id);
+                              setNewRole(value as UserRole);
                             }}>
                               <SelectTrigger className="w-24 h-8">
                                 <SelectValue />
@@ -528,8 +651,8 @@ export default function AdminDashboard() {
                                 <SelectItem value="admin">Admin</SelectItem>
                               </SelectContent>
                             </Select>
-                            {selectedUser === user._id && newRole !== user.role && (
-                              <Button size="sm" onClick={handleUpdateRole} className="h-8" data-testid={`button-update-role-${user._id}`}>
+                            {selectedUser === user.id && newRole !== user.role && (
+                              <Button size="sm" onClick={handleUpdateRole} className="h-8" data-testid={`button-update-role-${user.id}`}>
                                 <UserCog className="h-3 w-3" />
                               </Button>
                             )}
@@ -538,7 +661,7 @@ export default function AdminDashboard() {
                             {!user.isBanned && !user.isRestricted && (
                               <AlertDialog>
                                 <AlertDialogTrigger asChild>
-                                  <Button variant="outline" size="sm" className="h-8" data-testid={`button-restrict-user-${user._id}`}>
+                                  <Button variant="outline" size="sm" className="h-8" data-testid={`button-restrict-user-${user.id}`}>
                                     <UserX className="h-3 w-3" />
                                   </Button>
                                 </AlertDialogTrigger>
@@ -549,17 +672,18 @@ export default function AdminDashboard() {
                                       Restrict {user.username} from certain actions. Provide a reason:
                                     </AlertDialogDescription>
                                   </AlertDialogHeader>
-                                  <div className="py-4">
+                                  <div className="py-4 space-y-3">
                                     <Input
                                       placeholder="Reason for restriction..."
                                       value={restrictionReason}
                                       onChange={(e) => setRestrictionReason(e.target.value)}
                                     />
+                                    <SanctionDurationSelect value={restrictionDuration} onChange={setRestrictionDuration} />
                                   </div>
                                   <AlertDialogFooter>
                                     <AlertDialogCancel>Cancel</AlertDialogCancel>
                                     <AlertDialogAction
-                                      onClick={() => restrictUserMutation.mutate({ userId: user._id, reason: restrictionReason })}
+                                      onClick={() => restrictUserMutation.mutate({ userId: user.id, reason: restrictionReason, duration: toSanctionDuration(restrictionDuration) })}
                                       disabled={!restrictionReason.trim()}
                                     >
                                       Restrict User
@@ -574,8 +698,8 @@ export default function AdminDashboard() {
                                 variant="outline" 
                                 size="sm" 
                                 className="h-8" 
-                                onClick={() => unrestrictUserMutation.mutate(user._id)}
-                                data-testid={`button-unrestrict-user-${user._id}`}
+                                onClick={() => unrestrictUserMutation.mutate(user.id)}
+                                data-testid={`button-unrestrict-user-${user.id}`}
                               >
                                 <Unlock className="h-3 w-3" />
                               </Button>
@@ -585,7 +709,7 @@ export default function AdminDashboard() {
                             {!user.isBanned && (
                               <AlertDialog>
                                 <AlertDialogTrigger asChild>
-                                  <Button variant="destructive" size="sm" className="h-8" data-testid={`button-ban-user-${user._id}`}>
+                                  <Button variant="destructive" size="sm" className="h-8" data-testid={`button-ban-user-${user.id}`}>
                                     <Ban className="h-3 w-3" />
                                   </Button>
                                 </AlertDialogTrigger>
@@ -596,17 +720,18 @@ export default function AdminDashboard() {
                                       Ban {user.username} from the platform. Provide a reason:
                                     </AlertDialogDescription>
                                   </AlertDialogHeader>
-                                  <div className="py-4">
+                                  <div className="py-4 space-y-3">
                                     <Input
                                       placeholder="Reason for ban..."
                                       value={banReason}
                                       onChange={(e) => setBanReason(e.target.value)}
                                     />
+                                    <SanctionDurationSelect value={banDuration} onChange={setBanDuration} />
                                   </div>
                                   <AlertDialogFooter>
                                     <AlertDialogCancel>Cancel</AlertDialogCancel>
                                     <AlertDialogAction
-                                      onClick={() => banUserMutation.mutate({ userId: user._id, reason: banReason })}
+                                      onClick={() => banUserMutation.mutate({ userId: user.id, reason: banReason, duration: toSanctionDuration(banDuration) })}
                                       disabled={!banReason.trim()}
                                       className="bg-red-600 hover:bg-red-700"
                                     >
@@ -622,8 +747,8 @@ export default function AdminDashboard() {
                                 variant="outline" 
                                 size="sm" 
                                 className="h-8 border-green-500 text-green-600 hover:bg-green-50" 
-                                onClick={() => unbanUserMutation.mutate(user._id)}
-                                data-testid={`button-unban-user-${user._id}`}
+                                onClick={() => unbanUserMutation.mutate(user.id)}
+                                data-testid={`button-unban-user-${user.id}`}
                               >
                                 <Unlock className="h-3 w-3" />
                               </Button>
@@ -632,7 +757,7 @@ export default function AdminDashboard() {
                             {/* Delete Action */}
                             <AlertDialog>
                               <AlertDialogTrigger asChild>
-                                <Button variant="destructive" size="sm" className="h-8" data-testid={`button-delete-user-${user._id}`}>
+                                <Button variant="destructive" size="sm" className="h-8" data-testid={`button-delete-user-${user.id}`}>
                                   <Trash2 className="h-3 w-3" />
                                 </Button>
                               </AlertDialogTrigger>
@@ -645,7 +770,7 @@ export default function AdminDashboard() {
                               </AlertDialogHeader>
                               <AlertDialogFooter>
                                 <AlertDialogCancel>Cancel</AlertDialogCancel>
-                                <AlertDialogAction onClick={() => deleteUserMutation.mutate(user._id)}>
+                                <AlertDialogAction onClick={() => deleteUserMutation.mutate(user.id)}>
                                   Delete
                                 </AlertDialogAction>
                               </AlertDialogFooter>
@@ -676,13 +801,14 @@ export default function AdminDashboard() {
                       <TableHead>Name</TableHead>
                       <TableHead>Type</TableHead>
                       <TableHead>Participants</TableHead>
+                      <TableHead>Capacity</TableHead>
                       <TableHead>Created</TableHead>
                       <TableHead>Actions</TableHead>
                     </TableRow>
                   </TableHeader>
                   <TableBody>
                     {chats?.map((chat) => (
-                      <TableRow key={chat._id}>
+                      <TableRow key={chat.id}>
                         <TableCell className="font-medium">
                           {chat.name || (chat.isGroup ? 'Group Chat' : 'Direct Message')}
                         </TableCell>
@@ -692,11 +818,39 @@ export default function AdminDashboard() {
                           </Badge>
                         </TableCell>
                         <TableCell>{chat.participants.length}</TableCell>
-                        <TableCell>{formatDistanceToNow(new Date(chat.createdAt), { addSuffix: true })}</TableCell>
                         <TableCell>
+                          <div className="flex items-center space-x-2">
+                            <span>{chat.maxMembers ?? 'Unlimited'}</span>
+                            {chat.isGroup && (
+                              <Button
+                                variant="ghost"
+                                size="sm"
+                                className="h-7 w-7 p-0"
+                                onClick={() => openCapacityDialog(chat)}
+                                title="Change capacity"
+                                data-testid={`button-edit-capacity-${chat.id}`}
+                              >
+                                <Pencil className="h-3 w-3" />
+                              </Button>
+                            )}
+                          </div>
+                        </TableCell>
+                        <TableCell>{formatDistanceToNow(new Date(chat.createdAt), { addSuffix: true })}</TableCell>
+                        <TableCell className="space-x-2">
+                          {chat.isGlobalRoom && (
+                            <Button
+                              variant="outline"
+                              size="sm"
+                              onClick={() => setModeratorsRoom(chat)}
+                              title="Room moderators"
+                              data-testid={`button-room-moderators-${chat.id}`}
+                            >
+                              <UserCog className="h-4 w-4" />
+                            </Button>
+                          )}
                           <AlertDialog>
                             <AlertDialogTrigger asChild>
-                              <Button variant="destructive" size="sm" data-testid={`button-delete-chat-${chat._id}`}>
+                              <Button variant="destructive" size="sm" data-testid={`button-delete-chat-${chat.id}`}>
                                 <Trash2 className="h-4 w-4" />
                               </Button>
                             </AlertDialogTrigger>
@@ -709,7 +863,7 @@ export default function AdminDashboard() {
                               </AlertDialogHeader>
                               <AlertDialogFooter>
                                 <AlertDialogCancel>Cancel</AlertDialogCancel>
-                                <AlertDialogAction onClick={() => deleteChatMutation.mutate(chat._id)}>
+                                <AlertDialogAction onClick={() => deleteChatMutation.mutate(chat.id)}>
                                   Delete
                                 </AlertDialogAction>
                               </AlertDialogFooter>
@@ -723,6 +877,41 @@ export default function AdminDashboard() {
               </div>
             </CardContent>
           </Card>
+
+          <RoomModeratorsDialog
+            room={moderatorsRoom}
+            onClose={() => setModeratorsRoom(null)}
+            candidates={users || []}
+          />
+
+          <Dialog open={!!capacityChat} onOpenChange={(open) => !open && setCapacityChat(null)}>
+            <DialogContent>
+              <DialogHeader>
+                <DialogTitle>Change Capacity</DialogTitle>
+                <DialogDescription>
+                  {capacityChat?.name || 'This chat'} has {capacityChat?.participants.length} members. Nobody is removed when
+                  the limit goes below that, and raising it lets people in from the waitlist.
+                </DialogDescription>
+              </DialogHeader>
+              <div className="space-y-2">
+                <Label htmlFor="chat-capacity">Maximum members</Label>
+                <Input
+                  id="chat-capacity"
+                  type="number"
+                  min={2}
+                  value={capacityValue}
+                  onChange={(e) => setCapacityValue(e.target.value)}
+                  data-testid="input-chat-capacity"
+                />
+              </div>
+              <DialogFooter>
+                <Button variant="outline" onClick={() => setCapacityChat(null)}>Cancel</Button>
+                <Button onClick={handleUpdateCapacity} disabled={updateCapacityMutation.isPending} data-testid="button-save-capacity">
+                  Save
+                </Button>
+              </DialogFooter>
+            </DialogContent>
+          </Dialog>
         </TabsContent>
 
         <TabsContent value="messages" className="space-y-4">
@@ -745,37 +934,55 @@ export default function AdminDashboard() {
                   </TableHeader>
                   <TableBody>
                     {messages?.map((message) => (
-                      <TableRow key={message._id}>
+                      <TableRow key={message.id}>
                         <TableCell className="max-w-xs truncate">
                           {message.content || `[${message.messageType}]`}
+                          {message.editedAt && (
+                            <Badge variant="secondary" className="ml-2">edited</Badge>
+                          )}
+                          {message.deletedAt && (
+                            <Badge variant="destructive" className="ml-2">deleted</Badge>
+                          )}
                         </TableCell>
                         <TableCell>
                           <Badge variant="outline">{message.messageType}</Badge>
                         </TableCell>
                         <TableCell>{message.sender.username}</TableCell>
                         <TableCell>{formatDistanceToNow(new Date(message.createdAt), { addSuffix: true })}</TableCell>
-                        <TableCell>
-                          <AlertDialog>
-                            <AlertDialogTrigger asChild>
-                              <Button variant="destructive" size="sm" data-testid={`button-delete-message-${message._id}`}>
-                                <Trash2 className="h-4 w-4" />
-                              </Button>
-                            </AlertDialogTrigger>
-                            <AlertDialogContent>
-                              <AlertDialogHeader>
-                                <AlertDialogTitle>Delete Message</AlertDialogTitle>
-                                <AlertDialogDescription>
-                                  Are you sure you want to delete this message? This action cannot be undone.
-                                </AlertDialogDescription>
-                              </AlertDialogHeader>
-                              <AlertDialogFooter>
-                                <AlertDialogCancel>Cancel</AlertDialogCancel>
-                                <AlertDialogAction onClick={() => deleteMessageMutation.mutate(message._id)}>
-                                  Delete
-                                </AlertDialogAction>
-                              </AlertDialogFooter>
-                            </AlertDialogContent>
-                          </AlertDialog>
+                        <TableCell className="space-x-2">
+                          {message.editedAt && (
+                            <Button
+                              variant="outline"
+                              size="sm"
+                              onClick={() => setHistoryMessage(message)}
+                              data-testid={`button-message-history-${message.id}`}
+                            >
+                              <History className="h-4 w-4" />
+                            </Button>
+                          )}
+                          {!message.deletedAt && (
+                            <AlertDialog>
+                              <AlertDialogTrigger asChild>
+                                <Button variant="destructive" size="sm" data-testid={`button-delete-message-${message.id}`}>
+                                  <Trash2 className="h-4 w-4" />
+                                </Button>
+                              </AlertDialogTrigger>
+                              <AlertDialogContent>
+                                <AlertDialogHeader>
+                                  <AlertDialogTitle>Delete Message</AlertDialogTitle>
+                                  <AlertDialogDescription>
+                                    Participants will see that this message was deleted. Its content stays available here for review.
+                                  </AlertDialogDescription>
+                                </AlertDialogHeader>
+                                <AlertDialogFooter>
+                                  <AlertDialogCancel>Cancel</AlertDialogCancel>
+                                  <AlertDialogAction onClick={() => deleteMessageMutation.mutate(message.id)}>
+                                    Delete
+                                  </AlertDialogAction>
+                                </AlertDialogFooter>
+                              </AlertDialogContent>
+                            </AlertDialog>
+                          )}
                         </TableCell>
                       </TableRow>
                     ))}
@@ -784,6 +991,63 @@ export default function AdminDashboard() {
               </div>
             </CardContent>
           </Card>
+
+          <Dialog open={!!historyMessage} onOpenChange={(open) => !open && setHistoryMessage(null)}>
+            <DialogContent className="sm:max-w-2xl">
+              <DialogHeader>
+                <DialogTitle>Edit History</DialogTitle>
+                <DialogDescription>
+                  Every version of this message from {historyMessage?.sender.username}, oldest first
+                </DialogDescription>
+              </DialogHeader>
+              {revisionsLoading ? (
+                <p className="text-sm text-gray-500">Loading history...</p>
+              ) : (
+                <div className="rounded-md border max-h-96 overflow-y-auto">
+                  <Table>
+                    <TableHeader>
+                      <TableRow>
+                        <TableHead>Version</TableHead>
+                        <TableHead>Content</TableHead>
+                        <TableHead>Posted</TableHead>
+                        <TableHead>Replaced</TableHead>
+                      </TableRow>
+                    </TableHeader>
+                    <TableBody>
+                      {revisions?.map((revision, index) => (
+                        <TableRow key={revision.id}>
+                          <TableCell>{index === 0 ? 'Original' : `Edit ${index}`}</TableCell>
+                          <TableCell className="whitespace-pre-wrap break-words">{revision.content}</TableCell>
+                          <TableCell>{format(new Date(revision.postedAt), 'MMM d, yyyy HH:mm')}</TableCell>
+                          <TableCell>{format(new Date(revision.replacedAt), 'MMM d, yyyy HH:mm')}</TableCell>
+                        </TableRow>
+                      ))}
+                      {historyMessage && (
+                        <TableRow>
+                          <TableCell>
+                            <Badge variant="outline">Current</Badge>
+                          </TableCell>
+                          <TableCell className="whitespace-pre-wrap break-words">{historyMessage.content}</TableCell>
+                          <TableCell>
+                            {historyMessage.editedAt && format(new Date(historyMessage.editedAt), 'MMM d, yyyy HH:mm')}
+                          </TableCell>
+                          <TableCell>-</TableCell>
+                        </TableRow>
+                      )}
+                    </TableBody>
+                  </Table>
+                </div>
+              )}
+            </DialogContent>
+          </Dialog>
+        </TabsContent>
+
+        <TabsContent value="reports" className="space-y-4">
+          <ReportQueueTab capabilities={permissions.capabilities} />
+        </TabsContent>
+
+        <TabsContent value="audit-log" className="space-y-4">
+          <AuditLogTab actors={users?.filter(user => user.role !== 'user') || []} />
         </TabsContent>
         </Tabs>
       </div>
@@ -27,6 +27,12 @@ declare global {
   }
 }
 
+// Where to go after signing in: a page that sent the user here, or home
+function getNextLocation() {
+  const next = new URLSearchParams(window.location.search).get("next");
+  return next && next.startsWith("/") && !next.startsWith("//") ? next : "/";
+}
+
 export default function AuthPage() {
   const [isLogin, setIsLogin] = useState(true);
   const [, setLocation] = useLocation();
@@ -36,7 +42,7 @@ export default function AuthPage() {
   // Redirect if already logged in (use useEffect to avoid state update during render)
   useEffect(() => {
     if (user) {
-      setLocation("/");
+      setLocation(getNextLocation());
     }
   }, [user, setLocation]);
 
@@ -62,7 +68,7 @@ export default function AuthPage() {
   const onLogin = async (data: LoginData) => {
     try {
       await loginMutation.mutateAsync(data);
-      setLocation("/");
+      setLocation(getNextLocation());
     } catch (error) {
       // Error handling is done in the mutation
     }
@@ -75,7 +81,7 @@ export default function AuthPage() {
         title: "Account created successfully!",
         description: "Please check your email to verify your account.",
       });
-      setLocation("/");
+      setLocation(getNextLocation());
     } catch (error) {
       // Error handling is done in the mutation
     }
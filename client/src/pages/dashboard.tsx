@@ -12,6 +12,7 @@ import { Textarea } from "@/components/ui/textarea";
 import { Avatar, AvatarFallback, AvatarImage } from "@/components/ui/avatar";
 import { Badge } from "@/components/ui/badge";
 import { Separator } from "@/components/ui/separator";
+import { Switch } from "@/components/ui/switch";
 import { 
   MessageCircle, 
   Users, 
@@ -97,6 +98,92 @@ export default function Dashboard() {
     },
   });
 
+  // A full room answers 409, or 202 with a place in line when asked to waitlist
+  const joinRoomMutation = useMutation({
+    mutationFn: async ({ roomId, waitlist }: { roomId: string; waitlist: boolean }) => {
+      const res = await apiRequest("POST", `/api/chats/global/${roomId}/join`, { waitlist });
+      return { status: res.status, body: await res.json() as { position?: number } };
+    },
+    onSuccess: ({ status, body }, { roomId }) => {
+      queryClient.invalidateQueries({ queryKey: ["/api/chats/global"] });
+      queryClient.invalidateQueries({ queryKey: ["/api/chats"], exact: true });
+      if (status === 202) {
+        toast({
+          title: "You're on the waitlist",
+          description: `You're number ${body.position} in line and will be let in when a spot opens up.`,
+        });
+        return;
+      }
+      setSelectedChatId(roomId);
+    },
+    onError: (error) => {
+      queryClient.invalidateQueries({ queryKey: ["/api/chats/global"] });
+      toast({
+        title: "Error",
+        description: error.message.startsWith("409:") ? "This room is full" : "Failed to join room",
+        variant: "destructive",
+      });
+    },
+  });
+
+  const leaveRoomMutation = useMutation({
+    mutationFn: async (roomId: string) => {
+      return await apiRequest("POST", `/api/chats/global/${roomId}/leave`);
+    },
+    onSuccess: (_, roomId) => {
+      queryClient.invalidateQueries({ queryKey: ["/api/chats/global"] });
+      queryClient.invalidateQueries({ queryKey: ["/api/chats"], exact: true });
+      if (selectedChatId === roomId) setSelectedChatId(undefined);
+    },
+    onError: () => {
+      toast({
+        title: "Error",
+        description: "Failed to leave room",
+        variant: "destructive",
+      });
+    },
+  });
+
+  const leaveWaitlistMutation = useMutation({
+    mutationFn: async (roomId: string) => {
+      return await apiRequest("DELETE", `/api/chats/global/${roomId}/waitlist`);
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["/api/chats/global"] });
+    },
+    onError: () => {
+      toast({
+        title: "Error",
+        description: "Failed to leave waitlist",
+        variant: "destructive",
+      });
+    },
+  });
+
+  // Invisible mode hides our online status from everyone else
+  const invisibleMutation = useMutation({
+    mutationFn: async (isInvisible: boolean) => {
+      const res = await apiRequest("POST", "/api/users/status", { isInvisible });
+      return res.json() as Promise<UserProfile>;
+    },
+    onSuccess: (updatedUser) => {
+      queryClient.setQueryData(["/api/user"], updatedUser);
+      toast({
+        title: updatedUser.isInvisible ? "You're invisible" : "You're visible",
+        description: updatedUser.isInvisible
+          ? "Others will see you as offline."
+          : "Others can see when you're online.",
+      });
+    },
+    onError: () => {
+      toast({
+        title: "Error",
+        description: "Failed to update your visibility. Please try again.",
+        variant: "destructive",
+      });
+    },
+  });
+
   // Redirect to auth page if not logged in
   useEffect(() => {
     if (!isLoading && !user) {
@@ -445,6 +532,46 @@ export default function Dashboard() {
     </div>
   );
 
+  const renderRoomAction = (room: ChatWithParticipants) => {
+    if (user && room.participants.includes(user.id)) {
+      return (
+        <div className="flex items-center space-x-2">
+          <Button size="sm" variant="ghost" onClick={() => leaveRoomMutation.mutate(room.id)} disabled={leaveRoomMutation.isPending}>
+            Leave
+          </Button>
+          <Button size="sm" onClick={() => setSelectedChatId(room.id)}>
+            Open
+          </Button>
+        </div>
+      );
+    }
+    if (room.waitlistPosition) {
+      return (
+        <div className="flex items-center space-x-2">
+          <Badge variant="secondary" data-testid={`badge-waitlist-${room.id}`}>#{room.waitlistPosition} in line</Badge>
+          <Button size="sm" variant="ghost" onClick={() => leaveWaitlistMutation.mutate(room.id)} disabled={leaveWaitlistMutation.isPending}>
+            Leave line
+          </Button>
+        </div>
+      );
+    }
+    const isFull = room.maxMembers !== null && room.participants.length >= room.maxMembers;
+    return (
+      <div className="flex items-center space-x-2">
+        {isFull && <Badge variant="outline">Full</Badge>}
+        <Button
+          size="sm"
+          variant={isFull ? "outline" : "default"}
+          onClick={() => joinRoomMutation.mutate({ roomId: room.id, waitlist: isFull })}
+          disabled={joinRoomMutation.isPending}
+          data-testid={`button-join-room-${room.id}`}
+        >
+          {isFull ? "Join waitlist" : "Join"}
+        </Button>
+      </div>
+    );
+  };
+
   const renderDiscover = () => (
     <div className="flex-1 p-6">
       <div className="max-w-4xl mx-auto space-y-6">
@@ -472,12 +599,10 @@ export default function Dashboard() {
                       {room.description}
                     </p>
                     <div className="flex items-center justify-between">
-                      <span className="text-xs text-gray-500">
-                        {room.participantDetails?.length || 0} members
+                      <span className="text-xs text-gray-500" data-testid={`text-room-members-${room.id}`}>
+                        {room.participants.length}{room.maxMembers !== null && ` / ${room.maxMembers}`} members
                       </span>
-                      <Button size="sm" onClick={() => setSelectedChatId(room.id)}>
-                        Join
-                      </Button>
+                      {renderRoomAction(room)}
                     </div>
                   </CardContent>
                 </Card>
@@ -567,11 +692,28 @@ export default function Dashboard() {
                 <p className="text-sm text-gray-500">Conversations</p>
               </div>
               <div className="text-center">
-                <p className="text-2xl font-bold text-green-600">{user.isOnline ? "Online" : "Offline"}</p>
+                <p className="text-2xl font-bold text-green-600">
+                  {user.isInvisible ? "Invisible" : user.isOnline ? "Online" : "Offline"}
+                </p>
                 <p className="text-sm text-gray-500">Status</p>
               </div>
             </div>
 
+            <Separator />
+
+            <div className="flex items-center justify-between">
+              <div>
+                <h3 className="font-semibold">Invisible mode</h3>
+                <p className="text-sm text-gray-500">Appear offline and hide your last seen time</p>
+              </div>
+              <Switch
+                checked={!!user.isInvisible}
+                disabled={invisibleMutation.isPending}
+                onCheckedChange={(checked) => invisibleMutation.mutate(checked)}
+                data-testid="switch-invisible-mode"
+              />
+            </div>
+
             {user.bio && (
               <>
                 <Separator />
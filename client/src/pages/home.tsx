@@ -11,6 +11,7 @@ import type { ChatWithParticipants } from "@shared/schema";
 
 export default function Home() {
   const [selectedChatId, setSelectedChatId] = useState<string>();
+  const [focusMessageId, setFocusMessageId] = useState<string>();
   const [isProfileModalOpen, setIsProfileModalOpen] = useState(false);
   const [isMobileSidebarOpen, setIsMobileSidebarOpen] = useState(false);
   const [, setLocation] = useLocation();
@@ -32,15 +33,17 @@ export default function Home() {
   // Auto-select the main global chatroom when user first lands
   useEffect(() => {
     if (user && globalRooms.length > 0 && !selectedChatId) {
+      // Capped rooms can only be opened after joining them
+      const openRooms = globalRooms.filter(room => room.maxMembers === null || room.participants.includes(user.id));
       // Find the main global room (usually "General" or first one)
-      const mainRoom = globalRooms.find(room => 
+      const mainRoom = openRooms.find(room => 
         room.name?.toLowerCase().includes('general') || 
         room.name?.toLowerCase().includes('welcome') ||
         room.name?.toLowerCase().includes('main')
-      ) || globalRooms[0]; // Fallback to first room
+      ) || openRooms[0]; // Fallback to first room
       
       if (mainRoom) {
-        setSelectedChatId(mainRoom._id!);
+        setSelectedChatId(mainRoom.id);
       }
     }
   }, [user, globalRooms, selectedChatId]);
@@ -68,6 +71,11 @@ export default function Home() {
     setIsMobileSidebarOpen(false);
   };
 
+  const handleOpenMessage = (chatId: string, messageId: string) => {
+    setSelectedChatId(chatId);
+    setFocusMessageId(messageId);
+  };
+
   return (
     <div className="min-h-screen flex bg-gray-50 dark:bg-telegram-dark" data-testid="home-page">
       {/* Mobile Sidebar Overlay */}
@@ -99,6 +107,10 @@ export default function Home() {
           currentUser={user}
           onOpenMobileMenu={() => setIsMobileSidebarOpen(true)}
           isMobileSidebarOpen={isMobileSidebarOpen}
+          focusMessageId={focusMessageId}
+          onMessageFocused={() => setFocusMessageId(undefined)}
+          onOpenMessage={handleOpenMessage}
+          onLeaveChat={() => setSelectedChatId(undefined)}
         />
       </div>
 
@@ -0,0 +1,136 @@
+import { useEffect } from "react";
+import { useMutation, useQuery, useQueryClient } from "@tanstack/react-query";
+import { useLocation, useParams } from "wouter";
+import { Button } from "@/components/ui/button";
+import { Card, CardContent } from "@/components/ui/card";
+import { Avatar, AvatarFallback, AvatarImage } from "@/components/ui/avatar";
+import { AlertCircle, Clock, Users } from "lucide-react";
+import { useAuth } from "@/hooks/use-auth";
+import { useToast } from "@/hooks/use-toast";
+import { apiRequest } from "@/lib/queryClient";
+import type { ChatInvitePreview, JoinChatResult } from "@shared/schema";
+
+// Previews the group behind an invite link and lets the user join it
+export default function JoinPage() {
+  const { code = "" } = useParams<{ code: string }>();
+  const [, setLocation] = useLocation();
+  const { user, isLoading } = useAuth();
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+
+  // Come back to the invite after signing in
+  useEffect(() => {
+    if (!isLoading && !user) {
+      setLocation(`/auth?next=${encodeURIComponent(`/join/${code}`)}`);
+    }
+  }, [user, isLoading, code, setLocation]);
+
+  const { data: preview, isLoading: previewLoading, isError } = useQuery<ChatInvitePreview>({
+    queryKey: ['/api/invites', code],
+    enabled: !!user && !!code,
+  });
+
+  const joinMutation = useMutation({
+    mutationFn: async () => {
+      const res = await apiRequest('POST', `/api/invites/${code}/join`);
+      return res.json() as Promise<JoinChatResult>;
+    },
+    onSuccess: (result) => {
+      queryClient.invalidateQueries({ queryKey: ['/api/invites', code] });
+      if (result.status === "pending") {
+        toast({
+          title: "Request sent",
+          description: "A group admin needs to approve your request to join.",
+        });
+        return;
+      }
+      queryClient.invalidateQueries({ queryKey: ['/api/chats'] });
+      toast({
+        title: "You're in!",
+        description: `You joined ${preview?.chat.name || 'the group'}.`,
+      });
+      setLocation("/");
+    },
+    onError: (error) => {
+      queryClient.invalidateQueries({ queryKey: ['/api/invites', code] });
+      toast({
+        title: "Error",
+        description: error.message.startsWith("409:") ? "This group is full" : "Failed to join group",
+        variant: "destructive",
+      });
+    },
+  });
+
+  if (isLoading || !user || previewLoading) {
+    return (
+      <div className="min-h-screen flex items-center justify-center bg-gradient-to-br from-purple-50 to-pink-50 dark:from-gray-900 dark:to-gray-800">
+        <div className="w-12 h-12 border-4 border-purple-500 border-t-transparent rounded-full animate-spin"></div>
+      </div>
+    );
+  }
+
+  return (
+    <div className="min-h-screen flex items-center justify-center bg-gradient-to-br from-purple-50 to-pink-50 dark:from-gray-900 dark:to-gray-800 p-4">
+      <Card className="w-full max-w-md" data-testid="card-invite">
+        <CardContent className="pt-6">
+          {isError || !preview ? (
+            <div className="text-center space-y-4">
+              <AlertCircle className="w-12 h-12 text-red-500 mx-auto" />
+              <h1 className="text-xl font-bold text-gray-900 dark:text-white">Invite unavailable</h1>
+              <p className="text-sm text-gray-600 dark:text-gray-300">
+                This invite link is invalid, has expired or has been used up. Ask a group admin for a new one.
+              </p>
+              <Button variant="outline" onClick={() => setLocation("/")}>Go home</Button>
+            </div>
+          ) : (
+            <div className="text-center space-y-4">
+              <Avatar className="w-20 h-20 mx-auto border-2 border-white dark:border-gray-700 shadow-lg">
+                <AvatarImage src={preview.chat.imageUrl || undefined} />
+                <AvatarFallback className="bg-gradient-to-br from-purple-500 via-pink-500 to-orange-400 text-white">
+                  <Users className="w-8 h-8" />
+                </AvatarFallback>
+              </Avatar>
+              <div>
+                <p className="text-sm text-gray-500">You've been invited to join</p>
+                <h1 className="text-2xl font-bold text-gray-900 dark:text-white" data-testid="text-invite-group-name">
+                  {preview.chat.name || 'a group'}
+                </h1>
+                <p className="text-sm text-gray-500 mt-1">
+                  {preview.chat.memberCount} {preview.chat.memberCount === 1 ? 'member' : 'members'}
+                </p>
+              </div>
+              {preview.chat.description && (
+                <p className="text-sm text-gray-600 dark:text-gray-300">{preview.chat.description}</p>
+              )}
+
+              {preview.status === "member" ? (
+                <Button className="w-full" onClick={() => setLocation("/")} data-testid="button-open-group">
+                  You're already a member
+                </Button>
+              ) : preview.status === "pending" ? (
+                <p className="flex items-center justify-center space-x-2 text-sm text-amber-600 dark:text-amber-400">
+                  <Clock className="w-4 h-4" />
+                  <span>Waiting for an admin to approve your request</span>
+                </p>
+              ) : (
+                <>
+                  <Button
+                    className="w-full bg-gradient-to-r from-purple-500 to-pink-500 hover:from-purple-600 hover:to-pink-600 text-white"
+                    onClick={() => joinMutation.mutate()}
+                    disabled={joinMutation.isPending}
+                    data-testid="button-join-group"
+                  >
+                    {preview.requiresApproval ? 'Ask to join' : 'Join group'}
+                  </Button>
+                  {preview.requiresApproval && (
+                    <p className="text-xs text-gray-500">A group admin will review your request.</p>
+                  )}
+                </>
+              )}
+            </div>
+          )}
+        </CardContent>
+      </Card>
+    </div>
+  );
+}
@@ -10,6 +10,10 @@ import {
   loginSchema, 
   forgotPasswordSchema, 
   resetPasswordSchema,
+  hasCapability,
+  ROOM_MODERATOR_CAPABILITIES,
+  type Capability,
+  type ChatWithParticipants,
   type UserProfile 
 } from '@shared/schema';
 
@@ -33,34 +37,95 @@ const emailTransporter = nodemailer.createTransport({
 // Middleware to authenticate JWT tokens
 export interface AuthenticatedRequest extends Request {
   user?: UserProfile;
+  // The rooms a room moderator's access is limited to; unset for everyone else
+  moderatedRoomIds?: string[];
 }
 
-// Admin authentication middleware
-export const authenticateAdmin = async (req: AuthenticatedRequest, res: Response, next: NextFunction) => {
-  try {
-    const authHeader = req.headers.authorization;
-    const token = authHeader && authHeader.split(' ')[1];
+const BANNED_MESSAGE = 'Your account has been banned';
 
-    if (!token) {
-      return res.status(401).json({ message: 'Access token required' });
-    }
+// Timed sanctions stop applying once they run out, even before the sweep in
+// sanctions.ts clears them
+export const isSanctionActive = (isSanctioned: boolean | null, until: Date | null): boolean => {
+  return !!isSanctioned && (!until || until > new Date());
+};
 
-    const decoded = jwt.verify(token, JWT_SECRET) as { userId: string };
-    const user = await storage.getUser(decoded.userId);
+// A valid token that still can't be used, e.g. because its user was banned
+export class SessionError extends Error {
+  constructor(public status: number, message: string, public reason?: string | null) {
+    super(message);
+  }
+}
 
-    if (!user) {
-      return res.status(401).json({ message: 'User not found' });
-    }
+// Resolves a token to its user. Throws a SessionError for banned users and
+// revoked tokens, and whatever jwt.verify throws for bad ones.
+export const getSessionUser = async (token: string): Promise<UserProfile> => {
+  const decoded = verifyToken(token);
+  const [user, tokensRevokedAt] = await Promise.all([
+    storage.getUser(decoded.userId),
+    storage.getTokensRevokedAt(decoded.userId),
+  ]);
+
+  if (!user) {
+    throw new SessionError(401, 'User not found');
+  }
+  if (isSanctionActive(user.isBanned, user.bannedUntil)) {
+    throw new SessionError(403, BANNED_MESSAGE, user.banReason);
+  }
+  // Token times are in whole seconds, so one issued in the second of a revocation still counts
+  if (tokensRevokedAt && decoded.iat < Math.floor(tokensRevokedAt.getTime() / 1000)) {
+    throw new SessionError(401, 'Session has been revoked');
+  }
+  return user;
+};
+
+const sendSessionError = (res: Response, error: unknown) => {
+  if (error instanceof SessionError) {
+    return res.status(error.status).json({ message: error.message, reason: error.reason ?? undefined });
+  }
+  return res.status(403).json({ message: 'Invalid or expired token' });
+};
+
+// Staff authorization middleware. Lets through users whose role grants `capability`. Room moderators get through
+// for the capabilities they hold in their rooms, with `req.moderatedRoomIds` set
+// for the route to check what is being moderated against.
+export const requireCapability = (capability: Capability) =>
+  async (req: AuthenticatedRequest, res: Response, next: NextFunction) => {
+    try {
+      const authHeader = req.headers.authorization;
+      const token = authHeader && authHeader.split(' ')[1];
+
+      if (!token) {
+        return res.status(401).json({ message: 'Access token required' });
+      }
+
+      const user = await getSessionUser(token);
+      req.user = user;
 
-    if (user.role !== 'admin') {
-      return res.status(403).json({ message: 'Admin access required' });
+      if (hasCapability(user.role, capability)) {
+        return next();
+      }
+      if (ROOM_MODERATOR_CAPABILITIES.includes(capability)) {
+        const roomIds = await storage.getModeratedRoomIds(user.id);
+        if (roomIds.length > 0) {
+          req.moderatedRoomIds = roomIds;
+          return next();
+        }
+      }
+
+      return res.status(403).json({ message: "You don't have permission to do this" });
+    } catch (error) {
+      return sendSessionError(res, error);
     }
+  };
 
-    req.user = user;
-    next();
-  } catch (error) {
-    return res.status(403).json({ message: 'Invalid or expired token' });
-  }
+// Whether a user let through by requireCapability can act on something in `chatId`
+export const canModerateChat = (req: AuthenticatedRequest, chatId: string | null | undefined): boolean => {
+  return !req.moderatedRoomIds || (!!chatId && req.moderatedRoomIds.includes(chatId));
+};
+
+// Global rooms are open to everyone until they get a member cap; then, like other chats, only to members
+export const canAccessChat = (chat: Pick<ChatWithParticipants, "isGlobalRoom" | "maxMembers" | "participants">, userId: string): boolean => {
+  return (chat.participants || []).includes(userId) || (!!chat.isGlobalRoom && chat.maxMembers === null);
 };
 
 export const authenticateToken = async (req: AuthenticatedRequest, res: Response, next: NextFunction) => {
@@ -72,29 +137,35 @@ export const authenticateToken = async (req: AuthenticatedRequest, res: Response
       return res.status(401).json({ message: 'Access token required' });
     }
 
-    const decoded = jwt.verify(token, JWT_SECRET) as { userId: string };
-    const user = await storage.getUser(decoded.userId);
-
-    if (!user) {
-      return res.status(401).json({ message: 'User not found' });
-    }
-
-    req.user = user;
-    
-    // Update online status
-    await storage.updateUserOnlineStatus(user._id!, true);
-    
+    req.user = await getSessionUser(token);
     next();
   } catch (error) {
-    return res.status(403).json({ message: 'Invalid or expired token' });
+    return sendSessionError(res, error);
   }
 };
 
+// Restricted users keep read access but can't send or edit messages, start
+// chats or join rooms. Runs after authenticateToken.
+export const requireUnrestricted = (req: AuthenticatedRequest, res: Response, next: NextFunction) => {
+  if (req.user && isSanctionActive(req.user.isRestricted, req.user.restrictedUntil)) {
+    return res.status(403).json({
+      message: 'Your account is restricted',
+      reason: req.user.restrictionReason ?? undefined,
+    });
+  }
+  next();
+};
+
 // Generate JWT token
 const generateToken = (userId: string): string => {
   return jwt.sign({ userId }, JWT_SECRET, { expiresIn: JWT_EXPIRES_IN } as jwt.SignOptions);
 };
 
+// Verify a JWT token outside of the Express middleware (e.g. WebSocket upgrades)
+export const verifyToken = (token: string): { userId: string; iat: number } => {
+  return jwt.verify(token, JWT_SECRET) as { userId: string; iat: number };
+};
+
 // Register with email/password
 export const register = async (req: Request, res: Response) => {
   try {
@@ -334,8 +405,12 @@ export const login = async (req: Request, res: Response) => {
       return res.status(401).json({ message: 'Please login with Google' });
     }
 
-    const token = generateToken(user._id!);
-    const userProfile = await storage.getUser(user._id!);
+    if (isSanctionActive(user.isBanned, user.bannedUntil)) {
+      return res.status(403).json({ message: BANNED_MESSAGE, reason: user.banReason ?? undefined });
+    }
+
+    const token = generateToken(user.id);
+    const userProfile = await storage.getUser(user.id);
 
     res.json({
       message: 'Login successful',
@@ -374,11 +449,11 @@ export const googleAuth = async (req: Request, res: Response) => {
     }
 
     // Check if user exists
-    let user = await storage.getUserByEmail(email);
+    let user: UserProfile | undefined = await storage.getUserByEmail(email);
 
     if (!user) {
       // Create new user
-      const userProfile = await storage.createUser({
+      user = await storage.createUser({
         email,
         username: email.split('@')[0] + '_' + Math.random().toString(36).substring(7),
         firstName: given_name,
@@ -388,23 +463,24 @@ export const googleAuth = async (req: Request, res: Response) => {
         provider: 'google',
         isEmailVerified: true,
       });
-      user = { ...userProfile, _id: userProfile._id } as any;
     } else if (user.provider === 'email' && !user.googleId) {
       // Link Google account to existing email account
-      const updatedUser = await storage.updateUser(user._id!, {
+      user = await storage.updateUser(user.id, {
         googleId,
         profileImageUrl: picture || user.profileImageUrl,
       });
-      user = { ...updatedUser, _id: updatedUser?._id } as any;
     }
 
-    if (!user || !user._id) {
+    if (!user) {
       return res.status(500).json({ message: 'Failed to create or retrieve user' });
     }
     
-    const userId = user._id;
-    const jwtToken = generateToken(userId);
+    const userId = user.id;
     const userProfile = await storage.getUser(userId);
+    if (userProfile && isSanctionActive(userProfile.isBanned, userProfile.bannedUntil)) {
+      return res.status(403).json({ message: BANNED_MESSAGE, reason: userProfile.banReason ?? undefined });
+    }
+    const jwtToken = generateToken(userId);
 
     res.json({
       message: 'Google login successful',
@@ -477,17 +553,34 @@ export const forgotPassword = async (req: Request, res: Response) => {
   }
 };
 
+// Let someone know their timed ban or restriction is over
+export const sendSanctionLiftedEmail = async (email: string, sanction: 'ban' | 'restriction') => {
+  if (!process.env.SMTP_HOST) return;
+
+  try {
+    await emailTransporter.sendMail({
+      from: process.env.FROM_EMAIL,
+      to: email,
+      subject: sanction === 'ban' ? 'Your ChatGroove ban has ended' : 'Your ChatGroove restriction has ended',
+      html: `
+        <h1>Welcome back</h1>
+        <p>The ${sanction} on your ChatGroove account has ended, so you can chat and join rooms again.</p>
+        <a href="${process.env.BASE_URL}/auth">Sign in to ChatGroove</a>
+      `,
+    });
+  } catch (emailError) {
+    console.error('Failed to send sanction lifted email:', emailError);
+  }
+};
+
 // Get current user
 export const getMe = async (req: AuthenticatedRequest, res: Response) => {
   res.json({ user: req.user });
 };
 
-// Logout (client-side token removal, but we can track it server-side)
+// Logout (client-side token removal; presence goes offline once the realtime connection closes)
 export const logout = async (req: AuthenticatedRequest, res: Response) => {
   try {
-    if (req.user) {
-      await storage.updateUserOnlineStatus(req.user._id!, false);
-    }
     res.json({ message: 'Logout successful' });
   } catch (error) {
     console.error('Logout error:', error);
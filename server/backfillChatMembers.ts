@@ -0,0 +1,63 @@
+import { db } from "./db";
+import { sql } from "drizzle-orm";
+
+// One-off migration from the legacy chats.participants arrays to chat_members rows.
+// Roles come from the legacy chat_roles table; groups without an owner there are
+// owned by their creator, if they're still in it. Read times carry over from
+// chat_reads. Existing members are left alone and chat_roles is emptied once
+// copied, so it is safe to run more than once.
+export async function backfillChatMembers(): Promise<void> {
+  console.log('Backfilling chat members from participants...');
+
+  try {
+    const { members, roles } = await db.transaction(async (tx) => {
+      const members = await tx.execute(sql`
+        INSERT INTO chat_members (chat_id, user_id, role, last_read_at)
+        SELECT DISTINCT ON (c.id, u.id)
+          c.id,
+          u.id,
+          COALESCE(cr.role, CASE
+            WHEN c.is_group AND NOT c.is_global_room AND c.created_by = u.id
+              AND NOT EXISTS (SELECT 1 FROM chat_roles o WHERE o.chat_id = c.id AND o.role = 'owner') THEN 'owner'
+            ELSE 'member'
+          END),
+          r.read_at
+        FROM chats c
+        CROSS JOIN LATERAL jsonb_array_elements_text(c.participants) AS p(user_id)
+        JOIN users u ON u.id::text = p.user_id
+        LEFT JOIN chat_roles cr ON cr.chat_id = c.id AND cr.user_id = u.id
+        LEFT JOIN chat_reads r ON r.chat_id = c.id AND r.user_id = u.id
+        WHERE jsonb_typeof(c.participants) = 'array'
+        ON CONFLICT (chat_id, user_id) DO NOTHING
+      `);
+
+      // Members an earlier run added before roles were carried over: the creator
+      // may have handed ownership on, and admins were left as plain members
+      await tx.execute(sql`
+        UPDATE chat_members cm
+        SET role = 'member'
+        WHERE cm.role = 'owner'
+          AND EXISTS (SELECT 1 FROM chat_roles o WHERE o.chat_id = cm.chat_id AND o.role = 'owner' AND o.user_id <> cm.user_id)
+      `);
+      const roles = await tx.execute(sql`
+        UPDATE chat_members cm
+        SET role = cr.role
+        FROM chat_roles cr
+        WHERE cr.chat_id = cm.chat_id AND cr.user_id = cm.user_id AND cm.role <> cr.role
+      `);
+      await tx.execute(sql`DELETE FROM chat_roles`);
+
+      return { members, roles };
+    });
+
+    console.log(`✓ Backfilled ${members.rowCount ?? 0} chat members and corrected ${roles.rowCount ?? 0} existing roles`);
+  } catch (error) {
+    console.error('Error backfilling chat members:', error);
+    throw error;
+  }
+}
+
+// Run when executed directly
+if (import.meta.url === `file://${process.argv[1]}`) {
+  backfillChatMembers().then(() => process.exit(0), () => process.exit(1));
+}
@@ -0,0 +1,36 @@
+import { db } from "./db";
+import { sql } from "drizzle-orm";
+
+// One-off migration from the legacy messages.read_by arrays to chat_reads cursors.
+// Each participant's cursor is set to the newest message they had marked read.
+// Existing cursors are left alone, so it is safe to run more than once.
+export async function backfillChatReads(): Promise<void> {
+  console.log('Backfilling chat read cursors from read_by...');
+
+  try {
+    const result = await db.execute(sql`
+      INSERT INTO chat_reads (chat_id, user_id, last_read_message_id, read_at)
+      SELECT DISTINCT ON (m.chat_id, r."userId")
+        m.chat_id,
+        r."userId"::uuid,
+        m.id,
+        COALESCE(r."readAt", now())
+      FROM messages m
+      CROSS JOIN LATERAL jsonb_to_recordset(m.read_by) AS r("userId" text, "readAt" timestamp)
+      JOIN users u ON u.id::text = r."userId"
+      WHERE jsonb_typeof(m.read_by) = 'array'
+      ORDER BY m.chat_id, r."userId", m.created_at DESC, m.id DESC
+      ON CONFLICT (chat_id, user_id) DO NOTHING
+    `);
+
+    console.log(`✓ Backfilled ${result.rowCount ?? 0} chat read cursors`);
+  } catch (error) {
+    console.error('Error backfilling chat read cursors:', error);
+    throw error;
+  }
+}
+
+// Run when executed directly
+if (import.meta.url === `file://${process.argv[1]}`) {
+  backfillChatReads().then(() => process.exit(0), () => process.exit(1));
+}
@@ -0,0 +1,217 @@
+import { storage } from "./storage";
+import { emitToChat, emitToConnection, emitToUsers, isUserConnected, publishDelivered, type Connection } from "./realtime";
+import { isInGroupCall } from "./groupCalls";
+import { isSanctionActive } from "./auth";
+import type { CallEndReason, CallMedia, ClientEvent } from "@shared/schema";
+
+// How long a call rings before it counts as missed
+const RING_TIMEOUT = 45000;
+
+// STUN/TURN servers handed to clients. Calls between restrictive networks need a
+// TURN server, configured as a JSON array of RTCIceServer objects in ICE_SERVERS.
+const DEFAULT_ICE_SERVERS = [{ urls: "stun:stun.l.google.com:19302" }];
+
+const CALL_ID_PATTERN = /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i;
+
+// Shown in the chat for calls that never connected
+const UNANSWERED_CALL_LABELS: Record<CallEndReason, string> = {
+  hangup: "Call ended",
+  declined: "Declined call",
+  cancelled: "Cancelled call",
+  busy: "Busy",
+  unavailable: "Missed call",
+  no_answer: "Missed call",
+  disconnected: "Call failed",
+  answered_elsewhere: "Call ended",
+};
+
+interface Call {
+  id: string;
+  chatId: string;
+  media: CallMedia;
+  callerId: string;
+  calleeId: string;
+  // The devices in the call. The callee rings on every device until one of them answers.
+  caller: Connection;
+  callee?: Connection;
+  answeredAt?: number;
+  ringTimer?: ReturnType<typeof setTimeout>;
+}
+
+// Calls are only ever between two connected devices, so they live in memory
+const calls = new Map<string, Call>();
+// Each user can be in at most one call, ringing or connected
+const callsByUser = new Map<string, Call>();
+
+export function getIceServers(): unknown[] {
+  if (!process.env.ICE_SERVERS) return DEFAULT_ICE_SERVERS;
+
+  try {
+    return JSON.parse(process.env.ICE_SERVERS);
+  } catch (error) {
+    console.error("Invalid ICE_SERVERS, falling back to the default STUN server:", error);
+    return DEFAULT_ICE_SERVERS;
+  }
+}
+
+export function isInCall(userId: string): boolean {
+  return callsByUser.has(userId);
+}
+
+type CallEvent = Extract<ClientEvent, { type: `call.${string}` }>;
+
+export async function handleCallEvent(connection: Connection, event: CallEvent) {
+  if (event.type === "call.start") {
+    await startCall(connection, event.callId, event.chatId, event.media);
+    return;
+  }
+
+  const call = calls.get(event.callId);
+  if (!call) return;
+
+  switch (event.type) {
+    case "call.accept":
+      acceptCall(call, connection);
+      break;
+    case "call.decline":
+      if (connection.userId === call.calleeId && !call.callee) {
+        await endCall(call, "declined");
+      }
+      break;
+    case "call.end":
+      if (connection === call.caller) {
+        await endCall(call, call.answeredAt ? "hangup" : "cancelled");
+      } else if (connection === call.callee) {
+        await endCall(call, "hangup");
+      } else if (connection.userId === call.calleeId && !call.callee) {
+        await endCall(call, "declined");
+      }
+      break;
+    case "call.signal": {
+      // Only the two devices in a connected call can talk to each other
+      if (!call.callee) return;
+      const peer = connection === call.caller ? call.callee : connection === call.callee ? call.caller : undefined;
+      if (peer) {
+        emitToConnection(peer, { type: "call.signal", callId: call.id, signal: event.signal });
+      }
+      break;
+    }
+  }
+}
+
+// A device dropping out of a call ends it
+export function connectionClosed(connection: Connection) {
+  const call = callsByUser.get(connection.userId);
+  if (call && (call.caller === connection || call.callee === connection)) {
+    endCall(call, "disconnected").catch((error) => {
+      console.error("Error ending call:", error);
+    });
+  }
+}
+
+async function startCall(connection: Connection, callId: string, chatId: string, media: CallMedia) {
+  const callerId = connection.userId;
+  if (!CALL_ID_PATTERN.test(callId) || calls.has(callId) || (media !== "audio" && media !== "video")) return;
+
+  // Calls are one-to-one, so only direct chats can have them
+  const chat = await storage.getChatById(chatId);
+  const participants = chat?.participants || [];
+  if (!chat || chat.isGroup || chat.isGlobalRoom || !participants.includes(callerId)) {
+    emitToConnection(connection, { type: "call.ended", callId, reason: "unavailable", duration: null });
+    return;
+  }
+
+  const calleeId = participants.find((id) => id !== callerId);
+  const caller = await storage.getUser(callerId);
+  if (!calleeId || !caller) return;
+
+  // Restricted users can't place calls, as they can't post
+  if (isSanctionActive(caller.isRestricted, caller.restrictedUntil)) {
+    emitToConnection(connection, { type: "call.ended", callId, reason: "unavailable", duration: null });
+    return;
+  }
+
+  if (callsByUser.has(callerId) || isInGroupCall(callerId)) {
+    emitToConnection(connection, { type: "call.ended", callId, reason: "cancelled", duration: null });
+    return;
+  }
+
+  const call: Call = { id: callId, chatId, media, callerId, calleeId, caller: connection };
+
+  const isCalleeBusy = callsByUser.has(calleeId) || isInGroupCall(calleeId);
+  if (isCalleeBusy || !isUserConnected(calleeId)) {
+    const reason = isCalleeBusy ? "busy" : "unavailable";
+    emitToConnection(connection, { type: "call.ended", callId, reason, duration: null });
+    await postCallMessage(call, null, reason);
+    return;
+  }
+
+  calls.set(callId, call);
+  callsByUser.set(callerId, call);
+  callsByUser.set(calleeId, call);
+  call.ringTimer = setTimeout(() => {
+    endCall(call, "no_answer").catch((error) => {
+      console.error("Error ending call:", error);
+    });
+  }, RING_TIMEOUT);
+
+  emitToUsers([calleeId], {
+    type: "call.incoming",
+    callId,
+    chatId,
+    media,
+    caller: { id: callerId, displayName: connection.displayName, profileImageUrl: caller.profileImageUrl },
+  });
+  emitToConnection(connection, { type: "call.ringing", callId });
+}
+
+function acceptCall(call: Call, connection: Connection) {
+  if (connection.userId !== call.calleeId || call.callee) return;
+
+  clearTimeout(call.ringTimer);
+  call.callee = connection;
+  call.answeredAt = Date.now();
+
+  emitToConnection(call.caller, { type: "call.accepted", callId: call.id });
+  // Stop the other devices ringing
+  emitToUsers([call.calleeId], { type: "call.ended", callId: call.id, reason: "answered_elsewhere", duration: null }, connection);
+}
+
+async function endCall(call: Call, reason: CallEndReason) {
+  // Several end events can race, e.g. both sides hanging up at once
+  if (calls.get(call.id) !== call) return;
+
+  clearTimeout(call.ringTimer);
+  calls.delete(call.id);
+  callsByUser.delete(call.callerId);
+  callsByUser.delete(call.calleeId);
+
+  const duration = call.answeredAt ? Math.round((Date.now() - call.answeredAt) / 1000) : null;
+  emitToUsers([call.callerId, call.calleeId], { type: "call.ended", callId: call.id, reason, duration });
+
+  await postCallMessage(call, duration, reason);
+}
+
+// Record the call in the chat history, from the caller
+async function postCallMessage(call: Call, duration: number | null, reason: CallEndReason) {
+  const chat = await storage.getChatById(call.chatId);
+  if (!chat) return;
+
+  const message = await storage.createMessage({
+    chatId: call.chatId,
+    senderId: call.callerId,
+    messageType: call.media === "video" ? "video_call" : "audio_call",
+    content: duration === null ? UNANSWERED_CALL_LABELS[reason] : null,
+    duration,
+  });
+
+  const messageWithSender = await storage.getMessageWithSender(message.id);
+  if (messageWithSender) {
+    emitToChat(chat, { type: "message.created", chatId: chat.id, message: messageWithSender });
+  }
+  emitToChat(chat, { type: "chat.updated", chatId: chat.id });
+
+  if (isUserConnected(call.calleeId)) {
+    await publishDelivered(call.calleeId, chat.id);
+  }
+}
@@ -0,0 +1,75 @@
+import fs from "fs/promises";
+import path from "path";
+import { S3Client, PutObjectCommand, DeleteObjectCommand } from "@aws-sdk/client-s3";
+
+// Where uploaded files end up. Keys are generated by us and safe to use as paths.
+export interface FileStorage {
+  save(key: string, data: Buffer, mimeType: string): Promise<string>;
+  delete(key: string): Promise<void>;
+}
+
+export const LOCAL_UPLOAD_DIR = path.resolve(process.env.UPLOAD_DIR || "uploads");
+export const LOCAL_UPLOAD_ROUTE = "/uploads";
+
+// Stores files on local disk and serves them from LOCAL_UPLOAD_ROUTE
+export class LocalFileStorage implements FileStorage {
+  constructor(private readonly directory: string = LOCAL_UPLOAD_DIR) {}
+
+  async save(key: string, data: Buffer): Promise<string> {
+    const filePath = path.join(this.directory, key);
+    await fs.mkdir(path.dirname(filePath), { recursive: true });
+    await fs.writeFile(filePath, data);
+    return `${LOCAL_UPLOAD_ROUTE}/${key}`;
+  }
+
+  async delete(key: string): Promise<void> {
+    await fs.rm(path.join(this.directory, key), { force: true });
+  }
+}
+
+// Stores files in an S3-compatible bucket (AWS S3, Cloudflare R2, MinIO, ...)
+export class S3FileStorage implements FileStorage {
+  private readonly client: S3Client;
+
+  constructor(
+    private readonly bucket: string,
+    private readonly publicUrl: string,
+  ) {
+    this.client = new S3Client({
+      region: process.env.S3_REGION || "auto",
+      endpoint: process.env.S3_ENDPOINT,
+      forcePathStyle: !!process.env.S3_ENDPOINT,
+    });
+  }
+
+  async save(key: string, data: Buffer, mimeType: string): Promise<string> {
+    await this.client.send(new PutObjectCommand({
+      Bucket: this.bucket,
+      Key: key,
+      Body: data,
+      ContentType: mimeType,
+      // Buckets are often on a domain users trust, so files download rather than open there
+      ContentDisposition: "attachment",
+    }));
+    return `${this.publicUrl.replace(/\/$/, "")}/${key}`;
+  }
+
+  async delete(key: string): Promise<void> {
+    await this.client.send(new DeleteObjectCommand({ Bucket: this.bucket, Key: key }));
+  }
+}
+
+function createFileStorage(): FileStorage {
+  if (process.env.FILE_STORAGE === "s3") {
+    const bucket = process.env.S3_BUCKET;
+    const publicUrl = process.env.S3_PUBLIC_URL;
+    if (!bucket || !publicUrl) {
+      throw new Error("S3_BUCKET and S3_PUBLIC_URL must be set when FILE_STORAGE=s3");
+    }
+    return new S3FileStorage(bucket, publicUrl);
+  }
+
+  return new LocalFileStorage();
+}
+
+export const fileStorage = createFileStorage();
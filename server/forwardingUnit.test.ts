@@ -0,0 +1,48 @@
+import { test } from "node:test";
+import assert from "node:assert/strict";
+import type { CallSignal } from "@shared/schema";
+import { MeshForwardingUnit, type ForwardingUnit, type SignalSender } from "./forwardingUnit";
+
+type SentSignal = { callId: string; participantId: string; fromPeerId: string; signal: CallSignal };
+
+// A mesh unit that records what it relays instead of sending it anywhere
+function createMesh(maxParticipants?: number): { unit: ForwardingUnit; sent: SentSignal[] } {
+  const sent: SentSignal[] = [];
+  const sendSignal: SignalSender = (callId, participantId, fromPeerId, signal) => {
+    sent.push({ callId, participantId, fromPeerId, signal });
+  };
+  return { unit: new MeshForwardingUnit(sendSignal, maxParticipants), sent };
+}
+
+const offer: CallSignal = { type: "offer", sdp: "v=0" };
+
+test("a joining participant is handed everyone else in the call as peers", async () => {
+  const { unit } = createMesh();
+
+  assert.deepEqual(await unit.join("call-1", "alice", ["alice"]), []);
+  assert.deepEqual(await unit.join("call-1", "carol", ["alice", "bob", "carol"]), ["alice", "bob"]);
+});
+
+test("signals are relayed to the addressed peer as coming from their sender", async () => {
+  const { unit, sent } = createMesh();
+  await unit.join("call-1", "alice", ["alice"]);
+  await unit.join("call-1", "bob", ["alice", "bob"]);
+
+  await unit.signal("call-1", "bob", "alice", offer);
+
+  assert.deepEqual(sent, [{ callId: "call-1", participantId: "alice", fromPeerId: "bob", signal: offer }]);
+});
+
+test("leaving relays nothing, since peers hang up their own connections", async () => {
+  const { unit, sent } = createMesh();
+  await unit.join("call-1", "alice", ["alice"]);
+
+  await unit.leave("call-1", "alice");
+
+  assert.deepEqual(sent, []);
+});
+
+test("calls are kept small unless configured otherwise", () => {
+  assert.equal(createMesh().unit.maxParticipants, 8);
+  assert.equal(createMesh(4).unit.maxParticipants, 4);
+});
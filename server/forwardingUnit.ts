@@ -0,0 +1,45 @@
+import type { CallSignal } from "@shared/schema";
+
+// Delivers a signal to one participant of a group call, as if it came from `fromPeerId`
+export type SignalSender = (callId: string, participantId: string, fromPeerId: string, signal: CallSignal) => void;
+
+// Where group call media flows. Clients only ever negotiate WebRTC connections
+// with the peers this hands out and exchange signals through it, so the
+// routing topology can change without touching the call protocol.
+//
+// A media server (mediasoup, LiveKit, ...) implements this by returning itself as
+// every participant's only peer: each client publishes one upstream and receives
+// the other participants' tracks back over the same connection.
+export interface ForwardingUnit {
+  // The most participants one call can hold with this topology
+  readonly maxParticipants: number;
+  // Peers a newly joined participant should connect to
+  join(callId: string, participantId: string, participantIds: string[]): Promise<string[]>;
+  leave(callId: string, participantId: string): Promise<void>;
+  // A signal from a participant, addressed to one of their peers
+  signal(callId: string, fromParticipantId: string, toPeerId: string, signal: CallSignal): Promise<void>;
+}
+
+// Stand-in used when no media server is configured. Every participant connects
+// directly to every other one and the server only relays their signals, so
+// upload bandwidth grows with each participant and calls are kept small.
+export class MeshForwardingUnit implements ForwardingUnit {
+  readonly maxParticipants: number;
+
+  constructor(
+    private readonly sendSignal: SignalSender,
+    maxParticipants = 8,
+  ) {
+    this.maxParticipants = maxParticipants;
+  }
+
+  async join(_callId: string, participantId: string, participantIds: string[]): Promise<string[]> {
+    return participantIds.filter((id) => id !== participantId);
+  }
+
+  async leave(): Promise<void> {}
+
+  async signal(callId: string, fromParticipantId: string, toPeerId: string, signal: CallSignal): Promise<void> {
+    this.sendSignal(callId, toPeerId, fromParticipantId, signal);
+  }
+}
@@ -0,0 +1,227 @@
+import crypto from "crypto";
+import { storage } from "./storage";
+import { emitToChat, emitToConnection, isUserConnected, publishDelivered, type Connection } from "./realtime";
+import { isInCall } from "./calls";
+import { canAccessChat, isSanctionActive } from "./auth";
+import { MeshForwardingUnit, type ForwardingUnit } from "./forwardingUnit";
+import type { CallMedia, CallSignal, ClientEvent, GroupCallSummary } from "@shared/schema";
+
+interface Participant {
+  connection: Connection;
+  displayName: string;
+  profileImageUrl: string | null;
+  isMuted: boolean;
+  isCameraOff: boolean;
+  joinedAt: Date;
+}
+
+interface GroupCall {
+  id: string;
+  chatId: string;
+  media: CallMedia;
+  startedBy: string;
+  startedAt: Date;
+  // Keyed by user id; a user takes part from one device at a time
+  participants: Map<string, Participant>;
+}
+
+// Ongoing calls by chat id; a chat has at most one
+const groupCalls = new Map<string, GroupCall>();
+const groupCallsById = new Map<string, GroupCall>();
+
+let forwardingUnit: ForwardingUnit = new MeshForwardingUnit(sendSignal);
+
+// Swap the media topology, e.g. for a media server or a stand-in
+export function setForwardingUnit(unit: ForwardingUnit) {
+  forwardingUnit = unit;
+}
+
+function sendSignal(callId: string, participantId: string, fromPeerId: string, signal: CallSignal) {
+  const participant = groupCallsById.get(callId)?.participants.get(participantId);
+  if (participant) {
+    emitToConnection(participant.connection, { type: "groupCall.signal", callId, peerId: fromPeerId, signal });
+  }
+}
+
+export function getGroupCall(chatId: string): GroupCallSummary | null {
+  const call = groupCalls.get(chatId);
+  return call ? summarize(call) : null;
+}
+
+export function isInGroupCall(userId: string): boolean {
+  return Array.from(groupCalls.values()).some((call) => call.participants.has(userId));
+}
+
+type GroupCallEvent = Extract<ClientEvent, { type: `groupCall.${string}` }>;
+
+export async function handleGroupCallEvent(connection: Connection, event: GroupCallEvent) {
+  if (event.type === "groupCall.join") {
+    await joinCall(connection, event.chatId, event.media);
+    return;
+  }
+
+  const call = groupCallsById.get(event.callId);
+  const participant = call?.participants.get(connection.userId);
+  // Events from a device that isn't the one in the call are ignored
+  if (!call || participant?.connection !== connection) return;
+
+  switch (event.type) {
+    case "groupCall.leave":
+      await leaveCall(call, connection.userId);
+      emitToConnection(connection, { type: "groupCall.left", callId: call.id, reason: "left" });
+      break;
+    case "groupCall.state":
+      participant.isMuted = !!event.isMuted;
+      participant.isCameraOff = !!event.isCameraOff;
+      publishCall(call);
+      break;
+    case "groupCall.signal":
+      await forwardingUnit.signal(call.id, connection.userId, event.peerId, event.signal);
+      break;
+  }
+}
+
+// A device dropping out leaves whatever call it was in
+export function groupCallConnectionClosed(connection: Connection) {
+  groupCalls.forEach((call) => {
+    if (call.participants.get(connection.userId)?.connection === connection) {
+      leaveCall(call, connection.userId).catch((error) => {
+        console.error("Error leaving group call:", error);
+      });
+    }
+  });
+}
+
+async function joinCall(connection: Connection, chatId: string, media: CallMedia) {
+  const userId = connection.userId;
+  const rejectJoin = (reason: "full" | "unavailable") => {
+    emitToConnection(connection, { type: "groupCall.left", callId: null, reason });
+  };
+
+  // Global rooms are open to everyone, like their messages, unless they're capped
+  const chat = await storage.getChatById(chatId);
+  const canJoin = chat && (chat.isGlobalRoom || chat.isGroup) && canAccessChat(chat, userId);
+  const user = await storage.getUser(userId);
+  // Restricted users can't start or join calls, as they can't post
+  const isRestricted = !!user && isSanctionActive(user.isRestricted, user.restrictedUntil);
+  if (!chat || !canJoin || !user || isRestricted || isInCall(userId) || (media !== "audio" && media !== "video")) {
+    rejectJoin("unavailable");
+    return;
+  }
+
+  // Leave any other group call first, including this one from another device
+  for (const other of Array.from(groupCalls.values())) {
+    const existing = other.participants.get(userId);
+    if (existing) {
+      await leaveCall(other, userId);
+      emitToConnection(existing.connection, { type: "groupCall.left", callId: other.id, reason: "joined_elsewhere" });
+    }
+  }
+
+  let call = groupCalls.get(chatId);
+  if (call && call.participants.size >= forwardingUnit.maxParticipants) {
+    rejectJoin("full");
+    return;
+  }
+
+  if (!call) {
+    call = {
+      id: crypto.randomUUID(),
+      chatId,
+      media,
+      startedBy: userId,
+      startedAt: new Date(),
+      participants: new Map(),
+    };
+    groupCalls.set(chatId, call);
+    groupCallsById.set(call.id, call);
+  }
+
+  call.participants.set(userId, {
+    connection,
+    displayName: connection.displayName,
+    profileImageUrl: user.profileImageUrl,
+    isMuted: false,
+    isCameraOff: call.media === "audio",
+    joinedAt: new Date(),
+  });
+
+  // The newcomer makes offers to the peers it is given; existing participants answer
+  const peers = await forwardingUnit.join(call.id, userId, Array.from(call.participants.keys()));
+  emitToConnection(connection, { type: "groupCall.joined", callId: call.id, chatId, peers });
+  publishCall(call);
+}
+
+async function leaveCall(call: GroupCall, userId: string) {
+  if (!call.participants.delete(userId)) return;
+
+  await forwardingUnit.leave(call.id, userId);
+  call.participants.forEach((participant) => {
+    emitToConnection(participant.connection, { type: "groupCall.peerLeft", callId: call.id, peerId: userId });
+  });
+
+  if (call.participants.size > 0) {
+    publishCall(call);
+    return;
+  }
+
+  // The last one out ends the call
+  groupCalls.delete(call.chatId);
+  groupCallsById.delete(call.id);
+  publishCall(call);
+  await postGroupCallMessage(call);
+}
+
+function summarize(call: GroupCall): GroupCallSummary {
+  return {
+    callId: call.id,
+    chatId: call.chatId,
+    media: call.media,
+    startedAt: call.startedAt,
+    maxParticipants: forwardingUnit.maxParticipants,
+    participants: Array.from(call.participants.entries()).map(([id, participant]) => ({
+      id,
+      displayName: participant.displayName,
+      profileImageUrl: participant.profileImageUrl,
+      isMuted: participant.isMuted,
+      isCameraOff: participant.isCameraOff,
+      joinedAt: participant.joinedAt,
+    })),
+  };
+}
+
+// Let everyone who can see the chat know who is in the call, so they can join
+function publishCall(call: GroupCall) {
+  storage.getChatById(call.chatId).then((chat) => {
+    if (!chat) return;
+    const isOngoing = groupCalls.get(call.chatId) === call;
+    emitToChat(chat, { type: "groupCall.updated", chatId: call.chatId, call: isOngoing ? summarize(call) : null });
+  }).catch((error) => {
+    console.error("Error publishing group call:", error);
+  });
+}
+
+async function postGroupCallMessage(call: GroupCall) {
+  const chat = await storage.getChatById(call.chatId);
+  if (!chat) return;
+
+  const message = await storage.createMessage({
+    chatId: call.chatId,
+    senderId: call.startedBy,
+    messageType: call.media === "video" ? "video_call" : "audio_call",
+    content: "Group call",
+    duration: Math.round((Date.now() - call.startedAt.getTime()) / 1000),
+  });
+
+  const messageWithSender = await storage.getMessageWithSender(message.id);
+  if (messageWithSender) {
+    emitToChat(chat, { type: "message.created", chatId: chat.id, message: messageWithSender });
+  }
+  emitToChat(chat, { type: "chat.updated", chatId: chat.id });
+
+  if (!chat.isGlobalRoom) {
+    await Promise.all((chat.participants || [])
+      .filter((id) => id !== call.startedBy && isUserConnected(id))
+      .map((id) => publishDelivered(id, chat.id)));
+  }
+}
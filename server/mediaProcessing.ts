@@ -0,0 +1,229 @@
+import { spawn } from "child_process";
+import fs from "fs/promises";
+import os from "os";
+import path from "path";
+import sharp from "sharp";
+import { encode } from "blurhash";
+import { storage } from "./storage";
+import { fileStorage } from "./fileStorage";
+import { emitToChat } from "./realtime";
+import type { Attachment } from "@shared/schema";
+
+// Thumbnails fit inside this many pixels on their longest side
+const THUMBNAIL_SIZE = 480;
+// Blurhash is computed from a tiny copy of the image; more components means more detail
+const BLURHASH_SAMPLE_SIZE = 32;
+const BLURHASH_COMPONENTS = { x: 4, y: 3 };
+
+const FFMPEG_PATH = process.env.FFMPEG_PATH || "ffmpeg";
+const FFPROBE_PATH = process.env.FFPROBE_PATH || "ffprobe";
+
+type MediaMetadata = Pick<Attachment, "width" | "height" | "duration" | "thumbnailStorageKey" | "thumbnailUrl" | "blurhash">;
+
+type ProcessingJob = { attachment: Attachment; data: Buffer };
+
+// Jobs run one at a time so a burst of uploads can't starve the server of CPU.
+// Each waiting job holds its whole file in memory, so only so many can wait.
+const MAX_QUEUED_JOBS = parseInt(process.env.MAX_QUEUED_MEDIA_JOBS || "20", 10);
+const queue: ProcessingJob[] = [];
+let isProcessing = false;
+
+// Whether an upload of this type gets processed at all; other files are ready as-is
+export function needsProcessing(mimeType: string): boolean {
+  return mimeType.startsWith("image/") || mimeType.startsWith("video/") || mimeType.startsWith("audio/");
+}
+
+// Remove EXIF (including GPS location) and other metadata from a photo before it is
+// stored. Orientation is baked into the pixels first so the photo still displays upright.
+export async function stripImageMetadata(data: Buffer, mimeType: string): Promise<Buffer> {
+  // GIFs don't carry EXIF, and re-encoding them can be slow and lossy
+  if (mimeType === "image/gif") return data;
+
+  const image = sharp(data, { animated: true });
+  const { pages = 1 } = await image.metadata();
+
+  // sharp writes no metadata unless asked to; keep only the colour profile
+  return (pages > 1 ? image : image.rotate()).keepIccProfile().toBuffer();
+}
+
+// The message columns that mirror an attachment's processed metadata
+export function getMediaFields(attachment: Attachment) {
+  return {
+    width: attachment.width,
+    height: attachment.height,
+    duration: attachment.duration,
+    thumbnailUrl: attachment.thumbnailUrl,
+    blurhash: attachment.blurhash,
+    waveform: attachment.waveform,
+  };
+}
+
+// Uploads that need processing are turned away while this is true
+export function isMediaQueueFull(): boolean {
+  return queue.length >= MAX_QUEUED_JOBS;
+}
+
+// Queue an upload for thumbnailing and metadata extraction
+export function enqueueMediaProcessing(attachment: Attachment, data: Buffer) {
+  queue.push({ attachment, data });
+  if (!isProcessing) {
+    drainQueue();
+  }
+}
+
+async function drainQueue() {
+  isProcessing = true;
+  while (queue.length > 0) {
+    const job = queue.shift()!;
+    try {
+      await processAttachment(job);
+    } catch (error) {
+      console.error("Error processing media:", error);
+      await storage.updateAttachment(job.attachment.id, { processingStatus: "failed" }).catch(() => undefined);
+    }
+  }
+  isProcessing = false;
+}
+
+async function processAttachment({ attachment, data }: ProcessingJob) {
+  let metadata: MediaMetadata;
+  if (attachment.mimeType.startsWith("image/")) {
+    metadata = await processImage(attachment, data);
+  } else if (attachment.mimeType.startsWith("video/")) {
+    metadata = await processVideo(attachment, data);
+  } else {
+    metadata = await processAudio(attachment, data);
+  }
+
+  const processed = await storage.updateAttachment(attachment.id, { ...metadata, processingStatus: "ready" });
+
+  // If it was sent before we finished, bring the message up to date
+  if (processed?.messageId) {
+    await updateMessageMedia(processed.messageId, processed);
+  }
+}
+
+async function updateMessageMedia(messageId: string, attachment: Attachment) {
+  const message = await storage.updateMessage(messageId, getMediaFields(attachment));
+  if (!message) return;
+
+  const [chat, messageWithSender] = await Promise.all([
+    storage.getChatById(message.chatId),
+    storage.getMessageWithSender(messageId),
+  ]);
+  if (chat && messageWithSender) {
+    emitToChat(chat, { type: "message.updated", chatId: chat.id, message: messageWithSender });
+  }
+}
+
+async function processImage(attachment: Attachment, data: Buffer): Promise<MediaMetadata> {
+  const { width, height } = await sharp(data).metadata();
+  const preview = await createPreview(attachment, data);
+  return { width: width ?? null, height: height ?? null, duration: null, ...preview };
+}
+
+async function processVideo(attachment: Attachment, data: Buffer): Promise<MediaMetadata> {
+  return withTempFile(data, async (filePath) => {
+    const probe = await probeMedia(filePath);
+    const frame = await run(FFMPEG_PATH, [
+      "-v", "error",
+      "-ss", probe.duration && probe.duration > 1 ? "1" : "0",
+      "-i", filePath,
+      "-frames:v", "1",
+      "-f", "image2pipe",
+      "-vcodec", "png",
+      "pipe:1",
+    ]);
+    const preview = await createPreview(attachment, frame);
+    return { width: probe.width, height: probe.height, duration: probe.duration, ...preview };
+  });
+}
+
+async function processAudio(attachment: Attachment, data: Buffer): Promise<MediaMetadata> {
+  return withTempFile(data, async (filePath) => {
+    // Browser recordings often have no duration in their headers, so fall back to what the recorder measured
+    const { duration } = await probeMedia(filePath);
+    return {
+      width: null,
+      height: null,
+      duration: duration ?? attachment.duration,
+      thumbnailStorageKey: null,
+      thumbnailUrl: null,
+      blurhash: null,
+    };
+  });
+}
+
+// Make a resized thumbnail and a blurhash placeholder from an image or video frame
+async function createPreview(attachment: Attachment, source: Buffer) {
+  const thumbnail = await sharp(source)
+    .resize(THUMBNAIL_SIZE, THUMBNAIL_SIZE, { fit: "inside", withoutEnlargement: true })
+    .webp({ quality: 80 })
+    .toBuffer();
+
+  const thumbnailStorageKey = attachment.storageKey.replace(/(\.[a-z0-9]+)?$/, "_thumb.webp");
+  const thumbnailUrl = await fileStorage.save(thumbnailStorageKey, thumbnail, "image/webp");
+
+  const { data: pixels, info } = await sharp(source)
+    .resize(BLURHASH_SAMPLE_SIZE, BLURHASH_SAMPLE_SIZE, { fit: "inside" })
+    .ensureAlpha()
+    .raw()
+    .toBuffer({ resolveWithObject: true });
+  const blurhash = encode(new Uint8ClampedArray(pixels), info.width, info.height, BLURHASH_COMPONENTS.x, BLURHASH_COMPONENTS.y);
+
+  return { thumbnailStorageKey, thumbnailUrl, blurhash };
+}
+
+// ffmpeg can't reliably read every container from a pipe, so give it a real file
+async function withTempFile<T>(data: Buffer, callback: (filePath: string) => Promise<T>): Promise<T> {
+  const directory = await fs.mkdtemp(path.join(os.tmpdir(), "chatgroove-media-"));
+  try {
+    const filePath = path.join(directory, "input");
+    await fs.writeFile(filePath, data);
+    return await callback(filePath);
+  } finally {
+    await fs.rm(directory, { recursive: true, force: true });
+  }
+}
+
+async function probeMedia(filePath: string) {
+  const output = await run(FFPROBE_PATH, [
+    "-v", "error",
+    "-print_format", "json",
+    "-show_format",
+    "-show_streams",
+    filePath,
+  ]);
+  const probe = JSON.parse(output.toString());
+  const videoStream = probe.streams?.find((stream: { codec_type?: string }) => stream.codec_type === "video");
+  const duration = parseFloat(probe.format?.duration);
+
+  // Phone videos are often stored sideways with a rotation flag
+  const rotation = Math.abs(parseInt(videoStream?.tags?.rotate ?? videoStream?.side_data_list?.[0]?.rotation ?? "0", 10));
+  const isSideways = rotation === 90 || rotation === 270;
+
+  return {
+    width: (isSideways ? videoStream?.height : videoStream?.width) ?? null,
+    height: (isSideways ? videoStream?.width : videoStream?.height) ?? null,
+    duration: Number.isFinite(duration) ? Math.round(duration) : null,
+  } as { width: number | null; height: number | null; duration: number | null };
+}
+
+function run(command: string, args: string[]): Promise<Buffer> {
+  return new Promise((resolve, reject) => {
+    const child = spawn(command, args, { stdio: ["ignore", "pipe", "pipe"] });
+    const stdout: Buffer[] = [];
+    const stderr: Buffer[] = [];
+
+    child.stdout.on("data", (chunk) => stdout.push(chunk));
+    child.stderr.on("data", (chunk) => stderr.push(chunk));
+    child.on("error", reject);
+    child.on("close", (code) => {
+      if (code === 0) {
+        resolve(Buffer.concat(stdout));
+      } else {
+        reject(new Error(`${command} exited with code ${code}: ${Buffer.concat(stderr).toString().trim()}`));
+      }
+    });
+  });
+}
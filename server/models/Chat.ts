@@ -1,7 +1,7 @@
 import mongoose, { Schema, Document } from 'mongoose';
 import { Chat } from '@shared/schema';
 
-interface ChatDocument extends Omit<Chat, '_id'>, Document {}
+interface ChatDocument extends Omit<Chat, '_id' | 'id'>, Document {}
 
 const ChatSchema = new Schema<ChatDocument>({
   name: {
@@ -40,7 +40,7 @@ const ChatSchema = new Schema<ChatDocument>({
     required: true,
     ref: 'User',
   },
-  participants: [{
+  legacyParticipants: [{
     type: String,
     ref: 'User',
   }],
@@ -51,6 +51,6 @@ const ChatSchema = new Schema<ChatDocument>({
 // Index for search functionality
 ChatSchema.index({ name: 'text', description: 'text', category: 'text' });
 ChatSchema.index({ isGlobalRoom: 1, isPublic: 1 });
-ChatSchema.index({ participants: 1 });
+ChatSchema.index({ legacyParticipants: 1 });
 
 export default mongoose.models.Chat || mongoose.model<ChatDocument>('Chat', ChatSchema);
\ No newline at end of file
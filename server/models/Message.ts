@@ -1,7 +1,7 @@
 import mongoose, { Schema, Document } from 'mongoose';
 import { Message } from '@shared/schema';
 
-interface MessageDocument extends Omit<Message, '_id'>, Document {}
+interface MessageDocument extends Omit<Message, '_id' | 'id'>, Document {}
 
 const MessageSchema = new Schema<MessageDocument>({
   chatId: {
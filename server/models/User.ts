@@ -2,7 +2,7 @@ import mongoose, { Schema, Document } from 'mongoose';
 import bcrypt from 'bcryptjs';
 import { User } from '@shared/schema';
 
-interface UserDocument extends Omit<User, '_id'>, Document {}
+interface UserDocument extends Omit<User, '_id' | 'id'>, Document {}
 
 const UserSchema = new Schema<UserDocument>({
   email: {
@@ -0,0 +1,56 @@
+import type { AuthenticatedRequest } from "./auth";
+import { storage } from "./storage";
+import {
+  moderationReasonSchema,
+  type InsertModerationAction,
+  type ModerationActionWithActor,
+  type UserProfile,
+} from "@shared/schema";
+
+// Records an admin's action in the moderation audit log
+export async function logModerationAction(req: AuthenticatedRequest, entry: Omit<InsertModerationAction, "actorId">) {
+  await storage.recordModerationAction({ ...entry, actorId: req.user!.id });
+}
+
+// The optional note an admin sent along with an action, ignored when malformed
+export function getModerationReason(req: AuthenticatedRequest): string | undefined {
+  return moderationReasonSchema.safeParse(req.body ?? {}).data?.reason || undefined;
+}
+
+// The parts of a user's record that moderation changes
+export function getModerationState(user: UserProfile) {
+  return {
+    role: user.role,
+    isBanned: user.isBanned,
+    banReason: user.banReason,
+    bannedUntil: user.bannedUntil,
+    isRestricted: user.isRestricted,
+    restrictionReason: user.restrictionReason,
+    restrictedUntil: user.restrictedUntil,
+  };
+}
+
+const CSV_COLUMNS = ["createdAt", "actor", "action", "targetType", "targetId", "reason", "before", "after"] as const;
+
+function toCsvField(value: unknown): string {
+  if (value === null || value === undefined) return "";
+  let text = value instanceof Date ? value.toISOString() : typeof value === "object" ? JSON.stringify(value) : String(value);
+  // Keep spreadsheets from running reasons typed by admins as formulas
+  if (/^[=+\-@]/.test(text)) text = `'${text}`;
+  return /[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+}
+
+export function moderationActionsToCsv(actions: ModerationActionWithActor[]): string {
+  const rows = actions.map((action) => [
+    action.createdAt,
+    action.actor?.username ?? (action.actorId ? action.actorId : "system"),
+    action.action,
+    action.targetType,
+    action.targetId,
+    action.reason,
+    action.before,
+    action.after,
+  ].map(toCsvField).join(","));
+
+  return [CSV_COLUMNS.join(","), ...rows].join("\r\n");
+}
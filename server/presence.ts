@@ -0,0 +1,74 @@
+import { storage } from "./storage";
+import { emitToUsers, isUserConnected } from "./realtime";
+
+// How long a user keeps showing as online after their last connection drops,
+// so page reloads and short network blips don't make their status flap
+const OFFLINE_GRACE_PERIOD = 30000;
+
+// Users whose last connection dropped and who will be marked offline unless they reconnect
+const offlineTimers = new Map<string, ReturnType<typeof setTimeout>>();
+
+// Nobody is connected right after a restart, so clear any stale online flags
+export async function resetPresence() {
+  try {
+    await storage.resetOnlineStatus();
+  } catch (error) {
+    console.error("Error resetting online status:", error);
+  }
+}
+
+// Called when a user opens their first realtime connection
+export async function userConnected(userId: string) {
+  const pendingOffline = offlineTimers.get(userId);
+  if (pendingOffline) {
+    // They came back within the grace period and never appeared offline
+    clearTimeout(pendingOffline);
+    offlineTimers.delete(userId);
+    return;
+  }
+
+  await publishPresence(userId, true);
+}
+
+// Called when a user's last realtime connection closes
+export function userDisconnected(userId: string) {
+  if (offlineTimers.has(userId)) return;
+
+  const timer = setTimeout(() => {
+    offlineTimers.delete(userId);
+    publishPresence(userId, false).catch((error) => {
+      console.error("Error updating presence:", error);
+    });
+  }, OFFLINE_GRACE_PERIOD);
+  offlineTimers.set(userId, timer);
+}
+
+export async function setInvisible(userId: string, isInvisible: boolean) {
+  const user = await storage.updateUser(userId, { isInvisible });
+  if (!user || !isUserConnected(userId)) return user;
+
+  if (isInvisible) {
+    // Going invisible looks exactly like going offline to everyone else
+    await storage.updateUserOnlineStatus(userId, false);
+    await broadcastPresence(userId, false);
+  } else {
+    await publishPresence(userId, true);
+  }
+
+  return storage.getUser(userId);
+}
+
+async function publishPresence(userId: string, isOnline: boolean) {
+  const user = await storage.getUser(userId);
+
+  // Invisible users stay offline with lastSeen frozen at the moment they hid
+  if (!user || user.isInvisible) return;
+
+  await storage.updateUserOnlineStatus(userId, isOnline);
+  await broadcastPresence(userId, isOnline);
+}
+
+async function broadcastPresence(userId: string, isOnline: boolean) {
+  const contactIds = await storage.getContactIds(userId);
+  emitToUsers(contactIds, { type: "presence", userId, isOnline, lastSeen: new Date() });
+}
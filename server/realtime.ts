@@ -0,0 +1,227 @@
+import type { Server } from "http";
+import { WebSocketServer, WebSocket } from "ws";
+import { getSessionUser } from "./auth";
+import { storage } from "./storage";
+import { resetPresence, userConnected, userDisconnected } from "./presence";
+import { handleCallEvent, connectionClosed } from "./calls";
+import { handleGroupCallEvent, groupCallConnectionClosed } from "./groupCalls";
+import { REALTIME_PATH, SESSION_REVOKED_CLOSE_CODE, type ChatWithParticipants, type ClientEvent, type ServerEvent, type UserProfile } from "@shared/schema";
+
+// How often we ping sockets to detect dead connections
+const HEARTBEAT_INTERVAL = 30000;
+
+export interface Connection {
+  socket: WebSocket;
+  userId: string;
+  displayName: string;
+  isAlive: boolean;
+}
+
+// Open connections per user, a user can be connected from several tabs or devices
+const connections = new Map<string, Set<Connection>>();
+
+export function setupRealtime(server: Server): WebSocketServer {
+  const wss = new WebSocketServer({ noServer: true });
+  resetPresence();
+
+  server.on("upgrade", async (req, socket, head) => {
+    const url = new URL(req.url || "/", "http://localhost");
+
+    // Leave other upgrade requests (e.g. Vite HMR) to their own handlers
+    if (url.pathname !== REALTIME_PATH) return;
+
+    const user = await authenticateSocket(url.searchParams.get("token"));
+    if (!user) {
+      socket.write("HTTP/1.1 401 Unauthorized\r\n\r\n");
+      socket.destroy();
+      return;
+    }
+
+    wss.handleUpgrade(req, socket, head, (ws) => {
+      registerConnection(ws, user);
+    });
+  });
+
+  const heartbeat = setInterval(() => {
+    connections.forEach((userConnections) => {
+      userConnections.forEach((connection) => {
+        if (!connection.isAlive) {
+          connection.socket.terminate();
+          return;
+        }
+        connection.isAlive = false;
+        connection.socket.ping();
+      });
+    });
+  }, HEARTBEAT_INTERVAL);
+
+  wss.on("close", () => clearInterval(heartbeat));
+
+  return wss;
+}
+
+async function authenticateSocket(token: string | null): Promise<UserProfile | undefined> {
+  if (!token) return undefined;
+
+  try {
+    return await getSessionUser(token);
+  } catch (error) {
+    return undefined;
+  }
+}
+
+function getDisplayName(user: UserProfile): string {
+  return user.firstName && user.lastName
+    ? `${user.firstName} ${user.lastName}`
+    : user.firstName || user.username;
+}
+
+function registerConnection(socket: WebSocket, user: UserProfile) {
+  const userId = user.id;
+  const connection: Connection = { socket, userId, displayName: getDisplayName(user), isAlive: true };
+
+  let userConnections = connections.get(userId);
+  if (!userConnections) {
+    userConnections = new Set();
+    connections.set(userId, userConnections);
+    userConnected(userId).catch((error) => {
+      console.error("Error updating presence:", error);
+    });
+    // Anything sent while they were away reaches this device now
+    publishDelivered(userId).catch((error) => {
+      console.error("Error marking messages delivered:", error);
+    });
+  }
+  userConnections.add(connection);
+
+  socket.on("pong", () => {
+    connection.isAlive = true;
+  });
+
+  socket.on("message", (data) => {
+    let event: ClientEvent;
+    try {
+      event = JSON.parse(data.toString());
+    } catch (error) {
+      return;
+    }
+    handleClientEvent(connection, event).catch((error) => {
+      console.error("Error handling realtime event:", error);
+    });
+  });
+
+  socket.on("close", () => {
+    connectionClosed(connection);
+    groupCallConnectionClosed(connection);
+
+    const remaining = connections.get(userId);
+    if (!remaining) return;
+    remaining.delete(connection);
+    if (remaining.size === 0) {
+      connections.delete(userId);
+      userDisconnected(userId);
+    }
+  });
+
+  socket.on("error", (error) => {
+    console.error("Realtime socket error:", error);
+  });
+}
+
+async function handleClientEvent(connection: Connection, event: ClientEvent) {
+  switch (event.type) {
+    case "typing": {
+      // Typing indicators are ephemeral: nothing is stored, and clients drop
+      // them on their own if no refresh arrives
+      const chat = await storage.getChatById(event.chatId);
+      if (!chat || !chat.participants?.includes(connection.userId)) return;
+
+      const recipients = chat.participants.filter((id) => id !== connection.userId);
+      emitToUsers(recipients, {
+        type: "typing",
+        chatId: chat.id,
+        userId: connection.userId,
+        displayName: connection.displayName,
+        isTyping: !!event.isTyping,
+      });
+      break;
+    }
+    case "call.start":
+    case "call.accept":
+    case "call.decline":
+    case "call.end":
+    case "call.signal":
+      await handleCallEvent(connection, event);
+      break;
+    case "groupCall.join":
+    case "groupCall.leave":
+    case "groupCall.state":
+    case "groupCall.signal":
+      await handleGroupCallEvent(connection, event);
+      break;
+  }
+}
+
+export function isUserConnected(userId: string): boolean {
+  return connections.has(userId);
+}
+
+// Close every connection a user has open, e.g. once they're banned
+export function disconnectUser(userId: string, reason = "Session revoked") {
+  connections.get(userId)?.forEach((connection) => {
+    connection.socket.close(SESSION_REVOKED_CLOSE_CODE, reason);
+  });
+}
+
+function send(connection: Connection, payload: string) {
+  if (connection.socket.readyState === WebSocket.OPEN) {
+    connection.socket.send(payload);
+  }
+}
+
+// Push an event to one specific connection, e.g. the device a user answered a call on
+export function emitToConnection(connection: Connection, event: ServerEvent) {
+  send(connection, JSON.stringify(event));
+}
+
+// Push an event to every open connection of the given users, optionally skipping one
+export function emitToUsers(userIds: string[], event: ServerEvent, except?: Connection) {
+  const payload = JSON.stringify(event);
+
+  for (const userId of userIds) {
+    connections.get(userId)?.forEach((connection) => {
+      if (connection !== except) send(connection, payload);
+    });
+  }
+}
+
+// Move a user's delivery cursors up to the newest messages they have received,
+// and tell the other participants so senders can update their ticks
+export async function publishDelivered(userId: string, chatId?: string) {
+  const delivered = await storage.markMessagesDelivered(userId, chatId);
+
+  for (const cursor of delivered) {
+    emitToUsers(cursor.participants.filter((id) => id !== userId), {
+      type: "receipt",
+      chatId: cursor.chatId,
+      userId,
+      status: "delivered",
+      messageId: cursor.messageId,
+      at: cursor.deliveredAt,
+    });
+  }
+}
+
+// Push an event to everyone who can see the chat. Global rooms are readable
+// without joining, so their events go to every connected user.
+export function emitToChat(chat: Pick<ChatWithParticipants, "isGlobalRoom" | "participants">, event: ServerEvent) {
+  if (chat.isGlobalRoom) {
+    const payload = JSON.stringify(event);
+    connections.forEach((userConnections) => {
+      userConnections.forEach((connection) => send(connection, payload));
+    });
+    return;
+  }
+
+  emitToUsers(chat.participants, event);
+}
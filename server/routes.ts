@@ -1,6 +1,7 @@
-import type { Express } from "express";
+import type { Express, Response } from "express";
 import { createServer, type Server } from "http";
-import { storage } from "./storage";
+import crypto from "crypto";
+import { storage, type MessageCursor } from "./storage";
 import { 
   register, 
   login, 
@@ -10,12 +11,147 @@ import {
   getMe, 
   logout,
   authenticateToken,
-  authenticateAdmin,
+  requireCapability,
+  canModerateChat,
+  canAccessChat,
+  requireUnrestricted,
   type AuthenticatedRequest 
 } from "./auth";
-import { insertMessageSchema, insertChatSchema } from "@shared/schema";
+import { setupRealtime, emitToChat, emitToUsers, isUserConnected, publishDelivered, disconnectUser } from "./realtime";
+import { setInvisible } from "./presence";
+import { getIceServers } from "./calls";
+import { startSanctionExpiry } from "./sanctions";
+import { logModerationAction, getModerationReason, getModerationState, moderationActionsToCsv } from "./moderation";
+import { getGroupCall } from "./groupCalls";
+import { fileStorage, LocalFileStorage, LOCAL_UPLOAD_DIR, LOCAL_UPLOAD_ROUTE } from "./fileStorage";
+import { uploadSingleFile, resolveAttachmentKind, createStorageKey, normalizeMimeType, isInlineMedia } from "./uploads";
+import { needsProcessing, stripImageMetadata, enqueueMediaProcessing, isMediaQueueFull, getMediaFields } from "./mediaProcessing";
+import {
+  sendMessageSchema,
+  createChatSchema,
+  voiceNoteDetailsSchema,
+  messageSearchSchema,
+  reactionSchema,
+  deleteMessageSchema,
+  addChatMembersSchema,
+  updateChatRoleSchema,
+  transferOwnershipSchema,
+  createChatInviteSchema,
+  joinRoomSchema,
+  updateChatCapacitySchema,
+  updateProfileSchema,
+  sanctionUserSchema,
+  moderationLogQuerySchema,
+  createReportSchema,
+  reportQueueQuerySchema,
+  reviewReportSchema,
+  updateUserRoleSchema,
+  hasCapability,
+  ROLE_CAPABILITIES,
+  ROOM_MODERATOR_CAPABILITIES,
+  type ChatRole,
+  type ChatWithParticipants,
+  type ChatInvitePreview,
+  type JoinChatResult,
+  type Report,
+  type ReportStatus,
+  type ReportTargetType,
+  type UserPermissions,
+  type UserRole,
+} from "@shared/schema";
+
+// How long after sending a message its sender can still delete it for everyone,
+// in seconds. DELETE_FOR_EVERYONE_WINDOW overrides the default of an hour.
+const DEFAULT_DELETE_FOR_EVERYONE_WINDOW = 60 * 60;
+
+function getDeleteForEveryoneWindow(): number {
+  const configured = process.env.DELETE_FOR_EVERYONE_WINDOW;
+  if (!configured) return DEFAULT_DELETE_FOR_EVERYONE_WINDOW;
+
+  const seconds = Number(configured);
+  if (!Number.isInteger(seconds) || seconds < 0) {
+    console.error("Invalid DELETE_FOR_EVERYONE_WINDOW, falling back to the default:", configured);
+    return DEFAULT_DELETE_FOR_EVERYONE_WINDOW;
+  }
+  return seconds;
+}
+
+// A group chat with the role the user has in it, if they are one of its participants
+async function getGroupMembership(chatId: string, userId: string): Promise<{ chat: ChatWithParticipants; role: ChatRole } | undefined> {
+  const chat = await storage.getChatById(chatId);
+  if (!chat || !chat.isGroup || chat.isGlobalRoom || !(chat.participants || []).includes(userId)) return undefined;
+
+  return { chat, role: chat.roles?.[userId] || "member" };
+}
+
+// Owners manage everyone else in a group; admins only manage plain members
+function canManageMember(role: ChatRole, targetRole: ChatRole): boolean {
+  return role === "owner" || (role === "admin" && targetRole === "member");
+}
+
+// Who is answerable for something a user wants to report, if the user can see it at all
+async function getReportTargetOwner(targetType: ReportTargetType, targetId: string, userId: string): Promise<{ ownerId: string | null } | undefined> {
+  if (targetType === "user") {
+    const user = await storage.getUser(targetId);
+    return user ? { ownerId: user.id } : undefined;
+  }
+
+  const message = targetType === "message" ? await storage.getMessageById(targetId) : undefined;
+  if (targetType === "message" && (!message || message.deletedAt)) return undefined;
+
+  const chat = await storage.getChatById(message ? message.chatId : targetId);
+  if (!chat || !canAccessChat(chat, userId)) return undefined;
+
+  return { ownerId: message ? message.senderId : null };
+}
+
+// The chat a report is about, for limiting room moderators to their rooms; null for reported users
+async function getReportChatId(report: Report): Promise<string | null> {
+  if (report.targetType === "chat") return report.targetId;
+  if (report.targetType === "message") return (await storage.getMessageById(report.targetId))?.chatId ?? null;
+  return null;
+}
+
+// Invite codes are 12 URL-safe characters
+const INVITE_CODE_BYTES = 9;
+
+function createInviteCode(): string {
+  return crypto.randomBytes(INVITE_CODE_BYTES).toString("base64url");
+}
 
 export function registerRoutes(app: Express): Server {
+  // Locally stored uploads, always sent with the type they were checked as on upload.
+  // They download rather than open in the app's origin, and anything that isn't
+  // media is sandboxed in case a browser opens it anyway.
+  if (fileStorage instanceof LocalFileStorage) {
+    app.get(`${LOCAL_UPLOAD_ROUTE}/:userId/:fileName`, async (req, res) => {
+      try {
+        const storageKey = `${req.params.userId}/${req.params.fileName}`;
+        const attachment = await storage.getAttachmentByStorageKey(storageKey);
+        if (!attachment) {
+          return res.status(404).json({ message: "File not found" });
+        }
+
+        const isThumbnail = attachment.thumbnailStorageKey === storageKey;
+        const mimeType = isThumbnail ? 'image/webp' : attachment.mimeType;
+        res.attachment(attachment.fileName);
+        res.setHeader('Content-Type', mimeType);
+        res.setHeader('X-Content-Type-Options', 'nosniff');
+        if (!isInlineMedia(mimeType)) {
+          res.setHeader('Content-Security-Policy', 'sandbox');
+        }
+        res.sendFile(storageKey, { root: LOCAL_UPLOAD_DIR, dotfiles: 'deny' }, (error) => {
+          if (error && !res.headersSent) {
+            res.status(404).json({ message: "File not found" });
+          }
+        });
+      } catch (error) {
+        console.error("Error serving upload:", error);
+        res.status(500).json({ message: "Failed to fetch file" });
+      }
+    });
+  }
+
   // Auth routes (public)
   app.post('/api/auth/register', register);
   app.post('/api/auth/login', login);
@@ -25,13 +161,36 @@ export function registerRoutes(app: Express): Server {
   app.get('/api/user', authenticateToken, getMe);
   app.post('/api/auth/logout', authenticateToken, logout);
 
+  // What the user can do in the admin dashboard
+  app.get('/api/user/permissions', authenticateToken, async (req: AuthenticatedRequest, res) => {
+    try {
+      const moderatedRoomIds = await storage.getModeratedRoomIds(req.user!.id);
+      const capabilities = new Set(ROLE_CAPABILITIES[req.user!.role as UserRole] ?? []);
+      if (moderatedRoomIds.length > 0) {
+        ROOM_MODERATOR_CAPABILITIES.forEach(capability => capabilities.add(capability));
+      }
+
+      const permissions: UserPermissions = { capabilities: Array.from(capabilities), moderatedRoomIds };
+      res.json(permissions);
+    } catch (error) {
+      console.error("Error fetching permissions:", error);
+      res.status(500).json({ message: "Failed to fetch permissions" });
+    }
+  });
+
   // User routes (protected)
-  app.put('/api/users/profile', authenticateToken, async (req: AuthenticatedRequest, res) => {
+  app.put('/api/users/profile', authenticateToken, requireUnrestricted, async (req: AuthenticatedRequest, res) => {
     try {
-      const userId = req.user!._id!;
-      const updateData = req.body;
+      const userId = req.user!.id;
+      const parsed = updateProfileSchema.safeParse(req.body);
+      if (!parsed.success) {
+        return res.status(400).json({ message: "Invalid profile data" });
+      }
+      if (parsed.data.username && await storage.isUsernameTaken(parsed.data.username, userId)) {
+        return res.status(409).json({ message: "That username is already taken" });
+      }
       
-      const user = await storage.updateUser(userId, updateData);
+      const user = await storage.updateUser(userId, parsed.data);
       
       if (!user) {
         return res.status(404).json({ message: "User not found" });
@@ -46,7 +205,7 @@ export function registerRoutes(app: Express): Server {
 
   app.get('/api/users/search', authenticateToken, async (req: AuthenticatedRequest, res) => {
     try {
-      const userId = req.user!._id!;
+      const userId = req.user!.id;
       const query = req.query.q as string;
       
       if (!query || query.length < 2) {
@@ -61,13 +220,37 @@ export function registerRoutes(app: Express): Server {
     }
   });
 
+  app.get('/api/search/messages', authenticateToken, async (req: AuthenticatedRequest, res) => {
+    try {
+      const parsed = messageSearchSchema.safeParse(req.query);
+      if (!parsed.success) {
+        return res.status(400).json({ message: "Invalid search" });
+      }
+
+      const results = await storage.searchMessages(req.user!.id, parsed.data);
+      res.json(results);
+    } catch (error) {
+      console.error("Error searching messages:", error);
+      res.status(500).json({ message: "Failed to search messages" });
+    }
+  });
+
+  // Online status itself is tracked from realtime connections, users can only choose to hide it
   app.post('/api/users/status', authenticateToken, async (req: AuthenticatedRequest, res) => {
     try {
-      const userId = req.user!._id!;
-      const { isOnline } = req.body;
-      
-      await storage.updateUserOnlineStatus(userId, isOnline);
-      res.json({ success: true });
+      const userId = req.user!.id;
+      const { isInvisible } = req.body;
+
+      if (typeof isInvisible !== "boolean") {
+        return res.status(400).json({ message: "isInvisible must be a boolean" });
+      }
+
+      const user = await setInvisible(userId, isInvisible);
+      if (!user) {
+        return res.status(404).json({ message: "User not found" });
+      }
+
+      res.json(user);
     } catch (error) {
       console.error("Error updating status:", error);
       res.status(500).json({ message: "Failed to update status" });
@@ -77,7 +260,7 @@ export function registerRoutes(app: Express): Server {
   // Chat routes (protected)
   app.get('/api/chats', authenticateToken, async (req: AuthenticatedRequest, res) => {
     try {
-      const userId = req.user!._id!;
+      const userId = req.user!.id;
       const chats = await storage.getUserChats(userId);
       res.json(chats);
     } catch (error) {
@@ -88,7 +271,7 @@ export function registerRoutes(app: Express): Server {
 
   app.get('/api/chats/global', authenticateToken, async (req: AuthenticatedRequest, res) => {
     try {
-      const userId = req.user!._id!;
+      const userId = req.user!.id;
       const globalRooms = await storage.getGlobalRooms(userId);
       res.json(globalRooms);
     } catch (error) {
@@ -97,25 +280,35 @@ export function registerRoutes(app: Express): Server {
     }
   });
 
-  app.post('/api/chats/global/:roomId/join', authenticateToken, async (req: AuthenticatedRequest, res) => {
+  app.post('/api/chats/global/:roomId/join', authenticateToken, requireUnrestricted, async (req: AuthenticatedRequest, res) => {
     try {
-      const userId = req.user!._id!;
+      const userId = req.user!.id;
       const { roomId } = req.params;
       
+      const parsed = joinRoomSchema.safeParse(req.body ?? {});
+      if (!parsed.success) {
+        return res.status(400).json({ message: "Invalid join request" });
+      }
+      
       // Check if room exists and is global
       const room = await storage.getChatById(roomId);
       if (!room || !room.isGlobalRoom) {
         return res.status(404).json({ message: "Global room not found" });
       }
       
-      // Check if user is already a participant
-      const isParticipant = room.participants.includes(userId);
-      if (isParticipant) {
+      // Add user as participant, as long as there's room for them
+      const result = await storage.addChatParticipant(roomId, userId);
+      if (result === "already_member") {
         return res.json({ message: "Already a member" });
       }
-      
-      // Add user as participant
-      await storage.addChatParticipant(roomId, userId);
+      if (result === "full") {
+        if (parsed.data.waitlist) {
+          const position = await storage.joinChatWaitlist(roomId, userId);
+          return res.status(202).json({ message: "Added to the waitlist", position });
+        }
+        return res.status(409).json({ message: "This room is full", maxMembers: room.maxMembers });
+      }
+      emitToChat(room, { type: 'chat.updated', chatId: roomId });
       
       res.json({ message: "Joined global room successfully" });
     } catch (error) {
@@ -124,18 +317,63 @@ export function registerRoutes(app: Express): Server {
     }
   });
 
-  app.post('/api/chats', authenticateToken, async (req: AuthenticatedRequest, res) => {
+  app.post('/api/chats/global/:roomId/leave', authenticateToken, async (req: AuthenticatedRequest, res) => {
     try {
-      const userId = req.user!._id!;
-      const chatData = insertChatSchema.parse(req.body);
+      const userId = req.user!.id;
+      const { roomId } = req.params;
+
+      const room = await storage.getChatById(roomId);
+      if (!room || !room.isGlobalRoom) {
+        return res.status(404).json({ message: "Global room not found" });
+      }
+
+      if (await storage.removeChatParticipant(roomId, userId)) {
+        // The freed spot goes to whoever has waited longest
+        const admitted = await storage.admitFromWaitlist(roomId);
+        emitToChat(room, { type: 'chat.updated', chatId: roomId });
+        emitToUsers(admitted, { type: 'chat.joined', chatId: roomId, chatName: room.name });
+      }
+
+      res.json({ success: true });
+    } catch (error) {
+      console.error("Error leaving global room:", error);
+      res.status(500).json({ message: "Failed to leave global room" });
+    }
+  });
+
+  app.delete('/api/chats/global/:roomId/waitlist', authenticateToken, async (req: AuthenticatedRequest, res) => {
+    try {
+      const userId = req.user!.id;
+
+      if (!await storage.leaveChatWaitlist(req.params.roomId, userId)) {
+        return res.status(404).json({ message: "Not on the waitlist" });
+      }
+
+      res.json({ success: true });
+    } catch (error) {
+      console.error("Error leaving waitlist:", error);
+      res.status(500).json({ message: "Failed to leave waitlist" });
+    }
+  });
+
+  app.post('/api/chats', authenticateToken, requireUnrestricted, async (req: AuthenticatedRequest, res) => {
+    try {
+      const userId = req.user!.id;
+      const parsed = createChatSchema.safeParse(req.body);
+      if (!parsed.success) {
+        return res.status(400).json({ message: "Invalid chat" });
+      }
+      const { participants, ...chatData } = parsed.data;
       
       const chat = await storage.createChat({
         ...chatData,
         createdBy: userId,
-        participants: [userId, ...(chatData.participants || [])],
-      });
+      }, [userId, ...participants]);
       
-      const fullChat = await storage.getChatById(chat._id!);
+      const fullChat = await storage.getChatById(chat.id);
+      if (fullChat) {
+        emitToChat(fullChat, { type: 'chat.updated', chatId: chat.id });
+      }
       res.status(201).json(fullChat);
     } catch (error) {
       console.error("Error creating chat:", error);
@@ -145,7 +383,7 @@ export function registerRoutes(app: Express): Server {
 
   app.get('/api/chats/:chatId', authenticateToken, async (req: AuthenticatedRequest, res) => {
     try {
-      const userId = req.user!._id!;
+      const userId = req.user!.id;
       const { chatId } = req.params;
       
       const chat = await storage.getChatById(chatId);
@@ -166,86 +404,729 @@ export function registerRoutes(app: Express): Server {
     }
   });
 
-  app.post('/api/chats/direct', authenticateToken, async (req: AuthenticatedRequest, res) => {
-    try {
-      const userId = req.user!._id!;
-      const { otherUserId } = req.body;
-      
-      if (!otherUserId) {
-        return res.status(400).json({ message: "Other user ID is required" });
+  app.post('/api/chats/direct', authenticateToken, requireUnrestricted, async (req: AuthenticatedRequest, res) => {
+    try {
+      const userId = req.user!.id;
+      const { otherUserId } = req.body;
+      
+      if (!otherUserId) {
+        return res.status(400).json({ message: "Other user ID is required" });
+      }
+      
+      const chat = await storage.getOrCreateDirectChat(userId, otherUserId);
+      const fullChat = await storage.getChatById(chat.id);
+      if (fullChat) {
+        emitToChat(fullChat, { type: 'chat.updated', chatId: chat.id });
+      }
+      res.json(fullChat);
+    } catch (error) {
+      console.error("Error creating direct chat:", error);
+      res.status(500).json({ message: "Failed to create direct chat" });
+    }
+  });
+
+  // Group membership routes (protected)
+  app.post('/api/chats/:chatId/members', authenticateToken, requireUnrestricted, async (req: AuthenticatedRequest, res) => {
+    try {
+      const userId = req.user!.id;
+      const parsed = addChatMembersSchema.safeParse(req.body);
+      if (!parsed.success) {
+        return res.status(400).json({ message: "Invalid members" });
+      }
+
+      const membership = await getGroupMembership(req.params.chatId, userId);
+      if (!membership) {
+        return res.status(404).json({ message: "Group not found" });
+      }
+      const { chat, role } = membership;
+      if (role === "member") {
+        return res.status(403).json({ message: "Only group admins can add members" });
+      }
+
+      const newMemberIds = Array.from(new Set(parsed.data.userIds)).filter(id => !(chat.participants || []).includes(id));
+      for (const memberId of newMemberIds) {
+        if (!await storage.getUser(memberId)) {
+          return res.status(404).json({ message: "User not found" });
+        }
+      }
+
+      if (chat.maxMembers !== null && chat.participants.length + newMemberIds.length > chat.maxMembers) {
+        return res.status(409).json({ message: "This group is full", maxMembers: chat.maxMembers });
+      }
+
+      for (const memberId of newMemberIds) {
+        // Someone else can still take the last spots between the check above and here
+        if (await storage.addChatParticipant(chat.id, memberId) === "full") {
+          const partialChat = await storage.getChatById(chat.id);
+          if (partialChat) {
+            emitToChat(partialChat, { type: 'chat.updated', chatId: chat.id });
+          }
+          return res.status(409).json({ message: "This group is full", maxMembers: chat.maxMembers });
+        }
+      }
+
+      const updatedChat = await storage.getChatById(chat.id);
+      if (updatedChat) {
+        emitToChat(updatedChat, { type: 'chat.updated', chatId: chat.id });
+      }
+      res.json(updatedChat);
+    } catch (error) {
+      console.error("Error adding group members:", error);
+      res.status(500).json({ message: "Failed to add group members" });
+    }
+  });
+
+  app.delete('/api/chats/:chatId/members/:userId', authenticateToken, async (req: AuthenticatedRequest, res) => {
+    try {
+      const userId = req.user!.id;
+      const memberId = req.params.userId;
+
+      const membership = await getGroupMembership(req.params.chatId, userId);
+      if (!membership) {
+        return res.status(404).json({ message: "Group not found" });
+      }
+      const { chat, role } = membership;
+      if (memberId === userId) {
+        return res.status(400).json({ message: "Leave the group instead of removing yourself" });
+      }
+      if (!(chat.participants || []).includes(memberId)) {
+        return res.status(404).json({ message: "Member not found" });
+      }
+      if (!canManageMember(role, chat.roles?.[memberId] || "member")) {
+        return res.status(403).json({ message: "You can't remove this member" });
+      }
+
+      await storage.removeChatParticipant(chat.id, memberId);
+      // The removed member hears about it too, so their client can drop the chat
+      emitToChat(chat, { type: 'chat.updated', chatId: chat.id });
+
+      res.json({ success: true });
+    } catch (error) {
+      console.error("Error removing group member:", error);
+      res.status(500).json({ message: "Failed to remove group member" });
+    }
+  });
+
+  app.patch('/api/chats/:chatId/members/:userId/role', authenticateToken, async (req: AuthenticatedRequest, res) => {
+    try {
+      const userId = req.user!.id;
+      const memberId = req.params.userId;
+      const parsed = updateChatRoleSchema.safeParse(req.body);
+      if (!parsed.success) {
+        return res.status(400).json({ message: "Invalid role" });
+      }
+
+      const membership = await getGroupMembership(req.params.chatId, userId);
+      if (!membership) {
+        return res.status(404).json({ message: "Group not found" });
+      }
+      const { chat, role } = membership;
+      if (role !== "owner") {
+        return res.status(403).json({ message: "Only the group owner can change roles" });
+      }
+      if (memberId === userId) {
+        return res.status(400).json({ message: "Transfer ownership to change your own role" });
+      }
+      if (!(chat.participants || []).includes(memberId)) {
+        return res.status(404).json({ message: "Member not found" });
+      }
+
+      await storage.setChatRole(chat.id, memberId, parsed.data.role);
+      emitToChat(chat, { type: 'chat.updated', chatId: chat.id });
+
+      res.json({ success: true });
+    } catch (error) {
+      console.error("Error updating member role:", error);
+      res.status(500).json({ message: "Failed to update member role" });
+    }
+  });
+
+  app.post('/api/chats/:chatId/leave', authenticateToken, async (req: AuthenticatedRequest, res) => {
+    try {
+      const userId = req.user!.id;
+
+      const membership = await getGroupMembership(req.params.chatId, userId);
+      if (!membership) {
+        return res.status(404).json({ message: "Group not found" });
+      }
+      const { chat, role } = membership;
+      // Groups always keep an owner while anyone is left in them
+      if (role === "owner" && (chat.participants || []).length > 1) {
+        return res.status(409).json({ message: "Transfer ownership before leaving the group" });
+      }
+
+      await storage.removeChatParticipant(chat.id, userId);
+      emitToChat(chat, { type: 'chat.updated', chatId: chat.id });
+
+      res.json({ success: true });
+    } catch (error) {
+      console.error("Error leaving group:", error);
+      res.status(500).json({ message: "Failed to leave group" });
+    }
+  });
+
+  app.post('/api/chats/:chatId/transfer-ownership', authenticateToken, async (req: AuthenticatedRequest, res) => {
+    try {
+      const userId = req.user!.id;
+      const parsed = transferOwnershipSchema.safeParse(req.body);
+      if (!parsed.success) {
+        return res.status(400).json({ message: "Invalid new owner" });
+      }
+      const newOwnerId = parsed.data.userId;
+
+      const membership = await getGroupMembership(req.params.chatId, userId);
+      if (!membership) {
+        return res.status(404).json({ message: "Group not found" });
+      }
+      const { chat, role } = membership;
+      if (role !== "owner") {
+        return res.status(403).json({ message: "Only the group owner can transfer ownership" });
+      }
+      if (newOwnerId === userId || !(chat.participants || []).includes(newOwnerId)) {
+        return res.status(400).json({ message: "The new owner must be another member of the group" });
+      }
+
+      await storage.transferChatOwnership(chat.id, userId, newOwnerId);
+      emitToChat(chat, { type: 'chat.updated', chatId: chat.id });
+
+      res.json({ success: true });
+    } catch (error) {
+      console.error("Error transferring group ownership:", error);
+      res.status(500).json({ message: "Failed to transfer group ownership" });
+    }
+  });
+
+  // Group invite routes (protected). Owners and admins manage a group's invites and join requests.
+  app.get('/api/chats/:chatId/invites', authenticateToken, async (req: AuthenticatedRequest, res) => {
+    try {
+      const membership = await getGroupMembership(req.params.chatId, req.user!.id);
+      if (!membership) {
+        return res.status(404).json({ message: "Group not found" });
+      }
+      if (membership.role === "member") {
+        return res.status(403).json({ message: "Only group admins can manage invites" });
+      }
+
+      const invites = await storage.getActiveChatInvites(membership.chat.id);
+      res.json(invites);
+    } catch (error) {
+      console.error("Error fetching invites:", error);
+      res.status(500).json({ message: "Failed to fetch invites" });
+    }
+  });
+
+  app.post('/api/chats/:chatId/invites', authenticateToken, async (req: AuthenticatedRequest, res) => {
+    try {
+      const userId = req.user!.id;
+      const parsed = createChatInviteSchema.safeParse(req.body);
+      if (!parsed.success) {
+        return res.status(400).json({ message: "Invalid invite settings" });
+      }
+      const { expiresIn, maxUses, requiresApproval } = parsed.data;
+
+      const membership = await getGroupMembership(req.params.chatId, userId);
+      if (!membership) {
+        return res.status(404).json({ message: "Group not found" });
+      }
+      if (membership.role === "member") {
+        return res.status(403).json({ message: "Only group admins can manage invites" });
+      }
+
+      const invite = await storage.createChatInvite({
+        chatId: membership.chat.id,
+        code: createInviteCode(),
+        createdBy: userId,
+        expiresAt: expiresIn ? new Date(Date.now() + expiresIn * 1000) : null,
+        maxUses: maxUses ?? null,
+        requiresApproval,
+      });
+      res.status(201).json(invite);
+    } catch (error) {
+      console.error("Error creating invite:", error);
+      res.status(500).json({ message: "Failed to create invite" });
+    }
+  });
+
+  app.delete('/api/chats/:chatId/invites/:inviteId', authenticateToken, async (req: AuthenticatedRequest, res) => {
+    try {
+      const membership = await getGroupMembership(req.params.chatId, req.user!.id);
+      if (!membership) {
+        return res.status(404).json({ message: "Group not found" });
+      }
+      if (membership.role === "member") {
+        return res.status(403).json({ message: "Only group admins can manage invites" });
+      }
+
+      const revoked = await storage.revokeChatInvite(membership.chat.id, req.params.inviteId);
+      if (!revoked) {
+        return res.status(404).json({ message: "Invite not found" });
+      }
+      res.json({ success: true });
+    } catch (error) {
+      console.error("Error revoking invite:", error);
+      res.status(500).json({ message: "Failed to revoke invite" });
+    }
+  });
+
+  app.get('/api/chats/:chatId/join-requests', authenticateToken, async (req: AuthenticatedRequest, res) => {
+    try {
+      const membership = await getGroupMembership(req.params.chatId, req.user!.id);
+      if (!membership) {
+        return res.status(404).json({ message: "Group not found" });
+      }
+      if (membership.role === "member") {
+        return res.status(403).json({ message: "Only group admins can review join requests" });
+      }
+
+      const requests = await storage.getChatJoinRequests(membership.chat.id);
+      res.json(requests);
+    } catch (error) {
+      console.error("Error fetching join requests:", error);
+      res.status(500).json({ message: "Failed to fetch join requests" });
+    }
+  });
+
+  // Approving lets the requester in; deleting the request turns them away
+  const joinRequestHandler = (approve: boolean) => async (req: AuthenticatedRequest, res: Response) => {
+    try {
+      const requesterId = req.params.userId;
+
+      const membership = await getGroupMembership(req.params.chatId, req.user!.id);
+      if (!membership) {
+        return res.status(404).json({ message: "Group not found" });
+      }
+      const { chat, role } = membership;
+      if (role === "member") {
+        return res.status(403).json({ message: "Only group admins can review join requests" });
+      }
+
+      if (!await storage.hasChatJoinRequest(chat.id, requesterId)) {
+        return res.status(404).json({ message: "Join request not found" });
+      }
+
+      // A full group keeps the request around until a spot opens up
+      if (approve && await storage.addChatParticipant(chat.id, requesterId) === "full") {
+        return res.status(409).json({ message: "This group is full", maxMembers: chat.maxMembers });
+      }
+      await storage.deleteChatJoinRequest(chat.id, requesterId);
+
+      if (approve) {
+        const updatedChat = await storage.getChatById(chat.id);
+        if (updatedChat) {
+          emitToChat(updatedChat, { type: 'chat.updated', chatId: chat.id });
+        }
+      } else {
+        emitToChat(chat, { type: 'chat.updated', chatId: chat.id });
+      }
+
+      res.json({ success: true });
+    } catch (error) {
+      console.error("Error reviewing join request:", error);
+      res.status(500).json({ message: "Failed to review join request" });
+    }
+  };
+
+  app.post('/api/chats/:chatId/join-requests/:userId/approve', authenticateToken, joinRequestHandler(true));
+  app.delete('/api/chats/:chatId/join-requests/:userId', authenticateToken, joinRequestHandler(false));
+
+  // Anyone signed in with the link can preview the group before joining
+  app.get('/api/invites/:code', authenticateToken, async (req: AuthenticatedRequest, res) => {
+    try {
+      const userId = req.user!.id;
+
+      const invite = await storage.getActiveChatInviteByCode(req.params.code);
+      const chat = invite && await storage.getChatById(invite.chatId);
+      if (!invite || !chat) {
+        return res.status(404).json({ message: "This invite link is invalid or has expired" });
+      }
+
+      const status = chat.participants.includes(userId)
+        ? "member"
+        : await storage.hasChatJoinRequest(chat.id, userId) ? "pending" : "none";
+
+      const preview: ChatInvitePreview = {
+        code: invite.code,
+        chat: {
+          id: chat.id,
+          name: chat.name,
+          description: chat.description,
+          imageUrl: chat.imageUrl,
+          memberCount: chat.participants.length,
+        },
+        requiresApproval: invite.requiresApproval,
+        status,
+      };
+      res.json(preview);
+    } catch (error) {
+      console.error("Error fetching invite:", error);
+      res.status(500).json({ message: "Failed to fetch invite" });
+    }
+  });
+
+  app.post('/api/invites/:code/join', authenticateToken, requireUnrestricted, async (req: AuthenticatedRequest, res) => {
+    try {
+      const userId = req.user!.id;
+
+      const invite = await storage.getActiveChatInviteByCode(req.params.code);
+      const chat = invite && await storage.getChatById(invite.chatId);
+      if (!invite || !chat) {
+        return res.status(404).json({ message: "This invite link is invalid or has expired" });
+      }
+
+      // Opening the link again doesn't use it up again
+      if (chat.participants.includes(userId)) {
+        const result: JoinChatResult = { status: "joined", chatId: chat.id };
+        return res.json(result);
+      }
+      if (await storage.hasChatJoinRequest(chat.id, userId)) {
+        const result: JoinChatResult = { status: "pending", chatId: chat.id };
+        return res.json(result);
+      }
+
+      const status = await storage.redeemChatInvite(invite.id, userId);
+      if (!status) {
+        return res.status(404).json({ message: "This invite link is invalid or has expired" });
+      }
+      if (status === "full") {
+        return res.status(409).json({ message: "This group is full", maxMembers: chat.maxMembers });
+      }
+
+      const updatedChat = status === "joined" ? await storage.getChatById(chat.id) : chat;
+      if (updatedChat) {
+        emitToChat(updatedChat, { type: 'chat.updated', chatId: chat.id });
+      }
+
+      const result: JoinChatResult = { status, chatId: chat.id };
+      res.json(result);
+    } catch (error) {
+      console.error("Error joining with invite:", error);
+      res.status(500).json({ message: "Failed to join group" });
+    }
+  });
+
+  // Message routes (protected)
+  app.get('/api/chats/:chatId/messages', authenticateToken, async (req: AuthenticatedRequest, res) => {
+    try {
+      const userId = req.user!.id;
+      const { chatId } = req.params;
+      const limit = Math.min(parseInt(req.query.limit as string) || 50, 100);
+      
+      // Verify user is participant (global rooms are open unless capped)
+      const chat = await storage.getChatById(chatId);
+      if (!chat) {
+        return res.status(404).json({ message: "Chat not found" });
+      }
+      
+      // Allow access to global rooms without being a participant
+      if (!canAccessChat(chat, userId)) {
+        return res.status(403).json({ message: "Access denied" });
+      }
+      
+      // Cursors are message ids from this chat
+      const cursor: MessageCursor = {};
+      for (const direction of ['before', 'after'] as const) {
+        const messageId = req.query[direction];
+        if (!messageId) continue;
+
+        const message = typeof messageId === 'string' ? await storage.getMessageById(messageId) : undefined;
+        if (!message || message.chatId !== chatId) {
+          return res.status(400).json({ message: `Invalid ${direction} cursor` });
+        }
+        cursor[direction] = message;
+      }
+      
+      const messages = await storage.getChatMessages(chatId, userId, limit, cursor);
+      res.json(messages);
+    } catch (error) {
+      console.error("Error fetching messages:", error);
+      res.status(500).json({ message: "Failed to fetch messages" });
+    }
+  });
+
+  app.post('/api/chats/:chatId/messages', authenticateToken, requireUnrestricted, async (req: AuthenticatedRequest, res) => {
+    try {
+      const userId = req.user!.id;
+      const { chatId } = req.params;
+      const parsed = sendMessageSchema.safeParse(req.body);
+      if (!parsed.success) {
+        return res.status(400).json({ message: "Invalid message" });
+      }
+      const { content, messageType, replyToId, threadRootId, attachmentId } = parsed.data;
+      
+      // Verify user can send messages (global rooms are open unless capped)
+      const chat = await storage.getChatById(chatId);
+      if (!chat) {
+        return res.status(404).json({ message: "Chat not found" });
+      }
+      
+      // Allow messages in global rooms without being a participant
+      if (!canAccessChat(chat, userId)) {
+        return res.status(403).json({ message: "Access denied" });
+      }
+
+      // Threads start from messages in the chat's main timeline
+      if (threadRootId) {
+        const root = await storage.getMessageById(threadRootId);
+        if (!root || root.chatId !== chatId || root.threadRootId) {
+          return res.status(400).json({ message: "Invalid thread" });
+        }
+      }
+
+      // Replies quote a message from the same timeline: the main one, or the thread and its root
+      if (replyToId) {
+        const parent = await storage.getMessageById(replyToId);
+        const isInTimeline = parent && !parent.deletedAt && parent.chatId === chatId && (threadRootId
+          ? parent.id === threadRootId || parent.threadRootId === threadRootId
+          : !parent.threadRootId);
+        if (!isInTimeline) {
+          return res.status(400).json({ message: "Invalid reply" });
+        }
+      }
+
+      // Media messages must come with a file the sender uploaded and hasn't sent yet
+      const attachment = attachmentId ? await storage.getAttachment(attachmentId) : undefined;
+      if (attachmentId) {
+        if (!attachment || attachment.uploaderId !== userId) {
+          return res.status(404).json({ message: "Attachment not found" });
+        }
+        if (attachment.messageId) {
+          return res.status(409).json({ message: "Attachment has already been sent" });
+        }
+      } else if (messageType !== 'text') {
+        return res.status(400).json({ message: "An attachment is required for this message type" });
+      } else if (!content?.trim()) {
+        return res.status(400).json({ message: "Message content is required" });
+      }
+      
+      const message = await storage.createMessage({
+        chatId,
+        senderId: userId,
+        content: content ?? null,
+        messageType: attachment ? attachment.kind : messageType,
+        fileUrl: attachment?.url,
+        fileName: attachment?.fileName,
+        ...(attachment ? getMediaFields(attachment) : {}),
+        replyToId,
+        threadRootId,
+      });
+
+      if (attachment) {
+        const claimed = await storage.attachToMessage(attachment.id, message.id);
+        if (!claimed) {
+          // Lost a race with another send of the same attachment
+          await storage.deleteMessage(message.id);
+          return res.status(409).json({ message: "Attachment has already been sent" });
+        }
+        // Processing finished while the message was being created
+        if (claimed.processingStatus !== attachment.processingStatus) {
+          await storage.updateMessage(message.id, getMediaFields(claimed));
+        }
+      }
+
+      const messageWithSender = await storage.getMessageWithSender(message.id);
+      if (messageWithSender) {
+        emitToChat(chat, { type: 'message.created', chatId, message: messageWithSender });
+      }
+      emitToChat(chat, { type: 'chat.updated', chatId });
+
+      // Recipients with an open connection have just been pushed the message
+      if (!chat.isGlobalRoom) {
+        (chat.participants || [])
+          .filter(participantId => participantId !== userId && isUserConnected(participantId))
+          .forEach(participantId => {
+            publishDelivered(participantId, chatId).catch(error => {
+              console.error("Error marking message delivered:", error);
+            });
+          });
+      }
+
+      // Replying to a thread means the sender has caught up with it
+      if (threadRootId) {
+        await storage.markThreadRead(threadRootId, userId);
+      }
+      
+      res.status(201).json(message);
+    } catch (error) {
+      console.error("Error sending message:", error);
+      res.status(500).json({ message: "Failed to send message" });
+    }
+  });
+
+  // A message and every reply in its thread
+  app.get('/api/chats/:chatId/threads/:rootId', authenticateToken, async (req: AuthenticatedRequest, res) => {
+    try {
+      const userId = req.user!.id;
+      const { chatId, rootId } = req.params;
+
+      const chat = await storage.getChatById(chatId);
+      if (!chat) {
+        return res.status(404).json({ message: "Chat not found" });
+      }
+      if (!canAccessChat(chat, userId)) {
+        return res.status(403).json({ message: "Access denied" });
+      }
+
+      const thread = await storage.getThread(rootId, userId);
+      if (!thread || thread.root.chatId !== chatId) {
+        return res.status(404).json({ message: "Thread not found" });
       }
-      
-      const chat = await storage.getOrCreateDirectChat(userId, otherUserId);
-      const fullChat = await storage.getChatById(chat._id!);
-      res.json(fullChat);
+
+      res.json(thread);
     } catch (error) {
-      console.error("Error creating direct chat:", error);
-      res.status(500).json({ message: "Failed to create direct chat" });
+      console.error("Error fetching thread:", error);
+      res.status(500).json({ message: "Failed to fetch thread" });
     }
   });
 
-  // Message routes (protected)
-  app.get('/api/chats/:chatId/messages', authenticateToken, async (req: AuthenticatedRequest, res) => {
+  app.post('/api/chats/:chatId/threads/:rootId/read', authenticateToken, async (req: AuthenticatedRequest, res) => {
     try {
-      const userId = req.user!._id!;
-      const { chatId } = req.params;
-      const limit = parseInt(req.query.limit as string) || 50;
-      
-      // Verify user is participant (skip check for global rooms)
+      const userId = req.user!.id;
+      const { chatId, rootId } = req.params;
+
       const chat = await storage.getChatById(chatId);
       if (!chat) {
         return res.status(404).json({ message: "Chat not found" });
       }
-      
-      // Allow access to global rooms without being a participant
-      if (!chat.isGlobalRoom && !chat.participants.includes(userId)) {
+      if (!canAccessChat(chat, userId)) {
         return res.status(403).json({ message: "Access denied" });
       }
-      
-      const messages = await storage.getChatMessages(chatId, userId, limit);
-      res.json(messages);
+
+      const root = await storage.getMessageById(rootId);
+      if (!root || root.chatId !== chatId || root.threadRootId) {
+        return res.status(404).json({ message: "Thread not found" });
+      }
+
+      await storage.markThreadRead(rootId, userId);
+      res.json({ success: true });
     } catch (error) {
-      console.error("Error fetching messages:", error);
-      res.status(500).json({ message: "Failed to fetch messages" });
+      console.error("Error marking thread as read:", error);
+      res.status(500).json({ message: "Failed to mark thread as read" });
     }
   });
 
-  app.post('/api/chats/:chatId/messages', authenticateToken, async (req: AuthenticatedRequest, res) => {
+  app.get('/api/calls/ice-servers', authenticateToken, (req: AuthenticatedRequest, res) => {
+    res.json({ iceServers: getIceServers() });
+  });
+
+  // The group call going on in a chat, if any
+  app.get('/api/chats/:chatId/call', authenticateToken, async (req: AuthenticatedRequest, res) => {
     try {
-      const userId = req.user!._id!;
-      const { chatId } = req.params;
-      const messageData = insertMessageSchema.parse(req.body);
-      
-      // Verify user can send messages (allow global rooms)
-      const chat = await storage.getChatById(chatId);
+      const userId = req.user!.id;
+      const chat = await storage.getChatById(req.params.chatId);
       if (!chat) {
         return res.status(404).json({ message: "Chat not found" });
       }
-      
-      // Allow messages in global rooms without being a participant
-      if (!chat.isGlobalRoom && !chat.participants.includes(userId)) {
+      if (!canAccessChat(chat, userId)) {
         return res.status(403).json({ message: "Access denied" });
       }
-      
-      const message = await storage.createMessage({
-        ...messageData,
-        chatId,
-        senderId: userId,
+
+      res.json(getGroupCall(chat.id));
+    } catch (error) {
+      console.error("Error fetching group call:", error);
+      res.status(500).json({ message: "Failed to fetch group call" });
+    }
+  });
+
+  // Files are uploaded first and then sent by passing the attachment id with a message
+  app.post('/api/uploads', authenticateToken, requireUnrestricted, uploadSingleFile, async (req: AuthenticatedRequest, res) => {
+    try {
+      const userId = req.user!.id;
+      const file = req.file;
+      if (!file) {
+        return res.status(400).json({ message: "No file uploaded" });
+      }
+
+      const mimeType = normalizeMimeType(file.mimetype);
+      const kind = resolveAttachmentKind(mimeType, req.body.kind);
+      if (!kind) {
+        return res.status(400).json({ message: `A ${mimeType} file can't be sent as ${req.body.kind}` });
+      }
+
+      // Multipart fields are strings, so the waveform arrives JSON encoded
+      let voiceNoteDetails = {};
+      if (kind === 'voice_note') {
+        let waveform: unknown;
+        try {
+          waveform = req.body.waveform ? JSON.parse(req.body.waveform) : undefined;
+        } catch {
+          return res.status(400).json({ message: "Invalid waveform" });
+        }
+        const parsed = voiceNoteDetailsSchema.safeParse({ duration: req.body.duration, waveform });
+        if (!parsed.success) {
+          return res.status(400).json({ message: "Invalid voice note details" });
+        }
+        voiceNoteDetails = parsed.data;
+      }
+
+      if (needsProcessing(mimeType) && isMediaQueueFull()) {
+        return res.status(503).json({ message: "Too many uploads are being processed, try again shortly" });
+      }
+
+      // Photos lose their EXIF data (GPS location included) before anyone can download them.
+      // Images sent as files are kept byte-for-byte, like any other document.
+      let data = file.buffer;
+      if (kind === 'image') {
+        try {
+          data = await stripImageMetadata(file.buffer, mimeType);
+        } catch {
+          return res.status(400).json({ message: "The image couldn't be read" });
+        }
+      }
+
+      const storageKey = createStorageKey(userId, mimeType);
+      const url = await fileStorage.save(storageKey, data, mimeType);
+
+      const attachment = await storage.createAttachment({
+        uploaderId: userId,
+        kind,
+        storageKey,
+        url,
+        fileName: file.originalname.slice(0, 255),
+        mimeType,
+        size: data.length,
+        processingStatus: needsProcessing(mimeType) ? 'pending' : 'ready',
+        ...voiceNoteDetails,
       });
-      
-      res.status(201).json(message);
+
+      // Thumbnails and metadata are filled in afterwards and pushed to the chat once ready
+      if (attachment.processingStatus === 'pending') {
+        enqueueMediaProcessing(attachment, data);
+      }
+
+      res.status(201).json(attachment);
     } catch (error) {
-      console.error("Error sending message:", error);
-      res.status(500).json({ message: "Failed to send message" });
+      console.error("Error uploading file:", error);
+      res.status(500).json({ message: "Failed to upload file" });
     }
   });
 
   app.post('/api/chats/:chatId/read', authenticateToken, async (req: AuthenticatedRequest, res) => {
     try {
-      const userId = req.user!._id!;
+      const userId = req.user!.id;
       const { chatId } = req.params;
+
+      const chat = await storage.getChatById(chatId);
+      if (!chat) {
+        return res.status(404).json({ message: "Chat not found" });
+      }
+      if (!chat.participants.includes(userId)) {
+        return res.status(403).json({ message: "Access denied" });
+      }
       
-      await storage.markChatMessagesAsRead(chatId, userId);
+      const read = await storage.markChatMessagesAsRead(chatId, userId);
+
+      // Let senders update their read ticks
+      if (read?.lastReadMessageId && !chat.isGlobalRoom) {
+        emitToChat(chat, {
+          type: 'receipt',
+          chatId,
+          userId,
+          status: 'read',
+          messageId: read.lastReadMessageId,
+          at: read.readAt,
+        });
+      }
+
       res.json({ success: true });
     } catch (error) {
       console.error("Error marking messages as read:", error);
@@ -254,9 +1135,9 @@ export function registerRoutes(app: Express): Server {
   });
 
   // Message edit/delete routes
-  app.put('/api/messages/:messageId', authenticateToken, async (req: AuthenticatedRequest, res) => {
+  app.put('/api/messages/:messageId', authenticateToken, requireUnrestricted, async (req: AuthenticatedRequest, res) => {
     try {
-      const userId = req.user!._id!;
+      const userId = req.user!.id;
       const { messageId } = req.params;
       const { content } = req.body;
       
@@ -269,11 +1150,20 @@ export function registerRoutes(app: Express): Server {
       if (!message || message.senderId !== userId) {
         return res.status(403).json({ message: "Access denied" });
       }
+      if (message.deletedAt) {
+        return res.status(409).json({ message: "Deleted messages can't be edited" });
+      }
       
-      const updatedMessage = await storage.updateMessage(messageId, {
-        content: content.trim(),
-        editedAt: new Date(),
-      });
+      const updatedMessage = await storage.editMessage(messageId, userId, content.trim());
+      if (!updatedMessage) {
+        return res.status(404).json({ message: "Message not found" });
+      }
+
+      const chat = await storage.getChatById(message.chatId);
+      const messageWithSender = await storage.getMessageWithSender(messageId);
+      if (chat && messageWithSender) {
+        emitToChat(chat, { type: 'message.updated', chatId: chat.id, message: messageWithSender });
+      }
       
       res.json(updatedMessage);
     } catch (error) {
@@ -282,18 +1172,73 @@ export function registerRoutes(app: Express): Server {
     }
   });
 
+  // Earlier versions of an edited message, for anyone who can read it
+  app.get('/api/messages/:messageId/revisions', authenticateToken, async (req: AuthenticatedRequest, res) => {
+    try {
+      const userId = req.user!.id;
+      const { messageId } = req.params;
+
+      const message = await storage.getMessageById(messageId);
+      const chat = message && await storage.getChatById(message.chatId);
+      if (!message || message.deletedAt || !chat || !canAccessChat(chat, userId)) {
+        return res.status(404).json({ message: "Message not found" });
+      }
+
+      const revisions = await storage.getMessageRevisions(messageId);
+      res.json(revisions);
+    } catch (error) {
+      console.error("Error fetching message revisions:", error);
+      res.status(500).json({ message: "Failed to fetch message revisions" });
+    }
+  });
+
+  app.get('/api/messages/deletion-settings', authenticateToken, (req: AuthenticatedRequest, res) => {
+    res.json({ deleteForEveryoneWindow: getDeleteForEveryoneWindow() });
+  });
+
+  // Deleting for everyone leaves a tombstone in the chat; deleting for me only hides the message from the user
   app.delete('/api/messages/:messageId', authenticateToken, async (req: AuthenticatedRequest, res) => {
     try {
-      const userId = req.user!._id!;
+      const userId = req.user!.id;
       const { messageId } = req.params;
+      const parsed = deleteMessageSchema.safeParse(req.query);
+      if (!parsed.success) {
+        return res.status(400).json({ message: "Invalid delete scope" });
+      }
+      const { scope } = parsed.data;
       
-      // Get message to verify ownership
       const message = await storage.getMessageById(messageId);
-      if (!message || message.senderId !== userId) {
-        return res.status(403).json({ message: "Access denied" });
+      const chat = message && await storage.getChatById(message.chatId);
+      if (!message || !chat || !canAccessChat(chat, userId)) {
+        return res.status(404).json({ message: "Message not found" });
+      }
+
+      if (scope === 'me') {
+        await storage.hideMessage(messageId, userId);
+        // The user's other devices drop it too
+        emitToUsers([userId], { type: 'message.deleted', chatId: chat.id, messageId });
+        return res.json({ success: true });
+      }
+
+      if (message.senderId !== userId) {
+        return res.status(403).json({ message: "Only the sender can delete a message for everyone" });
+      }
+      if (message.deletedAt) {
+        return res.status(409).json({ message: "Message has already been deleted" });
+      }
+      const window = getDeleteForEveryoneWindow();
+      if (Date.now() - new Date(message.createdAt!).getTime() > window * 1000) {
+        return res.status(403).json({ message: "This message is too old to delete for everyone" });
       }
       
-      await storage.deleteMessage(messageId);
+      await storage.softDeleteMessage(messageId, userId);
+
+      const messageWithSender = await storage.getMessageWithSender(messageId);
+      if (messageWithSender) {
+        emitToChat(chat, { type: 'message.updated', chatId: chat.id, message: messageWithSender });
+      }
+      emitToChat(chat, { type: 'chat.updated', chatId: chat.id });
+
       res.json({ success: true });
     } catch (error) {
       console.error("Error deleting message:", error);
@@ -301,10 +1246,55 @@ export function registerRoutes(app: Express): Server {
     }
   });
 
+  // Reactions are added with POST and taken back with DELETE; both respond with the message's reactions
+  const reactionHandler = (reacted: boolean) => async (req: AuthenticatedRequest, res: Response) => {
+    try {
+      const userId = req.user!.id;
+      const { messageId } = req.params;
+      const parsed = reactionSchema.safeParse({ emoji: reacted ? req.body?.emoji : req.params.emoji });
+      if (!parsed.success) {
+        return res.status(400).json({ message: "Unsupported reaction" });
+      }
+      const { emoji } = parsed.data;
+
+      // Anyone who can read the message can react to it
+      const message = await storage.getMessageById(messageId);
+      const chat = message && await storage.getChatById(message.chatId);
+      if (!message || message.deletedAt || !chat || !canAccessChat(chat, userId)) {
+        return res.status(404).json({ message: "Message not found" });
+      }
+
+      if (reacted) {
+        await storage.addReaction(messageId, userId, emoji);
+      } else {
+        await storage.removeReaction(messageId, userId, emoji);
+      }
+
+      const reactions = (await storage.getMessageReactions([messageId], userId)).get(messageId) || [];
+      emitToChat(chat, {
+        type: 'message.reactions',
+        chatId: chat.id,
+        messageId,
+        userId,
+        emoji,
+        reacted,
+        reactions: reactions.map(({ emoji, count }) => ({ emoji, count })),
+      });
+
+      res.json(reactions);
+    } catch (error) {
+      console.error("Error updating reaction:", error);
+      res.status(500).json({ message: "Failed to update reaction" });
+    }
+  };
+
+  app.post('/api/messages/:messageId/reactions', authenticateToken, requireUnrestricted, reactionHandler(true));
+  app.delete('/api/messages/:messageId/reactions/:emoji', authenticateToken, reactionHandler(false));
+
   // Posts routes (protected)
-  app.post('/api/posts', authenticateToken, async (req: AuthenticatedRequest, res) => {
+  app.post('/api/posts', authenticateToken, requireUnrestricted, async (req: AuthenticatedRequest, res) => {
     try {
-      const userId = req.user!._id!;
+      const userId = req.user!.id;
       const { content } = req.body;
       
       if (!content?.trim()) {
@@ -353,11 +1343,11 @@ export function registerRoutes(app: Express): Server {
   // User suggestions route (protected)
   app.get('/api/users/suggested', authenticateToken, async (req: AuthenticatedRequest, res) => {
     try {
-      const userId = req.user!._id!;
+      const userId = req.user!.id;
       
       // Get recent users for suggestions (excluding current user)
       const users = await storage.getAllUsers(10, 0);
-      const suggestedUsers = users.filter(user => user._id !== userId).slice(0, 5);
+      const suggestedUsers = users.filter(user => user.id !== userId).slice(0, 5);
       
       res.json(suggestedUsers);
     } catch (error) {
@@ -366,8 +1356,43 @@ export function registerRoutes(app: Express): Server {
     }
   });
 
+  // Flag a message, user or chat for moderators
+  app.post('/api/reports', authenticateToken, async (req: AuthenticatedRequest, res) => {
+    try {
+      const userId = req.user!.id;
+      const parsed = createReportSchema.safeParse(req.body);
+      if (!parsed.success) {
+        return res.status(400).json({ message: "Invalid report" });
+      }
+      const { targetType, targetId, category, details } = parsed.data;
+
+      const target = await getReportTargetOwner(targetType, targetId, userId);
+      if (!target) {
+        return res.status(404).json({ message: "Nothing to report was found" });
+      }
+      if (target.ownerId === userId) {
+        return res.status(400).json({ message: "You can't report yourself" });
+      }
+      if (await storage.hasActiveReport(userId, targetType, targetId)) {
+        return res.status(409).json({ message: "You've already reported this" });
+      }
+
+      const report = await storage.createReport({
+        reporterId: userId,
+        targetType,
+        targetId,
+        category,
+        details: details || null,
+      });
+      res.status(201).json({ id: report.id });
+    } catch (error) {
+      console.error("Error creating report:", error);
+      res.status(500).json({ message: "Failed to submit report" });
+    }
+  });
+
   // Admin routes (protected)
-  app.get('/api/admin/stats', authenticateAdmin, async (req: AuthenticatedRequest, res) => {
+  app.get('/api/admin/stats', requireCapability('dashboard.view'), async (req: AuthenticatedRequest, res) => {
     try {
       const stats = await storage.getUserStats();
       res.json(stats);
@@ -377,7 +1402,7 @@ export function registerRoutes(app: Express): Server {
     }
   });
 
-  app.get('/api/admin/users', authenticateAdmin, async (req: AuthenticatedRequest, res) => {
+  app.get('/api/admin/users', requireCapability('dashboard.view'), async (req: AuthenticatedRequest, res) => {
     try {
       const limit = parseInt(req.query.limit as string) || 50;
       const skip = parseInt(req.query.skip as string) || 0;
@@ -389,7 +1414,7 @@ export function registerRoutes(app: Express): Server {
     }
   });
 
-  app.get('/api/admin/chats', authenticateAdmin, async (req: AuthenticatedRequest, res) => {
+  app.get('/api/admin/chats', requireCapability('dashboard.view'), async (req: AuthenticatedRequest, res) => {
     try {
       const limit = parseInt(req.query.limit as string) || 50;
       const skip = parseInt(req.query.skip as string) || 0;
@@ -401,7 +1426,7 @@ export function registerRoutes(app: Express): Server {
     }
   });
 
-  app.get('/api/admin/messages', authenticateAdmin, async (req: AuthenticatedRequest, res) => {
+  app.get('/api/admin/messages', requireCapability('dashboard.view'), async (req: AuthenticatedRequest, res) => {
     try {
       const limit = parseInt(req.query.limit as string) || 100;
       const skip = parseInt(req.query.skip as string) || 0;
@@ -413,20 +1438,166 @@ export function registerRoutes(app: Express): Server {
     }
   });
 
-  app.put('/api/admin/users/:userId/role', authenticateAdmin, async (req: AuthenticatedRequest, res) => {
+  app.get('/api/admin/messages/:messageId/revisions', requireCapability('dashboard.view'), async (req: AuthenticatedRequest, res) => {
+    try {
+      const { messageId } = req.params;
+      const message = await storage.getMessageById(messageId);
+      if (!message) {
+        return res.status(404).json({ message: "Message not found" });
+      }
+
+      const revisions = await storage.getMessageRevisions(messageId);
+      res.json(revisions);
+    } catch (error) {
+      console.error("Error fetching message revisions:", error);
+      res.status(500).json({ message: "Failed to fetch message revisions" });
+    }
+  });
+
+  app.get('/api/admin/audit-log', requireCapability('audit_log.view'), async (req: AuthenticatedRequest, res) => {
+    try {
+      const parsed = moderationLogQuerySchema.safeParse(req.query);
+      if (!parsed.success) {
+        return res.status(400).json({ message: "Invalid audit log filters" });
+      }
+
+      const actions = await storage.getModerationActions(parsed.data);
+      res.json(actions);
+    } catch (error) {
+      console.error("Error fetching audit log:", error);
+      res.status(500).json({ message: "Failed to fetch audit log" });
+    }
+  });
+
+  // Same filters as the audit log, as a CSV download
+  app.get('/api/admin/audit-log/export', requireCapability('audit_log.view'), async (req: AuthenticatedRequest, res) => {
+    try {
+      const parsed = moderationLogQuerySchema.safeParse(req.query);
+      if (!parsed.success) {
+        return res.status(400).json({ message: "Invalid audit log filters" });
+      }
+
+      const actions = await storage.getModerationActions(parsed.data);
+      res.setHeader('Content-Type', 'text/csv; charset=utf-8');
+      res.setHeader('Content-Disposition', 'attachment; filename="audit-log.csv"');
+      res.send(moderationActionsToCsv(actions));
+    } catch (error) {
+      console.error("Error exporting audit log:", error);
+      res.status(500).json({ message: "Failed to export audit log" });
+    }
+  });
+
+  // Moderation queue
+  app.get('/api/admin/reports', requireCapability('reports.view'), async (req: AuthenticatedRequest, res) => {
+    try {
+      const parsed = reportQueueQuerySchema.safeParse(req.query);
+      if (!parsed.success) {
+        return res.status(400).json({ message: 'Invalid report view' });
+      }
+
+      const reports = await storage.getReports(parsed.data.view, req.moderatedRoomIds);
+      res.json(reports);
+    } catch (error) {
+      console.error('Error fetching reports:', error);
+      res.status(500).json({ message: 'Failed to fetch reports' });
+    }
+  });
+
+  app.post('/api/admin/reports/:reportId/claim', requireCapability('reports.view'), async (req: AuthenticatedRequest, res) => {
+    try {
+      const report = await storage.getReport(req.params.reportId);
+      if (!report) {
+        return res.status(404).json({ message: 'Report not found' });
+      }
+      if (report.status === 'escalated' && !hasCapability(req.user!.role, 'reports.handle_escalated')) {
+        return res.status(403).json({ message: 'Escalated reports are handled by admins' });
+      }
+      if (!canModerateChat(req, await getReportChatId(report))) {
+        return res.status(403).json({ message: 'You can only handle reports from rooms you moderate' });
+      }
+
+      const claimed = await storage.claimReport(report.id, req.user!.id);
+      if (!claimed) {
+        return res.status(409).json({ message: 'This report is closed or claimed by someone else' });
+      }
+
+      res.json({ success: true });
+    } catch (error) {
+      console.error('Error claiming report:', error);
+      res.status(500).json({ message: 'Failed to claim report' });
+    }
+  });
+
+  // Resolving or dismissing closes a report; escalating hands it to the admins
+  const reportStatusHandler = (status: Exclude<ReportStatus, "open">) =>
+    async (req: AuthenticatedRequest, res: Response) => {
+      try {
+        const parsed = reviewReportSchema.safeParse(req.body ?? {});
+        if (!parsed.success) {
+          return res.status(400).json({ message: 'Invalid note' });
+        }
+        const report = await storage.getReport(req.params.reportId);
+        if (!report) {
+          return res.status(404).json({ message: 'Report not found' });
+        }
+        if (report.status === 'escalated' && !hasCapability(req.user!.role, 'reports.handle_escalated')) {
+          return res.status(403).json({ message: 'Escalated reports are handled by admins' });
+        }
+        if (!canModerateChat(req, await getReportChatId(report))) {
+          return res.status(403).json({ message: 'You can only handle reports from rooms you moderate' });
+        }
+        if (report.claimedBy && report.claimedBy !== req.user!.id) {
+          return res.status(409).json({ message: 'This report is claimed by someone else' });
+        }
+
+        const updated = await storage.updateReportStatus(report.id, req.user!.id, status, parsed.data.note || undefined);
+        if (!updated) {
+          return res.status(409).json({ message: 'This report is already closed' });
+        }
+        await logModerationAction(req, {
+          action: `report.${status}`,
+          targetType: 'report',
+          targetId: report.id,
+          reason: parsed.data.note || undefined,
+          before: { status: report.status, targetType: report.targetType, targetId: report.targetId, category: report.category },
+          after: { status: updated.status },
+        });
+
+        res.json({ success: true });
+      } catch (error) {
+        console.error(`Error updating report to ${status}:`, error);
+        res.status(500).json({ message: 'Failed to update report' });
+      }
+    };
+
+  app.post('/api/admin/reports/:reportId/resolve', requireCapability('reports.view'), reportStatusHandler('resolved'));
+  app.post('/api/admin/reports/:reportId/dismiss', requireCapability('reports.view'), reportStatusHandler('dismissed'));
+  app.post('/api/admin/reports/:reportId/escalate', requireCapability('reports.view'), reportStatusHandler('escalated'));
+
+  app.put('/api/admin/users/:userId/role', requireCapability('users.manage_roles'), async (req: AuthenticatedRequest, res) => {
     try {
       const { userId } = req.params;
-      const { role } = req.body;
+      const parsed = updateUserRoleSchema.safeParse(req.body);
       
-      if (!['user', 'admin', 'moderator'].includes(role)) {
+      if (!parsed.success) {
         return res.status(400).json({ message: "Invalid role" });
       }
+      const { role } = parsed.data;
       
-      const updatedUser = await storage.updateUserRole(userId, role);
+      const user = await storage.getUser(userId);
+      const updatedUser = user && await storage.updateUserRole(userId, role);
       
-      if (!updatedUser) {
+      if (!user || !updatedUser) {
         return res.status(404).json({ message: "User not found" });
       }
+      await logModerationAction(req, {
+        action: 'user.role_changed',
+        targetType: 'user',
+        targetId: userId,
+        reason: getModerationReason(req),
+        before: { role: user.role },
+        after: { role: updatedUser.role },
+      });
       
       res.json(updatedUser);
     } catch (error) {
@@ -435,10 +1606,22 @@ export function registerRoutes(app: Express): Server {
     }
   });
 
-  app.delete('/api/admin/users/:userId', authenticateAdmin, async (req: AuthenticatedRequest, res) => {
+  app.delete('/api/admin/users/:userId', requireCapability('users.delete'), async (req: AuthenticatedRequest, res) => {
     try {
       const { userId } = req.params;
+      const user = await storage.getUser(userId);
+      if (!user) {
+        return res.status(404).json({ message: "User not found" });
+      }
+
       await storage.deleteUser(userId);
+      await logModerationAction(req, {
+        action: 'user.deleted',
+        targetType: 'user',
+        targetId: userId,
+        reason: getModerationReason(req),
+        before: { username: user.username, email: user.email, ...getModerationState(user) },
+      });
       res.json({ message: "User deleted successfully" });
     } catch (error) {
       console.error("Error deleting user:", error);
@@ -446,10 +1629,28 @@ export function registerRoutes(app: Express): Server {
     }
   });
 
-  app.delete('/api/admin/chats/:chatId', authenticateAdmin, async (req: AuthenticatedRequest, res) => {
+  app.delete('/api/admin/chats/:chatId', requireCapability('chats.manage'), async (req: AuthenticatedRequest, res) => {
     try {
       const { chatId } = req.params;
+      const chat = await storage.getChatById(chatId);
+      if (!chat) {
+        return res.status(404).json({ message: "Chat not found" });
+      }
+
       await storage.deleteChat(chatId);
+      await logModerationAction(req, {
+        action: 'chat.deleted',
+        targetType: 'chat',
+        targetId: chatId,
+        reason: getModerationReason(req),
+        before: {
+          name: chat.name,
+          isGroup: chat.isGroup,
+          isGlobalRoom: chat.isGlobalRoom,
+          createdBy: chat.createdBy,
+          memberCount: chat.participants.length,
+        },
+      });
       res.json({ message: "Chat deleted successfully" });
     } catch (error) {
       console.error("Error deleting chat:", error);
@@ -457,10 +1658,122 @@ export function registerRoutes(app: Express): Server {
     }
   });
 
-  app.delete('/api/admin/messages/:messageId', authenticateAdmin, async (req: AuthenticatedRequest, res) => {
+  // Raising the limit lets people in from the waitlist straight away
+  app.patch('/api/admin/chats/:chatId/capacity', requireCapability('chats.manage'), async (req: AuthenticatedRequest, res) => {
+    try {
+      const parsed = updateChatCapacitySchema.safeParse(req.body);
+      if (!parsed.success) {
+        return res.status(400).json({ message: "Invalid capacity" });
+      }
+
+      const previous = await storage.getChatById(req.params.chatId);
+      const chat = previous && await storage.setChatCapacity(previous.id, parsed.data.maxMembers);
+      if (!previous || !chat) {
+        return res.status(404).json({ message: "Chat not found" });
+      }
+      const admitted = await storage.admitFromWaitlist(chat.id);
+      await logModerationAction(req, {
+        action: 'chat.capacity_changed',
+        targetType: 'chat',
+        targetId: chat.id,
+        reason: getModerationReason(req),
+        before: { maxMembers: previous.maxMembers },
+        after: { maxMembers: chat.maxMembers, admittedFromWaitlist: admitted.length },
+      });
+
+      const updatedChat = await storage.getChatById(chat.id);
+      if (updatedChat) {
+        emitToChat(updatedChat, { type: 'chat.updated', chatId: chat.id });
+      }
+      emitToUsers(admitted, { type: 'chat.joined', chatId: chat.id, chatName: chat.name });
+      res.json(updatedChat);
+    } catch (error) {
+      console.error("Error updating chat capacity:", error);
+      res.status(500).json({ message: "Failed to update chat capacity" });
+    }
+  });
+
+  // Room moderators
+  app.get('/api/admin/chats/:chatId/moderators', requireCapability('chats.manage'), async (req: AuthenticatedRequest, res) => {
+    try {
+      const moderators = await storage.getRoomModerators(req.params.chatId);
+      res.json(moderators);
+    } catch (error) {
+      console.error("Error fetching room moderators:", error);
+      res.status(500).json({ message: "Failed to fetch room moderators" });
+    }
+  });
+
+  // Room moderators can handle reports and delete messages in that room only
+  const roomModeratorHandler = (assign: boolean) =>
+    async (req: AuthenticatedRequest, res: Response) => {
+      try {
+        const { chatId, userId } = req.params;
+        const [chat, user] = await Promise.all([storage.getChatById(chatId), storage.getUser(userId)]);
+        if (!chat || !user) {
+          return res.status(404).json({ message: chat ? "User not found" : "Chat not found" });
+        }
+        if (!chat.isGlobalRoom) {
+          return res.status(400).json({ message: "Moderators can only be assigned to global rooms" });
+        }
+
+        const changed = assign
+          ? await storage.addRoomModerator(chatId, userId, req.user!.id)
+          : await storage.removeRoomModerator(chatId, userId);
+        if (changed) {
+          await logModerationAction(req, {
+            action: assign ? 'chat.moderator_assigned' : 'chat.moderator_removed',
+            targetType: 'chat',
+            targetId: chatId,
+            reason: getModerationReason(req),
+            before: { moderator: assign ? null : userId },
+            after: { moderator: assign ? userId : null },
+          });
+        }
+
+        res.json({ success: true });
+      } catch (error) {
+        console.error("Error updating room moderators:", error);
+        res.status(500).json({ message: "Failed to update room moderators" });
+      }
+    };
+
+  app.put('/api/admin/chats/:chatId/moderators/:userId', requireCapability('chats.manage'), roomModeratorHandler(true));
+  app.delete('/api/admin/chats/:chatId/moderators/:userId', requireCapability('chats.manage'), roomModeratorHandler(false));
+
+  // Admins' and moderators' deletions keep the content so it can still be reviewed here
+  app.delete('/api/admin/messages/:messageId', requireCapability('messages.delete'), async (req: AuthenticatedRequest, res) => {
     try {
       const { messageId } = req.params;
-      await storage.deleteMessage(messageId);
+      const message = await storage.getMessageById(messageId);
+      if (!message) {
+        return res.status(404).json({ message: "Message not found" });
+      }
+      if (!canModerateChat(req, message.chatId)) {
+        return res.status(403).json({ message: "You can only delete messages in rooms you moderate" });
+      }
+      if (message.deletedAt) {
+        return res.status(409).json({ message: "Message has already been deleted" });
+      }
+
+      await storage.softDeleteMessage(messageId, req.user!.id, { keepContent: true });
+      await logModerationAction(req, {
+        action: 'message.deleted',
+        targetType: 'message',
+        targetId: messageId,
+        reason: getModerationReason(req),
+        before: { chatId: message.chatId, senderId: message.senderId, content: message.content },
+      });
+
+      const chat = await storage.getChatById(message.chatId);
+      const messageWithSender = await storage.getMessageWithSender(messageId);
+      if (chat && messageWithSender) {
+        emitToChat(chat, { type: 'message.updated', chatId: chat.id, message: messageWithSender });
+      }
+      if (chat) {
+        emitToChat(chat, { type: 'chat.updated', chatId: chat.id });
+      }
+
       res.json({ message: "Message deleted successfully" });
     } catch (error) {
       console.error("Error deleting message:", error);
@@ -468,19 +1781,35 @@ export function registerRoutes(app: Express): Server {
     }
   });
 
-  // Admin: Restrict user
-  app.patch('/api/admin/users/:userId/restrict', authenticateAdmin, async (req: AuthenticatedRequest, res) => {
+  // Admin or moderator: Restrict user, for good or for `duration` seconds
+  app.patch('/api/admin/users/:userId/restrict', requireCapability('users.restrict'), async (req: AuthenticatedRequest, res) => {
     try {
-      const { reason } = req.body;
+      const parsed = sanctionUserSchema.safeParse(req.body);
+      if (!parsed.success) {
+        return res.status(400).json({ message: 'Invalid restriction' });
+      }
+      const { reason, duration } = parsed.data;
       const user = await storage.getUser(req.params.userId);
       if (!user) {
         return res.status(404).json({ message: 'User not found' });
       }
+      if (!hasCapability(req.user!.role, 'users.manage_roles') && (user.role === 'admin' || user.role === 'moderator')) {
+        return res.status(403).json({ message: 'Moderators can only restrict regular users' });
+      }
 
-      await storage.updateUser(req.params.userId, {
+      const updatedUser = await storage.updateUser(req.params.userId, {
         isRestricted: true,
         restrictionReason: reason || 'No reason provided',
         restrictedAt: new Date(),
+        restrictedUntil: duration ? new Date(Date.now() + duration * 1000) : null,
+      });
+      await logModerationAction(req, {
+        action: 'user.restricted',
+        targetType: 'user',
+        targetId: user.id,
+        reason,
+        before: getModerationState(user),
+        after: updatedUser && getModerationState(updatedUser),
       });
 
       res.json({ message: 'User restricted successfully' });
@@ -491,12 +1820,29 @@ export function registerRoutes(app: Express): Server {
   });
 
   // Admin: Unrestrict user
-  app.patch('/api/admin/users/:userId/unrestrict', authenticateAdmin, async (req: AuthenticatedRequest, res) => {
+  app.patch('/api/admin/users/:userId/unrestrict', requireCapability('users.restrict'), async (req: AuthenticatedRequest, res) => {
     try {
-      await storage.updateUser(req.params.userId, {
+      const user = await storage.getUser(req.params.userId);
+      if (!user) {
+        return res.status(404).json({ message: 'User not found' });
+      }
+      if (!hasCapability(req.user!.role, 'users.manage_roles') && (user.role === 'admin' || user.role === 'moderator')) {
+        return res.status(403).json({ message: 'Moderators can only unrestrict regular users' });
+      }
+
+      const updatedUser = await storage.updateUser(user.id, {
         isRestricted: false,
-        restrictionReason: undefined,
-        restrictedAt: undefined,
+        restrictionReason: null,
+        restrictedAt: null,
+        restrictedUntil: null,
+      });
+      await logModerationAction(req, {
+        action: 'user.unrestricted',
+        targetType: 'user',
+        targetId: user.id,
+        reason: getModerationReason(req),
+        before: getModerationState(user),
+        after: updatedUser && getModerationState(updatedUser),
       });
 
       res.json({ message: 'User unrestricted successfully' });
@@ -506,20 +1852,42 @@ export function registerRoutes(app: Express): Server {
     }
   });
 
-  // Admin: Ban user
-  app.patch('/api/admin/users/:userId/ban', authenticateAdmin, async (req: AuthenticatedRequest, res) => {
+  // Admin: Ban user, for good or for `duration` seconds
+  app.patch('/api/admin/users/:userId/ban', requireCapability('users.ban'), async (req: AuthenticatedRequest, res) => {
     try {
-      const { reason } = req.body;
+      const parsed = sanctionUserSchema.safeParse(req.body);
+      if (!parsed.success) {
+        return res.status(400).json({ message: 'Invalid ban' });
+      }
+      const { reason, duration } = parsed.data;
       const user = await storage.getUser(req.params.userId);
       if (!user) {
         return res.status(404).json({ message: 'User not found' });
       }
+      if (user.id === req.user!.id) {
+        return res.status(400).json({ message: "You can't ban yourself" });
+      }
+      if (user.role === 'admin') {
+        return res.status(403).json({ message: "Admins can't be banned, remove their admin role first" });
+      }
 
-      await storage.updateUser(req.params.userId, {
+      const updatedUser = await storage.updateUser(req.params.userId, {
         isBanned: true,
         banReason: reason || 'No reason provided',
         bannedAt: new Date(),
+        bannedUntil: duration ? new Date(Date.now() + duration * 1000) : null,
+      });
+      await logModerationAction(req, {
+        action: 'user.banned',
+        targetType: 'user',
+        targetId: user.id,
+        reason,
+        before: getModerationState(user),
+        after: updatedUser && getModerationState(updatedUser),
       });
+      // Sign them out everywhere; tokens issued before now stay dead after an unban
+      await storage.revokeUserTokens(req.params.userId);
+      disconnectUser(req.params.userId, 'Account banned');
 
       res.json({ message: 'User banned successfully' });
     } catch (error) {
@@ -529,12 +1897,26 @@ export function registerRoutes(app: Express): Server {
   });
 
   // Admin: Unban user
-  app.patch('/api/admin/users/:userId/unban', authenticateAdmin, async (req: AuthenticatedRequest, res) => {
+  app.patch('/api/admin/users/:userId/unban', requireCapability('users.ban'), async (req: AuthenticatedRequest, res) => {
     try {
-      await storage.updateUser(req.params.userId, {
+      const user = await storage.getUser(req.params.userId);
+      if (!user) {
+        return res.status(404).json({ message: 'User not found' });
+      }
+
+      const updatedUser = await storage.updateUser(user.id, {
         isBanned: false,
-        banReason: undefined,
-        bannedAt: undefined,
+        banReason: null,
+        bannedAt: null,
+        bannedUntil: null,
+      });
+      await logModerationAction(req, {
+        action: 'user.unbanned',
+        targetType: 'user',
+        targetId: user.id,
+        reason: getModerationReason(req),
+        before: getModerationState(user),
+        after: updatedUser && getModerationState(updatedUser),
       });
 
       res.json({ message: 'User unbanned successfully' });
@@ -545,5 +1927,7 @@ export function registerRoutes(app: Express): Server {
   });
 
   const httpServer = createServer(app);
+  setupRealtime(httpServer);
+  startSanctionExpiry();
   return httpServer;
 }
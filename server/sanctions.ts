@@ -0,0 +1,36 @@
+import { storage } from "./storage";
+import { emitToUsers } from "./realtime";
+import { sendSanctionLiftedEmail } from "./auth";
+
+// How often timed bans and restrictions are checked for expiry
+const SANCTION_SWEEP_INTERVAL = 60 * 1000;
+
+// A sanction past its end time stops applying straight away (see isSanctionActive);
+// this sweep clears it from the user's record and lets them know
+export function startSanctionExpiry() {
+  const sweep = () => {
+    liftExpiredSanctions().catch((error) => {
+      console.error("Error lifting expired sanctions:", error);
+    });
+  };
+
+  sweep();
+  setInterval(sweep, SANCTION_SWEEP_INTERVAL).unref();
+}
+
+async function liftExpiredSanctions() {
+  const lifted = await storage.liftExpiredSanctions(new Date());
+
+  for (const { userId, email, sanction } of lifted) {
+    await storage.recordModerationAction({
+      actorId: null,
+      action: sanction === "ban" ? "user.unbanned" : "user.unrestricted",
+      targetType: "user",
+      targetId: userId,
+      reason: sanction === "ban" ? "Ban expired" : "Restriction expired",
+    });
+    // Banned users have no open connections, so they hear about it by email
+    emitToUsers([userId], { type: "sanction.lifted", sanction });
+    await sendSanctionLiftedEmail(email, sanction);
+  }
+}
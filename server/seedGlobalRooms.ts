@@ -104,7 +104,6 @@ export async function initializeDefaultRooms(): Promise<void> {
         .values({
           ...room,
           createdBy: systemUserId!,
-          participants: [],
         })
         .returning();
       
@@ -7,38 +7,281 @@ import {
   type InsertMessage,
   type ChatWithParticipants,
   type MessageWithSender,
+  type MessageReceipt,
+  type MessageReaction,
+  type MessageThread,
+  type MessageRevision,
+  type ThreadSummary,
+  type MessageSearchFilters,
+  type MessageSearchResult,
+  type ChatRead,
+  type ChatRole,
+  type ChatInvite,
+  type ChatJoinRequest,
+  type AddMemberResult,
+  type InsertModerationAction,
+  type ModerationActionWithActor,
+  type ModerationLogQuery,
+  type Report,
+  type InsertReport,
+  type ReportStatus,
+  type ReportTargetType,
+  type ReportQueueView,
+  type ReportWithDetails,
+  type RoomModerator,
+  type UserRole,
+  type Attachment,
+  type InsertAttachment,
+  getDeliveryStatus,
+  MESSAGE_SEARCH_CONFIG,
+  SEARCH_HIGHLIGHT_START,
+  SEARCH_HIGHLIGHT_END,
   users,
   chats,
   messages,
+  chatReads,
+  attachments,
+  messageReactions,
+  threadReads,
+  messageRevisions,
+  messageHides,
+  chatMembers,
+  chatInvites,
+  chatJoinRequests,
+  chatWaitlist,
+  moderationActions,
+  reports,
+  roomModerators,
 } from "@shared/schema";
 import { db, testConnection } from "./db";
-import { eq, and, sql, desc, asc, like, ne, inArray } from "drizzle-orm";
+import { eq, and, or, sql, desc, asc, like, ne, inArray, lt, gt, gte, lte, isNull } from "drizzle-orm";
+
+// Messages to page from when loading history: `before` walks back to older
+// messages, `after` walks forward to newer ones
+export type MessageCursor = {
+  before?: Message;
+  after?: Message;
+};
+
+type TimelinePoint = { id: string; createdAt: Date | null };
+
+// Messages can share a timestamp, so positions in a chat's timeline are
+// ordered by creation time with the id breaking ties
+function isBeforeMessage(point: TimelinePoint) {
+  return or(
+    lt(messages.createdAt, point.createdAt!),
+    and(eq(messages.createdAt, point.createdAt!), lt(messages.id, point.id))
+  )!;
+}
+
+function isAfterMessage(point: TimelinePoint) {
+  return or(
+    gt(messages.createdAt, point.createdAt!),
+    and(eq(messages.createdAt, point.createdAt!), gt(messages.id, point.id))
+  )!;
+}
+
+// Chats the user is a member of
+function isMemberOf(userId: string) {
+  return inArray(chats.id, db.select({ chatId: chatMembers.chatId }).from(chatMembers).where(eq(chatMembers.userId, userId)));
+}
+
+// Invites that haven't been revoked, expired or used up
+function isActiveInvite() {
+  return and(
+    isNull(chatInvites.revokedAt),
+    or(isNull(chatInvites.expiresAt), gt(chatInvites.expiresAt, new Date())),
+    or(isNull(chatInvites.maxUses), lt(chatInvites.useCount, chatInvites.maxUses))
+  )!;
+}
+
+type Transaction = Parameters<Parameters<typeof db.transaction>[0]>[0];
+
+// Users without an active ban or restriction; needs `users` in the query
+function isUnsanctioned(now: Date) {
+  return and(
+    or(ne(users.isBanned, true), isNull(users.isBanned), lte(users.bannedUntil, now)),
+    or(ne(users.isRestricted, true), isNull(users.isRestricted), lte(users.restrictedUntil, now)),
+  );
+}
+
+// Adds a member unless the chat is at capacity. The chat row stays locked until
+// the transaction ends, so concurrent joins can't both take the last spot.
+async function addMemberWithinCapacity(tx: Transaction, chatId: string, userId: string): Promise<AddMemberResult> {
+  const [chat] = await tx.select({ maxMembers: chats.maxMembers })
+    .from(chats)
+    .where(eq(chats.id, chatId))
+    .for("update");
+  if (!chat) throw new Error(`Chat ${chatId} not found`);
+
+  const [existing] = await tx.select({ userId: chatMembers.userId })
+    .from(chatMembers)
+    .where(and(eq(chatMembers.chatId, chatId), eq(chatMembers.userId, userId)));
+  if (existing) return "already_member";
+
+  const [{ count }] = await tx.select({ count: sql<number>`count(*)::int` })
+    .from(chatMembers)
+    .where(eq(chatMembers.chatId, chatId));
+  if (chat.maxMembers !== null && count >= chat.maxMembers) return "full";
+
+  // A free spot belongs to whoever is already waiting for it
+  if (chat.maxMembers !== null) {
+    const [waiting] = await tx.select({ userId: chatWaitlist.userId })
+      .from(chatWaitlist)
+      .innerJoin(users, eq(users.id, chatWaitlist.userId))
+      .where(and(eq(chatWaitlist.chatId, chatId), ne(chatWaitlist.userId, userId), isUnsanctioned(new Date())))
+      .limit(1);
+    if (waiting) return "full";
+  }
+
+  await tx.insert(chatMembers).values({ chatId, userId });
+  // Getting in some other way takes them out of the line
+  await tx.delete(chatWaitlist)
+    .where(and(eq(chatWaitlist.chatId, chatId), eq(chatWaitlist.userId, userId)));
+  await tx.update(chats)
+    .set({ updatedAt: new Date() })
+    .where(eq(chats.id, chatId));
+  return "added";
+}
+
+// Leaves out messages the user deleted for themselves
+function isVisibleTo(userId: string) {
+  return sql`not exists (select 1 from ${messageHides} where ${messageHides.messageId} = ${messages.id} and ${messageHides.userId} = ${userId})`;
+}
+
+// What participants see of a deleted message: that it was there, not what it said
+function asTombstone<T extends { deletedAt: Date | null }>(message: T): T {
+  if (!message.deletedAt) return message;
+  return {
+    ...message,
+    content: null,
+    fileUrl: null,
+    fileName: null,
+    duration: null,
+    thumbnailUrl: null,
+    width: null,
+    height: null,
+    blurhash: null,
+    waveform: null,
+  };
+}
+
+// The most recent replies loaded with a thread
+const THREAD_REPLY_LIMIT = 200;
+
+// How ts_headline cuts search result snippets
+const SNIPPET_OPTIONS = `StartSel=${SEARCH_HIGHLIGHT_START}, StopSel=${SEARCH_HIGHLIGHT_END}, MinWords=8, MaxWords=24, MaxFragments=2, FragmentDelimiter=" ... "`;
+
+function isAtOrBefore(message: TimelinePoint, point: TimelinePoint): boolean {
+  const messageTime = new Date(message.createdAt!).getTime();
+  const pointTime = new Date(point.createdAt!).getTime();
+  return messageTime < pointTime || (messageTime === pointTime && message.id <= point.id);
+}
+
+// A participant's read and delivery cursors resolved to timeline positions
+type ReceiptCursor = {
+  userId: string;
+  read?: TimelinePoint;
+  readAt: Date;
+  delivered?: TimelinePoint;
+  deliveredAt: Date | null;
+};
+
+export type DeliveredCursor = {
+  chatId: string;
+  messageId: string;
+  deliveredAt: Date;
+  participants: string[];
+};
+
+// Someone whose timed ban or restriction just ran out
+export type LiftedSanction = {
+  userId: string;
+  email: string;
+  username: string;
+  sanction: "ban" | "restriction";
+};
+
+function buildReceipts(message: TimelinePoint, recipientIds: string[], cursors: ReceiptCursor[]): MessageReceipt[] {
+  return recipientIds.map(recipientId => {
+    const cursor = cursors.find(c => c.userId === recipientId);
+    const readAt = cursor?.read && isAtOrBefore(message, cursor.read) ? cursor.readAt : null;
+    const deliveredAt = cursor?.delivered && isAtOrBefore(message, cursor.delivered) ? cursor.deliveredAt : null;
+
+    return { userId: recipientId, deliveredAt: deliveredAt || readAt, readAt };
+  });
+}
 
 export interface IStorage {
   // User operations
   getUser(id: string): Promise<UserProfile | undefined>;
   getUserByEmail(email: string): Promise<(UserProfile & { password?: string }) | undefined>;
+  isUsernameTaken(username: string, exceptUserId?: string): Promise<boolean>;
   createUser(userData: any): Promise<UserProfile>;
   updateUser(id: string, userData: Partial<User>): Promise<UserProfile | undefined>;
   updateUserOnlineStatus(userId: string, isOnline: boolean): Promise<void>;
+  resetOnlineStatus(): Promise<void>;
+  getContactIds(userId: string): Promise<string[]>;
   searchUsers(query: string, excludeUserId: string): Promise<UserProfile[]>;
   verifyUserEmail(userId: string): Promise<void>;
 
   // Chat operations
-  createChat(chat: InsertChat): Promise<Chat>;
+  createChat(chat: InsertChat, memberIds: string[]): Promise<Chat>;
   getUserChats(userId: string): Promise<ChatWithParticipants[]>;
   getGlobalRooms(userId: string): Promise<ChatWithParticipants[]>;
   getChatById(chatId: string): Promise<ChatWithParticipants | undefined>;
-  addChatParticipant(chatId: string, userId: string): Promise<void>;
-  removeChatParticipant(chatId: string, userId: string): Promise<void>;
+  addChatParticipant(chatId: string, userId: string): Promise<AddMemberResult>;
+  removeChatParticipant(chatId: string, userId: string): Promise<boolean>;
+  getChatRoles(chatId: string): Promise<Record<string, ChatRole>>;
+  setChatRole(chatId: string, userId: string, role: ChatRole): Promise<void>;
+  transferChatOwnership(chatId: string, fromUserId: string, toUserId: string): Promise<void>;
+  createChatInvite(invite: typeof chatInvites.$inferInsert): Promise<ChatInvite>;
+  getActiveChatInvites(chatId: string): Promise<ChatInvite[]>;
+  getActiveChatInviteByCode(code: string): Promise<ChatInvite | undefined>;
+  revokeChatInvite(chatId: string, inviteId: string): Promise<boolean>;
+  redeemChatInvite(inviteId: string, userId: string): Promise<"joined" | "pending" | "full" | undefined>;
+  getChatJoinRequests(chatId: string): Promise<ChatJoinRequest[]>;
+  hasChatJoinRequest(chatId: string, userId: string): Promise<boolean>;
+  deleteChatJoinRequest(chatId: string, userId: string): Promise<boolean>;
+  setChatCapacity(chatId: string, maxMembers: number): Promise<Chat | undefined>;
+  joinChatWaitlist(chatId: string, userId: string): Promise<number>;
+  leaveChatWaitlist(chatId: string, userId: string): Promise<boolean>;
+  getWaitlistPosition(chatId: string, userId: string): Promise<number | undefined>;
+  admitFromWaitlist(chatId: string): Promise<string[]>;
 
   // Message operations
   createMessage(message: InsertMessage): Promise<Message>;
-  getChatMessages(chatId: string, userId: string, limit?: number): Promise<MessageWithSender[]>;
+  getChatMessages(chatId: string, userId: string, limit?: number, cursor?: MessageCursor, threadRootId?: string): Promise<MessageWithSender[]>;
   getMessageById(messageId: string): Promise<Message | undefined>;
+  getMessageWithSender(messageId: string): Promise<MessageWithSender | undefined>;
   updateMessage(messageId: string, updates: Partial<Message>): Promise<Message | undefined>;
+  // Changes a message's text, keeping what it said before as a revision
+  editMessage(messageId: string, editorId: string, content: string): Promise<Message | undefined>;
+  getMessageRevisions(messageId: string): Promise<MessageRevision[]>;
+  // Leaves a tombstone in place of the message. Without `keepContent` its text,
+  // media and edit history are discarded.
+  softDeleteMessage(messageId: string, deletedBy: string, options?: { keepContent?: boolean }): Promise<Message | undefined>;
+  hideMessage(messageId: string, userId: string): Promise<void>;
   markMessageAsRead(messageId: string, userId: string): Promise<void>;
-  markChatMessagesAsRead(chatId: string, userId: string): Promise<void>;
+  markChatMessagesAsRead(chatId: string, userId: string): Promise<ChatRead | undefined>;
+  markMessagesDelivered(userId: string, chatId?: string): Promise<DeliveredCursor[]>;
+  searchMessages(userId: string, filters: MessageSearchFilters): Promise<MessageSearchResult[]>;
+
+  // Thread operations
+  getThread(rootMessageId: string, userId: string): Promise<MessageThread | undefined>;
+  markThreadRead(rootMessageId: string, userId: string): Promise<void>;
+
+  // Reaction operations
+  addReaction(messageId: string, userId: string, emoji: string): Promise<void>;
+  removeReaction(messageId: string, userId: string, emoji: string): Promise<void>;
+  getMessageReactions(messageIds: string[], userId: string): Promise<Map<string, MessageReaction[]>>;
+
+  // Attachment operations
+  createAttachment(attachment: InsertAttachment): Promise<Attachment>;
+  getAttachment(attachmentId: string): Promise<Attachment | undefined>;
+  getAttachmentByStorageKey(storageKey: string): Promise<Attachment | undefined>;
+  updateAttachment(attachmentId: string, updates: Partial<Attachment>): Promise<Attachment | undefined>;
+  attachToMessage(attachmentId: string, messageId: string): Promise<Attachment | undefined>;
 
   // Direct message helper
   getOrCreateDirectChat(userId1: string, userId2: string): Promise<Chat>;
@@ -51,7 +294,26 @@ export interface IStorage {
   deleteUser(userId: string): Promise<void>;
   deleteChat(chatId: string): Promise<void>;
   deleteMessage(messageId: string): Promise<void>;
-  updateUserRole(userId: string, role: 'user' | 'admin' | 'moderator'): Promise<UserProfile | undefined>;
+  updateUserRole(userId: string, role: UserRole): Promise<UserProfile | undefined>;
+  revokeUserTokens(userId: string): Promise<void>;
+  getTokensRevokedAt(userId: string): Promise<Date | null | undefined>;
+  liftExpiredSanctions(now: Date): Promise<LiftedSanction[]>;
+  recordModerationAction(entry: InsertModerationAction): Promise<void>;
+  getModerationActions(filters: ModerationLogQuery): Promise<ModerationActionWithActor[]>;
+
+  // Reports
+  createReport(report: InsertReport): Promise<Report>;
+  hasActiveReport(reporterId: string, targetType: ReportTargetType, targetId: string): Promise<boolean>;
+  getReport(reportId: string): Promise<Report | undefined>;
+  getReports(view: ReportQueueView, roomIds?: string[]): Promise<ReportWithDetails[]>;
+  claimReport(reportId: string, moderatorId: string): Promise<Report | undefined>;
+  updateReportStatus(reportId: string, moderatorId: string, status: Exclude<ReportStatus, "open">, note?: string): Promise<Report | undefined>;
+
+  // Room moderators
+  getModeratedRoomIds(userId: string): Promise<string[]>;
+  getRoomModerators(chatId: string): Promise<RoomModerator[]>;
+  addRoomModerator(chatId: string, userId: string, assignedBy: string): Promise<boolean>;
+  removeRoomModerator(chatId: string, userId: string): Promise<boolean>;
 }
 
 export class DatabaseStorage implements IStorage {
@@ -82,6 +344,7 @@ export class DatabaseStorage implements IStorage {
         phoneNumber: users.phoneNumber,
         isOnline: users.isOnline,
         lastSeen: users.lastSeen,
+        isInvisible: users.isInvisible,
         status: users.status,
         theme: users.theme,
         language: users.language,
@@ -91,6 +354,8 @@ export class DatabaseStorage implements IStorage {
         banReason: users.banReason,
         restrictedAt: users.restrictedAt,
         bannedAt: users.bannedAt,
+        restrictedUntil: users.restrictedUntil,
+        bannedUntil: users.bannedUntil,
         isEmailVerified: users.isEmailVerified,
         googleId: users.googleId,
         provider: users.provider,
@@ -121,6 +386,17 @@ export class DatabaseStorage implements IStorage {
     }
   }
 
+  async isUsernameTaken(username: string, exceptUserId?: string): Promise<boolean> {
+    const [user] = await db.select({ id: users.id })
+      .from(users)
+      .where(and(
+        eq(users.username, username),
+        exceptUserId ? ne(users.id, exceptUserId) : undefined,
+      ));
+
+    return !!user;
+  }
+
   async createUser(userData: Partial<User>): Promise<UserProfile> {
     const [user] = await db.insert(users)
       .values({
@@ -138,6 +414,7 @@ export class DatabaseStorage implements IStorage {
         phoneNumber: users.phoneNumber,
         isOnline: users.isOnline,
         lastSeen: users.lastSeen,
+        isInvisible: users.isInvisible,
         status: users.status,
         theme: users.theme,
         language: users.language,
@@ -147,6 +424,8 @@ export class DatabaseStorage implements IStorage {
         banReason: users.banReason,
         restrictedAt: users.restrictedAt,
         bannedAt: users.bannedAt,
+        restrictedUntil: users.restrictedUntil,
+        bannedUntil: users.bannedUntil,
         isEmailVerified: users.isEmailVerified,
         googleId: users.googleId,
         provider: users.provider,
@@ -177,6 +456,7 @@ export class DatabaseStorage implements IStorage {
           phoneNumber: users.phoneNumber,
           isOnline: users.isOnline,
           lastSeen: users.lastSeen,
+          isInvisible: users.isInvisible,
           status: users.status,
           theme: users.theme,
           language: users.language,
@@ -186,6 +466,8 @@ export class DatabaseStorage implements IStorage {
           banReason: users.banReason,
           restrictedAt: users.restrictedAt,
           bannedAt: users.bannedAt,
+          restrictedUntil: users.restrictedUntil,
+          bannedUntil: users.bannedUntil,
           isEmailVerified: users.isEmailVerified,
           googleId: users.googleId,
           provider: users.provider,
@@ -211,6 +493,28 @@ export class DatabaseStorage implements IStorage {
       .where(eq(users.id, userId));
   }
 
+  async resetOnlineStatus(): Promise<void> {
+    await db.update(users)
+      .set({ isOnline: false })
+      .where(eq(users.isOnline, true));
+  }
+
+  async getContactIds(userId: string): Promise<string[]> {
+    // Contacts are everyone we share a direct or group chat with; global rooms are too big to count
+    const contacts = await db.selectDistinct({ userId: chatMembers.userId })
+      .from(chatMembers)
+      .innerJoin(chats, eq(chatMembers.chatId, chats.id))
+      .where(
+        and(
+          isMemberOf(userId),
+          eq(chats.isGlobalRoom, false),
+          ne(chatMembers.userId, userId)
+        )
+      );
+
+    return contacts.map(contact => contact.userId);
+  }
+
   async searchUsers(query: string, excludeUserId: string): Promise<UserProfile[]> {
     const searchPattern = `%${query}%`;
     
@@ -225,6 +529,7 @@ export class DatabaseStorage implements IStorage {
       phoneNumber: users.phoneNumber,
       isOnline: users.isOnline,
       lastSeen: users.lastSeen,
+      isInvisible: users.isInvisible,
       status: users.status,
       theme: users.theme,
       language: users.language,
@@ -234,6 +539,8 @@ export class DatabaseStorage implements IStorage {
       banReason: users.banReason,
       restrictedAt: users.restrictedAt,
       bannedAt: users.bannedAt,
+      restrictedUntil: users.restrictedUntil,
+      bannedUntil: users.bannedUntil,
       isEmailVerified: users.isEmailVerified,
       googleId: users.googleId,
       provider: users.provider,
@@ -269,12 +576,25 @@ export class DatabaseStorage implements IStorage {
   }
 
   // Chat operations
-  async createChat(chatData: InsertChat): Promise<Chat> {
-    const [chat] = await db.insert(chats)
-      .values(chatData)
-      .returning();
-    
-    return chat;
+  // The creator owns a new group chat
+  async createChat(chatData: InsertChat, memberIds: string[]): Promise<Chat> {
+    return await db.transaction(async (tx) => {
+      const [chat] = await tx.insert(chats)
+        .values(chatData)
+        .returning();
+
+      const ownsChat = chat.isGroup && !chat.isGlobalRoom;
+      const uniqueMemberIds = Array.from(new Set(memberIds));
+      if (uniqueMemberIds.length > 0) {
+        await tx.insert(chatMembers).values(uniqueMemberIds.map(userId => ({
+          chatId: chat.id,
+          userId,
+          role: ownsChat && userId === chat.createdBy ? "owner" as const : "member" as const,
+        })));
+      }
+
+      return chat;
+    });
   }
 
   async getUserChats(userId: string): Promise<ChatWithParticipants[]> {
@@ -282,7 +602,7 @@ export class DatabaseStorage implements IStorage {
       .from(chats)
       .where(
         and(
-          sql`${userId} = ANY(${chats.participants})`,
+          isMemberOf(userId),
           eq(chats.isGlobalRoom, false)
         )
       )
@@ -303,6 +623,7 @@ export class DatabaseStorage implements IStorage {
         phoneNumber: users.phoneNumber,
         isOnline: users.isOnline,
         lastSeen: users.lastSeen,
+        isInvisible: users.isInvisible,
         status: users.status,
         theme: users.theme,
         language: users.language,
@@ -312,6 +633,8 @@ export class DatabaseStorage implements IStorage {
         banReason: users.banReason,
         restrictedAt: users.restrictedAt,
         bannedAt: users.bannedAt,
+        restrictedUntil: users.restrictedUntil,
+        bannedUntil: users.bannedUntil,
         isEmailVerified: users.isEmailVerified,
         googleId: users.googleId,
         provider: users.provider,
@@ -319,8 +642,9 @@ export class DatabaseStorage implements IStorage {
         createdAt: users.createdAt,
         updatedAt: users.updatedAt,
       })
-      .from(users)
-      .where(inArray(users.id, chat.participants || []));
+      .from(chatMembers)
+      .innerJoin(users, eq(chatMembers.userId, users.id))
+      .where(eq(chatMembers.chatId, chat.id));
 
       // Get last message
       const [lastMessageData] = await db.select({
@@ -333,9 +657,15 @@ export class DatabaseStorage implements IStorage {
         fileName: messages.fileName,
         duration: messages.duration,
         thumbnailUrl: messages.thumbnailUrl,
+        width: messages.width,
+        height: messages.height,
+        blurhash: messages.blurhash,
+        waveform: messages.waveform,
         replyToId: messages.replyToId,
+        threadRootId: messages.threadRootId,
         readBy: messages.readBy,
         editedAt: messages.editedAt,
+        deletedAt: messages.deletedAt,
         createdAt: messages.createdAt,
         senderUsername: users.username,
         senderFirstName: users.firstName,
@@ -344,13 +674,13 @@ export class DatabaseStorage implements IStorage {
       })
       .from(messages)
       .innerJoin(users, eq(messages.senderId, users.id))
-      .where(eq(messages.chatId, chat.id))
+      .where(and(eq(messages.chatId, chat.id), isNull(messages.threadRootId), isVisibleTo(userId)))
       .orderBy(desc(messages.createdAt))
       .limit(1);
 
       let lastMessage = undefined;
       if (lastMessageData) {
-        lastMessage = {
+        lastMessage = asTombstone({
           id: lastMessageData.id,
           chatId: lastMessageData.chatId,
           senderId: lastMessageData.senderId,
@@ -360,9 +690,15 @@ export class DatabaseStorage implements IStorage {
           fileName: lastMessageData.fileName,
           duration: lastMessageData.duration,
           thumbnailUrl: lastMessageData.thumbnailUrl,
+          width: lastMessageData.width,
+          height: lastMessageData.height,
+          blurhash: lastMessageData.blurhash,
+          waveform: lastMessageData.waveform,
           replyToId: lastMessageData.replyToId,
+          threadRootId: lastMessageData.threadRootId,
           readBy: lastMessageData.readBy,
           editedAt: lastMessageData.editedAt,
+          deletedAt: lastMessageData.deletedAt,
           createdAt: lastMessageData.createdAt,
           sender: {
             id: lastMessageData.senderId,
@@ -371,23 +707,30 @@ export class DatabaseStorage implements IStorage {
             lastName: lastMessageData.senderLastName,
             profileImageUrl: lastMessageData.senderProfileImageUrl,
           }
-        };
+        });
       }
 
-      // Count unread messages
+      // Count messages from others past our read cursor
+      const readCursor = await this.getReadCursor(chat.id, userId);
       const [unreadResult] = await db.select({
-        count: sql<number>`count(*)`
+        count: sql<number>`count(*)::int`
       })
       .from(messages)
       .where(
         and(
           eq(messages.chatId, chat.id),
-          sql`NOT (${userId} = ANY(SELECT jsonb_array_elements_text(${messages.readBy} -> 'userId')))`
+          ne(messages.senderId, userId),
+          // Thread replies have their own unread counts
+          isNull(messages.threadRootId),
+          isNull(messages.deletedAt),
+          isVisibleTo(userId),
+          readCursor ? isAfterMessage(readCursor) : undefined
         )
       );
 
       chatsWithDetails.push({
         ...chat,
+        participants: participantDetails.map(participant => participant.id),
         participantDetails,
         lastMessage,
         unreadCount: unreadResult?.count || 0,
@@ -423,6 +766,7 @@ export class DatabaseStorage implements IStorage {
         phoneNumber: users.phoneNumber,
         isOnline: users.isOnline,
         lastSeen: users.lastSeen,
+        isInvisible: users.isInvisible,
         status: users.status,
         theme: users.theme,
         language: users.language,
@@ -432,6 +776,8 @@ export class DatabaseStorage implements IStorage {
         banReason: users.banReason,
         restrictedAt: users.restrictedAt,
         bannedAt: users.bannedAt,
+        restrictedUntil: users.restrictedUntil,
+        bannedUntil: users.bannedUntil,
         isEmailVerified: users.isEmailVerified,
         googleId: users.googleId,
         provider: users.provider,
@@ -439,13 +785,16 @@ export class DatabaseStorage implements IStorage {
         createdAt: users.createdAt,
         updatedAt: users.updatedAt,
       })
-      .from(users)
-      .where(inArray(users.id, room.participants || []));
+      .from(chatMembers)
+      .innerJoin(users, eq(chatMembers.userId, users.id))
+      .where(eq(chatMembers.chatId, room.id));
 
       roomsWithDetails.push({
         ...room,
+        participants: participantDetails.map(participant => participant.id),
         participantDetails,
         unreadCount: 0, // Global rooms don't track individual unread counts
+        waitlistPosition: await this.getWaitlistPosition(room.id, userId),
       });
     }
 
@@ -472,6 +821,7 @@ export class DatabaseStorage implements IStorage {
         phoneNumber: users.phoneNumber,
         isOnline: users.isOnline,
         lastSeen: users.lastSeen,
+        isInvisible: users.isInvisible,
         status: users.status,
         theme: users.theme,
         language: users.language,
@@ -481,6 +831,8 @@ export class DatabaseStorage implements IStorage {
         banReason: users.banReason,
         restrictedAt: users.restrictedAt,
         bannedAt: users.bannedAt,
+        restrictedUntil: users.restrictedUntil,
+        bannedUntil: users.bannedUntil,
         isEmailVerified: users.isEmailVerified,
         googleId: users.googleId,
         provider: users.provider,
@@ -488,12 +840,15 @@ export class DatabaseStorage implements IStorage {
         createdAt: users.createdAt,
         updatedAt: users.updatedAt,
       })
-      .from(users)
-      .where(inArray(users.id, chat.participants || []));
+      .from(chatMembers)
+      .innerJoin(users, eq(chatMembers.userId, users.id))
+      .where(eq(chatMembers.chatId, chat.id));
 
       return {
         ...chat,
+        participants: participantDetails.map(participant => participant.id),
         participantDetails,
+        roles: chat.isGroup && !chat.isGlobalRoom ? await this.getChatRoles(chat.id) : {},
       };
     } catch (error) {
       console.error('Error getting chat by ID:', error);
@@ -501,36 +856,237 @@ export class DatabaseStorage implements IStorage {
     }
   }
 
-  async addChatParticipant(chatId: string, userId: string): Promise<void> {
-    const [chat] = await db.select()
-      .from(chats)
-      .where(eq(chats.id, chatId));
+  async addChatParticipant(chatId: string, userId: string): Promise<AddMemberResult> {
+    return await db.transaction((tx) => addMemberWithinCapacity(tx, chatId, userId));
+  }
 
-    if (chat && !chat.participants?.includes(userId)) {
-      const updatedParticipants = [...(chat.participants || []), userId];
+  async removeChatParticipant(chatId: string, userId: string): Promise<boolean> {
+    const removed = await db.delete(chatMembers)
+      .where(and(eq(chatMembers.chatId, chatId), eq(chatMembers.userId, userId)))
+      .returning({ userId: chatMembers.userId });
+
+    if (removed.length > 0) {
       await db.update(chats)
-        .set({
-          participants: updatedParticipants,
-          updatedAt: new Date(),
-        })
+        .set({ updatedAt: new Date() })
         .where(eq(chats.id, chatId));
     }
+    return removed.length > 0;
   }
 
-  async removeChatParticipant(chatId: string, userId: string): Promise<void> {
-    const [chat] = await db.select()
-      .from(chats)
-      .where(eq(chats.id, chatId));
+  // Only members above plain membership are listed
+  async getChatRoles(chatId: string): Promise<Record<string, ChatRole>> {
+    const rows = await db.select({ userId: chatMembers.userId, role: chatMembers.role })
+      .from(chatMembers)
+      .where(and(eq(chatMembers.chatId, chatId), ne(chatMembers.role, "member")));
 
-    if (chat && chat.participants?.includes(userId)) {
-      const updatedParticipants = chat.participants.filter(id => id !== userId);
-      await db.update(chats)
-        .set({
-          participants: updatedParticipants,
-          updatedAt: new Date(),
-        })
+    const roles: Record<string, ChatRole> = {};
+    rows.forEach(row => {
+      roles[row.userId] = row.role;
+    });
+
+    return roles;
+  }
+
+  async setChatRole(chatId: string, userId: string, role: ChatRole): Promise<void> {
+    await db.update(chatMembers)
+      .set({ role })
+      .where(and(eq(chatMembers.chatId, chatId), eq(chatMembers.userId, userId)));
+  }
+
+  // The previous owner stays on as an admin
+  async transferChatOwnership(chatId: string, fromUserId: string, toUserId: string): Promise<void> {
+    await db.transaction(async (tx) => {
+      await tx.update(chatMembers)
+        .set({ role: "admin" })
+        .where(and(eq(chatMembers.chatId, chatId), eq(chatMembers.userId, fromUserId)));
+      await tx.update(chatMembers)
+        .set({ role: "owner" })
+        .where(and(eq(chatMembers.chatId, chatId), eq(chatMembers.userId, toUserId)));
+      await tx.update(chats)
+        .set({ updatedAt: new Date() })
         .where(eq(chats.id, chatId));
-    }
+    });
+  }
+
+  async createChatInvite(invite: typeof chatInvites.$inferInsert): Promise<ChatInvite> {
+    const [created] = await db.insert(chatInvites)
+      .values(invite)
+      .returning();
+
+    return created;
+  }
+
+  async getActiveChatInvites(chatId: string): Promise<ChatInvite[]> {
+    return await db.select()
+      .from(chatInvites)
+      .where(and(eq(chatInvites.chatId, chatId), isActiveInvite()))
+      .orderBy(desc(chatInvites.createdAt));
+  }
+
+  async getActiveChatInviteByCode(code: string): Promise<ChatInvite | undefined> {
+    const [invite] = await db.select()
+      .from(chatInvites)
+      .where(and(eq(chatInvites.code, code), isActiveInvite()));
+
+    return invite;
+  }
+
+  async revokeChatInvite(chatId: string, inviteId: string): Promise<boolean> {
+    const revoked = await db.update(chatInvites)
+      .set({ revokedAt: new Date() })
+      .where(and(eq(chatInvites.id, inviteId), eq(chatInvites.chatId, chatId), isNull(chatInvites.revokedAt)))
+      .returning({ id: chatInvites.id });
+
+    return revoked.length > 0;
+  }
+
+  // Uses up one of the invite's uses, then either adds the user to the group or
+  // leaves a request for an admin to approve. Nothing happens if the invite
+  // stopped working in the meantime, and a full group doesn't use it up.
+  async redeemChatInvite(inviteId: string, userId: string): Promise<"joined" | "pending" | "full" | undefined> {
+    return await db.transaction(async (tx) => {
+      const [invite] = await tx.select()
+        .from(chatInvites)
+        .where(and(eq(chatInvites.id, inviteId), isActiveInvite()))
+        .for("update");
+
+      if (!invite) return undefined;
+
+      let status: "joined" | "pending";
+      if (invite.requiresApproval) {
+        await tx.insert(chatJoinRequests)
+          .values({ chatId: invite.chatId, userId, inviteId: invite.id })
+          .onConflictDoNothing();
+        status = "pending";
+      } else {
+        if (await addMemberWithinCapacity(tx, invite.chatId, userId) === "full") return "full";
+        status = "joined";
+      }
+
+      await tx.update(chatInvites)
+        .set({ useCount: sql`${chatInvites.useCount} + 1` })
+        .where(eq(chatInvites.id, invite.id));
+      return status;
+    });
+  }
+
+  async getChatJoinRequests(chatId: string): Promise<ChatJoinRequest[]> {
+    return await db.select({
+      user: {
+        id: users.id,
+        username: users.username,
+        firstName: users.firstName,
+        lastName: users.lastName,
+        profileImageUrl: users.profileImageUrl,
+      },
+      requestedAt: chatJoinRequests.requestedAt,
+    })
+    .from(chatJoinRequests)
+    .innerJoin(users, eq(chatJoinRequests.userId, users.id))
+    .where(eq(chatJoinRequests.chatId, chatId))
+    .orderBy(asc(chatJoinRequests.requestedAt));
+  }
+
+  async hasChatJoinRequest(chatId: string, userId: string): Promise<boolean> {
+    const [request] = await db.select({ userId: chatJoinRequests.userId })
+      .from(chatJoinRequests)
+      .where(and(eq(chatJoinRequests.chatId, chatId), eq(chatJoinRequests.userId, userId)));
+
+    return !!request;
+  }
+
+  async deleteChatJoinRequest(chatId: string, userId: string): Promise<boolean> {
+    const deleted = await db.delete(chatJoinRequests)
+      .where(and(eq(chatJoinRequests.chatId, chatId), eq(chatJoinRequests.userId, userId)))
+      .returning({ userId: chatJoinRequests.userId });
+
+    return deleted.length > 0;
+  }
+
+  // Lowering the limit below the current count keeps everyone already in
+  async setChatCapacity(chatId: string, maxMembers: number): Promise<Chat | undefined> {
+    const [chat] = await db.update(chats)
+      .set({ maxMembers, updatedAt: new Date() })
+      .where(eq(chats.id, chatId))
+      .returning();
+
+    return chat;
+  }
+
+  async joinChatWaitlist(chatId: string, userId: string): Promise<number> {
+    await db.insert(chatWaitlist)
+      .values({ chatId, userId })
+      .onConflictDoNothing();
+
+    return (await this.getWaitlistPosition(chatId, userId))!;
+  }
+
+  async leaveChatWaitlist(chatId: string, userId: string): Promise<boolean> {
+    const removed = await db.delete(chatWaitlist)
+      .where(and(eq(chatWaitlist.chatId, chatId), eq(chatWaitlist.userId, userId)))
+      .returning({ userId: chatWaitlist.userId });
+
+    return removed.length > 0;
+  }
+
+  async getWaitlistPosition(chatId: string, userId: string): Promise<number | undefined> {
+    const [entry] = await db.select({ joinedAt: chatWaitlist.joinedAt })
+      .from(chatWaitlist)
+      .where(and(eq(chatWaitlist.chatId, chatId), eq(chatWaitlist.userId, userId)));
+
+    if (!entry) return undefined;
+
+    const [ahead] = await db.select({ count: sql<number>`count(*)::int` })
+      .from(chatWaitlist)
+      .where(
+        and(
+          eq(chatWaitlist.chatId, chatId),
+          or(
+            lt(chatWaitlist.joinedAt, entry.joinedAt),
+            and(eq(chatWaitlist.joinedAt, entry.joinedAt), lt(chatWaitlist.userId, userId))
+          )
+        )
+      );
+
+    return (ahead?.count || 0) + 1;
+  }
+
+  // Fills any free spots from the front of the waitlist, returning who got in
+  async admitFromWaitlist(chatId: string): Promise<string[]> {
+    return await db.transaction(async (tx) => {
+      const [chat] = await tx.select({ maxMembers: chats.maxMembers })
+        .from(chats)
+        .where(eq(chats.id, chatId))
+        .for("update");
+      if (!chat) return [];
+
+      const [{ count }] = await tx.select({ count: sql<number>`count(*)::int` })
+        .from(chatMembers)
+        .where(eq(chatMembers.chatId, chatId));
+
+      // Banned or restricted users keep their place but are passed over until the sanction ends
+      const next = tx.select({ userId: chatWaitlist.userId })
+        .from(chatWaitlist)
+        .innerJoin(users, eq(users.id, chatWaitlist.userId))
+        .where(and(eq(chatWaitlist.chatId, chatId), isUnsanctioned(new Date())))
+        .orderBy(asc(chatWaitlist.joinedAt), asc(chatWaitlist.userId));
+      const admitted = chat.maxMembers === null
+        ? await next
+        : chat.maxMembers > count ? await next.limit(chat.maxMembers - count) : [];
+      if (admitted.length === 0) return [];
+
+      const admittedIds = admitted.map(entry => entry.userId);
+      await tx.insert(chatMembers)
+        .values(admittedIds.map(userId => ({ chatId, userId })))
+        .onConflictDoNothing();
+      await tx.delete(chatWaitlist)
+        .where(and(eq(chatWaitlist.chatId, chatId), inArray(chatWaitlist.userId, admittedIds)));
+      await tx.update(chats)
+        .set({ updatedAt: new Date() })
+        .where(eq(chats.id, chatId));
+
+      return admittedIds;
+    });
   }
 
   // Message operations
@@ -547,7 +1103,25 @@ export class DatabaseStorage implements IStorage {
     return message;
   }
 
-  async getChatMessages(chatId: string, userId: string, limit = 50): Promise<MessageWithSender[]> {
+  // The chat's main timeline, or the replies in one of its threads
+  async getChatMessages(chatId: string, userId: string, limit = 50, cursor: MessageCursor = {}, threadRootId?: string): Promise<MessageWithSender[]> {
+    const conditions = [
+      eq(messages.chatId, chatId),
+      threadRootId ? eq(messages.threadRootId, threadRootId) : isNull(messages.threadRootId),
+      isVisibleTo(userId),
+    ];
+
+    if (cursor.before) {
+      conditions.push(isBeforeMessage(cursor.before));
+    }
+    if (cursor.after) {
+      conditions.push(isAfterMessage(cursor.after));
+    }
+
+    // Paging forward reads the oldest messages after the cursor, everything
+    // else reads the newest ones
+    const forward = !!cursor.after && !cursor.before;
+
     const chatMessages = await db.select({
       id: messages.id,
       chatId: messages.chatId,
@@ -558,9 +1132,15 @@ export class DatabaseStorage implements IStorage {
       fileName: messages.fileName,
       duration: messages.duration,
       thumbnailUrl: messages.thumbnailUrl,
+      width: messages.width,
+      height: messages.height,
+      blurhash: messages.blurhash,
+      waveform: messages.waveform,
       replyToId: messages.replyToId,
+      threadRootId: messages.threadRootId,
       readBy: messages.readBy,
       editedAt: messages.editedAt,
+      deletedAt: messages.deletedAt,
       createdAt: messages.createdAt,
       senderUsername: users.username,
       senderFirstName: users.firstName,
@@ -570,11 +1150,318 @@ export class DatabaseStorage implements IStorage {
     })
     .from(messages)
     .innerJoin(users, eq(messages.senderId, users.id))
-    .where(eq(messages.chatId, chatId))
-    .orderBy(desc(messages.createdAt))
+    .where(and(...conditions))
+    .orderBy(
+      forward ? asc(messages.createdAt) : desc(messages.createdAt),
+      forward ? asc(messages.id) : desc(messages.id)
+    )
     .limit(limit);
 
-    return chatMessages.reverse().map(msg => ({
+    if (!forward) chatMessages.reverse();
+
+    const [cursors, participantIds, reactions, quoted, threads] = await Promise.all([
+      this.getReceiptCursors(chatId),
+      this.getReceiptParticipants(chatId),
+      this.getMessageReactions(chatMessages.map(msg => msg.id), userId),
+      this.getQuotedMessages(chatMessages.map(msg => msg.replyToId)),
+      threadRootId ? new Map<string, ThreadSummary>() : this.getThreadSummaries(chatMessages.map(msg => msg.id), userId),
+    ]);
+    const viewerCursor = cursors.find(cursor => cursor.userId === userId);
+    const otherCursors = cursors.filter(cursor => cursor.userId !== userId);
+    const recipientIds = participantIds?.filter(id => id !== userId);
+
+    return chatMessages.map(msg => {
+      const isOwn = msg.senderId === userId;
+      const receipts = isOwn && recipientIds ? buildReceipts(msg, recipientIds, cursors) : undefined;
+
+      return asTombstone({
+        id: msg.id,
+        chatId: msg.chatId,
+        senderId: msg.senderId,
+        content: msg.content,
+        messageType: msg.messageType,
+        fileUrl: msg.fileUrl,
+        fileName: msg.fileName,
+        duration: msg.duration,
+        thumbnailUrl: msg.thumbnailUrl,
+        width: msg.width,
+        height: msg.height,
+        blurhash: msg.blurhash,
+        waveform: msg.waveform,
+        replyToId: msg.replyToId,
+        threadRootId: msg.threadRootId,
+        readBy: msg.readBy,
+        editedAt: msg.editedAt,
+        deletedAt: msg.deletedAt,
+        createdAt: msg.createdAt,
+        sender: {
+          id: msg.senderId,
+          email: msg.senderEmail,
+          username: msg.senderUsername,
+          firstName: msg.senderFirstName,
+          lastName: msg.senderLastName,
+          profileImageUrl: msg.senderProfileImageUrl,
+        },
+        // Our own messages count as read once anyone else has read them
+        isRead: isOwn
+          ? otherCursors.some(cursor => !!cursor.read && isAtOrBefore(msg, cursor.read))
+          : !!viewerCursor?.read && isAtOrBefore(msg, viewerCursor.read),
+        deliveryStatus: receipts && getDeliveryStatus(receipts),
+        receipts,
+        reactions: reactions.get(msg.id) || [],
+        replyTo: msg.replyToId ? quoted.get(msg.replyToId) : undefined,
+        thread: threads.get(msg.id),
+      });
+    });
+  }
+
+  // The messages being quoted by replies, with just enough to show a preview
+  private async getQuotedMessages(messageIds: (string | null)[]): Promise<Map<string, MessageWithSender>> {
+    const ids = Array.from(new Set(messageIds.filter((id): id is string => !!id)));
+    if (ids.length === 0) return new Map();
+
+    const rows = await db.select({
+      id: messages.id,
+      chatId: messages.chatId,
+      senderId: messages.senderId,
+      content: messages.content,
+      messageType: messages.messageType,
+      fileName: messages.fileName,
+      duration: messages.duration,
+      thumbnailUrl: messages.thumbnailUrl,
+      threadRootId: messages.threadRootId,
+      deletedAt: messages.deletedAt,
+      createdAt: messages.createdAt,
+      senderUsername: users.username,
+      senderFirstName: users.firstName,
+      senderLastName: users.lastName,
+      senderProfileImageUrl: users.profileImageUrl,
+    })
+    .from(messages)
+    .innerJoin(users, eq(messages.senderId, users.id))
+    .where(inArray(messages.id, ids));
+
+    return new Map(rows.map(row => [row.id, asTombstone({
+      id: row.id,
+      chatId: row.chatId,
+      senderId: row.senderId,
+      content: row.content,
+      messageType: row.messageType,
+      fileName: row.fileName,
+      duration: row.duration,
+      thumbnailUrl: row.thumbnailUrl,
+      threadRootId: row.threadRootId,
+      deletedAt: row.deletedAt,
+      createdAt: row.createdAt,
+      sender: {
+        id: row.senderId,
+        username: row.senderUsername,
+        firstName: row.senderFirstName,
+        lastName: row.senderLastName,
+        profileImageUrl: row.senderProfileImageUrl,
+      },
+    })]));
+  }
+
+  private async getThreadSummaries(rootMessageIds: string[], userId: string): Promise<Map<string, ThreadSummary>> {
+    if (rootMessageIds.length === 0) return new Map();
+
+    const rows = await db.select({
+      rootMessageId: messages.threadRootId,
+      replyCount: sql<number>`count(*)::int`,
+      lastReplyAt: sql<Date>`max(${messages.createdAt})`,
+      unreadCount: sql<number>`(count(*) filter (where ${messages.senderId} <> ${userId} and (${threadReads.lastReadAt} is null or ${messages.createdAt} > ${threadReads.lastReadAt})))::int`,
+    })
+    .from(messages)
+    .leftJoin(threadReads, and(eq(threadReads.rootMessageId, messages.threadRootId), eq(threadReads.userId, userId)))
+    .where(inArray(messages.threadRootId, rootMessageIds))
+    .groupBy(messages.threadRootId, threadReads.lastReadAt);
+
+    return new Map(rows.map(({ rootMessageId, ...summary }) => [rootMessageId!, summary]));
+  }
+
+  private async getReceiptCursors(chatId: string): Promise<ReceiptCursor[]> {
+    const rows = await db.select()
+      .from(chatReads)
+      .where(eq(chatReads.chatId, chatId));
+
+    const cursorIds = rows
+      .flatMap(row => [row.lastReadMessageId, row.lastDeliveredMessageId])
+      .filter((id): id is string => !!id);
+    const points = cursorIds.length > 0
+      ? await db.select({ id: messages.id, createdAt: messages.createdAt })
+          .from(messages)
+          .where(inArray(messages.id, cursorIds))
+      : [];
+    const pointsById = new Map(points.map(point => [point.id, point]));
+
+    return rows.map(row => ({
+      userId: row.userId,
+      read: row.lastReadMessageId ? pointsById.get(row.lastReadMessageId) : undefined,
+      readAt: row.readAt,
+      delivered: row.lastDeliveredMessageId ? pointsById.get(row.lastDeliveredMessageId) : undefined,
+      deliveredAt: row.deliveredAt,
+    }));
+  }
+
+  // Participants who get per-recipient receipts; global rooms are too large to track
+  private async getReceiptParticipants(chatId: string): Promise<string[] | undefined> {
+    const [chat] = await db.select({ isGlobalRoom: chats.isGlobalRoom })
+      .from(chats)
+      .where(eq(chats.id, chatId));
+
+    if (!chat || chat.isGlobalRoom) return undefined;
+    return this.getChatMemberIds(chatId);
+  }
+
+  private async getChatMemberIds(chatId: string): Promise<string[]> {
+    const members = await db.select({ userId: chatMembers.userId })
+      .from(chatMembers)
+      .where(eq(chatMembers.chatId, chatId));
+
+    return members.map(member => member.userId);
+  }
+
+  private async getReadCursor(chatId: string, userId: string): Promise<TimelinePoint | undefined> {
+    const [read] = await db.select({
+      id: messages.id,
+      createdAt: messages.createdAt,
+    })
+    .from(chatReads)
+    .innerJoin(messages, eq(chatReads.lastReadMessageId, messages.id))
+    .where(and(eq(chatReads.chatId, chatId), eq(chatReads.userId, userId)));
+
+    return read;
+  }
+
+  private async setReadCursor(chatId: string, userId: string, lastReadMessageId: string | null): Promise<ChatRead> {
+    const readAt = new Date();
+    const [read] = await db.insert(chatReads)
+      .values({ chatId, userId, lastReadMessageId, readAt })
+      .onConflictDoUpdate({
+        target: [chatReads.chatId, chatReads.userId],
+        set: { lastReadMessageId, readAt },
+      })
+      .returning();
+
+    await db.update(chatMembers)
+      .set({ lastReadAt: readAt })
+      .where(and(eq(chatMembers.chatId, chatId), eq(chatMembers.userId, userId)));
+
+    return read;
+  }
+
+  async markMessageAsRead(messageId: string, userId: string): Promise<void> {
+    const message = await this.getMessageById(messageId);
+
+    if (!message) return;
+
+    // The read cursor only ever moves forward
+    const current = await this.getReadCursor(message.chatId, userId);
+    if (current && isAtOrBefore(message, current)) return;
+
+    await this.setReadCursor(message.chatId, userId, message.id);
+  }
+
+  async markChatMessagesAsRead(chatId: string, userId: string): Promise<ChatRead | undefined> {
+    const [latest] = await db.select({ id: messages.id })
+      .from(messages)
+      .where(and(eq(messages.chatId, chatId), isNull(messages.threadRootId)))
+      .orderBy(desc(messages.createdAt), desc(messages.id))
+      .limit(1);
+
+    return this.setReadCursor(chatId, userId, latest?.id || null);
+  }
+
+  async markMessagesDelivered(userId: string, chatId?: string): Promise<DeliveredCursor[]> {
+    // Move the delivery cursor to the newest message from someone else in each
+    // of the user's chats, returning only the cursors that actually moved
+    const result = await db.execute(sql`
+      INSERT INTO chat_reads (chat_id, user_id, last_delivered_message_id, delivered_at)
+      SELECT DISTINCT ON (m.chat_id) m.chat_id, ${userId}::uuid, m.id, now()
+      FROM messages m
+      JOIN chats c ON c.id = m.chat_id
+      JOIN chat_members cm ON cm.chat_id = m.chat_id AND cm.user_id = ${userId}::uuid
+      WHERE c.is_global_room = false
+        AND m.sender_id <> ${userId}::uuid
+        ${chatId ? sql`AND m.chat_id = ${chatId}::uuid` : sql``}
+      ORDER BY m.chat_id, m.created_at DESC, m.id DESC
+      ON CONFLICT (chat_id, user_id) DO UPDATE
+        SET last_delivered_message_id = EXCLUDED.last_delivered_message_id,
+            delivered_at = EXCLUDED.delivered_at
+        WHERE chat_reads.last_delivered_message_id IS DISTINCT FROM EXCLUDED.last_delivered_message_id
+      RETURNING chat_id AS "chatId", last_delivered_message_id AS "messageId", delivered_at AS "deliveredAt"
+    `);
+
+    const moved = result.rows as { chatId: string; messageId: string; deliveredAt: Date }[];
+    if (moved.length === 0) return [];
+
+    const members = await db.select({ chatId: chatMembers.chatId, userId: chatMembers.userId })
+      .from(chatMembers)
+      .where(inArray(chatMembers.chatId, moved.map(cursor => cursor.chatId)));
+
+    return moved.map(cursor => ({
+      ...cursor,
+      participants: members.filter(member => member.chatId === cursor.chatId).map(member => member.userId),
+    }));
+  }
+
+  async getMessageById(messageId: string): Promise<Message | undefined> {
+    try {
+      const [message] = await db.select()
+        .from(messages)
+        .where(eq(messages.id, messageId));
+      
+      return message || undefined;
+    } catch (error) {
+      console.error('Error getting message by ID:', error);
+      return undefined;
+    }
+  }
+
+  async getMessageWithSender(messageId: string): Promise<MessageWithSender | undefined> {
+    const [msg] = await db.select({
+      id: messages.id,
+      chatId: messages.chatId,
+      senderId: messages.senderId,
+      content: messages.content,
+      messageType: messages.messageType,
+      fileUrl: messages.fileUrl,
+      fileName: messages.fileName,
+      duration: messages.duration,
+      thumbnailUrl: messages.thumbnailUrl,
+      width: messages.width,
+      height: messages.height,
+      blurhash: messages.blurhash,
+      waveform: messages.waveform,
+      replyToId: messages.replyToId,
+      threadRootId: messages.threadRootId,
+      readBy: messages.readBy,
+      editedAt: messages.editedAt,
+      deletedAt: messages.deletedAt,
+      createdAt: messages.createdAt,
+      senderUsername: users.username,
+      senderFirstName: users.firstName,
+      senderLastName: users.lastName,
+      senderProfileImageUrl: users.profileImageUrl,
+      senderEmail: users.email,
+    })
+    .from(messages)
+    .innerJoin(users, eq(messages.senderId, users.id))
+    .where(eq(messages.id, messageId));
+
+    if (!msg) return undefined;
+
+    const [cursors, participantIds, quoted] = await Promise.all([
+      this.getReceiptCursors(msg.chatId),
+      this.getReceiptParticipants(msg.chatId),
+      this.getQuotedMessages([msg.replyToId]),
+    ]);
+    const receipts = participantIds
+      ? buildReceipts(msg, participantIds.filter(id => id !== msg.senderId), cursors)
+      : undefined;
+
+    return asTombstone({
       id: msg.id,
       chatId: msg.chatId,
       senderId: msg.senderId,
@@ -584,9 +1471,15 @@ export class DatabaseStorage implements IStorage {
       fileName: msg.fileName,
       duration: msg.duration,
       thumbnailUrl: msg.thumbnailUrl,
+      width: msg.width,
+      height: msg.height,
+      blurhash: msg.blurhash,
+      waveform: msg.waveform,
       replyToId: msg.replyToId,
+      threadRootId: msg.threadRootId,
       readBy: msg.readBy,
       editedAt: msg.editedAt,
+      deletedAt: msg.deletedAt,
       createdAt: msg.createdAt,
       sender: {
         id: msg.senderId,
@@ -596,87 +1489,290 @@ export class DatabaseStorage implements IStorage {
         lastName: msg.senderLastName,
         profileImageUrl: msg.senderProfileImageUrl,
       },
-      isRead: Array.isArray(msg.readBy) 
-        ? msg.readBy.some((read: any) => read.userId === userId) 
-        : false,
-    }));
+      deliveryStatus: receipts && getDeliveryStatus(receipts),
+      receipts,
+      replyTo: msg.replyToId ? quoted.get(msg.replyToId) : undefined,
+    });
   }
 
-  async markMessageAsRead(messageId: string, userId: string): Promise<void> {
-    const [message] = await db.select()
-      .from(messages)
-      .where(eq(messages.id, messageId));
-
-    if (message) {
-      const readBy = Array.isArray(message.readBy) ? message.readBy : [];
-      const hasRead = readBy.some((read: any) => read.userId === userId);
+  async updateMessage(messageId: string, updates: Partial<Message>): Promise<Message | undefined> {
+    try {
+      const [message] = await db.update(messages)
+        .set(updates)
+        .where(eq(messages.id, messageId))
+        .returning();
       
-      if (!hasRead) {
-        const updatedReadBy = [...readBy, { userId, readAt: new Date() }];
-        await db.update(messages)
-          .set({ readBy: updatedReadBy })
-          .where(eq(messages.id, messageId));
-      }
+      return message || undefined;
+    } catch (error) {
+      console.error('Error updating message:', error);
+      return undefined;
     }
   }
 
-  async markChatMessagesAsRead(chatId: string, userId: string): Promise<void> {
-    // This would be complex in SQL, so we'll handle it differently
-    // For now, we'll mark messages as read one by one
-    const chatMessages = await db.select({ id: messages.id, readBy: messages.readBy })
+  async editMessage(messageId: string, editorId: string, content: string): Promise<Message | undefined> {
+    return db.transaction(async (tx) => {
+      // Lock the message so concurrent edits each keep the text they replaced
+      const [current] = await tx.select({
+        content: messages.content,
+        createdAt: messages.createdAt,
+        editedAt: messages.editedAt,
+      })
       .from(messages)
-      .where(eq(messages.chatId, chatId));
+      .where(eq(messages.id, messageId))
+      .for("update");
+
+      if (!current) return undefined;
+
+      const editedAt = new Date();
+      const [revision] = await tx.insert(messageRevisions).values({
+        messageId,
+        content: current.content,
+        postedAt: current.editedAt || current.createdAt || editedAt,
+        replacedAt: editedAt,
+        replacedBy: editorId,
+      }).returning({ id: messageRevisions.id });
+      // Rolls the edit back rather than lose the text it replaced
+      if (!revision) {
+        throw new Error(`Failed to record a revision for message ${messageId}`);
+      }
 
-    for (const message of chatMessages) {
-      const readBy = Array.isArray(message.readBy) ? message.readBy : [];
-      const hasRead = readBy.some((read: any) => read.userId === userId);
-      
-      if (!hasRead) {
-        const updatedReadBy = [...readBy, { userId, readAt: new Date() }];
-        await db.update(messages)
-          .set({ readBy: updatedReadBy })
-          .where(eq(messages.id, message.id));
+      const [message] = await tx.update(messages)
+        .set({ content, editedAt })
+        .where(eq(messages.id, messageId))
+        .returning();
+
+      return message;
+    });
+  }
+
+  async getMessageRevisions(messageId: string): Promise<MessageRevision[]> {
+    return db.select()
+      .from(messageRevisions)
+      .where(eq(messageRevisions.messageId, messageId))
+      .orderBy(asc(messageRevisions.replacedAt));
+  }
+
+  async softDeleteMessage(messageId: string, deletedBy: string, { keepContent = false } = {}): Promise<Message | undefined> {
+    return db.transaction(async (tx) => {
+      const redacted = keepContent ? {} : {
+        content: null,
+        fileUrl: null,
+        fileName: null,
+        duration: null,
+        thumbnailUrl: null,
+        width: null,
+        height: null,
+        blurhash: null,
+        waveform: null,
+      };
+
+      const [message] = await tx.update(messages)
+        .set({ ...redacted, deletedAt: new Date(), deletedBy })
+        .where(and(eq(messages.id, messageId), isNull(messages.deletedAt)))
+        .returning();
+
+      if (message && !keepContent) {
+        await tx.delete(messageRevisions).where(eq(messageRevisions.messageId, messageId));
       }
-    }
+      // Nobody can react to a message that isn't there any more
+      if (message) {
+        await tx.delete(messageReactions).where(eq(messageReactions.messageId, messageId));
+      }
+
+      return message;
+    });
   }
 
-  async getMessageById(messageId: string): Promise<Message | undefined> {
-    try {
-      const [message] = await db.select()
-        .from(messages)
-        .where(eq(messages.id, messageId));
-      
-      return message || undefined;
-    } catch (error) {
-      console.error('Error getting message by ID:', error);
-      return undefined;
+  async hideMessage(messageId: string, userId: string): Promise<void> {
+    await db.insert(messageHides)
+      .values({ messageId, userId })
+      .onConflictDoNothing();
+  }
+
+  // Thread operations
+  async getThread(rootMessageId: string, userId: string): Promise<MessageThread | undefined> {
+    const root = await this.getMessageWithSender(rootMessageId);
+    // Threads hang off main timeline messages only
+    if (!root || root.threadRootId) return undefined;
+
+    const [replies, reactions, threads] = await Promise.all([
+      this.getChatMessages(root.chatId, userId, THREAD_REPLY_LIMIT, {}, rootMessageId),
+      this.getMessageReactions([rootMessageId], userId),
+      this.getThreadSummaries([rootMessageId], userId),
+    ]);
+
+    return {
+      root: { ...root, reactions: reactions.get(rootMessageId) || [], thread: threads.get(rootMessageId) },
+      replies,
+    };
+  }
+
+  async markThreadRead(rootMessageId: string, userId: string): Promise<void> {
+    const lastReadAt = new Date();
+    await db.insert(threadReads)
+      .values({ rootMessageId, userId, lastReadAt })
+      .onConflictDoUpdate({
+        target: [threadReads.rootMessageId, threadReads.userId],
+        set: { lastReadAt },
+      });
+  }
+
+  async searchMessages(userId: string, filters: MessageSearchFilters): Promise<MessageSearchResult[]> {
+    const query = sql`websearch_to_tsquery(${MESSAGE_SEARCH_CONFIG}::regconfig, ${filters.q})`;
+    const conditions = [
+      sql`${messages.searchVector} @@ ${query}`,
+      // Only chats the user is in, global rooms included once joined
+      isMemberOf(userId),
+      isNull(messages.deletedAt),
+      isVisibleTo(userId),
+    ];
+
+    if (filters.chatId) conditions.push(eq(messages.chatId, filters.chatId));
+    if (filters.senderId) conditions.push(eq(messages.senderId, filters.senderId));
+    if (filters.from) conditions.push(gte(messages.createdAt, filters.from));
+    if (filters.to) conditions.push(lte(messages.createdAt, filters.to));
+
+    const results = await db.select({
+      id: messages.id,
+      chatId: messages.chatId,
+      chatName: chats.name,
+      threadRootId: messages.threadRootId,
+      snippet: sql<string>`ts_headline(${MESSAGE_SEARCH_CONFIG}::regconfig, ${messages.content}, ${query}, ${SNIPPET_OPTIONS})`,
+      createdAt: messages.createdAt,
+      senderId: users.id,
+      senderUsername: users.username,
+      senderFirstName: users.firstName,
+      senderLastName: users.lastName,
+      senderProfileImageUrl: users.profileImageUrl,
+    })
+    .from(messages)
+    .innerJoin(chats, eq(messages.chatId, chats.id))
+    .innerJoin(users, eq(messages.senderId, users.id))
+    .where(and(...conditions))
+    .orderBy(desc(sql`ts_rank(${messages.searchVector}, ${query})`), desc(messages.createdAt))
+    .limit(filters.limit)
+    .offset(filters.offset);
+
+    return results.map((result) => ({
+      id: result.id,
+      chatId: result.chatId,
+      chatName: result.chatName,
+      threadRootId: result.threadRootId,
+      snippet: result.snippet,
+      createdAt: result.createdAt,
+      sender: {
+        id: result.senderId,
+        username: result.senderUsername,
+        firstName: result.senderFirstName,
+        lastName: result.senderLastName,
+        profileImageUrl: result.senderProfileImageUrl,
+      },
+    }));
+  }
+
+  // Reaction operations
+  async addReaction(messageId: string, userId: string, emoji: string): Promise<void> {
+    await db.insert(messageReactions)
+      .values({ messageId, userId, emoji })
+      .onConflictDoNothing();
+  }
+
+  async removeReaction(messageId: string, userId: string, emoji: string): Promise<void> {
+    await db.delete(messageReactions)
+      .where(and(
+        eq(messageReactions.messageId, messageId),
+        eq(messageReactions.userId, userId),
+        eq(messageReactions.emoji, emoji)
+      ));
+  }
+
+  async getMessageReactions(messageIds: string[], userId: string): Promise<Map<string, MessageReaction[]>> {
+    const reactionsByMessage = new Map<string, MessageReaction[]>();
+    if (messageIds.length === 0) return reactionsByMessage;
+
+    const rows = await db.select({
+      messageId: messageReactions.messageId,
+      emoji: messageReactions.emoji,
+      count: sql<number>`count(*)::int`,
+      reacted: sql<boolean>`bool_or(${messageReactions.userId} = ${userId})`,
+    })
+    .from(messageReactions)
+    .where(inArray(messageReactions.messageId, messageIds))
+    .groupBy(messageReactions.messageId, messageReactions.emoji)
+    .orderBy(sql`min(${messageReactions.createdAt})`);
+
+    for (const { messageId, ...reaction } of rows) {
+      const reactions = reactionsByMessage.get(messageId) || [];
+      reactions.push(reaction);
+      reactionsByMessage.set(messageId, reactions);
     }
+    return reactionsByMessage;
   }
 
-  async updateMessage(messageId: string, updates: Partial<Message>): Promise<Message | undefined> {
+  // Attachment operations
+  async createAttachment(attachmentData: InsertAttachment): Promise<Attachment> {
+    const [attachment] = await db.insert(attachments)
+      .values(attachmentData)
+      .returning();
+
+    return attachment;
+  }
+
+  async getAttachment(attachmentId: string): Promise<Attachment | undefined> {
     try {
-      const [message] = await db.update(messages)
-        .set(updates)
-        .where(eq(messages.id, messageId))
-        .returning();
-      
-      return message || undefined;
+      const [attachment] = await db.select()
+        .from(attachments)
+        .where(eq(attachments.id, attachmentId));
+
+      return attachment || undefined;
     } catch (error) {
-      console.error('Error updating message:', error);
+      console.error('Error getting attachment:', error);
       return undefined;
     }
   }
 
+  // Finds the attachment a stored file belongs to, whether it is the file itself or its thumbnail
+  async getAttachmentByStorageKey(storageKey: string): Promise<Attachment | undefined> {
+    const [attachment] = await db.select()
+      .from(attachments)
+      .where(or(eq(attachments.storageKey, storageKey), eq(attachments.thumbnailStorageKey, storageKey)));
+
+    return attachment || undefined;
+  }
+
+  async updateAttachment(attachmentId: string, updates: Partial<Attachment>): Promise<Attachment | undefined> {
+    const [attachment] = await db.update(attachments)
+      .set(updates)
+      .where(eq(attachments.id, attachmentId))
+      .returning();
+
+    return attachment || undefined;
+  }
+
+  // Claims an attachment for a message; returns nothing if it was already sent with another one
+  async attachToMessage(attachmentId: string, messageId: string): Promise<Attachment | undefined> {
+    const [claimed] = await db.update(attachments)
+      .set({ messageId })
+      .where(and(eq(attachments.id, attachmentId), isNull(attachments.messageId)))
+      .returning();
+
+    return claimed || undefined;
+  }
+
   // Direct message helper
   async getOrCreateDirectChat(userId1: string, userId2: string): Promise<Chat> {
-    // Find existing direct chat between these users
+    // Find existing direct chat between these users: both of them and no one else
+    const pairChats = db.select({ chatId: chatMembers.chatId })
+      .from(chatMembers)
+      .groupBy(chatMembers.chatId)
+      .having(sql`count(*) = 2 and bool_and(${chatMembers.userId} in (${userId1}, ${userId2}))`);
     const [existingChat] = await db.select()
       .from(chats)
       .where(
         and(
           eq(chats.isGroup, false),
           eq(chats.isGlobalRoom, false),
-          sql`${chats.participants} @> ${JSON.stringify([userId1, userId2])} AND jsonb_array_length(${chats.participants}) = 2`
+          inArray(chats.id, pairChats)
         )
       );
 
@@ -691,8 +1787,7 @@ export class DatabaseStorage implements IStorage {
       maxMembers: 2,
       isPublic: false,
       createdBy: userId1,
-      participants: [userId1, userId2]
-    });
+    }, [userId1, userId2]);
 
     return newChat;
   }
@@ -710,6 +1805,7 @@ export class DatabaseStorage implements IStorage {
       phoneNumber: users.phoneNumber,
       isOnline: users.isOnline,
       lastSeen: users.lastSeen,
+      isInvisible: users.isInvisible,
       status: users.status,
       theme: users.theme,
       language: users.language,
@@ -719,6 +1815,8 @@ export class DatabaseStorage implements IStorage {
       banReason: users.banReason,
       restrictedAt: users.restrictedAt,
       bannedAt: users.bannedAt,
+      restrictedUntil: users.restrictedUntil,
+      bannedUntil: users.bannedUntil,
       isEmailVerified: users.isEmailVerified,
       googleId: users.googleId,
       provider: users.provider,
@@ -751,11 +1849,13 @@ export class DatabaseStorage implements IStorage {
         lastName: users.lastName,
         profileImageUrl: users.profileImageUrl,
       })
-      .from(users)
-      .where(inArray(users.id, chat.participants || []));
+      .from(chatMembers)
+      .innerJoin(users, eq(chatMembers.userId, users.id))
+      .where(eq(chatMembers.chatId, chat.id));
 
       chatsWithDetails.push({
         ...chat,
+        participants: participantDetails.map(participant => participant.id),
         participantDetails,
       });
     }
@@ -774,9 +1874,16 @@ export class DatabaseStorage implements IStorage {
       fileName: messages.fileName,
       duration: messages.duration,
       thumbnailUrl: messages.thumbnailUrl,
+      width: messages.width,
+      height: messages.height,
+      blurhash: messages.blurhash,
+      waveform: messages.waveform,
       replyToId: messages.replyToId,
+      threadRootId: messages.threadRootId,
       readBy: messages.readBy,
       editedAt: messages.editedAt,
+      deletedAt: messages.deletedAt,
+      deletedBy: messages.deletedBy,
       createdAt: messages.createdAt,
       senderUsername: users.username,
       senderFirstName: users.firstName,
@@ -803,9 +1910,16 @@ export class DatabaseStorage implements IStorage {
       fileName: msg.fileName,
       duration: msg.duration,
       thumbnailUrl: msg.thumbnailUrl,
+      width: msg.width,
+      height: msg.height,
+      blurhash: msg.blurhash,
+      waveform: msg.waveform,
       replyToId: msg.replyToId,
+      threadRootId: msg.threadRootId,
       readBy: msg.readBy,
       editedAt: msg.editedAt,
+      deletedAt: msg.deletedAt,
+      deletedBy: msg.deletedBy,
       createdAt: msg.createdAt,
       sender: {
         id: msg.senderId,
@@ -841,16 +1955,7 @@ export class DatabaseStorage implements IStorage {
     // Delete user's messages
     await db.delete(messages).where(eq(messages.senderId, userId));
     
-    // Remove user from chat participants
-    const userChats = await db.select().from(chats).where(sql`${userId} = ANY(${chats.participants})`);
-    for (const chat of userChats) {
-      const updatedParticipants = (chat.participants || []).filter(id => id !== userId);
-      await db.update(chats)
-        .set({ participants: updatedParticipants })
-        .where(eq(chats.id, chat.id));
-    }
-    
-    // Delete user
+    // Delete user; their chat memberships go with them
     await db.delete(users).where(eq(users.id, userId));
   }
 
@@ -863,10 +1968,28 @@ export class DatabaseStorage implements IStorage {
   }
 
   async deleteMessage(messageId: string): Promise<void> {
+    const message = await this.getMessageById(messageId);
+
+    if (message) {
+      // Step read cursors back to the previous message so readers don't lose their place
+      const [previous] = await db.select({ id: messages.id })
+        .from(messages)
+        .where(and(eq(messages.chatId, message.chatId), isBeforeMessage(message)))
+        .orderBy(desc(messages.createdAt), desc(messages.id))
+        .limit(1);
+
+      await db.update(chatReads)
+        .set({ lastReadMessageId: previous?.id || null })
+        .where(eq(chatReads.lastReadMessageId, messageId));
+      await db.update(chatReads)
+        .set({ lastDeliveredMessageId: previous?.id || null })
+        .where(eq(chatReads.lastDeliveredMessageId, messageId));
+    }
+
     await db.delete(messages).where(eq(messages.id, messageId));
   }
 
-  async updateUserRole(userId: string, role: 'user' | 'admin' | 'moderator'): Promise<UserProfile | undefined> {
+  async updateUserRole(userId: string, role: UserRole): Promise<UserProfile | undefined> {
     const [user] = await db.update(users)
       .set({ role })
       .where(eq(users.id, userId))
@@ -881,6 +2004,7 @@ export class DatabaseStorage implements IStorage {
         phoneNumber: users.phoneNumber,
         isOnline: users.isOnline,
         lastSeen: users.lastSeen,
+        isInvisible: users.isInvisible,
         status: users.status,
         theme: users.theme,
         language: users.language,
@@ -890,6 +2014,8 @@ export class DatabaseStorage implements IStorage {
         banReason: users.banReason,
         restrictedAt: users.restrictedAt,
         bannedAt: users.bannedAt,
+        restrictedUntil: users.restrictedUntil,
+        bannedUntil: users.bannedUntil,
         isEmailVerified: users.isEmailVerified,
         googleId: users.googleId,
         provider: users.provider,
@@ -900,6 +2026,256 @@ export class DatabaseStorage implements IStorage {
     
     return user || undefined;
   }
+
+  // Signs the user out everywhere
+  async revokeUserTokens(userId: string): Promise<void> {
+    await db.update(users)
+      .set({ tokensRevokedAt: new Date() })
+      .where(eq(users.id, userId));
+  }
+
+  async getTokensRevokedAt(userId: string): Promise<Date | null | undefined> {
+    const [user] = await db.select({ tokensRevokedAt: users.tokensRevokedAt })
+      .from(users)
+      .where(eq(users.id, userId));
+
+    return user?.tokensRevokedAt;
+  }
+
+  async liftExpiredSanctions(now: Date): Promise<LiftedSanction[]> {
+    const lifted = { id: users.id, email: users.email, username: users.username };
+
+    const unbanned = await db.update(users)
+      .set({ isBanned: false, banReason: null, bannedAt: null, bannedUntil: null })
+      .where(and(eq(users.isBanned, true), lte(users.bannedUntil, now)))
+      .returning(lifted);
+    const unrestricted = await db.update(users)
+      .set({ isRestricted: false, restrictionReason: null, restrictedAt: null, restrictedUntil: null })
+      .where(and(eq(users.isRestricted, true), lte(users.restrictedUntil, now)))
+      .returning(lifted);
+
+    return [
+      ...unbanned.map(user => ({ userId: user.id, email: user.email, username: user.username, sanction: "ban" as const })),
+      ...unrestricted.map(user => ({ userId: user.id, email: user.email, username: user.username, sanction: "restriction" as const })),
+    ];
+  }
+
+  async recordModerationAction(entry: InsertModerationAction): Promise<void> {
+    await db.insert(moderationActions).values(entry);
+  }
+
+  // Newest first
+  async getModerationActions(filters: ModerationLogQuery): Promise<ModerationActionWithActor[]> {
+    const conditions = [];
+    if (filters.action) conditions.push(eq(moderationActions.action, filters.action));
+    if (filters.actorId) conditions.push(eq(moderationActions.actorId, filters.actorId));
+    if (filters.targetId) conditions.push(eq(moderationActions.targetId, filters.targetId));
+    if (filters.from) conditions.push(gte(moderationActions.createdAt, filters.from));
+    if (filters.to) conditions.push(lte(moderationActions.createdAt, filters.to));
+
+    const rows = await db.select({
+      action: moderationActions,
+      actorUsername: users.username,
+    })
+    .from(moderationActions)
+    .leftJoin(users, eq(moderationActions.actorId, users.id))
+    .where(and(...conditions))
+    .orderBy(desc(moderationActions.createdAt), desc(moderationActions.id))
+    .limit(filters.limit);
+
+    return rows.map(({ action, actorUsername }) => ({
+      ...action,
+      actor: action.actorId && actorUsername ? { id: action.actorId, username: actorUsername } : null,
+    }));
+  }
+
+  async createReport(report: InsertReport): Promise<Report> {
+    const [created] = await db.insert(reports).values(report).returning();
+    return created;
+  }
+
+  // Whether the reporter already has a report on the target waiting in the queue
+  async hasActiveReport(reporterId: string, targetType: ReportTargetType, targetId: string): Promise<boolean> {
+    const [existing] = await db.select({ id: reports.id })
+      .from(reports)
+      .where(and(
+        eq(reports.reporterId, reporterId),
+        eq(reports.targetType, targetType),
+        eq(reports.targetId, targetId),
+        inArray(reports.status, ["open", "escalated"]),
+      ))
+      .limit(1);
+    return !!existing;
+  }
+
+  async getReport(reportId: string): Promise<Report | undefined> {
+    const [report] = await db.select().from(reports).where(eq(reports.id, reportId));
+    return report;
+  }
+
+  // Active reports oldest first, so the queue is worked in order; closed ones newest first.
+  // `roomIds` limits them to reports on those chats and the messages in them.
+  async getReports(view: ReportQueueView, roomIds?: string[]): Promise<ReportWithDetails[]> {
+    const statuses: ReportStatus[] = view === "active" ? ["open", "escalated"]
+      : view === "escalated" ? ["escalated"]
+      : ["resolved", "dismissed"];
+
+    const conditions = [inArray(reports.status, statuses)];
+    if (roomIds) {
+      if (roomIds.length === 0) return [];
+      conditions.push(or(
+        and(eq(reports.targetType, "chat"), inArray(reports.targetId, roomIds)),
+        and(
+          eq(reports.targetType, "message"),
+          inArray(reports.targetId, db.select({ id: messages.id }).from(messages).where(inArray(messages.chatId, roomIds))),
+        ),
+      )!);
+    }
+
+    const rows = await db.select()
+      .from(reports)
+      .where(and(...conditions))
+      .orderBy(view === "closed" ? desc(reports.closedAt) : asc(reports.createdAt))
+      .limit(200);
+
+    const idsOf = (type: ReportTargetType) => Array.from(new Set(rows.filter(r => r.targetType === type).map(r => r.targetId)));
+    const messageIds = idsOf("message");
+    const chatIds = idsOf("chat");
+    const userIds = Array.from(new Set([
+      ...idsOf("user"),
+      ...rows.flatMap(r => [r.reporterId, r.claimedBy]).filter((id): id is string => !!id),
+    ]));
+
+    const [reportedMessages, reportedChats, relatedUsers] = await Promise.all([
+      messageIds.length === 0 ? [] : db.select({
+        id: messages.id,
+        chatId: messages.chatId,
+        content: messages.content,
+        messageType: messages.messageType,
+        deletedAt: messages.deletedAt,
+        deletedBy: messages.deletedBy,
+        senderId: users.id,
+        senderUsername: users.username,
+      })
+      .from(messages)
+      .innerJoin(users, eq(messages.senderId, users.id))
+      .where(inArray(messages.id, messageIds)),
+      chatIds.length === 0 ? [] : db.select({
+        id: chats.id,
+        name: chats.name,
+        isGroup: chats.isGroup,
+        isGlobalRoom: chats.isGlobalRoom,
+      })
+      .from(chats)
+      .where(inArray(chats.id, chatIds)),
+      userIds.length === 0 ? [] : db.select({
+        id: users.id,
+        username: users.username,
+        isBanned: users.isBanned,
+        isRestricted: users.isRestricted,
+      })
+      .from(users)
+      .where(inArray(users.id, userIds)),
+    ]);
+
+    const messagesById = new Map(reportedMessages.map(m => [m.id, m]));
+    const chatsById = new Map(reportedChats.map(c => [c.id, c]));
+    const usersById = new Map(relatedUsers.map(u => [u.id, u]));
+    const summarize = (userId: string | null) => {
+      const user = userId ? usersById.get(userId) : undefined;
+      return user ? { id: user.id, username: user.username } : null;
+    };
+
+    return rows.map(report => {
+      let target: ReportWithDetails["target"] = null;
+      if (report.targetType === "message") {
+        const message = messagesById.get(report.targetId);
+        if (message) {
+          target = {
+            type: "message",
+            chatId: message.chatId,
+            // Senders' deletions are redacted; staff deletions keep the content for review
+            content: message.deletedAt && message.deletedBy === message.senderId ? null : message.content,
+            messageType: message.messageType ?? "text",
+            deletedAt: message.deletedAt,
+            sender: { id: message.senderId, username: message.senderUsername },
+          };
+        }
+      } else if (report.targetType === "user") {
+        const user = usersById.get(report.targetId);
+        if (user) target = { type: "user", username: user.username, isBanned: user.isBanned, isRestricted: user.isRestricted };
+      } else {
+        const chat = chatsById.get(report.targetId);
+        if (chat) target = { type: "chat", name: chat.name, isGroup: chat.isGroup, isGlobalRoom: chat.isGlobalRoom };
+      }
+
+      return { ...report, reporter: summarize(report.reporterId), claimer: summarize(report.claimedBy), target };
+    });
+  }
+
+  // Claims a report still in the queue; claiming your own claim again is a no-op
+  async claimReport(reportId: string, moderatorId: string): Promise<Report | undefined> {
+    const [claimed] = await db.update(reports)
+      .set({ claimedBy: moderatorId, claimedAt: new Date() })
+      .where(and(
+        eq(reports.id, reportId),
+        inArray(reports.status, ["open", "escalated"]),
+        or(isNull(reports.claimedBy), eq(reports.claimedBy, moderatorId)),
+      ))
+      .returning();
+    return claimed;
+  }
+
+  // Escalating puts the report back in the queue for an admin; resolving or dismissing closes it
+  async updateReportStatus(reportId: string, moderatorId: string, status: Exclude<ReportStatus, "open">, note?: string): Promise<Report | undefined> {
+    const changes = status === "escalated"
+      ? { status, claimedBy: null, claimedAt: null, resolutionNote: note ?? null }
+      : { status, closedBy: moderatorId, closedAt: new Date(), resolutionNote: note ?? null };
+
+    const [updated] = await db.update(reports)
+      .set(changes)
+      .where(and(eq(reports.id, reportId), inArray(reports.status, ["open", "escalated"])))
+      .returning();
+    return updated;
+  }
+
+  async getModeratedRoomIds(userId: string): Promise<string[]> {
+    const rows = await db.select({ chatId: roomModerators.chatId })
+      .from(roomModerators)
+      .where(eq(roomModerators.userId, userId));
+    return rows.map(row => row.chatId);
+  }
+
+  async getRoomModerators(chatId: string): Promise<RoomModerator[]> {
+    return await db.select({
+      id: users.id,
+      username: users.username,
+      firstName: users.firstName,
+      lastName: users.lastName,
+      profileImageUrl: users.profileImageUrl,
+      assignedAt: roomModerators.assignedAt,
+    })
+    .from(roomModerators)
+    .innerJoin(users, eq(roomModerators.userId, users.id))
+    .where(eq(roomModerators.chatId, chatId))
+    .orderBy(asc(roomModerators.assignedAt));
+  }
+
+  // False when the user already moderates the room
+  async addRoomModerator(chatId: string, userId: string, assignedBy: string): Promise<boolean> {
+    const added = await db.insert(roomModerators)
+      .values({ chatId, userId, assignedBy })
+      .onConflictDoNothing()
+      .returning({ userId: roomModerators.userId });
+    return added.length > 0;
+  }
+
+  async removeRoomModerator(chatId: string, userId: string): Promise<boolean> {
+    const removed = await db.delete(roomModerators)
+      .where(and(eq(roomModerators.chatId, chatId), eq(roomModerators.userId, userId)))
+      .returning({ userId: roomModerators.userId });
+    return removed.length > 0;
+  }
 }
 
 // Initialize database storage
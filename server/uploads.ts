@@ -0,0 +1,141 @@
+import crypto from "crypto";
+import multer from "multer";
+import type { Request, Response, NextFunction } from "express";
+import type { AttachmentKind } from "@shared/schema";
+
+export const MAX_UPLOAD_SIZE = parseInt(process.env.MAX_UPLOAD_SIZE || String(25 * 1024 * 1024), 10);
+
+type FileType = {
+  // Stored files get their extension from their checked type, never from the uploaded name
+  extension: string;
+  // Whether the file's leading bytes look like this type, whatever the client declared
+  matches: (data: Buffer) => boolean;
+};
+
+const startsWith = (data: Buffer, signature: string | number[], offset = 0) => {
+  const bytes = typeof signature === "string" ? Buffer.from(signature, "latin1") : Buffer.from(signature);
+  return data.length >= offset + bytes.length && data.subarray(offset, offset + bytes.length).equals(bytes);
+};
+
+const isRiff = (data: Buffer, format: string) => startsWith(data, "RIFF") && startsWith(data, format, 8);
+const isIsoMedia = (data: Buffer) => startsWith(data, "ftyp", 4);
+const isWebm = (data: Buffer) => startsWith(data, [0x1a, 0x45, 0xdf, 0xa3]);
+const isZip = (data: Buffer) => startsWith(data, [0x50, 0x4b, 0x03, 0x04]) || startsWith(data, [0x50, 0x4b, 0x05, 0x06]);
+// Legacy Office documents are OLE compound files
+const isOle = (data: Buffer) => startsWith(data, [0xd0, 0xcf, 0x11, 0xe0, 0xa1, 0xb1, 0x1a, 0xe1]);
+
+// Plain text has to be valid UTF-8 without NUL bytes
+function isText(data: Buffer): boolean {
+  if (data.includes(0)) return false;
+  try {
+    new TextDecoder("utf-8", { fatal: true }).decode(data);
+    return true;
+  } catch {
+    return false;
+  }
+}
+
+// Uploads are served back to browsers, so anything that could run script
+// (HTML, SVG, ...) is deliberately left out
+const FILE_TYPES = new Map<string, FileType>([
+  ["image/jpeg", { extension: ".jpg", matches: (data) => startsWith(data, [0xff, 0xd8, 0xff]) }],
+  ["image/png", { extension: ".png", matches: (data) => startsWith(data, [0x89, 0x50, 0x4e, 0x47, 0x0d, 0x0a, 0x1a, 0x0a]) }],
+  ["image/gif", { extension: ".gif", matches: (data) => startsWith(data, "GIF87a") || startsWith(data, "GIF89a") }],
+  ["image/webp", { extension: ".webp", matches: (data) => isRiff(data, "WEBP") }],
+  ["video/mp4", { extension: ".mp4", matches: isIsoMedia }],
+  ["video/webm", { extension: ".webm", matches: isWebm }],
+  ["video/quicktime", { extension: ".mov", matches: (data) => ["ftyp", "moov", "mdat", "wide", "free"].some((box) => startsWith(data, box, 4)) }],
+  ["audio/mpeg", { extension: ".mp3", matches: (data) => startsWith(data, "ID3") || (data.length >= 2 && data[0] === 0xff && (data[1] & 0xe0) === 0xe0) }],
+  ["audio/mp4", { extension: ".m4a", matches: isIsoMedia }],
+  ["audio/ogg", { extension: ".ogg", matches: (data) => startsWith(data, "OggS") }],
+  ["audio/wav", { extension: ".wav", matches: (data) => isRiff(data, "WAVE") }],
+  ["audio/webm", { extension: ".webm", matches: isWebm }],
+  ["application/pdf", { extension: ".pdf", matches: (data) => startsWith(data, "%PDF-") }],
+  ["application/zip", { extension: ".zip", matches: isZip }],
+  ["text/plain", { extension: ".txt", matches: isText }],
+  ["application/msword", { extension: ".doc", matches: isOle }],
+  ["application/vnd.openxmlformats-officedocument.wordprocessingml.document", { extension: ".docx", matches: isZip }],
+  ["application/vnd.ms-excel", { extension: ".xls", matches: isOle }],
+  ["application/vnd.openxmlformats-officedocument.spreadsheetml.sheet", { extension: ".xlsx", matches: isZip }],
+  ["application/vnd.ms-powerpoint", { extension: ".ppt", matches: isOle }],
+  ["application/vnd.openxmlformats-officedocument.presentationml.presentation", { extension: ".pptx", matches: isZip }],
+]);
+
+class UnsupportedFileTypeError extends Error {
+  constructor(mimeType: string) {
+    super(`Files of type ${mimeType || "unknown"} are not supported`);
+  }
+}
+
+// Browsers include codec parameters for recordings, e.g. "audio/webm;codecs=opus"
+export function normalizeMimeType(mimeType: string): string {
+  return mimeType.split(";")[0].trim().toLowerCase();
+}
+
+const upload = multer({
+  storage: multer.memoryStorage(),
+  limits: { fileSize: MAX_UPLOAD_SIZE, files: 1 },
+  fileFilter: (_req, file, callback) => {
+    if (FILE_TYPES.has(normalizeMimeType(file.mimetype))) {
+      callback(null, true);
+    } else {
+      callback(new UnsupportedFileTypeError(file.mimetype));
+    }
+  },
+});
+
+// Parse a single multipart `file` field, turning upload errors into API responses
+export const uploadSingleFile = (req: Request, res: Response, next: NextFunction) => {
+  upload.single("file")(req, res, (error: unknown) => {
+    if (error instanceof multer.MulterError) {
+      if (error.code === "LIMIT_FILE_SIZE") {
+        return res.status(413).json({
+          message: `File is too large, the limit is ${Math.floor(MAX_UPLOAD_SIZE / (1024 * 1024))} MB`,
+        });
+      }
+      return res.status(400).json({ message: error.message });
+    }
+    if (error instanceof UnsupportedFileTypeError) {
+      return res.status(415).json({ message: error.message });
+    }
+    if (error) {
+      return next(error);
+    }
+    // The declared type is only the client's word for it, so check the content too
+    if (req.file && !FILE_TYPES.get(normalizeMimeType(req.file.mimetype))?.matches(req.file.buffer)) {
+      return res.status(415).json({ message: "The file's content doesn't match its type" });
+    }
+    next();
+  });
+};
+
+// Work out what kind of attachment a file is. Voice and video notes have to be
+// asked for explicitly and must match the file's media type.
+export function resolveAttachmentKind(mimeType: string, requestedKind?: string): AttachmentKind | undefined {
+  switch (requestedKind) {
+    case "voice_note":
+      return mimeType.startsWith("audio/") ? "voice_note" : undefined;
+    case "video_note":
+      return mimeType.startsWith("video/") ? "video_note" : undefined;
+    case "image":
+      return mimeType.startsWith("image/") ? "image" : undefined;
+    case "file":
+      return "file";
+    case undefined:
+    case "":
+      return mimeType.startsWith("image/") ? "image" : "file";
+    default:
+      return undefined;
+  }
+}
+
+// Random, uploader-scoped keys so names can't collide or be guessed. The extension
+// comes from the checked type, so a file is never stored as something it isn't.
+export function createStorageKey(userId: string, mimeType: string): string {
+  return `${userId}/${crypto.randomUUID()}${FILE_TYPES.get(mimeType)?.extension ?? ""}`;
+}
+
+// Media that browsers display inline; anything else is served as a download in a sandbox
+export function isInlineMedia(mimeType: string): boolean {
+  return mimeType.startsWith("image/") || mimeType.startsWith("video/") || mimeType.startsWith("audio/");
+}
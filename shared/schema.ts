@@ -1,8 +1,20 @@
 import { z } from "zod";
-import { pgTable, text, boolean, timestamp, integer, varchar, uuid, jsonb } from "drizzle-orm/pg-core";
+// drizzle-zod builds its schemas with zod v4, so their types are inferred with it
+import type { z as zv4 } from "zod/v4";
+import { pgTable, text, boolean, timestamp, integer, varchar, uuid, jsonb, index, primaryKey, customType } from "drizzle-orm/pg-core";
 import { relations, sql } from "drizzle-orm";
 import { createInsertSchema, createSelectSchema } from "drizzle-zod";
 
+const tsvector = customType<{ data: string }>({
+  dataType() {
+    return "tsvector";
+  },
+});
+
+// Text search configuration for message search. The search vector column is
+// generated with it, so queries have to use the same one.
+export const MESSAGE_SEARCH_CONFIG = "english";
+
 // PostgreSQL Tables with Drizzle ORM
 export const users = pgTable("users", {
   id: uuid("id").primaryKey().default(sql`gen_random_uuid()`),
@@ -16,6 +28,7 @@ export const users = pgTable("users", {
   phoneNumber: varchar("phone_number", { length: 20 }),
   isOnline: boolean("is_online").default(false),
   lastSeen: timestamp("last_seen").defaultNow(),
+  isInvisible: boolean("is_invisible").default(false),
   status: varchar("status", { length: 50 }).default("Available"),
   theme: varchar("theme", { length: 10 }).default("light"),
   language: varchar("language", { length: 10 }).default("en"),
@@ -25,6 +38,11 @@ export const users = pgTable("users", {
   banReason: text("ban_reason"),
   restrictedAt: timestamp("restricted_at"),
   bannedAt: timestamp("banned_at"),
+  // When a timed sanction lifts itself; null while it lasts until an admin lifts it
+  restrictedUntil: timestamp("restricted_until"),
+  bannedUntil: timestamp("banned_until"),
+  // Tokens issued before this no longer sign the user in
+  tokensRevokedAt: timestamp("tokens_revoked_at"),
   isEmailVerified: boolean("is_email_verified").default(false),
   emailVerificationToken: text("email_verification_token"),
   resetPasswordToken: text("reset_password_token"),
@@ -44,10 +62,12 @@ export const chats = pgTable("chats", {
   isGroup: boolean("is_group").default(false),
   isGlobalRoom: boolean("is_global_room").default(false),
   category: varchar("category", { length: 100 }),
+  // Nobody joins past this many members; a null limit means no limit
   maxMembers: integer("max_members").default(1000),
   isPublic: boolean("is_public").default(true),
   createdBy: uuid("created_by").references(() => users.id).notNull(),
-  participants: jsonb("participants").$type<string[]>().default([]),
+  // Legacy member list, superseded by chat_members and no longer written
+  legacyParticipants: jsonb("participants").$type<string[]>().default([]),
   createdAt: timestamp("created_at").defaultNow(),
   updatedAt: timestamp("updated_at").defaultNow(),
 });
@@ -62,11 +82,226 @@ export const messages = pgTable("messages", {
   fileName: varchar("file_name", { length: 255 }),
   duration: integer("duration"),
   thumbnailUrl: text("thumbnail_url"),
-  replyToId: uuid("reply_to_id").references(() => messages.id),
+  // Media dimensions and placeholder, so clients can lay out media before it loads
+  width: integer("width"),
+  height: integer("height"),
+  blurhash: varchar("blurhash", { length: 100 }),
+  // Voice note loudness, one 0-100 value per waveform bar
+  waveform: jsonb("waveform").$type<number[]>(),
+  // The message this one quotes
+  replyToId: uuid("reply_to_id").references(() => messages.id, { onDelete: "set null" }),
+  // Set on thread replies, which are kept out of the chat's main timeline
+  threadRootId: uuid("thread_root_id").references(() => messages.id, { onDelete: "cascade" }),
+  // Legacy per-message receipts, superseded by chat_reads and no longer written
   readBy: jsonb("read_by").$type<{ userId: string; readAt: Date }[]>().default([]),
   editedAt: timestamp("edited_at"),
+  // Deleted messages stay as tombstones so replies to them still make sense.
+  // Senders' deletions clear the content; admins' keep it for moderation review.
+  deletedAt: timestamp("deleted_at"),
+  deletedBy: uuid("deleted_by").references(() => users.id, { onDelete: "set null" }),
   createdAt: timestamp("created_at").defaultNow(),
-});
+  // Generated by Postgres from the content, for full-text search
+  searchVector: tsvector("search_vector").generatedAlwaysAs(sql`to_tsvector(${sql.raw(`'${MESSAGE_SEARCH_CONFIG}'`)}, coalesce(content, ''))`),
+}, (table) => [
+  // Serves message history pages, which walk a chat's messages by creation time
+  index("messages_chat_id_created_at_idx").on(table.chatId, table.createdAt),
+  index("messages_search_vector_idx").using("gin", table.searchVector),
+  index("messages_thread_root_id_created_at_idx").on(table.threadRootId, table.createdAt),
+]);
+
+// Uploaded files. An attachment belongs to its uploader until it is sent with a message.
+export const attachments = pgTable("attachments", {
+  id: uuid("id").primaryKey().default(sql`gen_random_uuid()`),
+  uploaderId: uuid("uploader_id").references(() => users.id, { onDelete: "cascade" }).notNull(),
+  messageId: uuid("message_id").references(() => messages.id, { onDelete: "set null" }),
+  kind: varchar("kind", { length: 20 }).notNull(),
+  storageKey: text("storage_key").notNull(),
+  url: text("url").notNull(),
+  fileName: varchar("file_name", { length: 255 }).notNull(),
+  mimeType: varchar("mime_type", { length: 100 }).notNull(),
+  size: integer("size").notNull(),
+  // Filled in by background media processing
+  processingStatus: varchar("processing_status", { length: 20 }).$type<MediaProcessingStatus>().default("pending").notNull(),
+  width: integer("width"),
+  height: integer("height"),
+  duration: integer("duration"),
+  thumbnailStorageKey: text("thumbnail_storage_key"),
+  thumbnailUrl: text("thumbnail_url"),
+  blurhash: varchar("blurhash", { length: 100 }),
+  waveform: jsonb("waveform").$type<number[]>(),
+  createdAt: timestamp("created_at").defaultNow(),
+}, (table) => [
+  index("attachments_uploader_id_idx").on(table.uploaderId),
+]);
+
+// Per-participant receipt cursors: everything up to lastReadMessageId counts as
+// read, and everything up to lastDeliveredMessageId has reached one of their devices
+export const chatReads = pgTable("chat_reads", {
+  chatId: uuid("chat_id").references(() => chats.id, { onDelete: "cascade" }).notNull(),
+  userId: uuid("user_id").references(() => users.id, { onDelete: "cascade" }).notNull(),
+  lastReadMessageId: uuid("last_read_message_id").references(() => messages.id, { onDelete: "set null" }),
+  readAt: timestamp("read_at").defaultNow().notNull(),
+  lastDeliveredMessageId: uuid("last_delivered_message_id").references(() => messages.id, { onDelete: "set null" }),
+  deliveredAt: timestamp("delivered_at"),
+}, (table) => [
+  primaryKey({ columns: [table.chatId, table.userId] }),
+]);
+
+// One row per emoji a user reacted to a message with
+export const messageReactions = pgTable("message_reactions", {
+  messageId: uuid("message_id").references(() => messages.id, { onDelete: "cascade" }).notNull(),
+  userId: uuid("user_id").references(() => users.id, { onDelete: "cascade" }).notNull(),
+  emoji: varchar("emoji", { length: 32 }).notNull(),
+  createdAt: timestamp("created_at").defaultNow().notNull(),
+}, (table) => [
+  primaryKey({ columns: [table.messageId, table.userId, table.emoji] }),
+]);
+
+// The text a message had before each edit, oldest first by `replacedAt`
+export const messageRevisions = pgTable("message_revisions", {
+  id: uuid("id").primaryKey().defaultRandom(),
+  messageId: uuid("message_id").references(() => messages.id, { onDelete: "cascade" }).notNull(),
+  content: text("content"),
+  // When this text was posted: the message's creation or the edit before this one
+  postedAt: timestamp("posted_at").notNull(),
+  replacedAt: timestamp("replaced_at").defaultNow().notNull(),
+  replacedBy: uuid("replaced_by").references(() => users.id, { onDelete: "set null" }),
+}, (table) => [
+  index("message_revisions_message_id_replaced_at_idx").on(table.messageId, table.replacedAt),
+]);
+
+// Messages a user deleted for themselves only
+export const messageHides = pgTable("message_hides", {
+  messageId: uuid("message_id").references(() => messages.id, { onDelete: "cascade" }).notNull(),
+  userId: uuid("user_id").references(() => users.id, { onDelete: "cascade" }).notNull(),
+  hiddenAt: timestamp("hidden_at").defaultNow().notNull(),
+}, (table) => [
+  primaryKey({ columns: [table.messageId, table.userId] }),
+]);
+
+// Who is in each chat. Roles only mean something in group chats.
+export const chatMembers = pgTable("chat_members", {
+  chatId: uuid("chat_id").references(() => chats.id, { onDelete: "cascade" }).notNull(),
+  userId: uuid("user_id").references(() => users.id, { onDelete: "cascade" }).notNull(),
+  role: varchar("role", { length: 20 }).$type<ChatRole>().default("member").notNull(),
+  joinedAt: timestamp("joined_at").defaultNow().notNull(),
+  // Notifications from the chat stay quiet until then
+  mutedUntil: timestamp("muted_until"),
+  // When the member last opened the chat; receipts come from the cursors in chat_reads
+  lastReadAt: timestamp("last_read_at"),
+}, (table) => [
+  primaryKey({ columns: [table.chatId, table.userId] }),
+  index("chat_members_user_id_idx").on(table.userId),
+]);
+
+// Legacy group roles, superseded by chat_members.role and no longer written. Kept so
+// db:push doesn't drop them before db:backfill-members has copied them over.
+export const legacyChatRoles = pgTable("chat_roles", {
+  chatId: uuid("chat_id").references(() => chats.id, { onDelete: "cascade" }).notNull(),
+  userId: uuid("user_id").references(() => users.id, { onDelete: "cascade" }).notNull(),
+  role: varchar("role", { length: 20 }).$type<ChatRole>().notNull(),
+  grantedAt: timestamp("granted_at").defaultNow().notNull(),
+}, (table) => [
+  primaryKey({ columns: [table.chatId, table.userId] }),
+]);
+
+// Links that let people join a group. An invite stops working once it is
+// revoked, expires or runs out of uses.
+export const chatInvites = pgTable("chat_invites", {
+  id: uuid("id").primaryKey().defaultRandom(),
+  chatId: uuid("chat_id").references(() => chats.id, { onDelete: "cascade" }).notNull(),
+  code: varchar("code", { length: 32 }).notNull().unique(),
+  createdBy: uuid("created_by").references(() => users.id, { onDelete: "set null" }),
+  expiresAt: timestamp("expires_at"),
+  maxUses: integer("max_uses"),
+  useCount: integer("use_count").default(0).notNull(),
+  // People who use the link wait for an admin to let them in
+  requiresApproval: boolean("requires_approval").default(false).notNull(),
+  revokedAt: timestamp("revoked_at"),
+  createdAt: timestamp("created_at").defaultNow().notNull(),
+}, (table) => [
+  index("chat_invites_chat_id_idx").on(table.chatId),
+]);
+
+// People waiting to be let into a group through an approval-required invite
+export const chatJoinRequests = pgTable("chat_join_requests", {
+  chatId: uuid("chat_id").references(() => chats.id, { onDelete: "cascade" }).notNull(),
+  userId: uuid("user_id").references(() => users.id, { onDelete: "cascade" }).notNull(),
+  inviteId: uuid("invite_id").references(() => chatInvites.id, { onDelete: "set null" }),
+  requestedAt: timestamp("requested_at").defaultNow().notNull(),
+}, (table) => [
+  primaryKey({ columns: [table.chatId, table.userId] }),
+]);
+
+// People queued for a spot in a full room, admitted first come, first served
+export const chatWaitlist = pgTable("chat_waitlist", {
+  chatId: uuid("chat_id").references(() => chats.id, { onDelete: "cascade" }).notNull(),
+  userId: uuid("user_id").references(() => users.id, { onDelete: "cascade" }).notNull(),
+  joinedAt: timestamp("joined_at").defaultNow().notNull(),
+}, (table) => [
+  primaryKey({ columns: [table.chatId, table.userId] }),
+  index("chat_waitlist_chat_id_joined_at_idx").on(table.chatId, table.joinedAt),
+]);
+
+// Users who moderate one global room, whatever their site-wide role
+export const roomModerators = pgTable("room_moderators", {
+  chatId: uuid("chat_id").references(() => chats.id, { onDelete: "cascade" }).notNull(),
+  userId: uuid("user_id").references(() => users.id, { onDelete: "cascade" }).notNull(),
+  assignedBy: uuid("assigned_by").references(() => users.id, { onDelete: "set null" }),
+  assignedAt: timestamp("assigned_at").defaultNow().notNull(),
+}, (table) => [
+  primaryKey({ columns: [table.chatId, table.userId] }),
+  index("room_moderators_user_id_idx").on(table.userId),
+]);
+
+// Who did what to whom from the admin dashboard. Actors and targets are kept by
+// id only so entries outlive the users, chats and messages they name.
+export const moderationActions = pgTable("moderation_actions", {
+  id: uuid("id").primaryKey().default(sql`gen_random_uuid()`),
+  // Null for actions the server took on its own, like lifting an expired ban
+  actorId: uuid("actor_id"),
+  action: varchar("action", { length: 50 }).$type<ModerationActionType>().notNull(),
+  targetType: varchar("target_type", { length: 20 }).$type<ModerationTargetType>().notNull(),
+  targetId: uuid("target_id").notNull(),
+  reason: text("reason"),
+  before: jsonb("before").$type<Record<string, unknown>>(),
+  after: jsonb("after").$type<Record<string, unknown>>(),
+  createdAt: timestamp("created_at").defaultNow().notNull(),
+}, (table) => [
+  index("moderation_actions_created_at_idx").on(table.createdAt),
+  index("moderation_actions_target_idx").on(table.targetType, table.targetId),
+  index("moderation_actions_actor_id_idx").on(table.actorId),
+]);
+
+// Messages, people and chats users have flagged for moderators to look at
+export const reports = pgTable("reports", {
+  id: uuid("id").primaryKey().default(sql`gen_random_uuid()`),
+  reporterId: uuid("reporter_id").references(() => users.id, { onDelete: "set null" }),
+  targetType: varchar("target_type", { length: 20 }).$type<ReportTargetType>().notNull(),
+  targetId: uuid("target_id").notNull(),
+  category: varchar("category", { length: 30 }).$type<ReportCategory>().notNull(),
+  details: text("details"),
+  status: varchar("status", { length: 20 }).$type<ReportStatus>().default("open").notNull(),
+  // The moderator working on it; escalating hands it back to the queue
+  claimedBy: uuid("claimed_by").references(() => users.id, { onDelete: "set null" }),
+  claimedAt: timestamp("claimed_at"),
+  closedBy: uuid("closed_by").references(() => users.id, { onDelete: "set null" }),
+  closedAt: timestamp("closed_at"),
+  resolutionNote: text("resolution_note"),
+  createdAt: timestamp("created_at").defaultNow().notNull(),
+}, (table) => [
+  index("reports_status_created_at_idx").on(table.status, table.createdAt),
+  index("reports_target_idx").on(table.targetType, table.targetId),
+]);
+
+// How far each user has read a thread, by the thread's root message
+export const threadReads = pgTable("thread_reads", {
+  rootMessageId: uuid("root_message_id").references(() => messages.id, { onDelete: "cascade" }).notNull(),
+  userId: uuid("user_id").references(() => users.id, { onDelete: "cascade" }).notNull(),
+  lastReadAt: timestamp("last_read_at").defaultNow().notNull(),
+}, (table) => [
+  primaryKey({ columns: [table.rootMessageId, table.userId] }),
+]);
 
 // Session storage table (for authentication)
 export const sessions = pgTable("sessions", {
@@ -87,6 +322,117 @@ export const chatsRelations = relations(chats, ({ one, many }) => ({
     references: [users.id],
   }),
   messages: many(messages),
+  members: many(chatMembers),
+}));
+
+export const chatMembersRelations = relations(chatMembers, ({ one }) => ({
+  chat: one(chats, {
+    fields: [chatMembers.chatId],
+    references: [chats.id],
+  }),
+  user: one(users, {
+    fields: [chatMembers.userId],
+    references: [users.id],
+  }),
+}));
+
+export const chatInvitesRelations = relations(chatInvites, ({ one }) => ({
+  chat: one(chats, {
+    fields: [chatInvites.chatId],
+    references: [chats.id],
+  }),
+  creator: one(users, {
+    fields: [chatInvites.createdBy],
+    references: [users.id],
+  }),
+}));
+
+export const chatJoinRequestsRelations = relations(chatJoinRequests, ({ one }) => ({
+  chat: one(chats, {
+    fields: [chatJoinRequests.chatId],
+    references: [chats.id],
+  }),
+  user: one(users, {
+    fields: [chatJoinRequests.userId],
+    references: [users.id],
+  }),
+  invite: one(chatInvites, {
+    fields: [chatJoinRequests.inviteId],
+    references: [chatInvites.id],
+  }),
+}));
+
+export const chatWaitlistRelations = relations(chatWaitlist, ({ one }) => ({
+  chat: one(chats, {
+    fields: [chatWaitlist.chatId],
+    references: [chats.id],
+  }),
+  user: one(users, {
+    fields: [chatWaitlist.userId],
+    references: [users.id],
+  }),
+}));
+
+export const roomModeratorsRelations = relations(roomModerators, ({ one }) => ({
+  chat: one(chats, {
+    fields: [roomModerators.chatId],
+    references: [chats.id],
+  }),
+  user: one(users, {
+    fields: [roomModerators.userId],
+    references: [users.id],
+  }),
+}));
+
+export const moderationActionsRelations = relations(moderationActions, ({ one }) => ({
+  actor: one(users, {
+    fields: [moderationActions.actorId],
+    references: [users.id],
+  }),
+}));
+
+export const reportsRelations = relations(reports, ({ one }) => ({
+  reporter: one(users, {
+    fields: [reports.reporterId],
+    references: [users.id],
+    relationName: "reporter",
+  }),
+  claimer: one(users, {
+    fields: [reports.claimedBy],
+    references: [users.id],
+    relationName: "claimer",
+  }),
+  closer: one(users, {
+    fields: [reports.closedBy],
+    references: [users.id],
+    relationName: "closer",
+  }),
+}));
+
+export const attachmentsRelations = relations(attachments, ({ one }) => ({
+  uploader: one(users, {
+    fields: [attachments.uploaderId],
+    references: [users.id],
+  }),
+  message: one(messages, {
+    fields: [attachments.messageId],
+    references: [messages.id],
+  }),
+}));
+
+export const chatReadsRelations = relations(chatReads, ({ one }) => ({
+  chat: one(chats, {
+    fields: [chatReads.chatId],
+    references: [chats.id],
+  }),
+  user: one(users, {
+    fields: [chatReads.userId],
+    references: [users.id],
+  }),
+  lastReadMessage: one(messages, {
+    fields: [chatReads.lastReadMessageId],
+    references: [messages.id],
+  }),
 }));
 
 export const messagesRelations = relations(messages, ({ one }) => ({
@@ -101,6 +447,45 @@ export const messagesRelations = relations(messages, ({ one }) => ({
   replyTo: one(messages, {
     fields: [messages.replyToId],
     references: [messages.id],
+    relationName: "replyTo",
+  }),
+  threadRoot: one(messages, {
+    fields: [messages.threadRootId],
+    references: [messages.id],
+    relationName: "threadRoot",
+  }),
+}));
+
+export const messageRevisionsRelations = relations(messageRevisions, ({ one }) => ({
+  message: one(messages, {
+    fields: [messageRevisions.messageId],
+    references: [messages.id],
+  }),
+  replacedBy: one(users, {
+    fields: [messageRevisions.replacedBy],
+    references: [users.id],
+  }),
+}));
+
+export const messageHidesRelations = relations(messageHides, ({ one }) => ({
+  message: one(messages, {
+    fields: [messageHides.messageId],
+    references: [messages.id],
+  }),
+  user: one(users, {
+    fields: [messageHides.userId],
+    references: [users.id],
+  }),
+}));
+
+export const messageReactionsRelations = relations(messageReactions, ({ one }) => ({
+  message: one(messages, {
+    fields: [messageReactions.messageId],
+    references: [messages.id],
+  }),
+  user: one(users, {
+    fields: [messageReactions.userId],
+    references: [users.id],
   }),
 }));
 
@@ -113,13 +498,33 @@ export const insertUserSchema = createInsertSchema(users).omit({
   lastSeen: true,
 });
 
+// What users may change on their own profile: their name, username, avatar and bio.
+// Anything else, e.g. their role or a sanction, is rejected.
+export const updateProfileSchema = insertUserSchema.pick({
+  firstName: true,
+  lastName: true,
+  username: true,
+  profileImageUrl: true,
+  bio: true,
+}).partial().strict();
+
 export const chatSchema = createSelectSchema(chats);
 export const insertChatSchema = createInsertSchema(chats).omit({
   id: true,
+  legacyParticipants: true,
   createdAt: true,
   updatedAt: true,
 });
 
+// What clients send to start a chat; the creator is added as a member
+export const createChatSchema = z.object({
+  name: z.string().trim().max(255).optional(),
+  description: z.string().max(1000).optional(),
+  imageUrl: z.string().url().optional(),
+  isGroup: z.boolean().default(false),
+  participants: z.array(z.string().uuid()).max(100).default([]),
+});
+
 export const messageSchema = createSelectSchema(messages);
 export const insertMessageSchema = createInsertSchema(messages).omit({
   id: true,
@@ -127,6 +532,182 @@ export const insertMessageSchema = createInsertSchema(messages).omit({
   readBy: true,
 });
 
+export const attachmentKinds = ["image", "file", "voice_note", "video_note"] as const;
+export type AttachmentKind = typeof attachmentKinds[number];
+export type MediaProcessingStatus = "pending" | "ready" | "failed";
+
+// Senders can delete a message for everyone; anyone can delete it for themselves
+export const deleteMessageSchema = z.object({
+  scope: z.enum(["everyone", "me"]).default("everyone"),
+});
+
+// What clients send to post a message. Files are referenced by an uploaded
+// attachment instead of a raw URL.
+
+export const sendMessageSchema = z.object({
+  content: z.string().max(10000).optional(),
+  messageType: z.enum(["text", ...attachmentKinds]).default("text"),
+  replyToId: z.string().uuid().optional(),
+  // Posts the message as a reply in this message's thread
+  threadRootId: z.string().uuid().optional(),
+  attachmentId: z.string().uuid().optional(),
+});
+
+// The owner runs a group, admins help manage its members
+export const chatRoleValues = ["owner", "admin", "member"] as const;
+export type ChatRole = typeof chatRoleValues[number];
+
+export const addChatMembersSchema = z.object({
+  userIds: z.array(z.string().uuid()).min(1).max(100),
+});
+
+// Ownership changes hands through its own endpoint, so only these can be assigned
+export const updateChatRoleSchema = z.object({
+  role: z.enum(["admin", "member"]),
+});
+
+export const transferOwnershipSchema = z.object({
+  userId: z.string().uuid(),
+});
+
+// A full room turns people away unless they ask to wait for a spot
+export const joinRoomSchema = z.object({
+  waitlist: z.boolean().default(false),
+});
+
+export const updateChatCapacitySchema = z.object({
+  maxMembers: z.number().int().min(2).max(100000),
+});
+
+// Bans and restrictions last for up to a year, or until lifted without a duration
+export const MAX_SANCTION_DURATION = 365 * 24 * 60 * 60;
+export const sanctionUserSchema = z.object({
+  reason: z.string().trim().max(500).optional(),
+  // Seconds from now
+  duration: z.number().int().min(60).max(MAX_SANCTION_DURATION).optional(),
+});
+
+// Invites last for up to 30 days, or until revoked without an expiry
+export const MAX_INVITE_LIFETIME = 30 * 24 * 60 * 60;
+export const createChatInviteSchema = z.object({
+  // Seconds from now
+  expiresIn: z.number().int().min(60).max(MAX_INVITE_LIFETIME).optional(),
+  maxUses: z.number().int().min(1).max(1000).optional(),
+  requiresApproval: z.boolean().default(false),
+});
+
+// Details the recorder measured, sent along with a voice note upload
+export const MAX_WAVEFORM_BARS = 128;
+export const voiceNoteDetailsSchema = z.object({
+  duration: z.coerce.number().int().min(0).max(24 * 60 * 60).optional(),
+  waveform: z.array(z.number().int().min(0).max(100)).max(MAX_WAVEFORM_BARS).optional(),
+});
+
+// The emoji messages can be reacted with
+export const REACTION_EMOJIS = ["👍", "❤️", "😂", "😮", "😢", "🙏", "🔥", "🎉", "👏", "😍", "🤔", "👎"] as const;
+
+export const reactionSchema = z.object({
+  emoji: z.enum(REACTION_EMOJIS),
+});
+
+// Message search query parameters. `from` and `to` bound the send time.
+export const messageSearchSchema = z.object({
+  q: z.string().trim().min(1).max(200),
+  chatId: z.string().uuid().optional(),
+  senderId: z.string().uuid().optional(),
+  from: z.coerce.date().optional(),
+  to: z.coerce.date().optional(),
+  limit: z.coerce.number().int().min(1).max(50).default(20),
+  offset: z.coerce.number().int().min(0).default(0),
+});
+
+export const userRoles = ["user", "moderator", "admin"] as const;
+export type UserRole = typeof userRoles[number];
+
+// What staff can do from the admin dashboard and its API
+export const capabilities = [
+  "dashboard.view",
+  "reports.view",
+  "reports.handle_escalated",
+  "messages.delete",
+  "users.restrict",
+  "users.ban",
+  "users.delete",
+  "users.manage_roles",
+  "chats.manage",
+  "audit_log.view",
+] as const;
+export type Capability = typeof capabilities[number];
+
+export const ROLE_CAPABILITIES: Record<UserRole, readonly Capability[]> = {
+  user: [],
+  moderator: ["reports.view", "messages.delete", "users.restrict"],
+  admin: capabilities,
+};
+
+// What room moderators can do, only in the rooms they moderate
+export const ROOM_MODERATOR_CAPABILITIES: readonly Capability[] = ["reports.view", "messages.delete"];
+
+export const updateUserRoleSchema = z.object({
+  role: z.enum(userRoles),
+});
+
+export const moderationActionTypes = [
+  "user.role_changed",
+  "user.deleted",
+  "user.banned",
+  "user.unbanned",
+  "user.restricted",
+  "user.unrestricted",
+  "chat.deleted",
+  "chat.capacity_changed",
+  "chat.moderator_assigned",
+  "chat.moderator_removed",
+  "message.deleted",
+  "report.resolved",
+  "report.dismissed",
+  "report.escalated",
+] as const;
+export type ModerationActionType = typeof moderationActionTypes[number];
+export type ModerationTargetType = "user" | "chat" | "message" | "report";
+
+export const moderationLogQuerySchema = z.object({
+  action: z.enum(moderationActionTypes).optional(),
+  actorId: z.string().uuid().optional(),
+  targetId: z.string().uuid().optional(),
+  from: z.coerce.date().optional(),
+  to: z.coerce.date().optional(),
+  limit: z.coerce.number().int().min(1).max(1000).default(100),
+});
+
+// Optional note an admin can attach to an action for the audit log
+export const moderationReasonSchema = z.object({
+  reason: z.string().trim().max(500).optional(),
+});
+
+export const reportTargetTypes = ["message", "user", "chat"] as const;
+export type ReportTargetType = typeof reportTargetTypes[number];
+export const reportCategories = ["spam", "harassment", "hate_speech", "violence", "sexual_content", "impersonation", "other"] as const;
+export type ReportCategory = typeof reportCategories[number];
+// Open and escalated reports wait in the queue; resolved and dismissed ones are closed
+export type ReportStatus = "open" | "escalated" | "resolved" | "dismissed";
+
+export const createReportSchema = z.object({
+  targetType: z.enum(reportTargetTypes),
+  targetId: z.string().uuid(),
+  category: z.enum(reportCategories),
+  details: z.string().trim().max(2000).optional(),
+});
+
+export const reportQueueQuerySchema = z.object({
+  view: z.enum(["active", "escalated", "closed"]).default("active"),
+});
+
+// What a moderator says about how a report was handled
+export const reviewReportSchema = z.object({
+  note: z.string().trim().max(500).optional(),
+});
+
 // Auth schemas
 export const loginSchema = z.object({
   email: z.string().email(),
@@ -156,25 +737,231 @@ export const verifyEmailSchema = z.object({
 
 // Types
 export type User = typeof users.$inferSelect;
-export type InsertUser = z.infer<typeof insertUserSchema>;
+export type InsertUser = zv4.infer<typeof insertUserSchema>;
 export type Chat = typeof chats.$inferSelect;
-export type InsertChat = z.infer<typeof insertChatSchema>;
+export type InsertChat = zv4.infer<typeof insertChatSchema>;
 export type Message = typeof messages.$inferSelect;
-export type InsertMessage = z.infer<typeof insertMessageSchema>;
+export type InsertMessage = zv4.infer<typeof insertMessageSchema>;
+export type ChatRead = typeof chatReads.$inferSelect;
+export type ChatMember = typeof chatMembers.$inferSelect;
+export type ChatInvite = typeof chatInvites.$inferSelect;
+export type MessageRevision = typeof messageRevisions.$inferSelect;
+export type ModerationAction = typeof moderationActions.$inferSelect;
+export type InsertModerationAction = typeof moderationActions.$inferInsert;
+export type ModerationLogQuery = z.infer<typeof moderationLogQuerySchema>;
+export type Report = typeof reports.$inferSelect;
+export type InsertReport = typeof reports.$inferInsert;
+export type ReportQueueView = z.infer<typeof reportQueueQuerySchema>["view"];
+export type Attachment = typeof attachments.$inferSelect;
+export type InsertAttachment = typeof attachments.$inferInsert;
+export type SendMessageData = z.infer<typeof sendMessageSchema>;
+export type MessageSearchFilters = z.infer<typeof messageSearchSchema>;
+export type DeleteMessageScope = z.infer<typeof deleteMessageSchema>["scope"];
 export type LoginData = z.infer<typeof loginSchema>;
 export type RegisterData = z.infer<typeof registerSchema>;
 
 // Extended types for API responses
-export type UserProfile = Omit<User, 'password' | 'emailVerificationToken' | 'resetPasswordToken' | 'resetPasswordExpires'>;
+export type UserProfile = Omit<User, 'password' | 'emailVerificationToken' | 'resetPasswordToken' | 'resetPasswordExpires' | 'tokensRevokedAt'>;
 
 export type ChatWithParticipants = Chat & {
+  // Member user ids, from chat_members
+  participants: string[];
   participantDetails: UserProfile[];
+  // Group roles by user id; participants missing from it are members
+  roles?: Record<string, ChatRole>;
+  // The viewer's place in line for a full room, counting from 1
+  waitlistPosition?: number;
   lastMessage?: MessageWithSender;
   unreadCount?: number;
 };
 
+// What someone opening an invite link sees before joining
+export type ChatInvitePreview = {
+  code: string;
+  chat: Pick<Chat, "id" | "name" | "description" | "imageUrl"> & { memberCount: number };
+  requiresApproval: boolean;
+  // Where the viewer already stands with the group
+  status: "member" | "pending" | "none";
+};
+
+export type ChatJoinRequest = {
+  user: Pick<UserProfile, "id" | "username" | "firstName" | "lastName" | "profileImageUrl">;
+  requestedAt: Date;
+};
+
+export type JoinChatResult = { status: "joined" | "pending"; chatId: string };
+
+// What adding someone to a chat did
+export type AddMemberResult = "added" | "already_member" | "full";
+
+// A report with enough about its target for a moderator to judge it in the queue
+export type ReportWithDetails = Report & {
+  reporter: Pick<UserProfile, "id" | "username"> | null;
+  claimer: Pick<UserProfile, "id" | "username"> | null;
+  target:
+    | { type: "message"; chatId: string; content: string | null; messageType: string; deletedAt: Date | null; sender: Pick<UserProfile, "id" | "username"> }
+    | { type: "user"; username: string; isBanned: boolean | null; isRestricted: boolean | null }
+    | { type: "chat"; name: string | null; isGroup: boolean | null; isGlobalRoom: boolean | null }
+    // The target has since been deleted
+    | null;
+};
+
+export type ModerationActionWithActor = ModerationAction & {
+  actor: Pick<UserProfile, "id" | "username"> | null;
+};
+
+export type DeliveryStatus = "sent" | "delivered" | "read";
+
+// Where one recipient is with a message; a read message always counts as delivered
+export type MessageReceipt = {
+  userId: string;
+  deliveredAt: Date | null;
+  readAt: Date | null;
+};
+
+// How many people reacted to a message with one emoji
+export type MessageReaction = {
+  emoji: string;
+  count: number;
+  // Whether the user the message was loaded for is one of them
+  reacted: boolean;
+};
+
+// Replies to a root message, as seen by the user it was loaded for
+export type ThreadSummary = {
+  replyCount: number;
+  lastReplyAt: Date | null;
+  // Replies from others since the user last opened the thread
+  unreadCount: number;
+};
+
 export type MessageWithSender = Message & {
   sender: UserProfile;
   replyTo?: MessageWithSender;
+  // Only set on messages that have thread replies
+  thread?: ThreadSummary;
   isRead?: boolean;
+  // Only set on the current user's own messages
+  deliveryStatus?: DeliveryStatus;
+  receipts?: MessageReceipt[];
+  // In the order each emoji was first used
+  reactions?: MessageReaction[];
+};
+
+// Wrap each match in a search result snippet. Control characters can't be
+// confused with message text or markup, so clients split on them to highlight.
+export const SEARCH_HIGHLIGHT_START = "\u0002";
+export const SEARCH_HIGHLIGHT_END = "\u0003";
+
+export type MessageThread = {
+  root: MessageWithSender;
+  replies: MessageWithSender[];
+};
+
+export type MessageSearchResult = {
+  id: string;
+  chatId: string;
+  // Set when the match is a thread reply
+  threadRootId: string | null;
+  chatName: string | null;
+  sender: Pick<UserProfile, "id" | "username" | "firstName" | "lastName" | "profileImageUrl">;
+  // The text around the matches, marked with SEARCH_HIGHLIGHT_START/END
+  snippet: string;
+  createdAt: Date | null;
+};
+
+// What a user can do, from their role and the rooms they moderate
+export type UserPermissions = {
+  capabilities: Capability[];
+  moderatedRoomIds: string[];
+};
+
+export type RoomModerator = Pick<UserProfile, "id" | "username" | "firstName" | "lastName" | "profileImageUrl"> & {
+  assignedAt: Date;
+};
+
+export function hasCapability(role: string | null | undefined, capability: Capability): boolean {
+  return ROLE_CAPABILITIES[role as UserRole]?.includes(capability) ?? false;
+}
+
+// A message is only as far along as its least caught-up recipient
+export function getDeliveryStatus(receipts: MessageReceipt[]): DeliveryStatus {
+  if (receipts.length === 0) return "sent";
+  if (receipts.every((receipt) => receipt.readAt)) return "read";
+  if (receipts.every((receipt) => receipt.deliveredAt)) return "delivered";
+  return "sent";
+}
+
+// Realtime events pushed from the server over the WebSocket connection
+export const REALTIME_PATH = "/ws";
+
+// Close code for sockets whose session was revoked, e.g. when the user is banned;
+// clients sign out instead of reconnecting
+export const SESSION_REVOKED_CLOSE_CODE = 4001;
+
+// Calls
+export type CallMedia = "audio" | "video";
+export type CallEndReason =
+  | "hangup"
+  | "declined"
+  | "cancelled"
+  | "busy"
+  | "unavailable"
+  | "no_answer"
+  | "disconnected"
+  | "answered_elsewhere";
+export type CallParticipant = { id: string; displayName: string; profileImageUrl: string | null };
+// WebRTC session descriptions and ICE candidates, relayed as-is between the two devices in a call
+export type CallSignal =
+  | { type: "offer" | "answer"; sdp: string }
+  | { type: "candidate"; candidate: { candidate: string; sdpMid?: string | null; sdpMLineIndex?: number | null } };
+
+// Group calls. Media is exchanged with "peers" handed out by the server: other
+// participants with the built-in mesh forwarding, or a media server with an SFU.
+export type GroupCallParticipant = CallParticipant & { isMuted: boolean; isCameraOff: boolean; joinedAt: Date };
+export type GroupCallSummary = {
+  callId: string;
+  chatId: string;
+  media: CallMedia;
+  startedAt: Date;
+  participants: GroupCallParticipant[];
+  maxParticipants: number;
 };
+
+export type ServerEvent =
+  | { type: "message.created"; chatId: string; message: MessageWithSender }
+  | { type: "message.updated"; chatId: string; message: MessageWithSender }
+  | { type: "message.deleted"; chatId: string; messageId: string }
+  // `reactions` are the message's counts after `userId` reacted or took their reaction back
+  | { type: "message.reactions"; chatId: string; messageId: string; userId: string; emoji: string; reacted: boolean; reactions: Omit<MessageReaction, "reacted">[] }
+  | { type: "chat.updated"; chatId: string }
+  // The recipient was let into a full chat from its waitlist
+  | { type: "chat.joined"; chatId: string; chatName: string | null }
+  // The recipient's own timed ban or restriction ran out
+  | { type: "sanction.lifted"; sanction: "ban" | "restriction" }
+  | { type: "typing"; chatId: string; userId: string; displayName: string; isTyping: boolean }
+  | { type: "presence"; userId: string; isOnline: boolean; lastSeen: Date | null }
+  | { type: "receipt"; chatId: string; userId: string; status: "delivered" | "read"; messageId: string; at: Date }
+  | { type: "call.incoming"; callId: string; chatId: string; media: CallMedia; caller: CallParticipant }
+  | { type: "call.ringing"; callId: string }
+  | { type: "call.accepted"; callId: string }
+  | { type: "call.signal"; callId: string; signal: CallSignal }
+  | { type: "call.ended"; callId: string; reason: CallEndReason; duration: number | null }
+  | { type: "groupCall.updated"; chatId: string; call: GroupCallSummary | null }
+  | { type: "groupCall.joined"; callId: string; chatId: string; peers: string[] }
+  | { type: "groupCall.left"; callId: string | null; reason: "left" | "joined_elsewhere" | "full" | "unavailable" }
+  | { type: "groupCall.peerLeft"; callId: string; peerId: string }
+  | { type: "groupCall.signal"; callId: string; peerId: string; signal: CallSignal };
+
+// Events sent from clients to the server over the WebSocket connection
+export type ClientEvent =
+  | { type: "typing"; chatId: string; isTyping: boolean }
+  | { type: "call.start"; callId: string; chatId: string; media: CallMedia }
+  | { type: "call.accept"; callId: string }
+  | { type: "call.decline"; callId: string }
+  | { type: "call.end"; callId: string }
+  | { type: "call.signal"; callId: string; signal: CallSignal }
+  | { type: "groupCall.join"; chatId: string; media: CallMedia }
+  | { type: "groupCall.leave"; callId: string }
+  | { type: "groupCall.state"; callId: string; isMuted: boolean; isCameraOff: boolean }
+  | { type: "groupCall.signal"; callId: string; peerId: string; signal: CallSignal };